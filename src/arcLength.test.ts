@@ -0,0 +1,90 @@
+/**
+ * Tests for arc-length tables.
+ * These tests cover: ArcLengthTable lookups and the cached, invalidated
+ * tables of CatmullRomSpline and the other spline families.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { ArcLengthTable } from './arcLength';
+import { CatmullRomSpline } from './catmullRom';
+import { HermiteSpline } from './splines';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+describe('ArcLengthTable', () => {
+  test('a line with uneven speed maps distance to t', () => {
+    // x = 100 t², so distance d is reached at t = sqrt(d / 100)
+    const table = new ArcLengthTable((t) => v(100 * t * t, 0), 1000);
+    expect(table.length).toBeCloseTo(100);
+    expect(table.tAtLength(25)).toBeCloseTo(0.5, 3);
+    expect(table.tAtFraction(0.64)).toBeCloseTo(0.8, 3);
+    expect(table.lengthAt(0.5)).toBeCloseTo(25, 1);
+  });
+
+  test('lookups clamp outside the curve', () => {
+    const table = new ArcLengthTable((t) => v(10 * t, 0), 4);
+    expect(table.samples).toBe(4);
+    expect(table.tAtLength(-5)).toBe(0);
+    expect(table.tAtLength(50)).toBe(1);
+    expect(table.lengthAt(2)).toBeCloseTo(10);
+    expect(new ArcLengthTable(() => v(1, 1)).tAtFraction(0.5)).toBe(0);
+  });
+});
+
+describe('cached spline tables', () => {
+  test('CatmullRomSpline caches until the points change', () => {
+    const spline = new CatmullRomSpline({ alpha: 0 });
+    spline.setPoints([v(0, 0), v(50, 0), v(100, 0)]);
+    const table = spline.getArcLengthTable();
+    expect(spline.getArcLengthTable()).toBe(table);
+    expect(spline.getLength()).toBeCloseTo(100);
+
+    spline.addPoint(100, 50);
+    expect(spline.getArcLengthTable()).not.toBe(table);
+    expect(spline.getLength()).toBeGreaterThan(145);
+
+    // In-place edits need an explicit invalidate
+    const cached = spline.getArcLengthTable();
+    spline.points[3]!.y = 100;
+    expect(spline.getArcLengthTable()).toBe(cached);
+    spline.invalidate();
+    expect(spline.getArcLengthTable()).not.toBe(cached);
+  });
+
+  test('a different resolution rebuilds the table', () => {
+    const spline = new CatmullRomSpline();
+    spline.setPoints([v(0, 0), v(50, 20), v(100, 0)]);
+    expect(spline.getArcLengthTable(64).samples).toBe(64);
+    expect(spline.getArcLengthTable().samples).toBe(256);
+  });
+
+  test('evenly spaced points and arc-length t use the table', () => {
+    const spline = new CatmullRomSpline({ alpha: 0 });
+    spline.setPoints([v(0, 0), v(30, 40), v(60, 0), v(120, 20)]);
+    const pts = spline.getEvenlySpacedPoints(11);
+    expect(pts).toHaveLength(11);
+    const gap = spline.getLength() / 10;
+    for (let i = 1; i < pts.length; i++) {
+      // Chords are a little shorter than the arcs around the bends
+      const chord = Math.hypot(pts[i]!.x - pts[i - 1]!.x, pts[i]!.y - pts[i - 1]!.y);
+      expect(chord).toBeLessThanOrEqual(gap + 1e-6);
+      expect(chord).toBeGreaterThan(gap * 0.9);
+    }
+
+    const table = spline.getArcLengthTable();
+    expect(table.lengthAt(spline.tToArcLengthT(0.5))).toBeCloseTo(table.length / 2, 6);
+    expect(spline.tToArcLengthT(0)).toBe(0);
+    expect(spline.tToArcLengthT(1)).toBe(1);
+  });
+
+  test('spline families invalidate on their own setters', () => {
+    const spline = new HermiteSpline();
+    spline.setPoints([v(0, 0), v(100, 0)]);
+    const table = spline.getArcLengthTable();
+    spline.setTangent(0, v(0, 300));
+    expect(spline.getArcLengthTable()).not.toBe(table);
+    expect(spline.getLength()).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,99 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Arc-length lookup table for parametric curves.
+ *
+ * Samples a curve once and stores the cumulative length at evenly spaced
+ * parameters, so converting between distance and parameter is a binary
+ * search instead of a resample. Splines cache one table and drop it when
+ * their points change.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default number of samples in an arc-length table */
+export const ARC_LENGTH_SAMPLES = 256;
+
+// ============================================================================
+// Arc-Length Table
+// ============================================================================
+
+/**
+ * Cumulative arc length at `samples + 1` evenly spaced parameters from 0 to 1.
+ *
+ * @example
+ * ```ts
+ * const table = new ArcLengthTable((t) => spline.getPoint(t));
+ * const halfway = spline.getPoint(table.tAtFraction(0.5));
+ * ```
+ */
+export class ArcLengthTable {
+  readonly samples: number;
+  readonly length: number;
+  private readonly lengths: Float64Array;
+
+  /**
+   * Sample a curve and build the table.
+   * @param getPoint - Point on the curve at t (0 to 1)
+   * @param samples - Number of chords to measure (default: 256)
+   */
+  constructor(getPoint: (t: number) => p5.Vector, samples = ARC_LENGTH_SAMPLES) {
+    this.samples = Math.max(1, Math.floor(samples));
+    this.lengths = new Float64Array(this.samples + 1);
+
+    let prev = getPoint(0);
+    let total = 0;
+    for (let i = 1; i <= this.samples; i++) {
+      const current = getPoint(i / this.samples);
+      total += Math.hypot(current.x - prev.x, current.y - prev.y, current.z - prev.z);
+      this.lengths[i] = total;
+      prev = current;
+    }
+    this.length = total;
+  }
+
+  /**
+   * Arc length from the start to parameter t.
+   * @param t - Curve parameter (0 to 1)
+   * @returns Distance along the curve
+   */
+  lengthAt(t: number): number {
+    const x = Math.max(0, Math.min(1, t)) * this.samples;
+    const i = Math.min(Math.floor(x), this.samples - 1);
+    const a = this.lengths[i]!;
+    return a + (this.lengths[i + 1]! - a) * (x - i);
+  }
+
+  /**
+   * Curve parameter at a distance from the start (binary search).
+   * @param distance - Distance along the curve, clamped to [0, length]
+   * @returns Curve parameter (0 to 1)
+   */
+  tAtLength(distance: number): number {
+    if (distance <= 0 || this.length === 0) return 0;
+    if (distance >= this.length) return 1;
+
+    // Last sample at or before the distance
+    let lo = 0;
+    let hi = this.samples;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (this.lengths[mid]! <= distance) lo = mid;
+      else hi = mid;
+    }
+    const a = this.lengths[lo]!;
+    const span = this.lengths[lo + 1]! - a;
+    const ratio = span > 0 ? (distance - a) / span : 0;
+    return (lo + ratio) / this.samples;
+  }
+
+  /**
+   * Curve parameter at a fraction of the total length.
+   * @param fraction - Fraction of the length (0 to 1)
+   * @returns Curve parameter (0 to 1)
+   */
+  tAtFraction(fraction: number): number {
+    return this.tAtLength(fraction * this.length);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Tests for Bézier curves.
+ * These tests cover: bezierPoint, bezierDerivative, copyBezier, splitBezier,
+ * flattenBezier, bezierLength/bezierTAtLength/evenlySpacedBezierPoints,
+ * bezierBoundingBox, bezierLineIntersections and catmullRomToBeziers.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  bezierBoundingBox,
+  bezierDerivative,
+  bezierLength,
+  bezierLineIntersections,
+  bezierPoint,
+  bezierTAtLength,
+  catmullRomToBeziers,
+  copyBezier,
+  evenlySpacedBezierPoints,
+  flattenBezier,
+  splitBezier,
+  type CubicBezier,
+  type QuadraticBezier,
+} from './bezier';
+import { createCatmullRomSpline } from './catmullRom';
+import { pointSegmentDistance } from './line';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number, z = 0): p5.Vector => createVector(x, y, z);
+
+const arch: QuadraticBezier = [v(0, 0), v(10, 20), v(20, 0)];
+const wave: CubicBezier = [v(0, 0), v(10, 30), v(20, -30), v(30, 0)];
+const line: CubicBezier = [v(0, 0), v(10, 0), v(20, 0), v(30, 0)];
+
+const expectPoint = (p: p5.Vector | undefined, x: number, y: number) => {
+  expect(p).toBeDefined();
+  expect(p!.x).toBeCloseTo(x);
+  expect(p!.y).toBeCloseTo(y);
+};
+
+describe('evaluation', () => {
+  test('bezierPoint at ends and middle', () => {
+    expectPoint(bezierPoint(arch, 0), 0, 0);
+    expectPoint(bezierPoint(arch, 0.5), 10, 10);
+    expectPoint(bezierPoint(wave, 1), 30, 0);
+    expectPoint(bezierPoint(wave, 0.5), 15, 0);
+  });
+
+  test('3D curves keep z', () => {
+    const curve: QuadraticBezier = [v(0, 0, 0), v(0, 0, 10), v(0, 0, 20)];
+    expect(bezierPoint(curve, 0.25).z).toBeCloseTo(5);
+  });
+
+  test('bezierDerivative matches finite differences', () => {
+    const h = 1e-6;
+    for (const t of [0.1, 0.5, 0.9]) {
+      const d = bezierDerivative(wave, t);
+      const a = bezierPoint(wave, t - h);
+      const b = bezierPoint(wave, t + h);
+      expect(d.x).toBeCloseTo((b.x - a.x) / (2 * h), 3);
+      expect(d.y).toBeCloseTo((b.y - a.y) / (2 * h), 3);
+    }
+    // End tangents point at the neighbouring control points
+    expectPoint(bezierDerivative(wave, 0), 30, 90);
+    expectPoint(bezierDerivative(arch, 0, 2), 0, -80);
+    expectPoint(bezierDerivative(arch, 0.3, 3), 0, 0);
+  });
+
+  test('splitBezier halves trace the original curve', () => {
+    const [left, right] = splitBezier(wave, 0.3);
+    expect(left).toHaveLength(4);
+    expectPoint(left[3], bezierPoint(wave, 0.3).x, bezierPoint(wave, 0.3).y);
+    for (const s of [0.2, 0.6]) {
+      const p = bezierPoint(left, s);
+      expectPoint(p, bezierPoint(wave, 0.3 * s).x, bezierPoint(wave, 0.3 * s).y);
+      const q = bezierPoint(right, s);
+      const r = bezierPoint(wave, 0.3 + 0.7 * s);
+      expectPoint(q, r.x, r.y);
+    }
+    const [head, tail] = splitBezier(arch, 0.5);
+    expect(head).toHaveLength(3);
+    expectPoint(tail[0], 10, 10);
+  });
+
+  test('copyBezier keeps the degree and shares no vectors', () => {
+    const copy = copyBezier(arch);
+    expect(copy).toHaveLength(3);
+    copy[1].x = 99;
+    expect(arch[1].x).toBe(10);
+    expect(copyBezier(wave)[3]).toEqual(wave[3]);
+  });
+});
+
+describe('flattening and arc length', () => {
+  test('flattened points stay within tolerance', () => {
+    const tolerance = 0.1;
+    const pts = flattenBezier(wave, tolerance);
+    expectPoint(pts[0], 0, 0);
+    expectPoint(pts[pts.length - 1], 30, 0);
+    for (let i = 0; i <= 100; i++) {
+      const p = bezierPoint(wave, i / 100);
+      const d = Math.min(...pts.slice(1).map((q, k) => pointSegmentDistance(p, pts[k]!, q)));
+      expect(d).toBeLessThanOrEqual(tolerance);
+    }
+    expect(flattenBezier(wave, 1).length).toBeLessThan(pts.length);
+    expect(flattenBezier(line)).toHaveLength(2);
+  });
+
+  test('bezierLength of straight and curved cases', () => {
+    expect(bezierLength(line)).toBeCloseTo(30);
+    expect(bezierLength(line, 0.5)).toBeCloseTo(15);
+
+    // A quarter circle approximated with the standard handle length
+    const k = 0.5522847498;
+    const quarter: CubicBezier = [v(10, 0), v(10, 10 * k), v(10 * k, 10), v(0, 10)];
+    expect(bezierLength(quarter)).toBeCloseTo((TWO_PI * 10) / 4, 1);
+  });
+
+  test('bezierTAtLength inverts bezierLength', () => {
+    const total = bezierLength(wave);
+    for (const f of [0.1, 0.35, 0.8]) {
+      const t = bezierTAtLength(wave, f * total);
+      expect(bezierLength(wave, t)).toBeCloseTo(f * total, 5);
+    }
+    expect(bezierTAtLength(wave, -1)).toBe(0);
+    expect(bezierTAtLength(wave, total * 2)).toBe(1);
+  });
+
+  test('evenlySpacedBezierPoints have equal arc gaps', () => {
+    // Uneven control points make t and arc length differ
+    const uneven: CubicBezier = [v(0, 0), v(1, 0), v(2, 0), v(30, 0)];
+    const pts = evenlySpacedBezierPoints(uneven, 7);
+    expect(pts).toHaveLength(7);
+    pts.forEach((p, i) => expectPoint(p, i * 5, 0));
+  });
+});
+
+describe('bounds and intersections', () => {
+  test('bounding box uses curve extrema', () => {
+    const box = bezierBoundingBox(arch);
+    expectPoint(box.min, 0, 0);
+    expectPoint(box.max, 20, 10);
+
+    const waveBox = bezierBoundingBox(wave);
+    expect(waveBox.max.y).toBeLessThan(30);
+    expect(waveBox.max.y).toBeGreaterThan(5);
+    expect(waveBox.min.y).toBeCloseTo(-waveBox.max.y);
+  });
+
+  test('curve crosses a horizontal segment', () => {
+    const hits = bezierLineIntersections(wave, v(-5, 0), v(35, 0));
+    expect(hits).toHaveLength(3);
+    expect(hits.map((h) => h.t)).toEqual(hits.map((h) => h.t).sort((a, b) => a - b));
+    expectPoint(hits[1]!.point, 15, 0);
+    expect(hits[1]!.u).toBeCloseTo(0.5);
+  });
+
+  test('segment and ray kinds limit the line', () => {
+    expect(bezierLineIntersections(arch, v(0, 5), v(5, 5))).toHaveLength(1);
+    expect(bezierLineIntersections(arch, v(0, 5), v(5, 5), 'ray')).toHaveLength(2);
+    expect(bezierLineIntersections(arch, v(5, 5), v(0, 5), 'ray')).toHaveLength(1);
+    expect(bezierLineIntersections(arch, v(0, 5), v(1, 5), 'line')).toHaveLength(2);
+    expect(bezierLineIntersections(arch, v(0, 20), v(20, 20), 'line')).toHaveLength(0);
+  });
+
+  test('intersection points lie on both curve and line', () => {
+    const a = v(0, -10);
+    const b = v(30, 10);
+    for (const hit of bezierLineIntersections(wave, a, b)) {
+      expect(pointSegmentDistance(hit.point, a, b)).toBeCloseTo(0, 6);
+      const p = bezierPoint(wave, hit.t);
+      expectPoint(hit.point, p.x, p.y);
+    }
+  });
+});
+
+describe('catmullRomToBeziers', () => {
+  const points = [v(0, 0), v(10, 20), v(30, 5), v(40, 30), v(60, 0)];
+
+  for (const config of [{ alpha: 0 }, { alpha: 0.5 }, { alpha: 0, tension: 0.4 }]) {
+    test(`traces the spline exactly (${JSON.stringify(config)})`, () => {
+      const spline = createCatmullRomSpline(points, config);
+      const curves = catmullRomToBeziers(spline);
+      expect(curves).toHaveLength(4);
+      curves.forEach((curve, seg) => {
+        for (const t of [0, 0.25, 0.5, 0.75, 1]) {
+          const expected = spline.getPointAtSegment(seg, t);
+          expectPoint(bezierPoint(curve, t), expected.x, expected.y);
+        }
+      });
+    });
+  }
+
+  test('closed splines give one curve per point', () => {
+    const spline = createCatmullRomSpline(points, { closed: true });
+    const curves = catmullRomToBeziers(spline);
+    expect(curves).toHaveLength(5);
+    expectPoint(curves[4]![3], 0, 0);
+    expect(catmullRomToBeziers(createCatmullRomSpline([v(0, 0)]))).toEqual([]);
+  });
+});
@@ -0,0 +1,514 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Quadratic and cubic Bézier curves.
+ *
+ * Curves are plain tuples of control points: [start, control, end] or
+ * [start, control1, control2, end]. Evaluation, derivatives and splitting use
+ * de Casteljau's algorithm and keep z, so 3D curves work too; flattening,
+ * bounding boxes and intersections are 2D.
+ *
+ * Uses:
+ * - Exact curves in SVG paths (see `SvgWriter.addBeziers`)
+ * - Adaptive polylines for plotters within a distance tolerance
+ * - Constant-speed motion via arc-length parameterisation
+ * - Converting Catmull-Rom splines to Bézier segments
+ */
+
+import type { CatmullRomSpline } from './catmullRom';
+import { type BoundingBox } from './circle';
+import { type LineKind } from './line';
+import { createVector } from './vec2';
+
+/** Default flattening tolerance (largest distance from the true curve) */
+const DEFAULT_TOLERANCE = 0.25;
+
+/** Maximum subdivision depth when flattening */
+const MAX_FLATTEN_DEPTH = 16;
+
+/** Sub-intervals for arc-length quadrature */
+const LENGTH_INTERVALS = 8;
+
+/** Five-point Gauss–Legendre abscissae on [-1, 1] */
+const GAUSS_NODES = [
+  0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664, 0.906179845938664,
+];
+
+/** Five-point Gauss–Legendre weights */
+const GAUSS_WEIGHTS = [
+  0.5688888888888889, 0.4786286704993665, 0.4786286704993665, 0.2369268850561891,
+  0.2369268850561891,
+];
+
+/** Newton iterations when inverting arc length */
+const ARC_LENGTH_ITERATIONS = 24;
+
+/** Relative tolerance for polynomial roots and curve parameters */
+const ROOT_EPSILON = 1e-9;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Quadratic Bézier: start, control point, end */
+export type QuadraticBezier = readonly [p5.Vector, p5.Vector, p5.Vector];
+
+/** Cubic Bézier: start, first control point, second control point, end */
+export type CubicBezier = readonly [p5.Vector, p5.Vector, p5.Vector, p5.Vector];
+
+/** Quadratic or cubic Bézier */
+export type Bezier = QuadraticBezier | CubicBezier;
+
+/** Intersection of a curve with a line */
+export type BezierLineIntersection = {
+  /** Intersection point */
+  readonly point: p5.Vector;
+  /** Parameter along the curve (0 to 1) */
+  readonly t: number;
+  /** Parameter along the line (0 at its first point, 1 at its second) */
+  readonly u: number;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Linear interpolation including z.
+ */
+function mix(a: p5.Vector, b: p5.Vector, t: number): p5.Vector {
+  return createVector(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, a.z + (b.z - a.z) * t);
+}
+
+/**
+ * Control points of the derivative curve (one degree lower).
+ */
+function hodograph(points: readonly p5.Vector[]): p5.Vector[] {
+  const n = points.length - 1;
+  return points
+    .slice(1)
+    .map((p, i) =>
+      createVector(n * (p.x - points[i]!.x), n * (p.y - points[i]!.y), n * (p.z - points[i]!.z)),
+    );
+}
+
+/**
+ * De Casteljau evaluation for any number of control points.
+ */
+function evaluate(points: readonly p5.Vector[], t: number): p5.Vector {
+  if (points.length === 0) return createVector(0, 0);
+  let level = [...points];
+  while (level.length > 1) {
+    level = level.slice(1).map((p, i) => mix(level[i]!, p, t));
+  }
+  const p = level[0]!;
+  return createVector(p.x, p.y, p.z);
+}
+
+/**
+ * Power-basis coefficients (highest degree first) of one coordinate.
+ */
+function powerCoefficients(values: readonly number[]): number[] {
+  if (values.length === 2) {
+    const [v0, v1] = values as [number, number];
+    return [0, v1 - v0, v0];
+  }
+  if (values.length === 3) {
+    const [v0, v1, v2] = values as [number, number, number];
+    return [v0 - 2 * v1 + v2, 2 * (v1 - v0), v0];
+  }
+  const [v0, v1, v2, v3] = values as [number, number, number, number];
+  return [-v0 + 3 * v1 - 3 * v2 + v3, 3 * v0 - 6 * v1 + 3 * v2, -3 * v0 + 3 * v1, v0];
+}
+
+/**
+ * Real roots of a*t^2 + b*t + c.
+ */
+function solveQuadratic(a: number, b: number, c: number): number[] {
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c));
+  if (scale === 0) return [];
+  if (Math.abs(a) <= ROOT_EPSILON * scale)
+    return Math.abs(b) <= ROOT_EPSILON * scale ? [] : [-c / b];
+  const disc = b * b - 4 * a * c;
+  if (disc < -ROOT_EPSILON * scale * scale) return [];
+  const q = -0.5 * (b + (b < 0 ? -1 : 1) * Math.sqrt(Math.max(0, disc)));
+  return q === 0 ? [0] : [q / a, c / q];
+}
+
+/**
+ * Real roots of a*t^3 + b*t^2 + c*t + d.
+ */
+function solveCubic(a: number, b: number, c: number, d: number): number[] {
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  if (Math.abs(a) <= ROOT_EPSILON * scale) return solveQuadratic(b, c, d);
+
+  // Depressed cubic x^3 + p*x + q with t = x - B/3
+  const B = b / a;
+  const C = c / a;
+  const D = d / a;
+  const p = C - (B * B) / 3;
+  const q = (2 * B * B * B) / 27 - (B * C) / 3 + D;
+  const offset = -B / 3;
+  const disc = (q * q) / 4 + (p * p * p) / 27;
+
+  if (Math.abs(disc) <= ROOT_EPSILON * ROOT_EPSILON) {
+    if (Math.abs(p) <= ROOT_EPSILON) return [offset];
+    const u = Math.cbrt(-q / 2);
+    return [2 * u + offset, -u + offset];
+  }
+  if (disc > 0) {
+    const s = Math.sqrt(disc);
+    return [Math.cbrt(-q / 2 + s) + Math.cbrt(-q / 2 - s) + offset];
+  }
+  const r = Math.sqrt(-p / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, -q / (2 * r * r * r))));
+  return [0, 1, 2].map((k) => 2 * r * Math.cos((phi + TWO_PI * k) / 3) + offset);
+}
+
+/**
+ * Roots of a polynomial in Bernstein form (degree 1 to 3) inside [0, 1],
+ * sorted and deduplicated.
+ */
+function unitRoots(values: readonly number[]): number[] {
+  const coeffs = powerCoefficients(values);
+  const roots =
+    coeffs.length === 3
+      ? solveQuadratic(coeffs[0]!, coeffs[1]!, coeffs[2]!)
+      : solveCubic(coeffs[0]!, coeffs[1]!, coeffs[2]!, coeffs[3]!);
+  return roots
+    .filter((t) => t >= -ROOT_EPSILON && t <= 1 + ROOT_EPSILON)
+    .map((t) => Math.max(0, Math.min(1, t)))
+    .sort((s, t) => s - t)
+    .filter((t, i, all) => i === 0 || t - all[i - 1]! > ROOT_EPSILON);
+}
+
+/**
+ * Speed |B'(t)| in the plane and z.
+ */
+function speed(derivative: readonly p5.Vector[], t: number): number {
+  const d = evaluate(derivative, t);
+  return Math.hypot(d.x, d.y, d.z);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Point on a Bézier curve.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param t - Parameter (0 = start, 1 = end)
+ * @returns Point on the curve
+ *
+ * @example
+ * ```ts
+ * const curve: CubicBezier = [a, c1, c2, b];
+ * const mid = bezierPoint(curve, 0.5);
+ * ```
+ */
+export function bezierPoint(curve: Bezier, t: number): p5.Vector {
+  return evaluate(curve, t);
+}
+
+/**
+ * Derivative of a Bézier curve with respect to t.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param t - Parameter (0 to 1)
+ * @param order - Derivative order (default: 1); beyond the degree the result is zero
+ * @returns Derivative vector (the first derivative is the velocity)
+ *
+ * @example
+ * ```ts
+ * const v = bezierDerivative(curve, t);
+ * const angle = Math.atan2(v.y, v.x);
+ * ```
+ */
+export function bezierDerivative(curve: Bezier, t: number, order = 1): p5.Vector {
+  let points: readonly p5.Vector[] = curve;
+  for (let k = 0; k < order; k++) points = hodograph(points);
+  return evaluate(points, t);
+}
+
+/**
+ * Copy a curve's control points into new vectors, keeping its degree.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @returns A curve of the same type that shares no vectors with the input
+ *
+ * @example
+ * ```ts
+ * const moved = copyBezier(curve);
+ * moved[0].add(10, 0); // curve is unchanged
+ * ```
+ */
+export function copyBezier(curve: QuadraticBezier): QuadraticBezier;
+export function copyBezier(curve: CubicBezier): CubicBezier;
+export function copyBezier(curve: Bezier): Bezier;
+export function copyBezier(curve: Bezier): Bezier {
+  const copy = (p: p5.Vector) => createVector(p.x, p.y, p.z);
+  return curve.length === 3
+    ? [copy(curve[0]), copy(curve[1]), copy(curve[2])]
+    : [copy(curve[0]), copy(curve[1]), copy(curve[2]), copy(curve[3])];
+}
+
+/**
+ * Split a curve at t with de Casteljau's algorithm.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param t - Split parameter (0 to 1)
+ * @returns The parts before and after t, each of the same degree
+ *
+ * @example
+ * ```ts
+ * const [head] = splitBezier(curve, progress); // Draw a growing curve
+ * ```
+ */
+export function splitBezier(curve: QuadraticBezier, t: number): [QuadraticBezier, QuadraticBezier];
+export function splitBezier(curve: CubicBezier, t: number): [CubicBezier, CubicBezier];
+export function splitBezier(curve: Bezier, t: number): [Bezier, Bezier];
+export function splitBezier(curve: Bezier, t: number): [Bezier, Bezier] {
+  if (curve.length === 3) {
+    const [a, b, c] = curve;
+    const ab = mix(a, b, t);
+    const bc = mix(b, c, t);
+    const abc = mix(ab, bc, t);
+    return [copyBezier([a, ab, abc]), copyBezier([abc, bc, c])];
+  }
+  const [a, b, c, d] = curve;
+  const ab = mix(a, b, t);
+  const bc = mix(b, c, t);
+  const cd = mix(c, d, t);
+  const abc = mix(ab, bc, t);
+  const bcd = mix(bc, cd, t);
+  const abcd = mix(abc, bcd, t);
+  return [copyBezier([a, ab, abc, abcd]), copyBezier([abcd, bcd, cd, d])];
+}
+
+// ============================================================================
+// Flattening and Arc Length
+// ============================================================================
+
+/**
+ * Convert a curve to a polyline that stays within `tolerance` of it. Flat
+ * parts get few points and tight bends many.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param tolerance - Largest distance between polyline and curve (default: 0.25)
+ * @returns Points from start to end
+ *
+ * @example
+ * ```ts
+ * svg.addPath(flattenBezier(curve, 0.05)); // 0.05 mm for a plotter
+ * ```
+ */
+export function flattenBezier(curve: Bezier, tolerance = DEFAULT_TOLERANCE): p5.Vector[] {
+  const start = curve[0];
+  const out = [createVector(start.x, start.y, start.z)];
+
+  const subdivide = (part: Bezier, depth: number) => {
+    const a = part[0];
+    const b = part[part.length - 1]!;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.hypot(dx, dy);
+    // Inner control points bound the distance of the curve from its chord
+    let deviation = 0;
+    for (let i = 1; i < part.length - 1; i++) {
+      const p = part[i]!;
+      deviation = Math.max(
+        deviation,
+        len === 0
+          ? Math.hypot(p.x - a.x, p.y - a.y)
+          : Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / len,
+      );
+    }
+    if (deviation <= tolerance || depth >= MAX_FLATTEN_DEPTH) {
+      out.push(createVector(b.x, b.y, b.z));
+      return;
+    }
+    const [left, right] = splitBezier(part, 0.5);
+    subdivide(left, depth + 1);
+    subdivide(right, depth + 1);
+  };
+
+  subdivide(curve, 0);
+  return out;
+}
+
+/**
+ * Arc length of a curve from its start to parameter t (Gauss–Legendre quadrature).
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param t - End parameter (default: 1 for the whole curve)
+ * @returns Length
+ *
+ * @example
+ * ```ts
+ * const ink = bezierLength(curve);
+ * ```
+ */
+export function bezierLength(curve: Bezier, t = 1): number {
+  const derivative = hodograph(curve);
+  const end = Math.max(0, Math.min(1, t));
+  const h = end / LENGTH_INTERVALS;
+  let length = 0;
+  for (let i = 0; i < LENGTH_INTERVALS; i++) {
+    const mid = (i + 0.5) * h;
+    for (let k = 0; k < GAUSS_NODES.length; k++) {
+      length += GAUSS_WEIGHTS[k]! * speed(derivative, mid + (GAUSS_NODES[k]! * h) / 2);
+    }
+  }
+  return (length * h) / 2;
+}
+
+/**
+ * Parameter t at which the arc length from the start equals `length`, for
+ * constant-speed motion along a curve.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param length - Distance along the curve (clamped to the curve length)
+ * @returns Parameter (0 to 1)
+ *
+ * @example
+ * ```ts
+ * const total = bezierLength(curve);
+ * const p = bezierPoint(curve, bezierTAtLength(curve, (frameCount % 100) / 100 * total));
+ * ```
+ */
+export function bezierTAtLength(curve: Bezier, length: number): number {
+  const total = bezierLength(curve);
+  if (total === 0 || length <= 0) return 0;
+  if (length >= total) return 1;
+
+  const derivative = hodograph(curve);
+  let lo = 0;
+  let hi = 1;
+  let t = length / total;
+  for (let i = 0; i < ARC_LENGTH_ITERATIONS; i++) {
+    const error = bezierLength(curve, t) - length;
+    if (Math.abs(error) <= ROOT_EPSILON * total) break;
+    if (error > 0) hi = t;
+    else lo = t;
+    // Newton step, falling back to bisection when it leaves the bracket
+    const v = speed(derivative, t);
+    const next = v > 0 ? t - error / v : -1;
+    t = next > lo && next < hi ? next : (lo + hi) / 2;
+  }
+  return t;
+}
+
+/**
+ * Points spaced evenly by arc length along a curve.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param count - Number of points, including both ends
+ * @returns Evenly spaced points
+ *
+ * @example
+ * ```ts
+ * evenlySpacedBezierPoints(curve, 20).forEach((p) => circle(p.x, p.y, 3));
+ * ```
+ */
+export function evenlySpacedBezierPoints(curve: Bezier, count: number): p5.Vector[] {
+  if (count < 2) return count === 1 ? [bezierPoint(curve, 0)] : [];
+  const total = bezierLength(curve);
+  return Array.from({ length: count }, (_, i) =>
+    bezierPoint(curve, bezierTAtLength(curve, (total * i) / (count - 1))),
+  );
+}
+
+// ============================================================================
+// Bounds and Intersections
+// ============================================================================
+
+/**
+ * Tight axis-aligned bounding box of a curve (from the extrema of each
+ * coordinate, not the control points).
+ *
+ * @param curve - Quadratic or cubic control points
+ * @returns Bounding box
+ *
+ * @example
+ * ```ts
+ * const { min, max } = bezierBoundingBox(curve);
+ * rect(min.x, min.y, max.x - min.x, max.y - min.y);
+ * ```
+ */
+export function bezierBoundingBox(curve: Bezier): BoundingBox {
+  const derivative = hodograph(curve);
+  const ts = [
+    0,
+    1,
+    ...unitRoots(derivative.map((p) => p.x)),
+    ...unitRoots(derivative.map((p) => p.y)),
+  ];
+  const points = ts.map((t) => evaluate(curve, t));
+  return {
+    min: createVector(Math.min(...points.map((p) => p.x)), Math.min(...points.map((p) => p.y))),
+    max: createVector(Math.max(...points.map((p) => p.x)), Math.max(...points.map((p) => p.y))),
+  };
+}
+
+/**
+ * Intersections of a curve with a segment, ray or line.
+ *
+ * @param curve - Quadratic or cubic control points
+ * @param a - First point of the line
+ * @param b - Second point of the line
+ * @param kind - How the line extends beyond a and b (default: 'segment')
+ * @returns Intersections sorted along the curve; none when the curve lies on the line
+ *
+ * @example
+ * ```ts
+ * const hits = bezierLineIntersections(curve, createVector(0, 50), createVector(width, 50));
+ * hits.forEach(({ point }) => circle(point.x, point.y, 4));
+ * ```
+ */
+export function bezierLineIntersections(
+  curve: Bezier,
+  a: p5.Vector,
+  b: p5.Vector,
+  kind: LineKind = 'segment',
+): BezierLineIntersection[] {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  if (len2 === 0) return [];
+
+  // Signed distances of the control points from the line (scaled by its length)
+  const distances = curve.map((p) => (p.x - a.x) * dy - (p.y - a.y) * dx);
+  if (distances.every((d) => d === 0)) return [];
+
+  const hits: BezierLineIntersection[] = [];
+  for (const t of unitRoots(distances)) {
+    const point = evaluate(curve, t);
+    const u = ((point.x - a.x) * dx + (point.y - a.y) * dy) / len2;
+    if (kind !== 'line' && u < -ROOT_EPSILON) continue;
+    if (kind === 'segment' && u > 1 + ROOT_EPSILON) continue;
+    hits.push({ point, t, u });
+  }
+  return hits;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Convert a Catmull-Rom spline to cubic Béziers, one per segment. The result
+ * traces the spline exactly, so it can be written as SVG curve commands.
+ *
+ * @param spline - Spline to convert
+ * @returns Cubic Béziers in order
+ *
+ * @example
+ * ```ts
+ * const spline = createSmoothPath(points);
+ * svg.addBeziers(catmullRomToBeziers(spline), spline.closed);
+ * ```
+ */
+export function catmullRomToBeziers(spline: CatmullRomSpline): CubicBezier[] {
+  return Array.from({ length: spline.segmentCount }, (_, i) => spline.getSegmentBezier(i));
+}
@@ -25,6 +25,11 @@
  * All functions are pure and return new values without mutation.
  */
 
+import { ARC_LENGTH_SAMPLES, ArcLengthTable } from './arcLength';
+import type { CubicBezier } from './bezier';
+import type { Spline } from './splines';
+import { createVector } from './vec2';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -69,6 +74,24 @@ const DEFAULT_CONFIG: Required<CatmullRomConfig> = {
 /** Small value for numerical stability */
 const EPSILON = 1e-4;
 
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/**
+ * Euclidean distance between two points (including z).
+ */
+function pointDistance(a: p5.Vector, b: p5.Vector): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+/**
+ * Linear interpolation between two points (including z).
+ */
+function lerpPoint(a: p5.Vector, b: p5.Vector, t: number): p5.Vector {
+  return createVector(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, a.z + (b.z - a.z) * t);
+}
+
 // ============================================================================
 // Catmull-Rom Spline Class
 // ============================================================================
@@ -76,8 +99,9 @@ const EPSILON = 1e-4;
 /**
  * A Catmull-Rom spline that passes through all control points.
  */
-export class CatmullRomSpline {
+export class CatmullRomSpline implements Spline {
   private _points: p5.Vector[];
+  private arcLengthTable: ArcLengthTable | null = null;
   readonly alpha: number;
   readonly tension: number;
   readonly closed: boolean;
@@ -105,6 +129,15 @@ export class CatmullRomSpline {
     return this._points;
   }
 
+  /**
+   * Get the number of curve segments (one less than the points, or equal when closed).
+   * @returns Segment count (0 with fewer than two points)
+   */
+  get segmentCount(): number {
+    if (this._points.length < 2) return 0;
+    return this.closed ? this._points.length : this._points.length - 1;
+  }
+
   /**
    * Add a control point to the spline.
    * @param x - X coordinate
@@ -117,6 +150,7 @@ export class CatmullRomSpline {
     } else {
       this._points.push(createVector(x, y));
     }
+    this.invalidate();
   }
 
   /**
@@ -130,6 +164,7 @@ export class CatmullRomSpline {
       }
       return createVector(p.x, p.y);
     });
+    this.invalidate();
   }
 
   /**
@@ -137,6 +172,27 @@ export class CatmullRomSpline {
    */
   clearPoints(): void {
     this._points = [];
+    this.invalidate();
+  }
+
+  /**
+   * Drop the cached arc-length table. Called by the point setters; call it
+   * yourself after moving control points in place.
+   */
+  invalidate(): void {
+    this.arcLengthTable = null;
+  }
+
+  /**
+   * Get the cached arc-length table, building it on first use.
+   * @param samples - Table resolution (default: 256); a different value rebuilds the cache
+   * @returns Arc-length table of the current curve
+   */
+  getArcLengthTable(samples = ARC_LENGTH_SAMPLES): ArcLengthTable {
+    if (this.arcLengthTable?.samples !== samples) {
+      this.arcLengthTable = new ArcLengthTable((t) => this.getPoint(t), samples);
+    }
+    return this.arcLengthTable;
   }
 
   /**
@@ -147,7 +203,8 @@ export class CatmullRomSpline {
    */
   getPoint(t: number): p5.Vector {
     if (this._points.length < 2) {
-      return this._points[0] ? this._points[0].copy() : createVector(0, 0);
+      const first = this._points[0];
+      return first ? createVector(first.x, first.y, first.z) : createVector(0, 0);
     }
 
     // Clamp t to valid range
@@ -176,7 +233,8 @@ export class CatmullRomSpline {
    */
   getPointAtSegment(segment: number, t: number): p5.Vector {
     if (this._points.length < 2) {
-      return this._points[0] ? this._points[0].copy() : createVector(0, 0);
+      const first = this._points[0];
+      return first ? createVector(first.x, first.y, first.z) : createVector(0, 0);
     }
 
     const p0 = this.getControlPoint(segment - 1);
@@ -187,6 +245,40 @@ export class CatmullRomSpline {
     return this.interpolate(p0, p1, p2, p3, t);
   }
 
+  /**
+   * Get the cubic Bézier that traces a segment exactly. Every Catmull-Rom
+   * variant here is a cubic per segment, so no approximation is involved.
+   * @param segment - Segment index (0 to segmentCount-1)
+   * @returns Start point, two control points and end point
+   */
+  getSegmentBezier(segment: number): CubicBezier {
+    const p0 = this.getControlPoint(segment - 1);
+    const p1 = this.getControlPoint(segment);
+    const p2 = this.getControlPoint(segment + 1);
+    const p3 = this.getControlPoint(segment + 2);
+    const start = createVector(p1.x, p1.y, p1.z);
+    const end = createVector(p2.x, p2.y, p2.z);
+
+    if (this.alpha !== 0 && this.tension === 0) {
+      const [c1, c2] = this.nonUniformControls(p0, p1, p2, p3, this.alpha);
+      return [start, c1, c2, end];
+    }
+
+    // Handles are a third of the Hermite tangents (uniform is cardinal with tension 0)
+    const s = (1 - this.tension) / 6;
+    const c1 = createVector(
+      p1.x + s * (p2.x - p0.x),
+      p1.y + s * (p2.y - p0.y),
+      p1.z + s * (p2.z - p0.z),
+    );
+    const c2 = createVector(
+      p2.x - s * (p3.x - p1.x),
+      p2.y - s * (p3.y - p1.y),
+      p2.z - s * (p3.z - p1.z),
+    );
+    return [start, c1, c2, end];
+  }
+
   /**
    * Get tangent (velocity) vector at parameter t.
    * @param t - Parameter value (0 to 1)
@@ -219,17 +311,23 @@ export class CatmullRomSpline {
    */
   getDirection(t: number): p5.Vector {
     const tangent = this.getTangent(t);
-    tangent.normalize();
+    const len = Math.hypot(tangent.x, tangent.y, tangent.z);
+    if (len > 0) {
+      tangent.x /= len;
+      tangent.y /= len;
+      tangent.z /= len;
+    }
     return tangent;
   }
 
   /**
    * Get approximate curve length using numerical integration.
-   * @param samples - Number of samples for approximation (higher = more accurate)
+   * @param samples - Number of samples for approximation (default: the cached arc-length table)
    * @returns Approximate arc length
    */
-  getLength(samples = 100): number {
+  getLength(samples?: number): number {
     if (this._points.length < 2) return 0;
+    if (samples === undefined) return this.getArcLengthTable().length;
 
     let length = 0;
     let prevPoint = this.getPoint(0);
@@ -237,7 +335,7 @@ export class CatmullRomSpline {
     for (let i = 1; i <= samples; i++) {
       const t = i / samples;
       const currentPoint = this.getPoint(t);
-      length += prevPoint.dist(currentPoint);
+      length += pointDistance(prevPoint, currentPoint);
       prevPoint = currentPoint;
     }
 
@@ -282,66 +380,23 @@ export class CatmullRomSpline {
   getEvenlySpacedPoints(numPoints: number): p5.Vector[] {
     if (this._points.length < 2) return [];
 
-    const totalLength = this.getLength(200);
-    const segmentLength = totalLength / (numPoints - 1);
-    const result: p5.Vector[] = [];
-
-    result.push(this.getPoint(0));
-
-    let currentLength = 0;
-    let currentT = 0;
-    const samples = 1000;
-    const dt = 1.0 / samples;
-
-    for (let i = 1; i < numPoints - 1; i++) {
-      const targetLength = i * segmentLength;
-
-      while (currentLength < targetLength && currentT < 1.0) {
-        const p1 = this.getPoint(currentT);
-        const p2 = this.getPoint(currentT + dt);
-        currentLength += p5.Vector.dist(p1, p2);
-        currentT += dt;
-      }
-
-      result.push(this.getPoint(currentT));
-    }
-
-    result.push(this.getPoint(1));
-
-    return result;
+    const table = this.getArcLengthTable();
+    return Array.from({ length: numPoints }, (_, i) =>
+      this.getPoint(table.tAtFraction(numPoints > 1 ? i / (numPoints - 1) : 0)),
+    );
   }
 
   /**
    * Convert t parameter to arc-length parameterized t.
-   * Useful for constant-speed animation.
+   * Useful for constant-speed animation. Looks t up in the cached arc-length table.
    * @param t - Linear parameter (0 to 1)
-   * @param samples - Number of samples for approximation
+   * @param samples - Table resolution (default: 256)
    * @returns Arc-length parameterized t value
    */
-  tToArcLengthT(t: number, samples = 100): number {
+  tToArcLengthT(t: number, samples?: number): number {
     if (t <= 0) return 0;
     if (t >= 1) return 1;
-
-    const targetLength = this.getLength(samples) * t;
-    let currentLength = 0;
-    let prevPoint = this.getPoint(0);
-
-    for (let i = 1; i <= samples; i++) {
-      const currentT = i / samples;
-      const currentPoint = this.getPoint(currentT);
-      const segmentLength = p5.Vector.dist(prevPoint, currentPoint);
-
-      if (currentLength + segmentLength >= targetLength) {
-        const remaining = targetLength - currentLength;
-        const ratio = remaining / segmentLength;
-        return (i - 1 + ratio) / samples;
-      }
-
-      currentLength += segmentLength;
-      prevPoint = currentPoint;
-    }
-
-    return 1;
+    return this.getArcLengthTable(samples).tAtFraction(t);
   }
 
   /**
@@ -491,25 +546,7 @@ export class CatmullRomSpline {
     t: number,
     alpha: number,
   ): p5.Vector {
-    // Calculate knot intervals based on distance
-    let dt0 = Math.pow(p5.Vector.dist(p0, p1), alpha);
-    let dt1 = Math.pow(p5.Vector.dist(p1, p2), alpha);
-    let dt2 = Math.pow(p5.Vector.dist(p2, p3), alpha);
-
-    // Safety check for coincident points
-    if (dt1 < EPSILON) dt1 = 1.0;
-    if (dt0 < EPSILON) dt0 = dt1;
-    if (dt2 < EPSILON) dt2 = dt1;
-
-    // Calculate intermediate tangent points
-    const t1 = p5.Vector.lerp(p0, p1, dt1 / (dt0 + dt1));
-    const t2 = p5.Vector.lerp(p1, p2, dt0 / (dt0 + dt1));
-    const t3 = p5.Vector.lerp(p1, p2, dt2 / (dt1 + dt2));
-    const t4 = p5.Vector.lerp(p2, p3, dt1 / (dt1 + dt2));
-
-    // Calculate control points for cubic Bezier
-    const c1 = p5.Vector.lerp(t1, t2, dt1 / (dt0 + dt1 + dt2));
-    const c2 = p5.Vector.lerp(t3, t4, dt1 / (dt0 + dt1 + dt2));
+    const [c1, c2] = this.nonUniformControls(p0, p1, p2, p3, alpha);
 
     // Cubic Bezier interpolation
     const mt = 1 - t;
@@ -537,6 +574,37 @@ export class CatmullRomSpline {
     return result;
   }
 
+  /**
+   * Inner Bézier control points of a centripetal/chordal segment from p1 to p2.
+   * @param alpha - 0 = uniform, 0.5 = centripetal (recommended), 1.0 = chordal
+   */
+  private nonUniformControls(
+    p0: p5.Vector,
+    p1: p5.Vector,
+    p2: p5.Vector,
+    p3: p5.Vector,
+    alpha: number,
+  ): [p5.Vector, p5.Vector] {
+    // Calculate knot intervals based on distance
+    let dt0 = Math.pow(pointDistance(p0, p1), alpha);
+    let dt1 = Math.pow(pointDistance(p1, p2), alpha);
+    let dt2 = Math.pow(pointDistance(p2, p3), alpha);
+
+    // Safety check for coincident points
+    if (dt1 < EPSILON) dt1 = 1.0;
+    if (dt0 < EPSILON) dt0 = dt1;
+    if (dt2 < EPSILON) dt2 = dt1;
+
+    // Calculate intermediate tangent points
+    const t1 = lerpPoint(p0, p1, dt1 / (dt0 + dt1));
+    const t2 = lerpPoint(p1, p2, dt0 / (dt0 + dt1));
+    const t3 = lerpPoint(p1, p2, dt2 / (dt1 + dt2));
+    const t4 = lerpPoint(p2, p3, dt1 / (dt1 + dt2));
+
+    // Calculate control points for cubic Bezier
+    return [lerpPoint(t1, t2, dt1 / (dt0 + dt1 + dt2)), lerpPoint(t3, t4, dt1 / (dt0 + dt1 + dt2))];
+  }
+
   /**
    * Calculate tangent vector at parameter t.
    * This is the derivative of the interpolation function.
@@ -580,7 +648,8 @@ export class CatmullRomSpline {
       const t2 = Math.max(0, Math.min(1, t + epsilon));
       const pT1 = this.interpolate(p0, p1, p2, p3, t1);
       const pT2 = this.interpolate(p0, p1, p2, p3, t2);
-      return p5.Vector.sub(pT2, pT1).div(t2 - t1);
+      const dt = t2 - t1;
+      return createVector((pT2.x - pT1.x) / dt, (pT2.y - pT1.y) / dt, (pT2.z - pT1.z) / dt);
     }
   }
 }
@@ -4,7 +4,7 @@
  * All functions are pure and return new values without mutation.
  */
 
-import { arcPoints } from './vec2';
+import { arcPoints, createVector } from './vec2';
 
 /** Small value for floating-point comparisons */
 const EPSILON = 1e-9;
@@ -172,7 +172,7 @@ export function circleBoundingBox(center: p5.Vector, r: number): BoundingBox {
  * @returns True if point is inside or on boundary
  */
 export function pointInCircle(point: p5.Vector, center: p5.Vector, r: number): boolean {
-  const dist = p5.Vector.sub(point, center).mag();
+  const dist = Math.hypot(point.x - center.x, point.y - center.y);
   return dist <= r + EPSILON;
 }
 
@@ -185,7 +185,7 @@ export function pointInCircle(point: p5.Vector, center: p5.Vector, r: number): b
  * @returns True if circles overlap or touch
  */
 export function circlesIntersect(c1: p5.Vector, r1: number, c2: p5.Vector, r2: number): boolean {
-  const dist = p5.Vector.sub(c2, c1).mag();
+  const dist = Math.hypot(c2.x - c1.x, c2.y - c1.y);
   return dist <= r1 + r2 + EPSILON;
 }
 
@@ -196,7 +196,7 @@ export function circlesIntersect(c1: p5.Vector, r1: number, c2: p5.Vector, r2: n
  * @returns True if centers are the same (within epsilon)
  */
 export function areConcentric(c1: p5.Vector, c2: p5.Vector): boolean {
-  return p5.Vector.sub(c2, c1).mag() < EPSILON;
+  return Math.hypot(c2.x - c1.x, c2.y - c1.y) < EPSILON;
 }
 
 // ============================================================================
@@ -217,7 +217,7 @@ export function circleIntersectionPoints(
   c2: p5.Vector,
   r2: number,
 ): p5.Vector[] {
-  const d = p5.Vector.sub(c2, c1).mag();
+  const d = Math.hypot(c2.x - c1.x, c2.y - c1.y);
 
   // No intersection: circles too far apart or one inside the other
   if (d > r1 + r2 + EPSILON || d < Math.abs(r1 - r2) - EPSILON) {
@@ -344,7 +344,7 @@ export function circumcenter(p1: p5.Vector, p2: p5.Vector, p3: p5.Vector): p5.Ve
  * @returns Array of 0, 1, or 2 tangent points (empty if point is inside circle)
  */
 export function tangentPoints(point: p5.Vector, center: p5.Vector, r: number): p5.Vector[] {
-  const dist = p5.Vector.sub(point, center).mag();
+  const dist = Math.hypot(point.x - center.x, point.y - center.y);
 
   // Point inside circle
   if (dist < r - EPSILON) {
@@ -430,7 +430,7 @@ function minCircleFromBoundary(boundary: p5.Vector[]): { center: p5.Vector; radi
     const { x: x2, y: y2 } = b1;
     return {
       center: createVector((x1 + x2) / 2, (y1 + y2) / 2),
-      radius: p5.Vector.sub(b1, b0).mag() / 2,
+      radius: Math.hypot(b1.x - b0.x, b1.y - b0.y) / 2,
     };
   }
 
@@ -438,9 +438,9 @@ function minCircleFromBoundary(boundary: p5.Vector[]): { center: p5.Vector; radi
   const center = circumcenter(b0, b1, b2);
   if (center === null) {
     // Collinear - use diameter of furthest two points
-    const d01 = p5.Vector.sub(b1, b0).mag();
-    const d12 = p5.Vector.sub(b2, b1).mag();
-    const d02 = p5.Vector.sub(b2, b0).mag();
+    const d01 = Math.hypot(b1.x - b0.x, b1.y - b0.y);
+    const d12 = Math.hypot(b2.x - b1.x, b2.y - b1.y);
+    const d02 = Math.hypot(b2.x - b0.x, b2.y - b0.y);
 
     if (d01 >= d12 && d01 >= d02) {
       return minCircleFromBoundary([b0, b1]);
@@ -453,7 +453,7 @@ function minCircleFromBoundary(boundary: p5.Vector[]): { center: p5.Vector; radi
 
   return {
     center,
-    radius: p5.Vector.sub(b0, center).mag(),
+    radius: Math.hypot(b0.x - center.x, b0.y - center.y),
   };
 }
 
@@ -461,5 +461,5 @@ function minCircleFromBoundary(boundary: p5.Vector[]): { center: p5.Vector; radi
  * Exact point-in-circle test for Welzl algorithm (no epsilon tolerance).
  */
 function pointInCircleExact(point: p5.Vector, center: p5.Vector, radius: number): boolean {
-  return p5.Vector.sub(point, center).mag() <= radius + EPSILON;
+  return Math.hypot(point.x - center.x, point.y - center.y) <= radius + EPSILON;
 }
@@ -20,6 +20,9 @@
  * The PackedCircle class maintains mutable state for animation purposes.
  */
 
+import { type SeededRandom, toSeededRandom } from './random';
+import { createVector } from './vec2';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -79,8 +82,8 @@ export type CirclePackerConfig = {
   // Animation settings
   readonly circlesPerFrame?: number;
 
-  // Random seed for reproducibility
-  readonly seed?: number;
+  // Random seed, or a shared SeededRandom the packer forks its own stream from
+  readonly seed?: number | SeededRandom;
 };
 
 /** Packing statistics */
@@ -100,49 +103,6 @@ export type CircleData = {
   readonly radius: number;
 };
 
-// ============================================================================
-// Seeded Random Number Generator
-// ============================================================================
-
-/**
- * Mulberry32 seeded random number generator.
- * Produces deterministic pseudo-random numbers from a seed.
- */
-class SeededRandom {
-  private state: number;
-
-  constructor(seed: number) {
-    this.state = seed;
-  }
-
-  /**
-   * Get next random number in range [0, 1).
-   */
-  next(): number {
-    let t = (this.state += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  }
-
-  /**
-   * Get random number in range [min, max).
-   */
-  nextBetween(min: number, max: number): number {
-    return min + this.next() * (max - min);
-  }
-
-  /**
-   * Get random Gaussian using Box-Muller transform.
-   */
-  nextGaussian(mean: number, sd: number): number {
-    const u1 = this.next();
-    const u2 = this.next();
-    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-    return mean + z * sd;
-  }
-}
-
 // ============================================================================
 // Packed Circle Class
 // ============================================================================
@@ -194,7 +154,7 @@ export class PackedCircle {
    * @returns True if circles overlap
    */
   overlaps(other: PackedCircle): boolean {
-    const d = p5.Vector.dist(this.pos, other.pos);
+    const d = Math.hypot(this.pos.x - other.pos.x, this.pos.y - other.pos.y);
     return d < this.radius + other.radius;
   }
 
@@ -232,7 +192,7 @@ export class PackedCircle {
    * @returns True if contained
    */
   isInCircleBounds(bounds: CircleBounds): boolean {
-    const d = p5.Vector.dist(this.pos, bounds.center);
+    const d = Math.hypot(this.pos.x - bounds.center.x, this.pos.y - bounds.center.y);
     return d + this.radius <= bounds.radius;
   }
 
@@ -241,7 +201,8 @@ export class PackedCircle {
    * @param force - Force vector
    */
   applyForce(force: p5.Vector): void {
-    this.velocity.add(force);
+    this.velocity.x += force.x;
+    this.velocity.y += force.y;
   }
 
   /**
@@ -249,8 +210,10 @@ export class PackedCircle {
    * @param damping - Velocity damping factor
    */
   updatePhysics(damping = 0.95): void {
-    this.pos.add(this.velocity);
-    this.velocity.mult(damping);
+    this.pos.x += this.velocity.x;
+    this.pos.y += this.velocity.y;
+    this.velocity.x *= damping;
+    this.velocity.y *= damping;
   }
 
   /**
@@ -285,7 +248,8 @@ export class CirclePacker {
   private _complete: boolean;
   private totalAttempts: number;
   private activeList: PackedCircle[] | null;
-  private rng: SeededRandom;
+  private readonly rng: SeededRandom;
+  private readonly initialRngState: number;
 
   /**
    * Create a new circle packer.
@@ -321,7 +285,10 @@ export class CirclePacker {
     this._complete = false;
     this.totalAttempts = 0;
     this.activeList = null;
-    this.rng = new SeededRandom(this.config.seed);
+    // Fork shared generators so reset() only rewinds the packer's own stream
+    const seed = this.config.seed;
+    this.rng = typeof seed === 'number' ? toSeededRandom(seed) : seed.fork();
+    this.initialRngState = this.rng.getState();
   }
 
   /**
@@ -399,7 +366,8 @@ export class CirclePacker {
         pos.y + radius <= y + height
       );
     } else if (this.config.boundaryType === 'circle' && this.config.circleBounds) {
-      const d = p5.Vector.dist(pos, this.config.circleBounds.center);
+      const { center } = this.config.circleBounds;
+      const d = Math.hypot(pos.x - center.x, pos.y - center.y);
       return d + radius <= this.config.circleBounds.radius;
     }
     return true;
@@ -532,15 +500,14 @@ export class CirclePacker {
         const other = this._circles[j];
         if (!other) continue;
 
-        const force = p5.Vector.sub(circle.pos, other.pos);
-        const d = force.mag();
+        const dx = circle.pos.x - other.pos.x;
+        const dy = circle.pos.y - other.pos.y;
+        const d = Math.hypot(dx, dy);
         const minDist = circle.radius + other.radius + this.config.separation;
 
         if (d < minDist && d > 0) {
-          force.normalize();
           const strength = (minDist - d) * this.config.separationForce;
-          force.mult(strength);
-          circle.applyForce(force);
+          circle.applyForce(createVector((dx / d) * strength, (dy / d) * strength));
         }
       }
 
@@ -562,14 +529,14 @@ export class CirclePacker {
           circle.applyForce(createVector(0, -this.config.boundaryForce));
         }
       } else if (this.config.boundaryType === 'circle' && this.config.circleBounds) {
-        const toCenter = p5.Vector.sub(this.config.circleBounds.center, circle.pos);
-        const d = toCenter.mag();
+        const dx = this.config.circleBounds.center.x - circle.pos.x;
+        const dy = this.config.circleBounds.center.y - circle.pos.y;
+        const d = Math.hypot(dx, dy);
         const maxDist = this.config.circleBounds.radius - circle.radius;
 
         if (d > maxDist) {
-          toCenter.normalize();
-          toCenter.mult(this.config.boundaryForce);
-          circle.applyForce(toCenter);
+          const strength = this.config.boundaryForce / d;
+          circle.applyForce(createVector(dx * strength, dy * strength));
         }
       }
 
@@ -665,7 +632,7 @@ export class CirclePacker {
     this._complete = false;
     this.totalAttempts = 0;
     this.activeList = null;
-    this.rng = new SeededRandom(this.config.seed);
+    this.rng.setState(this.initialRngState);
   }
 
   /**
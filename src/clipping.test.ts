@@ -0,0 +1,182 @@
+/**
+ * Tests for segment and polyline clipping.
+ * These tests cover: clipSegmentLiangBarsky, clipSegmentCohenSutherland,
+ * clipSegmentToCircle, clipSegment/clipSegments/clipLineSegments and
+ * clipPolyline splitting for open and closed polylines.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  clipLineSegments,
+  clipPolyline,
+  clipSegment,
+  clipSegmentCohenSutherland,
+  clipSegmentLiangBarsky,
+  clipSegments,
+  clipSegmentToCircle,
+  type ClipCircle,
+} from './clipping';
+import { type Segment } from './line';
+import { LineSegment } from './marchingSquares';
+import { type AABB } from './polygons';
+import { createVector } from './vec2';
+
+const box: AABB = [0, 0, 10, 10];
+const disc: ClipCircle = { center: createVector(0, 0), radius: 5 };
+
+const expectSegment = (seg: Segment | null, x0: number, y0: number, x1: number, y1: number) => {
+  expect(seg).not.toBeNull();
+  expect(seg![0].x).toBeCloseTo(x0);
+  expect(seg![0].y).toBeCloseTo(y0);
+  expect(seg![1].x).toBeCloseTo(x1);
+  expect(seg![1].y).toBeCloseTo(y1);
+};
+
+describe('rectangle clipping', () => {
+  for (const [name, clip] of [
+    ['Liang–Barsky', clipSegmentLiangBarsky],
+    ['Cohen–Sutherland', clipSegmentCohenSutherland],
+  ] as const) {
+    test(`${name} keeps, trims and rejects segments`, () => {
+      expectSegment(clip(createVector(2, 2), createVector(8, 3), box), 2, 2, 8, 3);
+      expectSegment(clip(createVector(-5, 5), createVector(15, 5), box), 0, 5, 10, 5);
+      expectSegment(clip(createVector(5, 5), createVector(5, 20), box), 5, 5, 5, 10);
+      expectSegment(clip(createVector(-5, 5), createVector(5, -5), box), 0, 0, 0, 0);
+      expect(clip(createVector(-5, 0), createVector(0, -5), box)).toBeNull();
+      expect(clip(createVector(11, 0), createVector(11, 10), box)).toBeNull();
+    });
+
+    test(`${name} keeps the segment direction`, () => {
+      expectSegment(clip(createVector(15, 5), createVector(-5, 5), box), 10, 5, 0, 5);
+    });
+  }
+
+  test('both algorithms agree on random segments', () => {
+    let seed = 7;
+    const rand = () => {
+      seed = (seed * 16807) % 2147483647;
+      return (seed / 2147483647) * 30 - 10;
+    };
+    for (let i = 0; i < 200; i++) {
+      const a = createVector(rand(), rand());
+      const b = createVector(rand(), rand());
+      const lb = clipSegmentLiangBarsky(a, b, box);
+      const cs = clipSegmentCohenSutherland(a, b, box);
+      expect(lb === null).toBe(cs === null);
+      if (lb && cs) expectSegment(cs, lb[0].x, lb[0].y, lb[1].x, lb[1].y);
+    }
+  });
+
+  test('accepts a BoundingBox', () => {
+    const bounds = { min: createVector(0, 0), max: createVector(10, 10) };
+    expectSegment(
+      clipSegmentLiangBarsky(createVector(-5, 5), createVector(5, 5), bounds),
+      0,
+      5,
+      5,
+      5,
+    );
+  });
+});
+
+describe('circle clipping', () => {
+  test('chords, partial segments and misses', () => {
+    expectSegment(
+      clipSegmentToCircle(createVector(-10, 0), createVector(10, 0), disc),
+      -5,
+      0,
+      5,
+      0,
+    );
+    expectSegment(clipSegmentToCircle(createVector(0, 0), createVector(10, 0), disc), 0, 0, 5, 0);
+    expectSegment(clipSegmentToCircle(createVector(0, 10), createVector(0, 1), disc), 0, 5, 0, 1);
+    expectSegment(clipSegmentToCircle(createVector(1, 1), createVector(2, 1), disc), 1, 1, 2, 1);
+    expect(clipSegmentToCircle(createVector(-10, 6), createVector(10, 6), disc)).toBeNull();
+    expect(clipSegmentToCircle(createVector(6, 0), createVector(10, 0), disc)).toBeNull();
+  });
+
+  test('tangent segments are outside', () => {
+    expect(clipSegmentToCircle(createVector(-10, 5), createVector(10, 5), disc)).toBeNull();
+  });
+});
+
+describe('segment lists', () => {
+  test('clipSegment dispatches on the frame', () => {
+    const a = createVector(-10, 0);
+    const b = createVector(10, 0);
+    expectSegment(clipSegment(a, b, disc), -5, 0, 5, 0);
+    expectSegment(clipSegment(a, b, box), 0, 0, 10, 0);
+  });
+
+  test('clipSegments drops outside segments', () => {
+    const segments: Segment[] = [
+      [createVector(-10, 0), createVector(10, 0)],
+      [createVector(20, 20), createVector(30, 30)],
+    ];
+    expect(clipSegments(segments, disc)).toHaveLength(1);
+  });
+
+  test('clipLineSegments keeps marching squares segments', () => {
+    const clipped = clipLineSegments(
+      [new LineSegment(-5, 5, 15, 5), new LineSegment(20, 0, 20, 10)],
+      box,
+    );
+    expect(clipped).toHaveLength(1);
+    expect(clipped[0]).toBeInstanceOf(LineSegment);
+    expect(clipped[0]!.x1).toBeCloseTo(0);
+    expect(clipped[0]!.x2).toBeCloseTo(10);
+  });
+});
+
+describe('clipPolyline', () => {
+  test('splits where the line leaves and re-enters', () => {
+    // A wave crossing the top edge of the box twice
+    const wave = [
+      createVector(1, 5),
+      createVector(3, 15),
+      createVector(5, 5),
+      createVector(7, 15),
+      createVector(9, 5),
+    ];
+    const pieces = clipPolyline(wave, box);
+    expect(pieces).toHaveLength(3);
+    expect(pieces[0]).toHaveLength(2);
+    expect(pieces[1]).toHaveLength(3);
+    expect(pieces[1]![1]!.x).toBe(5);
+    for (const piece of pieces) {
+      for (const p of piece) expect(p.y).toBeLessThanOrEqual(10);
+    }
+  });
+
+  test('a polyline fully inside stays whole', () => {
+    const pts = [createVector(1, 1), createVector(2, 3), createVector(4, 2)];
+    expect(clipPolyline(pts, box)).toHaveLength(1);
+    expect(clipPolyline(pts, box)[0]).toHaveLength(3);
+    expect(clipPolyline([createVector(20, 20), createVector(30, 30)], box)).toEqual([]);
+  });
+
+  test('closed polylines join the piece across the start point', () => {
+    // A square straddling the right side of the disc, starting inside
+    const square = [
+      createVector(3, -3),
+      createVector(8, -3),
+      createVector(8, 3),
+      createVector(3, 3),
+    ];
+    const pieces = clipPolyline(square, disc, true);
+    expect(pieces).toHaveLength(1);
+    const piece = pieces[0]!;
+    expect(Math.hypot(piece[0]!.x, piece[0]!.y)).toBeCloseTo(5);
+    expect(Math.hypot(piece[piece.length - 1]!.x, piece[piece.length - 1]!.y)).toBeCloseTo(5);
+    expect(piece).toHaveLength(4);
+  });
+
+  test('closed polyline inside the frame ends at its start', () => {
+    const square = [createVector(1, 1), createVector(2, 1), createVector(2, 2), createVector(1, 2)];
+    const pieces = clipPolyline(square, box, true);
+    expect(pieces).toHaveLength(1);
+    expect(pieces[0]).toHaveLength(5);
+    expect(pieces[0]![4]!.x).toBe(1);
+  });
+});
@@ -0,0 +1,371 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Clip segments and polylines to a rectangular or circular frame, e.g. to crop
+ * contours, hatching or streamlines to the page.
+ *
+ * Rectangles can be given as an `AABB` tuple or a circle-module `BoundingBox`.
+ * Segments are clipped with Liang–Barsky by default; Cohen–Sutherland is also
+ * available. Polylines are split wherever they leave the frame and re-enter it.
+ */
+
+import { type BoundingBox, circleLineIntersection } from './circle';
+import { type Segment } from './line';
+import { LineSegment } from './marchingSquares';
+import { type AABB } from './polygons';
+import { createVector } from './vec2';
+
+/** Cohen–Sutherland outcode of a point inside the rectangle */
+const INSIDE = 0;
+/** Point is left of the rectangle */
+const LEFT = 1;
+/** Point is right of the rectangle */
+const RIGHT = 2;
+/** Point is above the rectangle (smaller y) */
+const TOP = 4;
+/** Point is below the rectangle (larger y) */
+const BOTTOM = 8;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Circular clipping frame */
+export type ClipCircle = {
+  readonly center: p5.Vector;
+  readonly radius: number;
+};
+
+/** Rectangle or circle to clip against */
+export type ClipFrame = AABB | BoundingBox | ClipCircle;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rectangle bounds as [minX, minY, maxX, maxY].
+ */
+function rectBounds(rect: AABB | BoundingBox): AABB {
+  if (Array.isArray(rect)) return rect as AABB;
+  const { min, max } = rect as BoundingBox;
+  return [min.x, min.y, max.x, max.y];
+}
+
+/**
+ * Point at parameter t along ab.
+ */
+function at(a: p5.Vector, b: p5.Vector, t: number): p5.Vector {
+  return createVector(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+}
+
+/**
+ * Parameter range of ab inside a rectangle (Liang–Barsky), or null.
+ */
+function rectRange(a: p5.Vector, b: p5.Vector, bounds: AABB): [number, number] | null {
+  const [minX, minY, maxX, maxY] = bounds;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const p = [-dx, dx, -dy, dy];
+  const q = [a.x - minX, maxX - a.x, a.y - minY, maxY - a.y];
+  let t0 = 0;
+  let t1 = 1;
+
+  for (let i = 0; i < 4; i++) {
+    const pi = p[i]!;
+    const qi = q[i]!;
+    if (pi === 0) {
+      // Parallel to this edge: inside or out for the whole segment
+      if (qi < 0) return null;
+      continue;
+    }
+    const r = qi / pi;
+    if (pi < 0) t0 = Math.max(t0, r);
+    else t1 = Math.min(t1, r);
+    if (t0 > t1) return null;
+  }
+  return [t0, t1];
+}
+
+/**
+ * Parameter range of ab inside a circle, or null. Tangent segments are outside.
+ */
+function circleRange(a: p5.Vector, b: p5.Vector, circle: ClipCircle): [number, number] | null {
+  const { center, radius } = circle;
+  const inside = (p: p5.Vector) => Math.hypot(p.x - center.x, p.y - center.y) <= radius;
+  const inA = inside(a);
+  const inB = inside(b);
+  if (inA && inB) return [0, 1];
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  if (len2 === 0) return null;
+  const hits = circleLineIntersection(a, b, center, radius)
+    .map((p) => Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)))
+    .sort((s, t) => s - t);
+
+  if (inA) return [0, hits[hits.length - 1] ?? 0];
+  if (inB) return [hits[0] ?? 1, 1];
+  return hits.length === 2 && hits[1]! > hits[0]! ? [hits[0]!, hits[1]!] : null;
+}
+
+/**
+ * Parameter range of ab inside any frame.
+ */
+function frameRange(a: p5.Vector, b: p5.Vector, frame: ClipFrame): [number, number] | null {
+  if ('radius' in frame) return circleRange(a, b, frame);
+  return rectRange(a, b, rectBounds(frame));
+}
+
+/**
+ * Cohen–Sutherland outcode of a point.
+ */
+function outcode(x: number, y: number, bounds: AABB): number {
+  const [minX, minY, maxX, maxY] = bounds;
+  let code = INSIDE;
+  if (x < minX) code |= LEFT;
+  else if (x > maxX) code |= RIGHT;
+  if (y < minY) code |= TOP;
+  else if (y > maxY) code |= BOTTOM;
+  return code;
+}
+
+// ============================================================================
+// Segment Clipping
+// ============================================================================
+
+/**
+ * Clip a segment to a rectangle with the Liang–Barsky algorithm.
+ *
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param rect - Rectangle as AABB or BoundingBox
+ * @returns Clipped segment in the original direction, or null if it lies outside
+ *
+ * @example
+ * ```ts
+ * const page: AABB = [0, 0, width, height];
+ * const seg = clipSegmentLiangBarsky(p, q, page);
+ * if (seg) line(seg[0].x, seg[0].y, seg[1].x, seg[1].y);
+ * ```
+ */
+export function clipSegmentLiangBarsky(
+  a: p5.Vector,
+  b: p5.Vector,
+  rect: AABB | BoundingBox,
+): Segment | null {
+  const range = rectRange(a, b, rectBounds(rect));
+  return range ? [at(a, b, range[0]), at(a, b, range[1])] : null;
+}
+
+/**
+ * Clip a segment to a rectangle with the Cohen–Sutherland algorithm. Gives the
+ * same result as Liang–Barsky and is quicker when most segments lie fully
+ * inside or fully on one side of the rectangle.
+ *
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param rect - Rectangle as AABB or BoundingBox
+ * @returns Clipped segment in the original direction, or null if it lies outside
+ *
+ * @example
+ * ```ts
+ * const seg = clipSegmentCohenSutherland(p, q, [0, 0, 210, 297]);
+ * ```
+ */
+export function clipSegmentCohenSutherland(
+  a: p5.Vector,
+  b: p5.Vector,
+  rect: AABB | BoundingBox,
+): Segment | null {
+  const bounds = rectBounds(rect);
+  const [minX, minY, maxX, maxY] = bounds;
+  let x0 = a.x;
+  let y0 = a.y;
+  let x1 = b.x;
+  let y1 = b.y;
+  let code0 = outcode(x0, y0, bounds);
+  let code1 = outcode(x1, y1, bounds);
+
+  for (;;) {
+    if ((code0 | code1) === INSIDE) return [createVector(x0, y0), createVector(x1, y1)];
+    if ((code0 & code1) !== INSIDE) return null;
+
+    // Move the outside end point onto the edge it crosses
+    const code = code0 !== INSIDE ? code0 : code1;
+    let x: number;
+    let y: number;
+    if (code & BOTTOM) {
+      x = x0 + ((x1 - x0) * (maxY - y0)) / (y1 - y0);
+      y = maxY;
+    } else if (code & TOP) {
+      x = x0 + ((x1 - x0) * (minY - y0)) / (y1 - y0);
+      y = minY;
+    } else if (code & RIGHT) {
+      y = y0 + ((y1 - y0) * (maxX - x0)) / (x1 - x0);
+      x = maxX;
+    } else {
+      y = y0 + ((y1 - y0) * (minX - x0)) / (x1 - x0);
+      x = minX;
+    }
+
+    if (code === code0) {
+      x0 = x;
+      y0 = y;
+      code0 = outcode(x0, y0, bounds);
+    } else {
+      x1 = x;
+      y1 = y;
+      code1 = outcode(x1, y1, bounds);
+    }
+  }
+}
+
+/**
+ * Clip a segment to a circle using its intersections with the boundary.
+ *
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param circle - Circle frame
+ * @returns Chord of the segment inside the circle, or null (tangents are outside)
+ *
+ * @example
+ * ```ts
+ * const seg = clipSegmentToCircle(p, q, { center: createVector(0, 0), radius: 80 });
+ * ```
+ */
+export function clipSegmentToCircle(
+  a: p5.Vector,
+  b: p5.Vector,
+  circle: ClipCircle,
+): Segment | null {
+  const range = circleRange(a, b, circle);
+  return range ? [at(a, b, range[0]), at(a, b, range[1])] : null;
+}
+
+/**
+ * Clip a segment to a rectangle or circle.
+ *
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param frame - AABB, BoundingBox or circle
+ * @returns Clipped segment, or null if it lies outside
+ */
+export function clipSegment(a: p5.Vector, b: p5.Vector, frame: ClipFrame): Segment | null {
+  const range = frameRange(a, b, frame);
+  return range ? [at(a, b, range[0]), at(a, b, range[1])] : null;
+}
+
+/**
+ * Clip a list of segments, dropping those outside the frame.
+ *
+ * @param segments - Segments to clip
+ * @param frame - AABB, BoundingBox or circle
+ * @returns Clipped segments
+ *
+ * @example
+ * ```ts
+ * const hatch = clipSegments(hatchSegments, { center: createVector(0, 0), radius: 90 });
+ * ```
+ */
+export function clipSegments(segments: readonly Segment[], frame: ClipFrame): Segment[] {
+  const out: Segment[] = [];
+  for (const [a, b] of segments) {
+    const seg = clipSegment(a, b, frame);
+    if (seg) out.push(seg);
+  }
+  return out;
+}
+
+/**
+ * Clip marching squares line segments to a frame.
+ *
+ * @param segments - Segments from marchingSquaresToSegments
+ * @param frame - AABB, BoundingBox or circle
+ * @returns Clipped segments
+ *
+ * @example
+ * ```ts
+ * const framed = clipLineSegments(marchingSquaresToSegments(cells, cols, rows, 10), page);
+ * ```
+ */
+export function clipLineSegments(
+  segments: readonly LineSegment[],
+  frame: ClipFrame,
+): LineSegment[] {
+  const out: LineSegment[] = [];
+  for (const s of segments) {
+    const seg = clipSegment(createVector(s.x1, s.y1), createVector(s.x2, s.y2), frame);
+    if (seg) out.push(new LineSegment(seg[0].x, seg[0].y, seg[1].x, seg[1].y));
+  }
+  return out;
+}
+
+// ============================================================================
+// Polyline Clipping
+// ============================================================================
+
+/**
+ * Clip a polyline to a frame, splitting it wherever it leaves the frame and
+ * enters again.
+ *
+ * @param points - Polyline points
+ * @param frame - AABB, BoundingBox or circle
+ * @param closed - Include the closing segment (default: false). A closed
+ *   polyline that stays inside comes back as one polyline ending at its start.
+ * @returns Pieces inside the frame, in path order
+ *
+ * @example
+ * ```ts
+ * const page: AABB = [10, 10, width - 10, height - 10];
+ * for (const line of streamlines) {
+ *   clipPolyline(line, page).forEach((piece) => svg.addPath(piece));
+ * }
+ * ```
+ */
+export function clipPolyline(
+  points: readonly p5.Vector[],
+  frame: ClipFrame,
+  closed = false,
+): p5.Vector[][] {
+  const n = points.length;
+  if (n === 0) return [];
+  if (n === 1) {
+    const p = points[0]!;
+    return frameRange(p, p, frame) ? [[createVector(p.x, p.y)]] : [];
+  }
+
+  const pieces: p5.Vector[][] = [];
+  let current: p5.Vector[] | null = null;
+  const edges = closed ? n : n - 1;
+  let startsInside = false;
+
+  for (let i = 0; i < edges; i++) {
+    const a = points[i]!;
+    const b = points[(i + 1) % n]!;
+    const range = frameRange(a, b, frame);
+    if (!range) {
+      current = null;
+      continue;
+    }
+    const [t0, t1] = range;
+    if (i === 0 && t0 === 0) startsInside = true;
+
+    // Continue the current piece when this edge starts where the last one ended
+    if (!current || t0 > 0) {
+      current = [at(a, b, t0)];
+      pieces.push(current);
+    }
+    current.push(at(a, b, t1));
+    if (t1 < 1) current = null;
+  }
+
+  // A closed path running across its start point is one piece, not two
+  if (closed && pieces.length > 1 && startsInside && current) {
+    const first = pieces.shift()!;
+    current.push(...first.slice(1));
+  }
+
+  return pieces;
+}
@@ -16,6 +16,7 @@
  */
 
 import { circumcenter } from './circle';
+import { createVector } from './vec2';
 
 /** Small value for floating-point comparisons */
 const EPSILON = 1e-9;
@@ -0,0 +1,147 @@
+/**
+ * Tests for ear-clipping triangulation.
+ * These tests cover: triangulatePolygon/triangulateRings (convex, concave,
+ * holes, orientation, degenerate input), triangleCorners and
+ * randomPointsInRings.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  randomPointsInRings,
+  triangleCorners,
+  triangulatePolygon,
+  triangulateRings,
+  type IndexTriangle,
+} from './earClipping';
+import { pointInPolygon } from './marchingSquares';
+import { polygonArea } from './polygonAnalysis';
+import { rect } from './testFixtures';
+import { createVector } from './vec2';
+
+const circle = (cx: number, cy: number, r: number, n: number): p5.Vector[] =>
+  Array.from({ length: n }, (_, i) =>
+    createVector(cx + r * Math.cos((i / n) * TWO_PI), cy + r * Math.sin((i / n) * TWO_PI)),
+  );
+
+/** Signed area of each triangle (positive when counter-clockwise with Y up) */
+const triangleAreas = (rings: p5.Vector[][], triangles: readonly IndexTriangle[]): number[] =>
+  triangleCorners(rings, triangles).map(
+    ([a, b, c]) => ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2,
+  );
+
+const sum = (values: readonly number[]): number => values.reduce((s, v) => s + v, 0);
+
+describe('triangulatePolygon', () => {
+  test('square gives two triangles', () => {
+    const triangles = triangulatePolygon(rect(0, 0, 10, 10));
+    expect(triangles).toHaveLength(2);
+    expect(sum(triangleAreas([rect(0, 0, 10, 10)], triangles))).toBeCloseTo(100);
+  });
+
+  test('concave polygon is covered exactly', () => {
+    const ell = [
+      createVector(0, 0),
+      createVector(20, 0),
+      createVector(20, 10),
+      createVector(10, 10),
+      createVector(10, 20),
+      createVector(0, 20),
+    ];
+    const triangles = triangulatePolygon(ell);
+    expect(triangles).toHaveLength(4);
+    const areas = triangleAreas([ell], triangles);
+    for (const a of areas) expect(a).toBeGreaterThan(0);
+    expect(sum(areas)).toBeCloseTo(300);
+  });
+
+  test('comb with many reflex corners', () => {
+    const comb = [createVector(0, 0), createVector(50, 0)];
+    for (let x = 50; x > 0; x -= 10) {
+      comb.push(createVector(x, 20), createVector(x - 5, 20), createVector(x - 5, 5));
+      comb.push(createVector(x - 10, 5));
+    }
+    const triangles = triangulatePolygon(comb);
+    expect(triangles).toHaveLength(comb.length - 2);
+    expect(sum(triangleAreas([comb], triangles))).toBeCloseTo(50 * 5 + 5 * 5 * 15);
+  });
+
+  test('orientation of the input does not matter', () => {
+    const square = rect(0, 0, 10, 10).reverse();
+    const areas = triangleAreas([square], triangulatePolygon(square));
+    for (const a of areas) expect(a).toBeGreaterThan(0);
+    expect(sum(areas)).toBeCloseTo(100);
+  });
+
+  test('degenerate input gives no triangles', () => {
+    expect(triangulatePolygon([])).toEqual([]);
+    expect(triangulatePolygon([createVector(0, 0), createVector(1, 1)])).toEqual([]);
+    expect(
+      triangulatePolygon([createVector(0, 0), createVector(1, 1), createVector(2, 2)]),
+    ).toEqual([]);
+  });
+});
+
+describe('triangulateRings', () => {
+  test('square with a hole', () => {
+    const rings = [rect(0, 0, 10, 10), rect(3, 3, 4, 4)];
+    const triangles = triangulateRings(rings);
+    expect(triangles).toHaveLength(8);
+    const areas = triangleAreas(rings, triangles);
+    for (const a of areas) expect(a).toBeGreaterThan(0);
+    expect(sum(areas)).toBeCloseTo(84);
+
+    // Indices refer to the concatenated rings and use every hole vertex
+    const used = new Set(triangles.flat());
+    for (let i = 0; i < 8; i++) expect(used.has(i)).toBe(true);
+  });
+
+  test('disc with several holes', () => {
+    const rings = [
+      circle(0, 0, 50, 64),
+      circle(-20, 0, 10, 16),
+      circle(20, 0, 10, 16).reverse(),
+      circle(0, 25, 8, 12),
+    ];
+    const areas = triangleAreas(rings, triangulateRings(rings));
+    for (const a of areas) expect(a).toBeGreaterThan(0);
+
+    expect(sum(areas)).toBeCloseTo(polygonArea({ segments: rings }));
+  });
+});
+
+describe('randomPointsInRings', () => {
+  const rings = [rect(0, 0, 10, 10), rect(2, 2, 6, 6)];
+
+  test('points fall inside the region and outside the hole', () => {
+    const points = randomPointsInRings(rings, 400, 7);
+    expect(points).toHaveLength(400);
+    for (const p of points) {
+      expect(pointInPolygon(p, rings[0]!)).toBe(true);
+      expect(pointInPolygon(p, rings[1]!)).toBe(false);
+    }
+  });
+
+  test('seeded sampling is reproducible', () => {
+    expect(randomPointsInRings(rings, 10, 3)).toEqual(randomPointsInRings(rings, 10, 3));
+  });
+
+  test('sampling is area weighted', () => {
+    // A wide and a narrow part of an L: the wide part holds 3/4 of the area
+    const ell = [
+      createVector(0, 0),
+      createVector(30, 0),
+      createVector(30, 10),
+      createVector(10, 10),
+      createVector(10, 20),
+      createVector(0, 20),
+    ];
+    const points = randomPointsInRings([ell], 4000, 11);
+    const share = points.filter((p) => p.y < 10).length / points.length;
+    expect(share).toBeCloseTo(0.75, 1);
+  });
+
+  test('empty region gives no points', () => {
+    expect(randomPointsInRings([], 10, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,365 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Polygon triangulation by ear clipping, with holes.
+ * Holes are joined to the outer ring through bridge edges so the shape becomes
+ * one ring, then convex corners whose triangle holds no other vertex ("ears")
+ * are cut off one by one. Triangles are returned as indices into the input
+ * rings, so they can drive WEBGL fills, area-weighted sampling or subdivision.
+ */
+
+import { type RandomSource, toRandomFunction } from './random';
+import { ringSignedArea } from './ring';
+import { createVector } from './vec2';
+
+/** Cross products below this count as collinear */
+const COLLINEAR_EPSILON = 1e-12;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Closed ring of points (the closing edge is implicit) */
+type Ring = readonly p5.Vector[];
+
+/**
+ * Triangle as three indices into the input rings, numbered as if the rings were
+ * concatenated (outer ring first, then each hole in order).
+ */
+export type IndexTriangle = readonly [number, number, number];
+
+/** Internal vertex: position plus its index into the concatenated rings */
+type Vertex = { readonly x: number; readonly y: number; readonly index: number };
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+/**
+ * Cross product of (b - a) and (c - a); positive when a, b, c turn left (Y up).
+ */
+function cross(a: Vertex, b: Vertex, c: Vertex): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/**
+ * Whether two vertices share a position.
+ */
+function samePosition(a: Vertex, b: Vertex): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+/**
+ * Whether p lies inside or on the counter-clockwise triangle a, b, c.
+ */
+function inTriangle(p: Vertex, a: Vertex, b: Vertex, c: Vertex): boolean {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+}
+
+/**
+ * Whether segments ab and cd cross at a point interior to both.
+ */
+function segmentsCross(a: Vertex, b: Vertex, c: Vertex, d: Vertex): boolean {
+  const d1 = cross(a, b, c);
+  const d2 = cross(a, b, d);
+  const d3 = cross(c, d, a);
+  const d4 = cross(c, d, b);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Convert rings to vertex lists: repeated points are dropped, the outer ring is
+ * made counter-clockwise and holes clockwise (Y up).
+ */
+function prepareRings(rings: readonly Ring[]): Vertex[][] {
+  const prepared: Vertex[][] = [];
+  let offset = 0;
+
+  rings.forEach((ring, r) => {
+    const pts: Vertex[] = [];
+    ring.forEach((p, i) => {
+      const v = { x: p.x, y: p.y, index: offset + i };
+      const last = pts[pts.length - 1];
+      if (!last || !samePosition(last, v)) pts.push(v);
+    });
+    offset += ring.length;
+
+    if (pts.length > 1 && samePosition(pts[0]!, pts[pts.length - 1]!)) pts.pop();
+    if (pts.length < 3) {
+      if (r === 0) prepared.push([]);
+      return;
+    }
+    const area = ringSignedArea(pts);
+    if (area === 0) {
+      if (r === 0) prepared.push([]);
+      return;
+    }
+    prepared.push(area > 0 === (r === 0) ? pts : pts.reverse());
+  });
+
+  return prepared;
+}
+
+// ============================================================================
+// Hole Bridging
+// ============================================================================
+
+/**
+ * Whether the direction from ring[i] towards p points into the polygon at that
+ * corner. Works for holes too, since their clockwise order keeps the region on the left.
+ */
+function locallyInside(ring: readonly Vertex[], i: number, p: Vertex): boolean {
+  const n = ring.length;
+  const a = ring[(i + n - 1) % n]!;
+  const v = ring[i]!;
+  const b = ring[(i + 1) % n]!;
+  if (cross(a, v, b) >= 0) {
+    // Convex corner: between the outgoing and incoming edges
+    return cross(v, b, p) > 0 && cross(v, p, a) > 0;
+  }
+  // Reflex corner: anywhere outside the exterior wedge
+  return !(cross(v, a, p) > 0 && cross(v, p, b) > 0);
+}
+
+/**
+ * Whether the bridge from m to v crosses any edge of the given rings.
+ */
+function bridgeBlocked(m: Vertex, v: Vertex, rings: readonly (readonly Vertex[])[]): boolean {
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      if (segmentsCross(m, v, ring[j]!, ring[i]!)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Join each hole to the outer ring with a zero-width bridge, starting from the
+ * hole reaching furthest right so earlier bridges never block later ones.
+ */
+function bridgeHoles(outer: Vertex[], holes: Vertex[][]): Vertex[] {
+  // Start each hole at its rightmost vertex
+  const pending = holes.map((hole) => {
+    let start = 0;
+    hole.forEach((v, i) => {
+      const s = hole[start]!;
+      if (v.x > s.x || (v.x === s.x && v.y < s.y)) start = i;
+    });
+    return [...hole.slice(start), ...hole.slice(0, start)];
+  });
+  pending.sort((a, b) => b[0]!.x - a[0]!.x);
+
+  let ring = outer;
+  pending.forEach((hole, h) => {
+    const m = hole[0]!;
+    const others = pending.slice(h + 1);
+
+    // Nearest outer vertex that m can see
+    const candidates = ring
+      .map((v, i) => ({ i, d: (v.x - m.x) ** 2 + (v.y - m.y) ** 2, right: v.x >= m.x }))
+      .sort((a, b) => Number(b.right) - Number(a.right) || a.d - b.d);
+    const found = candidates.find(
+      ({ i }) =>
+        locallyInside(ring, i, m) &&
+        locallyInside(hole, 0, ring[i]!) &&
+        !bridgeBlocked(m, ring[i]!, [ring, hole, ...others]),
+    );
+    if (!found) return;
+
+    // outer ... v, hole from m around to m, v ... outer
+    const v = ring[found.i]!;
+    ring = [...ring.slice(0, found.i + 1), ...hole, m, v, ...ring.slice(found.i + 1)];
+  });
+
+  return ring;
+}
+
+// ============================================================================
+// Ear Clipping
+// ============================================================================
+
+/**
+ * Whether the corner at position i of the working ring is an ear.
+ */
+function isEar(ring: readonly Vertex[], i: number): boolean {
+  const n = ring.length;
+  const a = ring[(i + n - 1) % n]!;
+  const b = ring[i]!;
+  const c = ring[(i + 1) % n]!;
+  if (cross(a, b, c) <= COLLINEAR_EPSILON) return false;
+
+  for (let k = 0; k < n; k++) {
+    const p = ring[k]!;
+    // Bridge duplicates sit on the corners and never block
+    if (samePosition(p, a) || samePosition(p, b) || samePosition(p, c)) continue;
+    if (inTriangle(p, a, b, c)) return false;
+  }
+  return true;
+}
+
+/**
+ * Cut ears off a counter-clockwise ring until one triangle is left.
+ */
+function clipEars(ring: Vertex[]): IndexTriangle[] {
+  const triangles: IndexTriangle[] = [];
+  let i = 0;
+  let stalled = 0;
+
+  while (ring.length > 3) {
+    const n = ring.length;
+    const a = ring[(i + n - 1) % n]!;
+    const b = ring[i % n]!;
+    const c = ring[(i + 1) % n]!;
+
+    if (Math.abs(cross(a, b, c)) <= COLLINEAR_EPSILON) {
+      // Straight or folded-back corner: drop it without a triangle
+      ring.splice(i % n, 1);
+      stalled = 0;
+    } else if (isEar(ring, i % n) || stalled > n) {
+      // After a full lap without an ear (bad input) clip anyway so the loop ends
+      if (cross(a, b, c) > 0) triangles.push([a.index, b.index, c.index]);
+      ring.splice(i % n, 1);
+      stalled = 0;
+    } else {
+      i++;
+      stalled++;
+      continue;
+    }
+    i = Math.max(0, (i % n) - 1);
+  }
+
+  const [a, b, c] = ring;
+  if (a && b && c && cross(a, b, c) > COLLINEAR_EPSILON) {
+    triangles.push([a.index, b.index, c.index]);
+  }
+  return triangles;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Triangulate a polygon given as rings: the outer boundary first, then holes.
+ * Rings may have either orientation. Every triangle is counter-clockwise with
+ * Y up (clockwise on screen) and indexes the rings as if they were concatenated.
+ *
+ * @param rings - Outer ring followed by hole rings (e.g. `poly.rings`)
+ * @returns Index triangles; empty for degenerate input
+ *
+ * @example
+ * ```ts
+ * const rings = [outline, hole];
+ * const vertices = rings.flat();
+ * beginShape(TRIANGLES);
+ * for (const [a, b, c] of triangulateRings(rings)) {
+ *   [a, b, c].forEach((i) => vertex(vertices[i].x, vertices[i].y));
+ * }
+ * endShape();
+ * ```
+ */
+export function triangulateRings(rings: readonly Ring[]): IndexTriangle[] {
+  const [outer, ...holes] = prepareRings(rings);
+  if (!outer || outer.length < 3) return [];
+  return clipEars(bridgeHoles(outer, holes));
+}
+
+/**
+ * Triangulate a simple polygon, optionally with holes.
+ *
+ * @param points - Outer boundary (closing edge implicit)
+ * @param holes - Hole rings inside the boundary
+ * @returns Index triangles over `[points, ...holes]`
+ *
+ * @example
+ * ```ts
+ * const cell = voronoiCells[0].polygon;
+ * const triangles = triangulatePolygon(cell); // cell.length - 2 triangles
+ * ```
+ */
+export function triangulatePolygon(points: Ring, holes: readonly Ring[] = []): IndexTriangle[] {
+  return triangulateRings([points, ...holes]);
+}
+
+/**
+ * Look up the corner points of index triangles.
+ *
+ * @param rings - Rings the triangles were built from
+ * @param triangles - Index triangles
+ * @returns Corner points per triangle
+ *
+ * @example
+ * ```ts
+ * for (const [a, b, c] of triangleCorners(rings, triangulateRings(rings))) {
+ *   triangle(a.x, a.y, b.x, b.y, c.x, c.y);
+ * }
+ * ```
+ */
+export function triangleCorners(
+  rings: readonly Ring[],
+  triangles: readonly IndexTriangle[],
+): [p5.Vector, p5.Vector, p5.Vector][] {
+  const vertices = rings.flat();
+  return triangles.map(([a, b, c]) => [vertices[a]!, vertices[b]!, vertices[c]!]);
+}
+
+/**
+ * Uniformly distributed random points inside a polygon with holes. Triangles are
+ * picked in proportion to their area, then a point is drawn inside the triangle.
+ *
+ * @param rings - Outer ring followed by hole rings
+ * @param count - Number of points
+ * @param random - Seed, generator or function (default: Math.random)
+ * @returns Points inside the polygon; empty when it has no area
+ *
+ * @example
+ * ```ts
+ * const dots = randomPointsInRings(poly.rings, 500, 42);
+ * dots.forEach((p) => point(p.x, p.y));
+ * ```
+ */
+export function randomPointsInRings(
+  rings: readonly Ring[],
+  count: number,
+  random: RandomSource = Math.random,
+): p5.Vector[] {
+  const rand = toRandomFunction(random);
+  const corners = triangleCorners(rings, triangulateRings(rings));
+
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const [a, b, c] of corners) {
+    total += Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+    cumulative.push(total);
+  }
+  if (total === 0) return [];
+
+  const points: p5.Vector[] = [];
+  for (let k = 0; k < count; k++) {
+    // Binary search for the triangle holding this share of the area
+    const target = rand() * total;
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid]! < target) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const [a, b, c] = corners[lo]!;
+    let u = rand();
+    let v = rand();
+    // Fold points from the far half of the parallelogram back into the triangle
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    points.push(
+      createVector(
+        a.x + u * (b.x - a.x) + v * (c.x - a.x),
+        a.y + u * (b.y - a.y) + v * (c.y - a.y),
+      ),
+    );
+  }
+  return points;
+}
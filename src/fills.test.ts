@@ -0,0 +1,121 @@
+/**
+ * Tests for polygon fill styles.
+ * These tests cover: cross-hatch, wave, spiral, concentric, zig-zag and stipple
+ * fills on Poly, including holes and occlusion through Polygons().draw.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { Poly, Polygons } from './polygons';
+import { joinSegments, type SegmentPair } from './svg';
+import { rect } from './testFixtures';
+import { createVector } from './vec2';
+
+/** Collect the drawable segments of a polygon */
+const segmentsOf = (poly: Poly): SegmentPair[] => {
+  const segs: SegmentPair[] = [];
+  poly.drawWith((p0, p1) => segs.push([p0, p1]));
+  return segs;
+};
+
+/** Every segment midpoint lies inside the polygon */
+const allInside = (poly: Poly): boolean =>
+  segmentsOf(poly).every(([a, b]) => poly.inside(createVector((a.x + b.x) / 2, (a.y + b.y) / 2)));
+
+describe('Poly fill styles', () => {
+  test('cross-hatching draws two directions', () => {
+    const poly = Poly.fromRings(rect(-20, -20, 40, 40));
+    poly.addCrossHatching(0.3, 5);
+    const segs = segmentsOf(poly);
+    const angles = new Set(
+      segs.map(([a, b]) =>
+        (((Math.atan2(b.y - a.y, b.x - a.x) % Math.PI) + Math.PI) % Math.PI).toFixed(3),
+      ),
+    );
+    expect(angles.size).toBe(2);
+    expect(allInside(poly)).toBe(true);
+  });
+
+  test('wave hatching stays inside and is wavy', () => {
+    const poly = Poly.fromRings(rect(0, 0, 40, 40));
+    poly.addWaveHatching(0, 5, { amplitude: 1, wavelength: 10 });
+    const segs = segmentsOf(poly);
+    expect(segs.length).toBeGreaterThan(50);
+    expect(segs.some(([a, b]) => a.y !== b.y)).toBe(true);
+    expect(allInside(poly)).toBe(true);
+  });
+
+  test('spiral fill covers the polygon', () => {
+    const poly = Poly.fromRings(rect(0, 0, 40, 40));
+    poly.addSpiralFill(4);
+    expect(segmentsOf(poly).length).toBeGreaterThan(50);
+    expect(allInside(poly)).toBe(true);
+  });
+
+  test('concentric fill adds shrinking rings until the shape vanishes', () => {
+    const poly = Poly.fromRings(rect(0, 0, 20, 20));
+    poly.addConcentricFill(3);
+    // Insets of 3, 6 and 9 leave 14, 8 and 2 unit squares
+    const paths = joinSegments(segmentsOf(poly));
+    expect(paths).toHaveLength(3);
+    expect(paths.every((p) => p.closed)).toBe(true);
+  });
+
+  test('concentric fill follows holes', () => {
+    const poly = Poly.fromRings(rect(0, 0, 40, 40), [rect(15, 15, 10, 10)]);
+    poly.addConcentricFill(4);
+    expect(allInside(poly)).toBe(true);
+    expect(poly.inside(createVector(20, 20))).toBe(false);
+  });
+
+  test('zig-zag fill of a convex shape is a single stroke', () => {
+    const poly = Poly.fromRings(rect(0, 0, 30, 30));
+    poly.addZigZagFill(0, 3);
+    const paths = joinSegments(segmentsOf(poly));
+    expect(paths).toHaveLength(1);
+    expect(paths[0]!.points.length).toBeGreaterThan(19);
+  });
+
+  test('zig-zag fill starts new strokes around holes', () => {
+    const poly = Poly.fromRings(rect(0, 0, 30, 30), [rect(10, 10, 10, 10)]);
+    poly.addZigZagFill(0, 3);
+    const segs = segmentsOf(poly);
+    expect(joinSegments(segs).length).toBeGreaterThan(1);
+    // Connectors may run along the hole's edge but never through it
+    for (const [a, b] of segs) {
+      const mx = (a.x + b.x) / 2;
+      const my = (a.y + b.y) / 2;
+      expect(mx > 10 && mx < 20 && my > 10 && my < 20).toBe(false);
+    }
+  });
+
+  test('stipple is reproducible with a seed and respects holes', () => {
+    const make = (): SegmentPair[] => {
+      const poly = Poly.fromRings(rect(0, 0, 50, 50), [rect(20, 20, 10, 10)]);
+      poly.addStipple(2, { seed: 7, dotSize: 0.2 });
+      expect(allInside(poly)).toBe(true);
+      return segmentsOf(poly);
+    };
+    const a = make();
+    const b = make();
+    expect(a.length).toBeGreaterThan(400);
+    expect(a.map(([p]) => [p.x, p.y])).toEqual(b.map(([p]) => [p.x, p.y]));
+    for (const [p, q] of a) expect(Math.hypot(q.x - p.x, q.y - p.y)).toBeCloseTo(0.2);
+  });
+
+  test('fills are occluded by Polygons().draw', () => {
+    const polys = Polygons();
+    const front = Poly.fromRings(rect(-10, -10, 20, 20));
+    polys.draw(() => {}, front);
+
+    const back = Poly.fromRings(rect(-30, -30, 60, 60));
+    back.addZigZagFill(0, 2);
+    const drawn: SegmentPair[] = [];
+    polys.draw((p0, p1) => drawn.push([p0, p1]), back);
+
+    expect(drawn.length).toBeGreaterThan(0);
+    for (const [a, b] of drawn) {
+      expect(front.inside(createVector((a.x + b.x) / 2, (a.y + b.y) / 2))).toBe(false);
+    }
+  });
+});
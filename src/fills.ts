@@ -0,0 +1,388 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Fill pattern generators for polygon regions.
+ * Each generator returns drawable segments as point pairs (the layout used by
+ * `Poly.addSegments`) covering a region given as even-odd rings. Wave and
+ * spiral lines overshoot the region and rely on `Poly` clipping them; concentric,
+ * zig-zag and stipple patterns are built inside the region.
+ */
+
+import { pointInPolygon } from './marchingSquares';
+import { type OffsetOptions, offsetRings } from './offset';
+import { type SeededRandom, toSeededRandom } from './random';
+import { createVector } from './vec2';
+
+/** Line samples per wavelength for wave hatching */
+const DEFAULT_WAVE_STEPS = 16;
+
+/** Largest angle step (radians) along a spiral */
+const MAX_SPIRAL_STEP = 0.2;
+
+/** Stipple dot length as a fraction of the spacing */
+const STIPPLE_DOT_RATIO = 0.1;
+
+/** Safety cap on concentric rings */
+const MAX_CONCENTRIC_RINGS = 10000;
+
+/** Parametric tolerance when testing zig-zag connectors against edges */
+const CONNECTOR_EPSILON = 1e-9;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Closed rings of a region (boundary and holes, even-odd) */
+type Rings = readonly (readonly p5.Vector[])[];
+
+/** Options for wave hatching */
+export type WaveHatchOptions = {
+  /** Wave amplitude (default: spacing / 4) */
+  readonly amplitude?: number;
+  /** Wavelength along the line (default: spacing * 2) */
+  readonly wavelength?: number;
+  /** Line samples per wavelength (default: 16) */
+  readonly steps?: number;
+};
+
+/** Options for stippling */
+export type StippleOptions = {
+  /** Seed or shared generator for the jitter (default: random seed) */
+  readonly seed?: number | SeededRandom;
+  /** Jitter as a fraction of the spacing, 0 for a regular grid (default: 1) */
+  readonly jitter?: number;
+  /** Length of each dot stroke (default: spacing / 10) */
+  readonly dotSize?: number;
+};
+
+// ============================================================================
+// Region Helpers
+// ============================================================================
+
+/**
+ * Even-odd point-in-region test across all rings.
+ */
+function insideRings(p: p5.Vector, rings: Rings): boolean {
+  return rings.reduce((inside, ring) => inside !== pointInPolygon(p, ring), false);
+}
+
+/**
+ * Bounding box of all rings: [minX, minY, maxX, maxY].
+ */
+function ringBounds(rings: Rings): [number, number, number, number] {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const ring of rings) {
+    for (const p of ring) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Offsets (along the normal of `angle`) of parallel lines covering the rings.
+ * Lines sit at (k + 0.5) * spacing so patterns line up across shapes.
+ */
+function lineOffsets(rings: Rings, angle: number, spacing: number): number[] {
+  const nx = -Math.sin(angle);
+  const ny = Math.cos(angle);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const ring of rings) {
+    for (const p of ring) {
+      const o = p.x * nx + p.y * ny;
+      min = Math.min(min, o);
+      max = Math.max(max, o);
+    }
+  }
+  const offsets: number[] = [];
+  for (let k = Math.floor(min / spacing - 0.5); (k + 0.5) * spacing <= max; k++) {
+    if ((k + 0.5) * spacing >= min) offsets.push((k + 0.5) * spacing);
+  }
+  return offsets;
+}
+
+/**
+ * Extent of the rings along the direction of `angle`: [min, max].
+ */
+function lineExtent(rings: Rings, angle: number): [number, number] {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const ring of rings) {
+    for (const p of ring) {
+      const t = p.x * dx + p.y * dy;
+      min = Math.min(min, t);
+      max = Math.max(max, t);
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * Convert a polyline to segment pairs.
+ */
+function polylineSegments(points: readonly p5.Vector[], closed = false): p5.Vector[] {
+  const segs: p5.Vector[] = [];
+  const n = points.length;
+  for (let i = 0; i < (closed ? n : n - 1); i++) {
+    segs.push(points[i]!, points[(i + 1) % n]!);
+  }
+  return segs;
+}
+
+// ============================================================================
+// Line Patterns (clipped by the caller)
+// ============================================================================
+
+/**
+ * Sine-wave hatching: parallel wavy lines at an angle.
+ *
+ * @param rings - Region rings
+ * @param angle - Line direction in radians
+ * @param spacing - Distance between line centres
+ * @param options - Wave shape
+ * @returns Segment pairs overshooting the region
+ */
+export function waveHatchSegments(
+  rings: Rings,
+  angle: number,
+  spacing: number,
+  options: WaveHatchOptions = {},
+): p5.Vector[] {
+  const { amplitude = spacing / 4, wavelength = spacing * 2, steps = DEFAULT_WAVE_STEPS } = options;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const [tMin, tMax] = lineExtent(rings, angle);
+  const step = wavelength / steps;
+  // Wave amplitude can push lines beyond the region, so add extra lines on each side
+  const reach = Math.ceil(Math.abs(amplitude) / spacing);
+  const offsets = lineOffsets(rings, angle, spacing);
+  const first = offsets[0];
+  const last = offsets[offsets.length - 1];
+  if (first === undefined || last === undefined) return [];
+
+  const segs: p5.Vector[] = [];
+  for (let o = first - reach * spacing; o <= last + reach * spacing + spacing / 2; o += spacing) {
+    const points: p5.Vector[] = [];
+    const t0 = Math.floor(tMin / step) * step;
+    for (let t = t0; t <= tMax + step; t += step) {
+      const w = o + amplitude * Math.sin((TWO_PI * t) / wavelength);
+      points.push(createVector(dx * t - dy * w, dy * t + dx * w));
+    }
+    segs.push(...polylineSegments(points));
+  }
+  return segs;
+}
+
+/**
+ * Archimedean spiral centred on the region's bounding box.
+ *
+ * @param rings - Region rings
+ * @param spacing - Distance between turns
+ * @param center - Spiral centre (default: bounding box centre)
+ * @returns Segment pairs overshooting the region
+ */
+export function spiralSegments(rings: Rings, spacing: number, center?: p5.Vector): p5.Vector[] {
+  const [minX, minY, maxX, maxY] = ringBounds(rings);
+  if (minX > maxX) return [];
+  const cx = center?.x ?? (minX + maxX) / 2;
+  const cy = center?.y ?? (minY + maxY) / 2;
+  const radius = Math.max(
+    Math.hypot(minX - cx, minY - cy),
+    Math.hypot(maxX - cx, minY - cy),
+    Math.hypot(minX - cx, maxY - cy),
+    Math.hypot(maxX - cx, maxY - cy),
+  );
+
+  const points: p5.Vector[] = [];
+  const thetaMax = (TWO_PI * (radius + spacing)) / spacing;
+  for (let theta = 0; theta <= thetaMax; ) {
+    const r = (spacing * theta) / TWO_PI;
+    points.push(createVector(cx + r * Math.cos(theta), cy + r * Math.sin(theta)));
+    // Keep chords around half the spacing long
+    theta += Math.min(MAX_SPIRAL_STEP, spacing / 2 / Math.max(r, spacing));
+  }
+  return polylineSegments(points);
+}
+
+// ============================================================================
+// Region Patterns
+// ============================================================================
+
+/**
+ * Contour-parallel fill: repeated insets of the region.
+ *
+ * @param rings - Region rings
+ * @param spacing - Distance between contours
+ * @param options - Join style of the insets
+ * @returns Segment pairs of all inset rings
+ */
+export function concentricSegments(
+  rings: Rings,
+  spacing: number,
+  options: OffsetOptions = {},
+): p5.Vector[] {
+  const segs: p5.Vector[] = [];
+  for (let k = 1; k < MAX_CONCENTRIC_RINGS; k++) {
+    const parts = offsetRings(rings, -k * spacing, options);
+    if (parts.length === 0) break;
+    for (const part of parts) {
+      for (const ring of [part.outer, ...part.holes]) segs.push(...polylineSegments(ring, true));
+    }
+  }
+  return segs;
+}
+
+/**
+ * Distance from a point to the nearest ring edge.
+ */
+function boundaryDistance(p: p5.Vector, rings: Rings): number {
+  let best = Infinity;
+  for (const ring of rings) {
+    for (let i = 0, n = ring.length; i < n; i++) {
+      const a = ring[i]!;
+      const b = ring[(i + 1) % n]!;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const len2 = dx * dx + dy * dy;
+      const t =
+        len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+      best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+    }
+  }
+  return best;
+}
+
+/**
+ * Test whether a connector between two boundary points stays inside the region
+ * (running along the boundary counts as inside).
+ */
+function connectorInside(a: p5.Vector, b: p5.Vector, rings: Rings): boolean {
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+  const mid = createVector(a.x + rx / 2, a.y + ry / 2);
+  const tolerance = CONNECTOR_EPSILON * Math.max(1, Math.hypot(rx, ry));
+  if (!insideRings(mid, rings) && boundaryDistance(mid, rings) > tolerance) return false;
+
+  for (const ring of rings) {
+    for (let i = 0, n = ring.length; i < n; i++) {
+      const c = ring[i]!;
+      const d = ring[(i + 1) % n]!;
+      const sx = d.x - c.x;
+      const sy = d.y - c.y;
+      const denom = rx * sy - ry * sx;
+      if (denom === 0) continue;
+      const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denom;
+      const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+      const inner = (v: number): boolean => v > CONNECTOR_EPSILON && v < 1 - CONNECTOR_EPSILON;
+      if (inner(t) && u >= 0 && u <= 1) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Continuous zig-zag fill: scanlines joined end to end so each part of the
+ * region is drawn with one pen-down. A new stroke starts wherever the region
+ * splits, merges, or a connector would leave it.
+ *
+ * @param rings - Region rings
+ * @param angle - Scanline direction in radians
+ * @param spacing - Distance between scanlines
+ * @returns Segment pairs forming connected strokes
+ */
+export function zigZagSegments(rings: Rings, angle: number, spacing: number): p5.Vector[] {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const at = (t: number, o: number): p5.Vector => createVector(dx * t - dy * o, dy * t + dx * o);
+
+  type Chain = { last: readonly [number, number]; end: p5.Vector; forward: boolean };
+  let active: Chain[] = [];
+  const segs: p5.Vector[] = [];
+
+  for (const o of lineOffsets(rings, angle, spacing)) {
+    // Scanline crossings, paired into inside intervals (even-odd)
+    const crossings: number[] = [];
+    for (const ring of rings) {
+      for (let i = 0, n = ring.length; i < n; i++) {
+        const a = ring[i]!;
+        const b = ring[(i + 1) % n]!;
+        const oa = -a.x * dy + a.y * dx;
+        const ob = -b.x * dy + b.y * dx;
+        if (oa > o !== ob > o) {
+          const s = (o - oa) / (ob - oa);
+          crossings.push((a.x + s * (b.x - a.x)) * dx + (a.y + s * (b.y - a.y)) * dy);
+        }
+      }
+    }
+    crossings.sort((p, q) => p - q);
+    const intervals: [number, number][] = [];
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      intervals.push([crossings[i]!, crossings[i + 1]!]);
+    }
+
+    const overlaps = (p: readonly [number, number], q: readonly [number, number]): boolean =>
+      p[0] <= q[1] && q[0] <= p[1];
+    const next: Chain[] = [];
+
+    for (const interval of intervals) {
+      const candidates = active.filter((c) => overlaps(c.last, interval));
+      const chain = candidates[0];
+      const unique =
+        candidates.length === 1 &&
+        chain !== undefined &&
+        intervals.filter((other) => overlaps(chain.last, other)).length === 1;
+
+      const forward = unique ? !chain.forward : true;
+      const start = at(forward ? interval[0] : interval[1], o);
+      const end = at(forward ? interval[1] : interval[0], o);
+
+      if (unique && connectorInside(chain.end, start, rings)) segs.push(chain.end, start);
+      segs.push(start, end);
+      next.push({ last: interval, end, forward });
+    }
+    active = next;
+  }
+
+  return segs;
+}
+
+/**
+ * Stipple dots on a jittered grid inside the region.
+ * Each dot is a short stroke so it survives plotting and SVG export; dots
+ * crossing the boundary are skipped rather than cut short.
+ *
+ * @param rings - Region rings
+ * @param spacing - Grid spacing between dots
+ * @param options - Seed, jitter and dot size
+ * @returns Segment pairs, one per dot
+ */
+export function stippleSegments(
+  rings: Rings,
+  spacing: number,
+  options: StippleOptions = {},
+): p5.Vector[] {
+  const { jitter = 1, dotSize = spacing * STIPPLE_DOT_RATIO } = options;
+  const rng = toSeededRandom(options.seed);
+  const [minX, minY, maxX, maxY] = ringBounds(rings);
+  const segs: p5.Vector[] = [];
+
+  for (let y = Math.floor(minY / spacing) * spacing; y <= maxY; y += spacing) {
+    for (let x = Math.floor(minX / spacing) * spacing; x <= maxX; x += spacing) {
+      const px = x + spacing * (0.5 + jitter * (rng.next() - 0.5));
+      const py = y + spacing * (0.5 + jitter * (rng.next() - 0.5));
+      const a = createVector(px - dotSize / 2, py);
+      const b = createVector(px + dotSize / 2, py);
+      if (insideRings(a, rings) && insideRings(b, rings)) segs.push(a, b);
+    }
+  }
+  return segs;
+}
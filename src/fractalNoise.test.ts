@@ -0,0 +1,178 @@
+/**
+ * Tests for fractal noise.
+ * These tests cover: createFractalNoise octave layout (frequency,
+ * lacunarity, gain, shift, rotation), normalization, every fractal type and
+ * use with non-simplex sources such as worley and warp2D.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { createFractalNoise, type FractalType } from './fractalNoise';
+import { SeededRandom } from './random';
+import { SimplexNoise2D, SimplexNoise4D, fbm2D } from './simplexCurl';
+import { type NoiseFunction2D, warp2D } from './warp';
+import { worley } from './worleyNoise';
+
+const simplex = new SimplexNoise2D(42);
+const base: NoiseFunction2D = (x, y) => simplex.noise2D(x, y);
+
+/** Deterministic sample points in [-50, 50) */
+const samples = (count: number): [number, number][] => {
+  const rng = new SeededRandom(23);
+  return Array.from({ length: count }, () => [rng.next() * 100 - 50, rng.next() * 100 - 50]);
+};
+
+/** Noise function that records where it is sampled */
+const recorder = (): { fn: NoiseFunction2D; calls: [number, number][] } => {
+  const calls: [number, number][] = [];
+  return {
+    fn: (x, y) => {
+      calls.push([x, y]);
+      return 0.5;
+    },
+    calls,
+  };
+};
+
+describe('octave layout', () => {
+  test('reproduces fbm2D with its hard-coded settings', () => {
+    const fbm = createFractalNoise(base, {
+      frequency: 0.3 / 1000,
+      octaves: 3,
+      octaveShift: 32,
+      normalize: false,
+    });
+    for (const [x, y] of samples(50)) {
+      expect(fbm(x * 1000, y * 1000)).toBeCloseTo(fbm2D(simplex, x * 1000, y * 1000), 10);
+    }
+  });
+
+  test('frequency, lacunarity and shift place the octaves', () => {
+    const { fn, calls } = recorder();
+    createFractalNoise(fn, { frequency: 0.5, lacunarity: 3, octaves: 3, octaveShift: 10 })(4, 2);
+    expect(calls).toEqual([
+      [2, 1],
+      [36, 3],
+      [198, 9],
+    ]);
+  });
+
+  test('rotation turns each octave further', () => {
+    const { fn, calls } = recorder();
+    createFractalNoise(fn, { octaves: 3, lacunarity: 1, rotation: PI / 2 })(1, 0);
+    expect(calls[0]![0]).toBeCloseTo(1);
+    expect(calls[1]![1]).toBeCloseTo(1);
+    expect(calls[2]![0]).toBeCloseTo(-1);
+  });
+
+  test('gain weights octaves and normalization divides by the total', () => {
+    const constant: NoiseFunction2D = () => 1;
+    expect(createFractalNoise(constant, { octaves: 3, gain: 0.5, normalize: false })(0, 0)).toBe(
+      1.75,
+    );
+    expect(createFractalNoise(constant, { octaves: 3, gain: 0.5 })(0, 0)).toBeCloseTo(1);
+    expect(createFractalNoise(constant, { octaves: 0 })(3, 4)).toBe(0);
+  });
+});
+
+describe('fractal types', () => {
+  const types: FractalType[] = [
+    'fbm',
+    'turbulence',
+    'billow',
+    'ridged',
+    'hybrid',
+    'swiss',
+    'jordan',
+  ];
+
+  test('every type is deterministic, finite and differs from fbm', () => {
+    const fbm = createFractalNoise(base, { frequency: 0.1, rotation: 0.6 });
+    for (const type of types) {
+      const fractal = createFractalNoise(base, { type, frequency: 0.1, rotation: 0.6 });
+      let differs = type === 'fbm';
+      for (const [x, y] of samples(100)) {
+        const v = fractal(x, y);
+        expect(Number.isFinite(v)).toBe(true);
+        expect(fractal(x, y)).toBe(v);
+        if (Math.abs(v - fbm(x, y)) > 1e-6) differs = true;
+      }
+      expect(differs).toBe(true);
+    }
+  });
+
+  test('normalized types stay in their ranges', () => {
+    const ranges: Record<FractalType, [number, number]> = {
+      fbm: [-1, 1],
+      turbulence: [0, 1],
+      billow: [-1, 1],
+      ridged: [0, 1],
+      hybrid: [-1, 1.7],
+      swiss: [0, 1],
+      jordan: [0, 1],
+    };
+    for (const type of types) {
+      const fractal = createFractalNoise(base, { type, frequency: 0.2, octaves: 5 });
+      const [lo, hi] = ranges[type];
+      for (const [x, y] of samples(300)) {
+        const v = fractal(x, y);
+        expect(v).toBeGreaterThanOrEqual(lo - 1e-9);
+        expect(v).toBeLessThanOrEqual(hi + 1e-9);
+      }
+    }
+  });
+
+  test('single octaves reduce to the basic shaping', () => {
+    const [x, y] = [3.7, -1.2];
+    const n = base(x, y);
+    const one = (type: FractalType, offset?: number) =>
+      createFractalNoise(base, { type, octaves: 1, offset })(x, y);
+    expect(one('turbulence')).toBeCloseTo(Math.abs(n));
+    expect(one('billow')).toBeCloseTo(2 * Math.abs(n) - 1);
+    expect(one('ridged')).toBeCloseTo((1 - Math.abs(n)) ** 2);
+    expect(one('ridged', 0.8)).toBeCloseTo((0.8 - Math.abs(n)) ** 2);
+    expect(one('hybrid')).toBeCloseTo(n + 0.7);
+    expect(one('swiss')).toBeCloseTo(1 - Math.abs(n));
+    expect(one('jordan')).toBeCloseTo(n * n);
+  });
+
+  test('derivative warp changes swiss and jordan detail', () => {
+    for (const type of ['swiss', 'jordan'] as const) {
+      const warped = createFractalNoise(base, { type, frequency: 0.1 });
+      const flat = createFractalNoise(base, { type, frequency: 0.1, warp: 0 });
+      expect(samples(50).some(([x, y]) => Math.abs(warped(x, y) - flat(x, y)) > 1e-4)).toBe(true);
+    }
+  });
+});
+
+describe('generic sources', () => {
+  test('works over worley and warp2D', () => {
+    const cells = createFractalNoise((x, y) => worley(x, y, { scale: 1 }) * 2 - 1, {
+      type: 'billow',
+      frequency: 0.05,
+      octaves: 3,
+    });
+    const warped = createFractalNoise((x, y) => warp2D(base, base, x, y, 0.5), {
+      type: 'ridged',
+      frequency: 0.1,
+    });
+    for (const [x, y] of samples(50)) {
+      expect(Math.abs(cells(x, y))).toBeLessThanOrEqual(1);
+      expect(warped(x, y)).toBeGreaterThanOrEqual(0);
+      expect(warped(x, y)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('integer lacunarity keeps periodic sources periodic', () => {
+    const noise = new SimplexNoise4D(5);
+    const tile = createFractalNoise((x, y) => noise.periodicNoise2D(x, y, 4, 4), {
+      type: 'ridged',
+      frequency: 1,
+      octaves: 4,
+      octaveShift: 1.3,
+    });
+    for (const [x, y] of samples(30)) {
+      expect(tile(x + 4, y - 4)).toBeCloseTo(tile(x, y), 9);
+    }
+  });
+});
@@ -0,0 +1,385 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Configurable fractal noise over any 2D noise function.
+ *
+ * `createFractalNoise` layers octaves of a `NoiseFunction2D` (simplex,
+ * Worley, a warped field...) with adjustable lacunarity, gain, octave count,
+ * per-octave shift and rotation, and combines them as:
+ * - fbm: plain sum of octaves
+ * - turbulence: sum of absolute values (creases at the zero crossings)
+ * - billow: turbulence remapped to [-1, 1] (puffy, cloud-like)
+ * - ridged: Musgrave's ridged multifractal (sharp mountain ridges)
+ * - hybrid: Musgrave's hybrid multifractal (smooth valleys, rough peaks)
+ * - swiss / jordan: de Carpentier's turbulence, warped and damped by the
+ *   derivatives of earlier octaves (eroded-looking terrain)
+ *
+ * The result is itself a `NoiseFunction2D`, so it plugs into `warp2D`,
+ * `ScalarField.fromFunction` and `curlNoise2D`.
+ */
+
+import type { NoiseFunction2D } from './warp';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** How octaves are combined */
+export type FractalType =
+  | 'fbm'
+  | 'turbulence'
+  | 'billow'
+  | 'ridged'
+  | 'hybrid'
+  | 'swiss'
+  | 'jordan';
+
+/** Options for fractal noise */
+export type FractalOptions = {
+  /** How octaves are combined (default: 'fbm') */
+  readonly type?: FractalType;
+  /** Number of octaves (default: 4) */
+  readonly octaves?: number;
+  /** Frequency of the first octave (default: 1) */
+  readonly frequency?: number;
+  /** Frequency multiplier per octave (default: 2) */
+  readonly lacunarity?: number;
+  /** Amplitude multiplier per octave (default: 0.5) */
+  readonly gain?: number;
+  /** Rotation in radians added per octave, hiding lattice alignment (default: 0) */
+  readonly rotation?: number;
+  /** X offset added per octave before scaling, decorrelating octaves (default: 0) */
+  readonly octaveShift?: number;
+  /** Ridge height for 'ridged', signal offset for 'hybrid' (default: 1 for ridged, 0.7 for hybrid) */
+  readonly offset?: number;
+  /** Derivative warp for 'swiss' and 'jordan' (default: 0.15 for swiss, 0.35 for jordan) */
+  readonly warp?: number;
+  /** Derivative damping of later octaves for 'jordan' (default: 0.8) */
+  readonly damp?: number;
+  /** Divide by the total octave amplitude so values stay near the base range (default: true) */
+  readonly normalize?: boolean;
+  /** Step for the finite-difference derivatives of 'swiss' and 'jordan', in noise coordinates (default: 0.01) */
+  readonly epsilon?: number;
+};
+
+/** Precomputed sampling transform of one octave */
+type Octave = {
+  readonly frequency: number;
+  readonly amplitude: number;
+  readonly cos: number;
+  readonly sin: number;
+  readonly shift: number;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default ridge offset for ridged multifractals */
+const DEFAULT_RIDGED_OFFSET = 1;
+
+/** Default signal offset for hybrid multifractals */
+const DEFAULT_HYBRID_OFFSET = 0.7;
+
+/** How strongly a ridge suppresses detail in the next octave */
+const RIDGED_WEIGHT_GAIN = 2;
+
+/** Default derivative warp for swiss turbulence */
+const DEFAULT_SWISS_WARP = 0.15;
+
+/** Default derivative warp for jordan turbulence */
+const DEFAULT_JORDAN_WARP = 0.35;
+
+/** Default derivative damping for jordan turbulence */
+const DEFAULT_JORDAN_DAMP = 0.8;
+
+/** Amplitude of the second jordan octave relative to the first */
+const JORDAN_FIRST_GAIN = 0.8;
+
+/** Warp contributed by the first jordan octave */
+const JORDAN_FIRST_WARP = 0.4;
+
+/** Damping contributed by the first jordan octave */
+const JORDAN_FIRST_DAMP = 1;
+
+/** Scale of the jordan damping falloff */
+const JORDAN_DAMP_SCALE = 1;
+
+/** Default finite-difference step for noise derivatives */
+const DEFAULT_DERIVATIVE_EPSILON = 0.01;
+
+// ============================================================================
+// Octave Sampling
+// ============================================================================
+
+/**
+ * Sample one octave at a point in base coordinates.
+ * @param noise - Base noise function
+ * @param octave - Octave transform
+ * @param x - X in base coordinates (already scaled by the base frequency)
+ * @param y - Y in base coordinates
+ * @returns Noise value
+ */
+function sampleOctave(noise: NoiseFunction2D, octave: Octave, x: number, y: number): number {
+  const ux = x + octave.shift;
+  return noise(
+    octave.frequency * (octave.cos * ux - octave.sin * y),
+    octave.frequency * (octave.sin * ux + octave.cos * y),
+  );
+}
+
+/**
+ * Sample one octave with its gradient by central differences.
+ * The gradient is measured per unit of noise coordinates, in the
+ * orientation of base coordinates, like an analytic noise derivative.
+ * @param noise - Base noise function
+ * @param octave - Octave transform
+ * @param x - X in base coordinates
+ * @param y - Y in base coordinates
+ * @param epsilon - Step in noise coordinates
+ * @returns Value and gradient [n, dx, dy]
+ */
+function sampleOctaveGradient(
+  noise: NoiseFunction2D,
+  octave: Octave,
+  x: number,
+  y: number,
+  epsilon: number,
+): [number, number, number] {
+  const e = epsilon / octave.frequency;
+  const dx = sampleOctave(noise, octave, x + e, y) - sampleOctave(noise, octave, x - e, y);
+  const dy = sampleOctave(noise, octave, x, y + e) - sampleOctave(noise, octave, x, y - e);
+  return [sampleOctave(noise, octave, x, y), dx / (2 * epsilon), dy / (2 * epsilon)];
+}
+
+// ============================================================================
+// Fractal Variants
+// ============================================================================
+
+/**
+ * Musgrave's ridged multifractal: squared ridges, each weighting the next octave.
+ */
+function ridged(
+  noise: NoiseFunction2D,
+  octaves: readonly Octave[],
+  x: number,
+  y: number,
+  offset: number,
+): number {
+  let sum = 0;
+  let weight = 1;
+  for (const octave of octaves) {
+    let signal = offset - Math.abs(sampleOctave(noise, octave, x, y));
+    signal *= signal * weight;
+    weight = Math.max(0, Math.min(1, signal * RIDGED_WEIGHT_GAIN));
+    sum += signal * octave.amplitude;
+  }
+  return sum;
+}
+
+/**
+ * Musgrave's hybrid multifractal: detail grows with the running value.
+ */
+function hybrid(
+  noise: NoiseFunction2D,
+  octaves: readonly Octave[],
+  x: number,
+  y: number,
+  offset: number,
+): number {
+  let sum = 0;
+  let weight = 1;
+  for (let i = 0; i < octaves.length; i++) {
+    const octave = octaves[i]!;
+    const signal = (sampleOctave(noise, octave, x, y) + offset) * octave.amplitude;
+    if (i === 0) {
+      sum = signal;
+      weight = signal;
+    } else {
+      weight = Math.min(weight, 1);
+      sum += weight * signal;
+      weight *= signal;
+    }
+  }
+  return sum;
+}
+
+/**
+ * De Carpentier's swiss turbulence: ridges whose domain is warped by the
+ * accumulated derivatives of earlier octaves, with detail fading in valleys.
+ */
+function swiss(
+  noise: NoiseFunction2D,
+  octaves: readonly Octave[],
+  x: number,
+  y: number,
+  gain: number,
+  warp: number,
+  epsilon: number,
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let dsumX = 0;
+  let dsumY = 0;
+  for (const octave of octaves) {
+    const [n, dx, dy] = sampleOctaveGradient(
+      noise,
+      octave,
+      x + warp * dsumX,
+      y + warp * dsumY,
+      epsilon,
+    );
+    sum += amplitude * (1 - Math.abs(n));
+    dsumX -= amplitude * dx * n;
+    dsumY -= amplitude * dy * n;
+    amplitude *= gain * Math.max(0, Math.min(1, sum));
+  }
+  return sum;
+}
+
+/**
+ * De Carpentier's jordan turbulence: squared octaves, warped and damped by
+ * the derivatives of earlier octaves.
+ */
+function jordan(
+  noise: NoiseFunction2D,
+  octaves: readonly Octave[],
+  x: number,
+  y: number,
+  warp: number,
+  damp: number,
+  epsilon: number,
+): number {
+  const first = octaves[0];
+  if (!first) return 0;
+
+  const [n0, dx0, dy0] = sampleOctaveGradient(noise, first, x, y, epsilon);
+  let sum = n0 * n0;
+  let warpX = JORDAN_FIRST_WARP * n0 * dx0;
+  let warpY = JORDAN_FIRST_WARP * n0 * dy0;
+  let dampX = JORDAN_FIRST_DAMP * n0 * dx0;
+  let dampY = JORDAN_FIRST_DAMP * n0 * dy0;
+  // The second octave is undamped
+  let damping = 1;
+
+  for (let i = 1; i < octaves.length; i++) {
+    const octave = octaves[i]!;
+    // The warp is in noise coordinates of this octave
+    const [n, dx, dy] = sampleOctaveGradient(
+      noise,
+      octave,
+      x + warpX / octave.frequency,
+      y + warpY / octave.frequency,
+      epsilon,
+    );
+    sum += JORDAN_FIRST_GAIN * octave.amplitude * damping * n * n;
+    warpX += warp * n * dx;
+    warpY += warp * n * dy;
+    dampX += damp * n * dx;
+    dampY += damp * n * dy;
+    damping = 1 - JORDAN_DAMP_SCALE / (1 + dampX * dampX + dampY * dampY);
+  }
+  return sum;
+}
+
+// ============================================================================
+// Fractal Builder
+// ============================================================================
+
+/**
+ * Build a fractal noise function from any 2D noise function.
+ *
+ * Octave i samples the base noise at
+ * `frequency * lacunarity^i * rotate(i * rotation, (x + i * octaveShift, y))`
+ * (x and y scaled by `frequency` first) with amplitude `gain^i`. Integer
+ * lacunarity with zero rotation keeps periodic base noise periodic.
+ *
+ * For base noise in [-1, 1], normalized output lies in [-1, 1] for fbm and
+ * billow, [0, 1] for turbulence, swiss, jordan and ridged (with offset 1),
+ * and around [offset - 1, offset + 1] for hybrid.
+ *
+ * @param noise - Base noise, ideally in [-1, 1] (e.g. simplex, or Worley remapped)
+ * @param options - Octave layout and combination
+ * @returns Fractal noise function
+ *
+ * @example
+ * ```ts
+ * const simplex = new SimplexNoise2D(42);
+ * const mountains = createFractalNoise((x, y) => simplex.noise2D(x, y), {
+ *   type: 'ridged',
+ *   frequency: 0.005,
+ *   octaves: 6,
+ *   rotation: 0.5,
+ * });
+ * const field = ScalarField.fromFunction(200, 200, mountains, { cellSize: 4 });
+ *
+ * // Any NoiseFunction2D works, e.g. Worley cells or a warped field
+ * const cells = createFractalNoise((x, y) => worley(x, y, { scale: 1 }) * 2 - 1, {
+ *   type: 'billow',
+ *   frequency: 0.02,
+ * });
+ * ```
+ */
+export function createFractalNoise(
+  noise: NoiseFunction2D,
+  options: FractalOptions = {},
+): NoiseFunction2D {
+  const {
+    type = 'fbm',
+    octaves = 4,
+    frequency = 1,
+    lacunarity = 2,
+    gain = 0.5,
+    rotation = 0,
+    octaveShift = 0,
+    damp = DEFAULT_JORDAN_DAMP,
+    normalize = true,
+    epsilon = DEFAULT_DERIVATIVE_EPSILON,
+  } = options;
+  const offset =
+    options.offset ?? (type === 'hybrid' ? DEFAULT_HYBRID_OFFSET : DEFAULT_RIDGED_OFFSET);
+  const warp = options.warp ?? (type === 'jordan' ? DEFAULT_JORDAN_WARP : DEFAULT_SWISS_WARP);
+
+  const layers: Octave[] = Array.from({ length: Math.max(0, Math.floor(octaves)) }, (_, i) => ({
+    frequency: Math.pow(lacunarity, i),
+    amplitude: Math.pow(gain, i),
+    cos: Math.cos(i * rotation),
+    sin: Math.sin(i * rotation),
+    shift: i * octaveShift,
+  }));
+
+  // Largest possible total amplitude (jordan scales octaves after the first)
+  let total = 0;
+  for (let i = 0; i < layers.length; i++) {
+    const amplitude = layers[i]!.amplitude;
+    total += type === 'jordan' && i > 0 ? JORDAN_FIRST_GAIN * amplitude : amplitude;
+  }
+  const scale = normalize && total > 0 ? 1 / total : 1;
+
+  return (x, y) => {
+    const sx = x * frequency;
+    const sy = y * frequency;
+    let sum = 0;
+    switch (type) {
+      case 'ridged':
+        sum = ridged(noise, layers, sx, sy, offset);
+        break;
+      case 'hybrid':
+        sum = hybrid(noise, layers, sx, sy, offset);
+        break;
+      case 'swiss':
+        sum = swiss(noise, layers, sx, sy, gain, warp, epsilon);
+        break;
+      case 'jordan':
+        sum = jordan(noise, layers, sx, sy, warp, damp, epsilon);
+        break;
+      default:
+        for (const octave of layers) {
+          const n = sampleOctave(noise, octave, sx, sy);
+          const value =
+            type === 'turbulence' ? Math.abs(n) : type === 'billow' ? 2 * Math.abs(n) - 1 : n;
+          sum += octave.amplitude * value;
+        }
+    }
+    return sum * scale;
+  };
+}
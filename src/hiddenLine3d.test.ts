@@ -0,0 +1,168 @@
+/**
+ * Tests for 3D hidden-line rendering.
+ * These tests cover: Camera (perspective and orthographic projection, near
+ * clipping, facing), boxMesh and surfaceMesh, projectFaces (culling, depth
+ * order) and drawHiddenLines (occlusion through the polygon manager).
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  Camera,
+  boxMesh,
+  drawHiddenLines,
+  projectFaces,
+  surfaceMesh,
+  type Point3,
+} from './hiddenLine3d';
+import { Polygons } from './polygons';
+
+const cube = boxMesh({ x: 1, y: 1, z: 1 });
+
+/** Total length of drawn segments */
+const drawnLength = (draw: (fn: (a: p5.Vector, b: p5.Vector) => void) => void): number => {
+  let length = 0;
+  draw((a, b) => (length += Math.hypot(b.x - a.x, b.y - a.y)));
+  return length;
+};
+
+describe('Camera', () => {
+  test('perspective projection maps the view centre and scales by depth', () => {
+    const camera = new Camera({ screenCenter: { x: 200, y: 150 } });
+    const centre = camera.project({ x: 0, y: 0, z: 0 })!;
+    expect(centre.x).toBeCloseTo(200);
+    expect(centre.y).toBeCloseTo(150);
+    expect(centre.depth).toBeCloseTo(5);
+
+    // Screen Y points down, so world up moves the point up the screen
+    const top = camera.project({ x: 0, y: 1, z: 0 })!;
+    expect(top.y).toBeCloseTo(150 - 100 / (5 * Math.tan(Math.PI / 6)));
+
+    const far = camera.project({ x: 1, y: 0, z: -5 })!;
+    const nearer = camera.project({ x: 1, y: 0, z: 0 })!;
+    expect(far.x - 200).toBeCloseTo((nearer.x - 200) / 2);
+  });
+
+  test('orthographic projection ignores depth', () => {
+    const camera = new Camera({ projection: 'orthographic', orthoHalfHeight: 2 });
+    expect(camera.project({ x: 1, y: 0, z: 0 })!.x).toBeCloseTo(50);
+    expect(camera.project({ x: 1, y: 0, z: -10 })!.x).toBeCloseTo(50);
+  });
+
+  test('points behind the camera are not projected', () => {
+    const camera = new Camera();
+    expect(camera.project({ x: 0, y: 0, z: 6 })).toBeNull();
+  });
+
+  test('facing follows the normal', () => {
+    const camera = new Camera();
+    const p: Point3 = { x: 0, y: 0, z: 0.5 };
+    expect(camera.facing(p, { x: 0, y: 0, z: 1 })).toBe(true);
+    expect(camera.facing(p, { x: 0, y: 0, z: -1 })).toBe(false);
+  });
+});
+
+describe('meshes', () => {
+  test('box faces point outwards', () => {
+    expect(cube.vertices).toHaveLength(8);
+    expect(cube.faces).toHaveLength(6);
+    const faces = projectFaces([cube], new Camera({ position: { x: 0.1, y: 0.2, z: 5 } }));
+    for (const face of faces) {
+      const centre = cube.faces[face.face]!.reduce(
+        (c, i) => {
+          const v = cube.vertices[i]!;
+          return { x: c.x + v.x / 4, y: c.y + v.y / 4, z: c.z + v.z / 4 };
+        },
+        { x: 0, y: 0, z: 0 },
+      );
+      expect(
+        centre.x * face.normal.x + centre.y * face.normal.y + centre.z * face.normal.z,
+      ).toBeGreaterThan(0);
+    }
+  });
+
+  test('surface mesh samples the height function', () => {
+    const surface = surfaceMesh((x, z) => x + z, { columns: 4, rows: 2 });
+    expect(surface.vertices).toHaveLength(15);
+    expect(surface.faces).toHaveLength(8);
+    const corner = surface.vertices[0]!;
+    expect(corner.x).toBeCloseTo(-1);
+    expect(corner.z).toBeCloseTo(-1);
+    expect(corner.y).toBeCloseTo(-2);
+  });
+});
+
+describe('projectFaces', () => {
+  const camera = new Camera({ position: { x: 3, y: 2.5, z: 4 } });
+
+  test('back-face culling keeps the three visible sides', () => {
+    expect(projectFaces([cube], camera, true)).toHaveLength(3);
+    expect(projectFaces([cube], camera)).toHaveLength(6);
+  });
+
+  test('faces are sorted nearest first', () => {
+    const faces = projectFaces([cube], camera);
+    for (let i = 1; i < faces.length; i++) {
+      expect(faces[i]!.depth).toBeGreaterThanOrEqual(faces[i - 1]!.depth);
+    }
+  });
+
+  test('faces seen edge-on are skipped', () => {
+    const front = new Camera({ projection: 'orthographic' });
+    // Only the +Z and -Z faces have screen area
+    expect(projectFaces([cube], front)).toHaveLength(2);
+  });
+});
+
+describe('drawHiddenLines', () => {
+  test('a cube hides a cube behind it', () => {
+    const camera = new Camera({ position: { x: 0, y: 0, z: 5 } });
+    const back = boxMesh({ x: 1, y: 1, z: 1 }, { x: 0, y: 0, z: -3 });
+
+    const alone = drawnLength((fn) => drawHiddenLines([cube], camera, fn, { cullBackFaces: true }));
+    const both = drawnLength((fn) =>
+      drawHiddenLines([cube, back], camera, fn, { cullBackFaces: true }),
+    );
+    expect(alone).toBeGreaterThan(0);
+    expect(both).toBeCloseTo(alone);
+  });
+
+  test('hidden edges of a cube are removed without culling', () => {
+    const camera = new Camera({ position: { x: 3, y: 2.5, z: 4 } });
+    // The corner facing away from the camera is behind the three front faces
+    const hidden = camera.project({ x: -0.5, y: -0.5, z: -0.5 })!;
+    let nearest = Infinity;
+    drawHiddenLines([cube], camera, (a, b) => {
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const t = Math.max(
+        0,
+        Math.min(1, ((hidden.x - a.x) * dx + (hidden.y - a.y) * dy) / (dx * dx + dy * dy)),
+      );
+      nearest = Math.min(nearest, Math.hypot(hidden.x - a.x - t * dx, hidden.y - a.y - t * dy));
+    });
+    expect(nearest).toBeGreaterThan(1);
+  });
+
+  test('style and manager options are used', () => {
+    const manager = Polygons({ bounds: [-200, -200, 200, 200], cellSize: 20 });
+    let styled = 0;
+    const result = drawHiddenLines(
+      [cube],
+      new Camera({ position: { x: 3, y: 2.5, z: 4 } }),
+      () => {},
+      {
+        cullBackFaces: true,
+        manager,
+        style: (face) => {
+          styled++;
+          face.poly.addOutline();
+          face.poly.addHatching(Math.PI / 4, 5);
+        },
+      },
+    );
+    expect(result).toBe(manager);
+    expect(styled).toBe(3);
+    expect(manager.list()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,425 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Hidden-line rendering of 3D meshes for pen plotters.
+ * Faces are projected through a camera (perspective or orthographic) into
+ * `Poly` outlines, sorted front to back by depth (painter ordering, reversed)
+ * and drawn through a `PolygonManager`, so every face clips the faces behind it.
+ *
+ * World axes are right-handed with Y up; projected points use screen axes
+ * (Y down) centred on `screenCenter`, ready for p5 drawing.
+ */
+
+import { type DrawSegmentFunction, type PolygonManager, Poly, Polygons } from './polygons';
+import { createVector } from './vec2';
+
+/** Default vertical field of view for perspective projection */
+const DEFAULT_FOV = Math.PI / 3;
+
+/** Default screen distance from the centre to the top of the view */
+const DEFAULT_SCREEN_SCALE = 100;
+
+/** Default world half-height visible in orthographic projection */
+const DEFAULT_ORTHO_HALF_HEIGHT = 1;
+
+/** Default near clipping distance */
+const DEFAULT_NEAR = 0.01;
+
+/** Projected faces with less screen area than this are skipped */
+const MIN_FACE_AREA = 1e-9;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Point or direction in 3D */
+export type Point3 = { readonly x: number; readonly y: number; readonly z: number };
+
+/** Polygon mesh: shared vertices and faces as vertex index loops */
+export type Mesh = {
+  readonly vertices: readonly Point3[];
+  /** Faces wound counter-clockwise when seen from the front (outside) */
+  readonly faces: readonly (readonly number[])[];
+};
+
+/** Camera projection type */
+export type Projection = 'perspective' | 'orthographic';
+
+/** Camera placement and projection */
+export type CameraOptions = {
+  /** Eye position (default: { x: 0, y: 0, z: 5 }) */
+  readonly position?: Point3;
+  /** Point looked at (default: origin) */
+  readonly target?: Point3;
+  /** Up direction (default: { x: 0, y: 1, z: 0 }) */
+  readonly up?: Point3;
+  /** Projection type (default: 'perspective') */
+  readonly projection?: Projection;
+  /** Vertical field of view in radians, perspective only (default: PI / 3) */
+  readonly fov?: number;
+  /** World half-height visible, orthographic only (default: 1) */
+  readonly orthoHalfHeight?: number;
+  /** Screen position of the view centre (default: origin) */
+  readonly screenCenter?: { readonly x: number; readonly y: number };
+  /** Screen distance from the centre to the top edge of the view (default: 100) */
+  readonly screenScale?: number;
+  /** Points closer than this are not projected (default: 0.01) */
+  readonly near?: number;
+};
+
+/** Projected point in screen axes */
+export type ProjectedPoint = {
+  readonly x: number;
+  readonly y: number;
+  /** Distance in front of the camera along the view direction */
+  readonly depth: number;
+};
+
+/** Mesh face projected to the screen */
+export type ProjectedFace = {
+  /** Screen outline */
+  readonly poly: Poly;
+  /** Mean view depth of the face's vertices */
+  readonly depth: number;
+  /** Unit face normal in world space */
+  readonly normal: Point3;
+  /** Index of the mesh in the input list */
+  readonly mesh: number;
+  /** Index of the face within its mesh */
+  readonly face: number;
+};
+
+/** Options for hidden-line drawing */
+export type HiddenLineOptions = {
+  /** Skip faces turned away from the camera, for closed meshes (default: false) */
+  readonly cullBackFaces?: boolean;
+  /** Adds drawable segments to each face (default: outline only) */
+  readonly style?: (face: ProjectedFace) => void;
+  /** Manager to draw into, e.g. with custom grid bounds (default: auto-growing manager) */
+  readonly manager?: PolygonManager;
+};
+
+/** Options for surface meshes */
+export type SurfaceMeshOptions = {
+  /** Extent along X (default: 2) */
+  readonly width?: number;
+  /** Extent along Z (default: 2) */
+  readonly depth?: number;
+  /** Quads along X (default: 20) */
+  readonly columns?: number;
+  /** Quads along Z (default: 20) */
+  readonly rows?: number;
+  /** Centre of the surface on the XZ plane (default: origin) */
+  readonly center?: Point3;
+};
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/** Vector difference a - b */
+function sub(a: Point3, b: Point3): Point3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/** Dot product */
+function dot(a: Point3, b: Point3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/** Cross product */
+function cross(a: Point3, b: Point3): Point3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+/** Unit vector (zero vectors stay zero) */
+function normalize(a: Point3): Point3 {
+  const len = Math.hypot(a.x, a.y, a.z);
+  return len > 0 ? { x: a.x / len, y: a.y / len, z: a.z / len } : a;
+}
+
+/**
+ * Unit normal of a face loop (Newell's method, robust for non-planar quads).
+ */
+function faceNormal(points: readonly Point3[]): Point3 {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (let i = 0, n = points.length; i < n; i++) {
+    const a = points[i]!;
+    const b = points[(i + 1) % n]!;
+    x += (a.y - b.y) * (a.z + b.z);
+    y += (a.z - b.z) * (a.x + b.x);
+    z += (a.x - b.x) * (a.y + b.y);
+  }
+  return normalize({ x, y, z });
+}
+
+// ============================================================================
+// Camera
+// ============================================================================
+
+/**
+ * Camera projecting world points to screen coordinates.
+ *
+ * @example
+ * ```ts
+ * const camera = new Camera({ position: { x: 3, y: 2, z: 4 }, screenCenter: { x: 200, y: 200 } });
+ * const p = camera.project({ x: 0, y: 1, z: 0 });
+ * if (p) point(p.x, p.y);
+ * ```
+ */
+export class Camera {
+  /** Eye position */
+  readonly position: Point3;
+
+  /** Projection type */
+  readonly projection: Projection;
+
+  /** View axes: right, up and forward */
+  private readonly right: Point3;
+  private readonly up: Point3;
+  private readonly forward: Point3;
+
+  /** Screen units per view unit at depth 1 (perspective) or per world unit (orthographic) */
+  private readonly focal: number;
+
+  private readonly center: { readonly x: number; readonly y: number };
+  private readonly near: number;
+
+  constructor(options: CameraOptions = {}) {
+    const {
+      position = { x: 0, y: 0, z: 5 },
+      target = { x: 0, y: 0, z: 0 },
+      up = { x: 0, y: 1, z: 0 },
+      projection = 'perspective',
+      fov = DEFAULT_FOV,
+      orthoHalfHeight = DEFAULT_ORTHO_HALF_HEIGHT,
+      screenCenter = { x: 0, y: 0 },
+      screenScale = DEFAULT_SCREEN_SCALE,
+      near = DEFAULT_NEAR,
+    } = options;
+
+    this.position = position;
+    this.projection = projection;
+    this.forward = normalize(sub(target, position));
+    this.right = normalize(cross(this.forward, up));
+    this.up = cross(this.right, this.forward);
+    this.focal =
+      projection === 'perspective'
+        ? screenScale / Math.tan(fov / 2)
+        : screenScale / orthoHalfHeight;
+    this.center = screenCenter;
+    this.near = near;
+  }
+
+  /**
+   * Point in view axes: x right, y up, z forward (depth).
+   * @param p - World point
+   * @returns View-space point
+   */
+  toView(p: Point3): Point3 {
+    const d = sub(p, this.position);
+    return { x: dot(d, this.right), y: dot(d, this.up), z: dot(d, this.forward) };
+  }
+
+  /**
+   * Project a world point to the screen.
+   * @param p - World point
+   * @returns Screen point with depth, or null when closer than the near distance
+   */
+  project(p: Point3): ProjectedPoint | null {
+    const v = this.toView(p);
+    if (v.z < this.near) return null;
+    const scale = this.projection === 'perspective' ? this.focal / v.z : this.focal;
+    return { x: this.center.x + v.x * scale, y: this.center.y - v.y * scale, depth: v.z };
+  }
+
+  /**
+   * Whether a face with this normal at this point is turned towards the camera.
+   * @param p - Point on the face
+   * @param normal - Face normal
+   * @returns true if front-facing
+   */
+  facing(p: Point3, normal: Point3): boolean {
+    const toEye =
+      this.projection === 'perspective'
+        ? sub(this.position, p)
+        : { x: -this.forward.x, y: -this.forward.y, z: -this.forward.z };
+    return dot(normal, toEye) > 0;
+  }
+}
+
+// ============================================================================
+// Meshes
+// ============================================================================
+
+/**
+ * Axis-aligned box mesh with six quads facing outwards.
+ *
+ * @param size - Edge lengths along X, Y and Z
+ * @param center - Box centre (default: origin)
+ * @returns Box mesh
+ *
+ * @example
+ * ```ts
+ * const cube = boxMesh({ x: 1, y: 1, z: 1 });
+ * ```
+ */
+export function boxMesh(size: Point3, center: Point3 = { x: 0, y: 0, z: 0 }): Mesh {
+  const vertices: Point3[] = [];
+  // Vertex i has +X when bit 0 is set, +Y for bit 1 and +Z for bit 2
+  for (let i = 0; i < 8; i++) {
+    vertices.push({
+      x: center.x + (i & 1 ? 0.5 : -0.5) * size.x,
+      y: center.y + (i & 2 ? 0.5 : -0.5) * size.y,
+      z: center.z + (i & 4 ? 0.5 : -0.5) * size.z,
+    });
+  }
+  const faces = [
+    [4, 5, 7, 6], // +Z
+    [0, 2, 3, 1], // -Z
+    [1, 3, 7, 5], // +X
+    [0, 4, 6, 2], // -X
+    [2, 6, 7, 3], // +Y
+    [0, 1, 5, 4], // -Y
+  ];
+  return { vertices, faces };
+}
+
+/**
+ * Height-field surface over the XZ plane, e.g. terrain or a noise surface.
+ *
+ * @param height - Height (Y) for a world X, Z position; a NoiseFunction2D works directly
+ * @param options - Extent, resolution and centre
+ * @returns Surface mesh of quads facing up
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise2D(7);
+ * const terrain = surfaceMesh((x, z) => 0.3 * noise.noise2D(x, z), { columns: 40, rows: 40 });
+ * ```
+ */
+export function surfaceMesh(
+  height: (x: number, z: number) => number,
+  options: SurfaceMeshOptions = {},
+): Mesh {
+  const { width = 2, depth = 2, columns = 20, rows = 20, center = { x: 0, y: 0, z: 0 } } = options;
+
+  const vertices: Point3[] = [];
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i <= columns; i++) {
+      const x = center.x + (i / columns - 0.5) * width;
+      const z = center.z + (j / rows - 0.5) * depth;
+      vertices.push({ x, y: center.y + height(x, z), z });
+    }
+  }
+
+  const faces: number[][] = [];
+  const at = (i: number, j: number) => i + j * (columns + 1);
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      faces.push([at(i, j), at(i, j + 1), at(i + 1, j + 1), at(i + 1, j)]);
+    }
+  }
+  return { vertices, faces };
+}
+
+// ============================================================================
+// Projection and Drawing
+// ============================================================================
+
+/**
+ * Project mesh faces to screen polygons, sorted nearest first. Faces with a
+ * vertex behind the near distance, and faces seen exactly edge-on, are skipped.
+ *
+ * @param meshes - Meshes to project
+ * @param camera - Camera
+ * @param cullBackFaces - Skip faces turned away from the camera (default: false)
+ * @returns Projected faces, nearest first
+ *
+ * @example
+ * ```ts
+ * for (const face of projectFaces([cube], camera, true)) {
+ *   console.log(face.depth, face.normal);
+ * }
+ * ```
+ */
+export function projectFaces(
+  meshes: readonly Mesh[],
+  camera: Camera,
+  cullBackFaces = false,
+): ProjectedFace[] {
+  const faces: ProjectedFace[] = [];
+
+  meshes.forEach((mesh, m) => {
+    const projected = mesh.vertices.map((v) => camera.project(v));
+
+    mesh.faces.forEach((loop, f) => {
+      if (loop.length < 3) return;
+      const points = loop.map((i) => projected[i]);
+      if (points.some((p) => !p)) return;
+
+      const world = loop.map((i) => mesh.vertices[i]!);
+      const normal = faceNormal(world);
+      if (cullBackFaces && !camera.facing(world[0]!, normal)) return;
+
+      let area = 0;
+      for (let i = 0, n = points.length; i < n; i++) {
+        const a = points[i]!;
+        const b = points[(i + 1) % n]!;
+        area += a.x * b.y - b.x * a.y;
+      }
+      if (Math.abs(area) < MIN_FACE_AREA) return;
+
+      const depth = points.reduce((sum, p) => sum + p!.depth, 0) / points.length;
+      const poly = Poly.fromRings(points.map((p) => createVector(p!.x, p!.y)));
+      faces.push({ poly, depth, normal, mesh: m, face: f });
+    });
+  });
+
+  return faces.sort((a, b) => a.depth - b.depth);
+}
+
+/**
+ * Draw meshes with hidden lines removed. Faces are drawn nearest first through
+ * a PolygonManager, so each face is clipped by every face in front of it.
+ * Sorting uses mean face depth, which suits meshes of similar-sized faces
+ * (boxes, terrains); long faces that interleave in depth may be ordered wrongly.
+ *
+ * @param meshes - Meshes to draw
+ * @param camera - Camera
+ * @param drawFn - Function to draw each visible segment
+ * @param options - Culling, per-face style and target manager
+ * @returns The manager holding the drawn faces
+ *
+ * @example
+ * ```ts
+ * const camera = new Camera({ position: { x: 3, y: 2.5, z: 4 } });
+ * drawHiddenLines([boxMesh({ x: 1, y: 1, z: 1 })], camera, (a, b) => line(a.x, a.y, b.x, b.y), {
+ *   cullBackFaces: true,
+ *   style: (face) => {
+ *     face.poly.addOutline();
+ *     if (face.normal.y > 0.5) face.poly.addHatching(Math.PI / 4, 4);
+ *   },
+ * });
+ * ```
+ */
+export function drawHiddenLines(
+  meshes: readonly Mesh[],
+  camera: Camera,
+  drawFn: DrawSegmentFunction,
+  options: HiddenLineOptions = {},
+): PolygonManager {
+  const {
+    cullBackFaces = false,
+    style = (face: ProjectedFace) => face.poly.addOutline(),
+    manager = Polygons({ autoGrow: true }),
+  } = options;
+
+  for (const face of projectFaces(meshes, camera, cullBackFaces)) {
+    style(face);
+    manager.draw(drawFn, face.poly);
+  }
+  return manager;
+}
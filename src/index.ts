@@ -3,31 +3,115 @@
  *
  * This collection provides advanced tools for:
  * - 2D vector mathematics and geometry
+ * - Pluggable vector backend (p5 global/instance mode, built-in Vec2)
+ * - Seeded random numbers shared by every generator (forkable sub-streams)
  * - Circle and polar coordinate utilities
- * - Line interpolation utilities
- * - Noise generation (Simplex, FBM, Curl)
+ * - Line interpolation and intersection (segments, rays, sweep-line crossings)
+ * - Polyline tools (resample, simplify, smooth, offset, dash, trim)
+ * - Segment and polyline clipping to rectangles and circles
+ * - Noise generation (2D/3D/4D Simplex, FBM, looping and tileable noise, Curl)
+ * - Scalar fields (Float32Array grids shared by noise, warping and contours)
  * - Domain warping (organic pattern distortion)
+ * - Fractal noise builder (fbm, ridged, billow, hybrid, turbulence, swiss, jordan)
  * - Poisson-disc sampling (blue-noise distribution)
  * - Contour extraction (Marching Squares)
  * - Pattern formation (Reaction-Diffusion)
  * - Recursive subdivision (Triangles)
- * - Polygon clipping and hatching
+ * - Polygon clipping and hatching (cross, wave, spiral, concentric, zig-zag, stipple)
+ * - Region booleans (union, intersection, difference, XOR with holes)
+ * - Polygon offsetting (inset/outset with miter, round and bevel joins)
+ * - Polygon analysis (area, centroid, orientation, convex hull, self-intersection)
+ * - 3D hidden-line rendering (camera, projection, meshes through the polygon manager)
+ * - SVG export with pen layers and physical units
+ * - Pen plotter path optimisation (pen-up travel reduction)
+ * - G-code (GRBL) and HPGL export with tool changes
  * - Delaunay triangulation (mesh generation)
+ * - Polygon triangulation (ear clipping with holes, area-weighted sampling)
  * - Catmull-Rom spline interpolation (smooth curves)
+ * - B-spline, Hermite and Kochanek–Bartels (TCB) splines with the Catmull-Rom API
+ * - Spline curvature, normals, rotation-minimizing frames, strokes and tubes
+ * - Spline queries (nearest point, line and curve intersections, splitting)
+ * - Arc-length tables and path followers (easing, looping, speed profiles)
+ * - Bézier curves (flattening, arc length, bounds, intersections, SVG output)
  * - Circle packing (space-filling layouts)
  * - Voronoi diagrams (spatial partitioning)
  *
  * All utilities are framework-agnostic and work with p5.js, Canvas, or any rendering system.
+ * Call `setVectorFactory` once to run headless (Node, workers) or in p5 instance mode.
  */
 
 // Initialize global math constants (PI, TWO_PI)
 import './globals';
 
 // Vector utilities
-export { arcPoints } from './vec2';
+export {
+  Vec2,
+  arcPoints,
+  createVector,
+  setVectorFactory,
+  getVectorFactory,
+  p5VectorFactory,
+  vec2Factory,
+  type VectorFactory,
+  type P5VectorSource,
+} from './vec2';
+
+// Seeded random numbers
+export {
+  SeededRandom,
+  toRandomFunction,
+  toSeededRandom,
+  toSeed,
+  type RandomFunction,
+  type RandomSource,
+} from './random';
 
 // Line utilities
-export { distance, lerp, lerpLine, type LerpOptions } from './line';
+export {
+  distance,
+  lerp,
+  lerpLine,
+  lineIntersection,
+  closestPointOnSegment,
+  pointSegmentDistance,
+  findSegmentIntersections,
+  type LerpOptions,
+  type LineKind,
+  type IntersectionOptions,
+  type LineIntersection,
+  type Segment,
+  type SegmentPairIntersection,
+  type FindIntersectionsOptions,
+} from './line';
+
+// Polyline utilities
+export {
+  polylineLength,
+  pointAtDistance,
+  resamplePolyline,
+  simplifyRDP,
+  simplifyVisvalingam,
+  chaikinSmooth,
+  offsetPolyline,
+  dashPolyline,
+  subPolyline,
+  trimPolyline,
+  type ResampleOptions,
+  type PolylineOffsetOptions,
+} from './polyline';
+
+// Segment and polyline clipping
+export {
+  clipSegmentLiangBarsky,
+  clipSegmentCohenSutherland,
+  clipSegmentToCircle,
+  clipSegment,
+  clipSegments,
+  clipLineSegments,
+  clipPolyline,
+  type ClipCircle,
+  type ClipFrame,
+} from './clipping';
 
 // Circle utilities
 export {
@@ -55,7 +139,21 @@ export {
 } from './circle';
 
 // Noise and flow fields
-export { SimplexNoise2D, fbm2D, curlNoise2D, type FbmFunction } from './simplexCurl';
+export {
+  SimplexNoise2D,
+  SimplexNoise3D,
+  SimplexNoise4D,
+  fbm2D,
+  fbm3D,
+  fbm4D,
+  loopNoise,
+  periodicFbm2D,
+  curlNoise2D,
+  type FbmFunction,
+} from './simplexCurl';
+
+// Scalar fields
+export { ScalarField, type ScalarFieldConfig, type SampleMode } from './scalarField';
 
 // Poisson-disc sampling
 export { PoissonDiscGrid, PoissonDiscSampler } from './poisson';
@@ -73,7 +171,6 @@ export {
 
 // Reaction-diffusion simulation
 export {
-  SeededRandom,
   GrayScott,
   getMarchingSquaresResultFromReactionDiffusion,
   getReactionDiffusionSegments,
@@ -87,7 +184,6 @@ export {
   subdivideTriangleRoot,
   triangleVertices,
   triangleArcBands,
-  type RandomFunction,
   type SubdivisionParams,
   type ArcBandOptions,
   type ArcBand,
@@ -100,8 +196,99 @@ export {
   type AABB,
   type DrawSegmentFunction,
   type PolygonManager,
+  type PolygonsOptions,
+  type PolygonBinStats,
 } from './polygons';
 
+// Region boolean operations
+export {
+  polygonBoolean,
+  resolveRings,
+  type BooleanOperation,
+  type FillRule,
+  type BooleanComponent,
+  type Ring,
+} from './polygonBoolean';
+
+// Polygon offsetting
+export { offsetRings, offsetPolygon, type JoinType, type OffsetOptions } from './offset';
+
+// Polygon analysis
+export {
+  signedArea,
+  polygonArea,
+  polygonCentroid,
+  polygonPerimeter,
+  orientation,
+  fixOrientation,
+  fixRingOrientations,
+  isConvex,
+  convexHull,
+  minAreaRect,
+  selfIntersections,
+  isSimple,
+  polygonDistance,
+  type PolygonLike,
+  type Orientation,
+  type OrientedRect,
+} from './polygonAnalysis';
+export { ringSignedArea, pointInRing, ringDepths, type RingPoint } from './ring';
+
+// 3D hidden-line rendering
+export {
+  Camera,
+  boxMesh,
+  surfaceMesh,
+  projectFaces,
+  drawHiddenLines,
+  type Point3,
+  type Mesh,
+  type Projection,
+  type CameraOptions,
+  type ProjectedPoint,
+  type ProjectedFace,
+  type HiddenLineOptions,
+  type SurfaceMeshOptions,
+} from './hiddenLine3d';
+
+// Fill pattern options
+export { type WaveHatchOptions, type StippleOptions } from './fills';
+
+// SVG export for pen plotters
+export {
+  SvgWriter,
+  joinSegments,
+  removeCollinearPoints,
+  type SvgUnit,
+  type SvgPath,
+  type SvgLayerStyle,
+  type SvgWriterOptions,
+  type SegmentPair,
+} from './svg';
+
+// Pen plotter path optimisation
+export {
+  optimizePaths,
+  optimizeSegments,
+  travelDistance,
+  type PlotOptimizeOptions,
+  type PlotOptimizeResult,
+} from './plotter';
+
+// G-code and HPGL export
+export {
+  toGcode,
+  toHpgl,
+  plotLayersFromSvg,
+  pathsFromLineSegments,
+  pathsFromPolygons,
+  pathFromSpline,
+  type PlotLayer,
+  type PlotTransformOptions,
+  type GcodeOptions,
+  type HpglOptions,
+} from './plotterExport';
+
 // Delaunay triangulation
 export {
   Triangle,
@@ -115,6 +302,15 @@ export {
   type Circumcircle,
 } from './delaunay';
 
+// Polygon triangulation
+export {
+  triangulatePolygon,
+  triangulateRings,
+  triangleCorners,
+  randomPointsInRings,
+  type IndexTriangle,
+} from './earClipping';
+
 // Catmull-Rom spline interpolation
 export {
   CatmullRomSpline,
@@ -124,6 +320,83 @@ export {
   type PointInput,
 } from './catmullRom';
 
+// Spline families
+export {
+  SplineBase,
+  BSpline,
+  HermiteSpline,
+  KochanekBartelsSpline,
+  type Spline,
+  type SplineConfig,
+  type BSplineConfig,
+  type TcbParams,
+  type KochanekBartelsConfig,
+} from './splines';
+
+// Spline frames and curvature
+export {
+  splineCurvature,
+  splineSignedCurvature,
+  splineNormal,
+  rotationMinimizingFrames,
+  adaptiveSplineParams,
+  adaptiveSplinePoints,
+  splineStroke,
+  splineTube,
+  type SplineFrame,
+  type FrameOptions,
+  type AdaptiveSampleOptions,
+  type StrokeSides,
+  type TubeOptions,
+  type WidthProfile,
+} from './splineFrames';
+
+// Spline queries
+export {
+  SplineIndex,
+  nearestPointOnSpline,
+  distanceToSpline,
+  splineLineIntersections,
+  splineIntersections,
+  splitSpline,
+  type SplineNearest,
+  type SplineIntersection,
+  type SegmentedSpline,
+} from './splineQueries';
+
+// Arc-length tables
+export { ArcLengthTable, ARC_LENGTH_SAMPLES } from './arcLength';
+
+// Path followers
+export {
+  PathFollower,
+  easings,
+  speedKeyframes,
+  type Easing,
+  type EasingName,
+  type SpeedProfile,
+  type PathFollowerOptions,
+} from './pathFollower';
+
+// Bézier curves
+export {
+  bezierPoint,
+  bezierDerivative,
+  copyBezier,
+  splitBezier,
+  flattenBezier,
+  bezierLength,
+  bezierTAtLength,
+  evenlySpacedBezierPoints,
+  bezierBoundingBox,
+  bezierLineIntersections,
+  catmullRomToBeziers,
+  type QuadraticBezier,
+  type CubicBezier,
+  type Bezier,
+  type BezierLineIntersection,
+} from './bezier';
+
 // Circle packing
 export {
   PackedCircle,
@@ -151,6 +424,7 @@ export {
   minkowskiDistance,
   getDistanceFunction,
   computeVoronoiCellsEuclidean,
+  insetVoronoiCells,
   type DistanceMetric,
   type VoronoiBounds,
   type VoronoiConfig,
@@ -167,6 +441,7 @@ export {
   worleyFractal,
   worleyToGray,
   worleyField,
+  worleyScalarField,
   findNearestFeaturePoints,
   getCellFeaturePoints,
   calculateWorleyDistance,
@@ -177,12 +452,17 @@ export {
   type WorleyValueFunction,
 } from './worleyNoise';
 
+// Fractal noise
+export { createFractalNoise, type FractalType, type FractalOptions } from './fractalNoise';
+
 // Domain warping
 export {
   warp2D,
+  warpField,
   warpFbm2D,
   warp2DWithIntermediates,
   type NoiseFunction2D,
+  type FieldSource2D,
   type WarpConfig,
 } from './warp';
 
@@ -29,7 +29,16 @@ beforeAll(() => {
   globalThis.p5 = { Vector };
 });
 
-import { distance, lerp, lerpLine } from './line';
+import {
+  closestPointOnSegment,
+  distance,
+  findSegmentIntersections,
+  lerp,
+  lerpLine,
+  lineIntersection,
+  pointSegmentDistance,
+  type Segment,
+} from './line';
 
 /**
  * Helper function to check if two p5.Vectors are approximately equal
@@ -594,3 +603,196 @@ describe('lerpLine', () => {
     });
   });
 });
+
+describe('lineIntersection', () => {
+  test('crossing segments report the point and both parameters', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(10, 10),
+      createVector(0, 10),
+      createVector(10, 0),
+    );
+    expect(hit?.type).toBe('point');
+    if (hit?.type !== 'point') return;
+    expect(vectorsApproxEqual(hit.point, createVector(5, 5))).toBe(true);
+    expect(hit.t).toBeCloseTo(0.5);
+    expect(hit.u).toBeCloseTo(0.5);
+  });
+
+  test('parameters differ along unequal segments', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(10, 0),
+      createVector(2, -1),
+      createVector(2, 3),
+    );
+    expect(hit?.type === 'point' && hit.t).toBeCloseTo(0.2);
+    expect(hit?.type === 'point' && hit.u).toBeCloseTo(0.25);
+  });
+
+  test('segments that miss return null', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(4, 0),
+      createVector(5, -1),
+      createVector(5, 1),
+    );
+    expect(hit).toBeNull();
+  });
+
+  test('line and ray kinds extend the segments', () => {
+    const a1 = createVector(0, 0);
+    const a2 = createVector(4, 0);
+    const b1 = createVector(5, -1);
+    const b2 = createVector(5, 1);
+
+    const asLine = lineIntersection(a1, a2, b1, b2, { first: 'line' });
+    expect(asLine?.type === 'point' && asLine.t).toBeCloseTo(1.25);
+
+    // The ray points away from the other segment
+    expect(lineIntersection(a2, a1, b1, b2, { first: 'ray' })).toBeNull();
+    expect(lineIntersection(a1, a2, b1, b2, { first: 'ray' })).not.toBeNull();
+  });
+
+  test('touching end points count within epsilon', () => {
+    const a1 = createVector(0, 0);
+    const a2 = createVector(10, 0);
+    const b2 = createVector(10, 10);
+    const hit = lineIntersection(a1, a2, createVector(10 + 1e-7, 0), b2);
+    expect(hit).toBeNull();
+    const loose = lineIntersection(a1, a2, createVector(10 + 1e-7, 0), b2, { epsilon: 1e-6 });
+    expect(loose?.type === 'point' && loose.t).toBe(1);
+  });
+
+  test('parallel lines do not meet', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(10, 0),
+      createVector(0, 1),
+      createVector(10, 1),
+      { first: 'line', second: 'line' },
+    );
+    expect(hit).toBeNull();
+  });
+
+  test('collinear segments report their overlap', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(10, 0),
+      createVector(12, 0),
+      createVector(4, 0),
+    );
+    expect(hit?.type).toBe('overlap');
+    if (hit?.type !== 'overlap') return;
+    expect(vectorsApproxEqual(hit.start, createVector(4, 0))).toBe(true);
+    expect(vectorsApproxEqual(hit.end, createVector(10, 0))).toBe(true);
+    expect(hit.t[0]).toBeCloseTo(0.4);
+    expect(hit.t[1]).toBeCloseTo(1);
+    expect(hit.u[0]).toBeCloseTo(1);
+    expect(hit.u[1]).toBeCloseTo(0.25);
+  });
+
+  test('collinear segments touching end to end meet at one point', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(10, 0),
+      createVector(10, 0),
+      createVector(20, 0),
+    );
+    expect(hit?.type).toBe('point');
+    expect(hit?.type === 'point' && hit.t).toBe(1);
+    expect(hit?.type === 'point' && hit.u).toBe(0);
+  });
+
+  test('collinear lines overlap without bounds', () => {
+    const hit = lineIntersection(
+      createVector(0, 0),
+      createVector(1, 1),
+      createVector(3, 3),
+      createVector(4, 4),
+      { first: 'line', second: 'ray' },
+    );
+    expect(hit?.type).toBe('overlap');
+    if (hit?.type !== 'overlap') return;
+    expect(hit.t[0]).toBeCloseTo(3);
+    expect(hit.t[1]).toBe(Infinity);
+  });
+
+  test('zero-length segments act as points', () => {
+    const p = createVector(5, 0);
+    const hit = lineIntersection(p, p, createVector(0, 0), createVector(10, 0));
+    expect(hit?.type === 'point' && hit.u).toBeCloseTo(0.5);
+    expect(lineIntersection(p, p, createVector(0, 1), createVector(10, 1))).toBeNull();
+  });
+});
+
+describe('closest point and distance', () => {
+  test('projects onto the segment interior', () => {
+    const a = createVector(0, 0);
+    const b = createVector(10, 0);
+    expect(
+      vectorsApproxEqual(closestPointOnSegment(createVector(3, 4), a, b), createVector(3, 0)),
+    ).toBe(true);
+    expect(pointSegmentDistance(createVector(3, 4), a, b)).toBeCloseTo(4);
+  });
+
+  test('clamps to the end points', () => {
+    const a = createVector(0, 0);
+    const b = createVector(10, 0);
+    expect(vectorsApproxEqual(closestPointOnSegment(createVector(-3, 4), a, b), a)).toBe(true);
+    expect(pointSegmentDistance(createVector(13, 4), a, b)).toBeCloseTo(5);
+    expect(pointSegmentDistance(createVector(3, 4), a, a)).toBeCloseTo(5);
+  });
+});
+
+describe('findSegmentIntersections', () => {
+  test('finds every crossing in a grid of strands', () => {
+    const segments: Segment[] = [];
+    for (let i = 0; i < 5; i++) {
+      segments.push([createVector(i * 10, -5), createVector(i * 10, 45)]);
+      segments.push([createVector(-5, i * 10), createVector(45, i * 10)]);
+    }
+    const hits = findSegmentIntersections(segments);
+    expect(hits).toHaveLength(25);
+    for (const hit of hits) expect(hit.i).toBeLessThan(hit.j);
+  });
+
+  test('matches a brute-force search', () => {
+    let seed = 1;
+    const rand = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const segments: Segment[] = Array.from({ length: 60 }, () => {
+      const p = createVector(rand() * 100, rand() * 100);
+      return [p, createVector(p.x + rand() * 30 - 15, p.y + rand() * 30 - 15)];
+    });
+
+    const expected: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const [a1, a2] = segments[i]!;
+        const [b1, b2] = segments[j]!;
+        if (lineIntersection(a1, a2, b1, b2)) expected.push(`${i},${j}`);
+      }
+    }
+    const found = findSegmentIntersections(segments).map((h) => `${h.i},${h.j}`);
+    expect(found).toEqual(expected);
+  });
+
+  test('ignoreEndpoints skips neighbours of a polyline', () => {
+    const pts = [
+      createVector(0, 0),
+      createVector(10, 10),
+      createVector(10, 0),
+      createVector(0, 10),
+    ];
+    const segments: Segment[] = pts.slice(1).map((p, i) => [pts[i]!, p]);
+    expect(findSegmentIntersections(segments)).toHaveLength(3);
+
+    const crossings = findSegmentIntersections(segments, { ignoreEndpoints: true });
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0]!.i).toBe(0);
+    expect(crossings[0]!.j).toBe(2);
+  });
+});
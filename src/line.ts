@@ -1,8 +1,13 @@
 /**
- * Line interpolation utilities for p5.js.
+ * Line interpolation and intersection utilities for p5.js.
  * All functions use p5.Vector for coordinates.
  */
 
+import { createVector } from './vec2';
+
+/** Default tolerance for intersection tests */
+const DEFAULT_EPSILON = 1e-9;
+
 /**
  * Options for lerping points along a line.
  * Either specify the number of steps or the distance per step in pixels.
@@ -14,14 +19,14 @@ export type LerpOptions = { steps: number } | { pixelsPerStep: number };
  * Calculates the Euclidean distance between two points.
  */
 export function distance(p1: p5.Vector, p2: p5.Vector): number {
-  return p5.Vector.sub(p2, p1).mag();
+  return Math.hypot(p2.x - p1.x, p2.y - p1.y, p2.z - p1.z);
 }
 
 /**
  * Linearly interpolates between two points.
  */
 export function lerp(p1: p5.Vector, p2: p5.Vector, t: number): p5.Vector {
-  return p5.Vector.lerp(p1, p2, t);
+  return createVector(p1.x + (p2.x - p1.x) * t, p1.y + (p2.y - p1.y) * t, p1.z + (p2.z - p1.z) * t);
 }
 
 /**
@@ -63,3 +68,275 @@ export function lerpLine(start: p5.Vector, end: p5.Vector, options: LerpOptions)
 
   return points;
 }
+
+// ============================================================================
+// Intersections
+// ============================================================================
+
+/**
+ * How a pair of points is extended: a finite segment, a ray from the first
+ * point through the second, or an infinite line.
+ */
+export type LineKind = 'segment' | 'ray' | 'line';
+
+/**
+ * Options for line intersection tests.
+ */
+export type IntersectionOptions = {
+  /** Kind of the first line (default: 'segment') */
+  readonly first?: LineKind;
+  /** Kind of the second line (default: 'segment') */
+  readonly second?: LineKind;
+  /**
+   * Tolerance for end point parameters, parallel directions and collinearity,
+   * relative to the line lengths (default: 1e-9)
+   */
+  readonly epsilon?: number;
+};
+
+/**
+ * Result of a line intersection. `t` is the parameter along the first line
+ * (0 at its first point, 1 at its second) and `u` the parameter along the
+ * second. Collinear lines that share more than a point report the overlap,
+ * ordered along the first line; unbounded overlaps have infinite parameters.
+ */
+export type LineIntersection =
+  | {
+      readonly type: 'point';
+      readonly point: p5.Vector;
+      readonly t: number;
+      readonly u: number;
+    }
+  | {
+      readonly type: 'overlap';
+      readonly start: p5.Vector;
+      readonly end: p5.Vector;
+      readonly t: readonly [number, number];
+      readonly u: readonly [number, number];
+    };
+
+/**
+ * A line segment as a pair of end points.
+ */
+export type Segment = readonly [p5.Vector, p5.Vector];
+
+/**
+ * Intersection between segments i and j (i < j) of a segment list.
+ */
+export type SegmentPairIntersection = LineIntersection & {
+  readonly i: number;
+  readonly j: number;
+};
+
+/**
+ * Options for finding all intersections in a segment list.
+ */
+export type FindIntersectionsOptions = {
+  /** Tolerance passed to lineIntersection (default: 1e-9) */
+  readonly epsilon?: number;
+  /** Skip segments that only touch end to end, e.g. neighbours in a polyline (default: false) */
+  readonly ignoreEndpoints?: boolean;
+};
+
+/**
+ * Parameter range covered by a line kind.
+ */
+function parameterRange(kind: LineKind): readonly [number, number] {
+  if (kind === 'segment') return [0, 1];
+  return kind === 'ray' ? [0, Infinity] : [-Infinity, Infinity];
+}
+
+/**
+ * Clamp a parameter into a range, or return null if it lies more than
+ * epsilon outside.
+ */
+function snapToRange(v: number, range: readonly [number, number], epsilon: number): number | null {
+  if (v < range[0] - epsilon || v > range[1] + epsilon) return null;
+  return Math.max(range[0], Math.min(range[1], v));
+}
+
+/**
+ * Point at parameter t along a + t * (dx, dy), keeping zero directions finite
+ * for infinite t.
+ */
+function pointAlong(a: p5.Vector, dx: number, dy: number, t: number): p5.Vector {
+  return createVector(dx === 0 ? a.x : a.x + dx * t, dy === 0 ? a.y : a.y + dy * t);
+}
+
+/**
+ * Parameter along line b1b2 where the point p lies on it, or null if it does
+ * not. Used when the other line has zero length.
+ */
+function pointParameter(
+  p: p5.Vector,
+  b1: p5.Vector,
+  b2: p5.Vector,
+  range: readonly [number, number],
+  epsilon: number,
+): number | null {
+  const sx = b2.x - b1.x;
+  const sy = b2.y - b1.y;
+  const len2 = sx * sx + sy * sy;
+  const u = len2 === 0 ? 0 : ((p.x - b1.x) * sx + (p.y - b1.y) * sy) / len2;
+  const clamped = Math.max(range[0], Math.min(range[1], u));
+  const q = pointAlong(b1, sx, sy, clamped);
+  return Math.hypot(q.x - p.x, q.y - p.y) <= epsilon * Math.max(1, Math.sqrt(len2))
+    ? clamped
+    : null;
+}
+
+/**
+ * Intersect two lines, rays or segments.
+ *
+ * @param a1 - First point of the first line
+ * @param a2 - Second point of the first line
+ * @param b1 - First point of the second line
+ * @param b2 - Second point of the second line
+ * @param options - Line kinds and tolerance
+ * @returns A crossing point, a collinear overlap, or null
+ *
+ * @example
+ * const hit = lineIntersection(a, b, c, d);
+ * if (hit?.type === 'point') circle(hit.point.x, hit.point.y, 4);
+ *
+ * @example
+ * // Cast a ray against a wall segment
+ * const hit = lineIntersection(origin, origin.copy().add(dir), w1, w2, { first: 'ray' });
+ */
+export function lineIntersection(
+  a1: p5.Vector,
+  a2: p5.Vector,
+  b1: p5.Vector,
+  b2: p5.Vector,
+  options: IntersectionOptions = {},
+): LineIntersection | null {
+  const { first = 'segment', second = 'segment', epsilon = DEFAULT_EPSILON } = options;
+  const rangeA = parameterRange(first);
+  const rangeB = parameterRange(second);
+
+  const rx = a2.x - a1.x;
+  const ry = a2.y - a1.y;
+  const sx = b2.x - b1.x;
+  const sy = b2.y - b1.y;
+  const lenR = Math.hypot(rx, ry);
+  const lenS = Math.hypot(sx, sy);
+
+  // Zero-length lines act as points
+  if (lenR === 0) {
+    const u = pointParameter(a1, b1, b2, rangeB, epsilon);
+    return u === null ? null : { type: 'point', point: createVector(a1.x, a1.y), t: 0, u };
+  }
+  if (lenS === 0) {
+    const t = pointParameter(b1, a1, a2, rangeA, epsilon);
+    return t === null ? null : { type: 'point', point: createVector(b1.x, b1.y), t, u: 0 };
+  }
+
+  const qx = b1.x - a1.x;
+  const qy = b1.y - a1.y;
+  const denom = rx * sy - ry * sx;
+
+  if (Math.abs(denom) > epsilon * lenR * lenS) {
+    const t = snapToRange((qx * sy - qy * sx) / denom, rangeA, epsilon);
+    const u = snapToRange((qx * ry - qy * rx) / denom, rangeB, epsilon);
+    if (t === null || u === null) return null;
+    return { type: 'point', point: pointAlong(a1, rx, ry, t), t, u };
+  }
+
+  // Parallel: only collinear lines can meet
+  if (Math.abs(qx * ry - qy * rx) / lenR > epsilon * Math.max(1, lenR)) return null;
+
+  // Map the second line's parameter range onto the first line
+  const len2 = lenR * lenR;
+  const tb1 = (qx * rx + qy * ry) / len2;
+  const scale = (sx * rx + sy * ry) / len2;
+  const m0 = tb1 + rangeB[0] * scale;
+  const m1 = tb1 + rangeB[1] * scale;
+  const lo = Math.max(rangeA[0], Math.min(m0, m1));
+  const hi = Math.min(rangeA[1], Math.max(m0, m1));
+  if (lo > hi + epsilon) return null;
+
+  const uAt = (t: number) => (t - tb1) / scale;
+  if (hi - lo <= epsilon) {
+    const t = Math.min(lo, hi);
+    return { type: 'point', point: pointAlong(a1, rx, ry, t), t, u: uAt(t) };
+  }
+  return {
+    type: 'overlap',
+    start: pointAlong(a1, rx, ry, lo),
+    end: pointAlong(a1, rx, ry, hi),
+    t: [lo, hi],
+    u: [uAt(lo), uAt(hi)],
+  };
+}
+
+/**
+ * Returns the point on segment ab closest to p.
+ */
+export function closestPointOnSegment(p: p5.Vector, a: p5.Vector, b: p5.Vector): p5.Vector {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return createVector(a.x + t * dx, a.y + t * dy);
+}
+
+/**
+ * Calculates the distance from p to the segment ab.
+ */
+export function pointSegmentDistance(p: p5.Vector, a: p5.Vector, b: p5.Vector): number {
+  const q = closestPointOnSegment(p, a, b);
+  return Math.hypot(p.x - q.x, p.y - q.y);
+}
+
+/**
+ * Finds every intersecting pair in a list of segments. A sweep along x only
+ * tests segments whose bounding boxes overlap, so large sparse sets stay fast.
+ *
+ * @param segments - Segments to test
+ * @param options - Tolerance and end point handling
+ * @returns Intersections sorted by i, then j
+ *
+ * @example
+ * // Weave: draw each crossing with a gap in the lower strand
+ * const hits = findSegmentIntersections(strands, { ignoreEndpoints: true });
+ */
+export function findSegmentIntersections(
+  segments: readonly Segment[],
+  options: FindIntersectionsOptions = {},
+): SegmentPairIntersection[] {
+  const { epsilon = DEFAULT_EPSILON, ignoreEndpoints = false } = options;
+  const minX = (i: number) => Math.min(segments[i]![0].x, segments[i]![1].x);
+  const maxX = (i: number) => Math.max(segments[i]![0].x, segments[i]![1].x);
+  const order = segments.map((_, i) => i).sort((i, j) => minX(i) - minX(j));
+  const isEnd = (v: number) => Math.abs(v) <= epsilon || Math.abs(v - 1) <= epsilon;
+
+  const hits: SegmentPairIntersection[] = [];
+  let active: number[] = [];
+
+  for (const index of order) {
+    const [p, q] = segments[index]!;
+    const left = minX(index);
+    active = active.filter((other) => maxX(other) >= left - epsilon);
+
+    for (const other of active) {
+      const [c, d] = segments[other]!;
+      if (
+        Math.max(p.y, q.y) < Math.min(c.y, d.y) - epsilon ||
+        Math.min(p.y, q.y) > Math.max(c.y, d.y) + epsilon
+      ) {
+        continue;
+      }
+      const i = Math.min(index, other);
+      const j = Math.max(index, other);
+      const [a1, a2] = segments[i]!;
+      const [b1, b2] = segments[j]!;
+      const hit = lineIntersection(a1, a2, b1, b2, { epsilon });
+      if (!hit) continue;
+      if (ignoreEndpoints && hit.type === 'point' && isEnd(hit.t) && isEnd(hit.u)) continue;
+      hits.push({ ...hit, i, j });
+    }
+    active.push(index);
+  }
+
+  return hits.sort((h, k) => h.i - k.i || h.j - k.j);
+}
@@ -8,6 +8,9 @@
  * inherently complex with many edge cases. Splitting would harm readability.
  */
 
+import { ScalarField } from './scalarField';
+import { createVector } from './vec2';
+
 /** Cell size offset for centering line segments */
 const CELL_CENTER_OFFSET = 0.5;
 
@@ -114,10 +117,10 @@ function getUV(nr: number, threshold: number, vLT = 0, vLB = 2, vRT = 0, vRB = 2
  * Execute marching squares algorithm on a 2D scalar field.
  * Extracts iso-contours at the specified threshold value.
  *
- * @param values - 2D array of scalar values [y][x]
+ * @param values - ScalarField or 2D array of scalar values [y][x]
  * @param threshold - Iso-value threshold for contour extraction
- * @param width - Grid width
- * @param height - Grid height
+ * @param width - Grid width (default: the field's width)
+ * @param height - Grid height (default: the field's height)
  * @param wrapAround - Whether to wrap at boundaries (default: true)
  * @returns 2D grid of marching square cells
  *
@@ -125,41 +128,50 @@ function getUV(nr: number, threshold: number, vLT = 0, vLB = 2, vRT = 0, vRB = 2
  * ```ts
  * const values = [[0, 1], [1, 0]]; // 2x2 grid
  * const cells = marchingSquares(values, 0.5, 2, 2);
+ *
+ * // Fields carry their own dimensions
+ * const fieldCells = marchingSquares(field, 0.5);
  * ```
  */
 export function marchingSquares(
-  values: ReadonlyArray<ReadonlyArray<number>>,
+  values: ScalarField | ReadonlyArray<ReadonlyArray<number>>,
   threshold: number,
-  width: number,
-  height: number,
+  width?: number,
+  height?: number,
   wrapAround = true,
 ): MarchingSquareCell[][] {
+  const w = width ?? (values instanceof ScalarField ? values.width : (values[0]?.length ?? 0));
+  const h = height ?? (values instanceof ScalarField ? values.height : values.length);
+  // Read flat field data directly so fields are never copied into nested arrays
+  const at =
+    values instanceof ScalarField
+      ? (i: number, j: number): number => values.data[j * values.width + i]!
+      : (i: number, j: number): number => values[j]![i]!;
+
   let mask: boolean[];
   const cells: MarchingSquareCell[][] = [];
 
-  for (let j = 0; j < height; j++) {
+  for (let j = 0; j < h; j++) {
     cells.push([]);
   }
 
-  for (let j = 0; j < height; j++) {
-    for (let i = 0; i < width; i++) {
+  for (let j = 0; j < h; j++) {
+    for (let i = 0; i < w; i++) {
       if (!wrapAround) {
         mask = [
-          j + 1 >= height ? values[j]![i]! > threshold : values[j + 1]![i]! > threshold,
-          i + 1 >= width || j + 1 >= height
-            ? values[j]![i]! > threshold
-            : values[j + 1]![i + 1]! > threshold,
-          i + 1 >= width ? values[j]![i]! > threshold : values[j]![i + 1]! > threshold,
-          values[j]![i]! > threshold,
+          j + 1 >= h ? at(i, j) > threshold : at(i, j + 1) > threshold,
+          i + 1 >= w || j + 1 >= h ? at(i, j) > threshold : at(i + 1, j + 1) > threshold,
+          i + 1 >= w ? at(i, j) > threshold : at(i + 1, j) > threshold,
+          at(i, j) > threshold,
         ];
       } else {
-        const nextX = i + 1 >= width ? i + 1 - width : i + 1;
-        const nextY = j + 1 >= height ? j + 1 - height : j + 1;
+        const nextX = i + 1 >= w ? i + 1 - w : i + 1;
+        const nextY = j + 1 >= h ? j + 1 - h : j + 1;
         mask = [
-          values[nextY]![i]! > threshold,
-          values[nextY]![nextX]! > threshold,
-          values[j]![nextX]! > threshold,
-          values[j]![i]! > threshold,
+          at(i, nextY) > threshold,
+          at(nextX, nextY) > threshold,
+          at(nextX, j) > threshold,
+          at(i, j) > threshold,
         ];
       }
 
@@ -172,18 +184,18 @@ export function marchingSquares(
       if (nr !== CASE_EMPTY && nr !== CASE_FULL) {
         let uv: p5.Vector[];
         if (!wrapAround) {
-          const vLT = values[j]![i]!;
-          const vLB = j + 1 >= height ? threshold : values[j + 1]![i]!;
-          const vRT = i + 1 >= width ? threshold : values[j]![i + 1]!;
-          const vRB = i + 1 >= width || j + 1 >= height ? threshold : values[j + 1]![i + 1]!;
+          const vLT = at(i, j);
+          const vLB = j + 1 >= h ? threshold : at(i, j + 1);
+          const vRT = i + 1 >= w ? threshold : at(i + 1, j);
+          const vRB = i + 1 >= w || j + 1 >= h ? threshold : at(i + 1, j + 1);
           uv = getUV(nr, threshold, vLT, vLB, vRT, vRB);
         } else {
-          const nextX = i + 1 >= width ? i + 1 - width : i + 1;
-          const nextY = j + 1 >= height ? j + 1 - height : j + 1;
-          const vLT = values[j]![i]!;
-          const vLB = values[nextY]![i]!;
-          const vRT = values[j]![nextX]!;
-          const vRB = values[nextY]![nextX]!;
+          const nextX = i + 1 >= w ? i + 1 - w : i + 1;
+          const nextY = j + 1 >= h ? j + 1 - h : j + 1;
+          const vLT = at(i, j);
+          const vLB = at(i, nextY);
+          const vRT = at(nextX, j);
+          const vRB = at(nextX, nextY);
           uv = getUV(nr, threshold, vLT, vLB, vRT, vRB);
         }
         if (uv.length > 0) {
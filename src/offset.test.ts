@@ -0,0 +1,148 @@
+/**
+ * Tests for polygon offsetting.
+ * These tests cover: offsetPolygon/offsetRings (outset, inset, join styles,
+ * holes, pinch-off splitting, vanishing), resolveRings, Poly.offset and
+ * insetVoronoiCells.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { offsetPolygon, offsetRings } from './offset';
+import { resolveRings } from './polygonBoolean';
+import { Poly } from './polygons';
+import { rect, totalArea } from './testFixtures';
+import { computeVoronoiCellsEuclidean, insetVoronoiCells } from './voronoi';
+import { createVector } from './vec2';
+
+describe('offsetPolygon', () => {
+  const square = rect(0, 0, 10, 10);
+
+  test('miter outset grows the square exactly', () => {
+    const result = offsetPolygon(square, 2);
+    expect(result).toHaveLength(1);
+    expect(result[0]!.outer).toHaveLength(4);
+    expect(totalArea(result)).toBeCloseTo(196);
+  });
+
+  test('bevel outset cuts the corners', () => {
+    const result = offsetPolygon(square, 2, { join: 'bevel' });
+    expect(result[0]!.outer).toHaveLength(8);
+    expect(totalArea(result)).toBeCloseTo(100 + 4 * 20 + 4 * 2);
+  });
+
+  test('round outset approaches the Minkowski sum area', () => {
+    const result = offsetPolygon(square, 2, { join: 'round', arcSegments: 256 });
+    expect(totalArea(result)).toBeCloseTo(100 + 4 * 20 + Math.PI * 4, 1);
+  });
+
+  test('miter limit falls back to bevel on sharp corners', () => {
+    const spike = [createVector(0, 0), createVector(100, 5), createVector(0, 10)];
+    const limited = offsetPolygon(spike, 1, { miterLimit: 2 });
+    const unlimited = offsetPolygon(spike, 1, { miterLimit: 100 });
+    expect(limited[0]!.outer.length).toBeGreaterThan(unlimited[0]!.outer.length);
+  });
+
+  test('inset shrinks the square and is orientation independent', () => {
+    expect(totalArea(offsetPolygon(square, -2))).toBeCloseTo(36);
+    expect(totalArea(offsetPolygon([...square].reverse(), -2))).toBeCloseTo(36);
+  });
+
+  test('inset removes concave corner loops', () => {
+    const ell = [
+      createVector(0, 0),
+      createVector(20, 0),
+      createVector(20, 10),
+      createVector(10, 10),
+      createVector(10, 20),
+      createVector(0, 20),
+    ];
+    const result = offsetPolygon(ell, -2);
+    expect(result).toHaveLength(1);
+    expect(result[0]!.outer).toHaveLength(6);
+    expect(totalArea(result)).toBeCloseTo(16 * 6 + 6 * 10);
+  });
+
+  test('inset splits when the shape pinches off', () => {
+    // Two 10x10 squares joined by a 2-unit-wide bridge
+    const dumbbell = [
+      createVector(0, 0),
+      createVector(10, 0),
+      createVector(10, 4),
+      createVector(20, 4),
+      createVector(20, 0),
+      createVector(30, 0),
+      createVector(30, 10),
+      createVector(20, 10),
+      createVector(20, 6),
+      createVector(10, 6),
+      createVector(10, 10),
+      createVector(0, 10),
+    ];
+    expect(offsetPolygon(dumbbell, -0.5)).toHaveLength(1);
+    const parts = offsetPolygon(dumbbell, -2);
+    expect(parts).toHaveLength(2);
+    expect(totalArea(parts)).toBeCloseTo(2 * 36);
+  });
+
+  test('inset larger than the shape vanishes', () => {
+    expect(offsetPolygon(square, -6)).toHaveLength(0);
+  });
+});
+
+describe('offsetRings', () => {
+  test('holes grow when the region shrinks', () => {
+    const result = offsetRings([rect(0, 0, 20, 20), rect(8, 8, 4, 4)], -1);
+    expect(result).toHaveLength(1);
+    expect(result[0]!.holes).toHaveLength(1);
+    expect(totalArea(result)).toBeCloseTo(18 * 18 - 6 * 6);
+  });
+
+  test('outset closes small holes', () => {
+    const result = offsetRings([rect(0, 0, 20, 20), rect(8, 8, 4, 4)], 3);
+    expect(result[0]!.holes).toHaveLength(0);
+    expect(totalArea(result)).toBeCloseTo(26 * 26);
+  });
+});
+
+describe('resolveRings', () => {
+  const bowtie = [
+    createVector(0, 0),
+    createVector(10, 10),
+    createVector(10, 0),
+    createVector(0, 10),
+  ];
+
+  test('splits a self-intersecting ring into simple parts', () => {
+    const result = resolveRings([bowtie]);
+    expect(result).toHaveLength(2);
+    expect(totalArea(result)).toBeCloseTo(50);
+  });
+
+  test('nonzero and evenodd differ for overlapping rings', () => {
+    const rings = [rect(0, 0, 10, 10), rect(5, 0, 10, 10)];
+    expect(totalArea(resolveRings(rings, 'nonzero'))).toBeCloseTo(150);
+    expect(totalArea(resolveRings(rings, 'evenodd'))).toBeCloseTo(100);
+  });
+});
+
+describe('Poly.offset and Voronoi insets', () => {
+  test('Poly.offset returns polygons', () => {
+    const poly = Poly.fromRings(rect(-10, -10, 20, 20));
+    const [grown] = poly.offset(5);
+    expect(grown!.inside(createVector(-14, 0))).toBe(true);
+    expect(poly.offset(-20)).toHaveLength(0);
+  });
+
+  test('insetVoronoiCells leaves gaps between cells', () => {
+    const seeds = [createVector(25, 50), createVector(75, 50)];
+    const bounds = { x: 0, y: 0, width: 100, height: 100 };
+    const cells = computeVoronoiCellsEuclidean(seeds, bounds);
+    const inset = insetVoronoiCells(cells, 4);
+
+    expect(inset).toHaveLength(2);
+    expect(inset[0]!.area).toBeCloseTo(46 * 96);
+    const maxLeft = Math.max(...inset[0]!.polygon.map((p) => p.x));
+    const minRight = Math.min(...inset[1]!.polygon.map((p) => p.x));
+    expect(minRight - maxLeft).toBeCloseTo(4);
+  });
+});
@@ -0,0 +1,207 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Polygon offsetting (inset/outset) with miter, round and bevel joins.
+ * Each ring is shifted along its edge normals into a raw offset curve, and the
+ * raw curves are resolved with the positive fill rule. That removes the loops
+ * created at concave corners and splits insets that pinch off into separate parts.
+ */
+
+import { type BooleanComponent, type Ring, resolveRings } from './polygonBoolean';
+import { ringDepths, ringSignedArea } from './ring';
+import { createVector } from './vec2';
+
+/** Default miter limit as a multiple of the offset distance */
+const DEFAULT_MITER_LIMIT = 2;
+
+/** Default number of segments per full circle for round joins */
+const DEFAULT_ARC_SEGMENTS = 32;
+
+/** Cross products below this (for unit directions) count as collinear */
+const COLLINEAR_EPSILON = 1e-12;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Corner style where offset edges meet */
+export type JoinType = 'miter' | 'round' | 'bevel';
+
+/** Options for offsetting */
+export type OffsetOptions = {
+  /** Corner style (default: 'miter') */
+  readonly join?: JoinType;
+  /** Longest miter as a multiple of the distance before falling back to bevel (default: 2) */
+  readonly miterLimit?: number;
+  /** Segments per full circle for round joins (default: 32) */
+  readonly arcSegments?: number;
+};
+
+// ============================================================================
+// Ring Preparation
+// ============================================================================
+
+/**
+ * Orient rings so the region is always on their left: outer rings (even nesting
+ * depth) get positive area and holes (odd depth) negative area.
+ */
+function orientRings(rings: readonly Ring[]): Ring[] {
+  const valid = rings.filter((r) => r.length >= 3);
+  const depths = ringDepths(valid);
+  return valid.map((ring, i) => {
+    const positive = ringSignedArea(ring) > 0;
+    return positive === (depths[i]! % 2 === 0) ? ring : [...ring].reverse();
+  });
+}
+
+// ============================================================================
+// Raw Offset
+// ============================================================================
+
+/**
+ * Shift a ring by `distance` to the right of its direction, adding joins at
+ * corners that open up and passing through the vertex where edges overlap.
+ */
+function rawOffset(
+  ring: Ring,
+  distance: number,
+  join: JoinType,
+  miterLimit: number,
+  arcSegments: number,
+): p5.Vector[] {
+  // Drop repeated points so every edge has a direction
+  const pts = ring.filter((p, i) => {
+    const q = ring[(i + 1) % ring.length]!;
+    return p.x !== q.x || p.y !== q.y;
+  });
+  const n = pts.length;
+  const out: p5.Vector[] = [];
+  if (n < 3) return out;
+
+  for (let i = 0; i < n; i++) {
+    const prev = pts[(i + n - 1) % n]!;
+    const p = pts[i]!;
+    const next = pts[(i + 1) % n]!;
+
+    const l1 = Math.hypot(p.x - prev.x, p.y - prev.y);
+    const l2 = Math.hypot(next.x - p.x, next.y - p.y);
+    const u1x = (p.x - prev.x) / l1;
+    const u1y = (p.y - prev.y) / l1;
+    const u2x = (next.x - p.x) / l2;
+    const u2y = (next.y - p.y) / l2;
+
+    // Right-hand normals point away from the region
+    const n1x = u1y;
+    const n1y = -u1x;
+    const n2x = u2y;
+    const n2y = -u2x;
+
+    const a = createVector(p.x + distance * n1x, p.y + distance * n1y);
+    const b = createVector(p.x + distance * n2x, p.y + distance * n2y);
+    const cross = u1x * u2y - u1y * u2x;
+    const dot = u1x * u2x + u1y * u2y;
+
+    if (Math.abs(cross) < COLLINEAR_EPSILON && dot > 0) {
+      out.push(a);
+      continue;
+    }
+
+    // Offset edges overlap: route through the vertex, the loop is removed later
+    if (cross * distance < 0) {
+      out.push(a, createVector(p.x, p.y), b);
+      continue;
+    }
+
+    if (join === 'miter') {
+      const cosHalf = Math.sqrt(Math.max(0, (1 + n1x * n2x + n1y * n2y) / 2));
+      if (cosHalf > 0 && 1 / cosHalf <= miterLimit) {
+        const scale = distance / (1 + n1x * n2x + n1y * n2y);
+        out.push(createVector(p.x + (n1x + n2x) * scale, p.y + (n1y + n2y) * scale));
+        continue;
+      }
+    }
+
+    out.push(a);
+    if (join === 'round') {
+      const start = Math.atan2(n1y, n1x);
+      let sweep = Math.atan2(n2y, n2x) - start;
+      // Normals rotate the same way as the edges turn
+      if (cross > 0 && sweep < 0) sweep += TWO_PI;
+      if (cross < 0 && sweep > 0) sweep -= TWO_PI;
+      const steps = Math.ceil((Math.abs(sweep) / TWO_PI) * arcSegments);
+      for (let k = 1; k < steps; k++) {
+        const angle = start + (sweep * k) / steps;
+        out.push(createVector(p.x + distance * Math.cos(angle), p.y + distance * Math.sin(angle)));
+      }
+    }
+    out.push(b);
+  }
+
+  return out;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Offset a region given as rings (outer boundaries and holes, even-odd).
+ * Positive distances grow the region, negative distances shrink it. Insets that
+ * pinch off return several components; regions that vanish return none.
+ *
+ * @param rings - Outer and hole rings, in any orientation
+ * @param distance - Offset distance (positive = outset, negative = inset)
+ * @param options - Join style options
+ * @returns Result components, each an outer ring with its holes
+ *
+ * @example
+ * ```ts
+ * const parts = offsetRings([outline, hole], -4, { join: 'round' });
+ * for (const { outer, holes } of parts) {
+ *   polys.draw(drawFn, Poly.fromRings(outer, holes));
+ * }
+ * ```
+ */
+export function offsetRings(
+  rings: readonly Ring[],
+  distance: number,
+  options: OffsetOptions = {},
+): BooleanComponent[] {
+  const {
+    join = 'miter',
+    miterLimit = DEFAULT_MITER_LIMIT,
+    arcSegments = DEFAULT_ARC_SEGMENTS,
+  } = options;
+
+  const oriented = orientRings(rings);
+  if (distance === 0) return resolveRings(oriented, 'positive');
+
+  const raw = oriented.map((ring) => rawOffset(ring, distance, join, miterLimit, arcSegments));
+  return resolveRings(raw, 'positive');
+}
+
+/**
+ * Offset a single polygon outline.
+ *
+ * @param points - Polygon vertices (closing edge implicit)
+ * @param distance - Offset distance (positive = outset, negative = inset)
+ * @param options - Join style options
+ * @returns Result components, each an outer ring with its holes
+ *
+ * @example
+ * ```ts
+ * // Concentric fill
+ * for (let d = 0; ; d -= 3) {
+ *   const parts = offsetPolygon(shape, d, { join: 'round' });
+ *   if (parts.length === 0) break;
+ *   parts.forEach((part) => svg.addPath(part.outer, true));
+ * }
+ * ```
+ */
+export function offsetPolygon(
+  points: Ring,
+  distance: number,
+  options: OffsetOptions = {},
+): BooleanComponent[] {
+  return offsetRings([points], distance, options);
+}
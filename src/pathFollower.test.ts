@@ -0,0 +1,118 @@
+/**
+ * Tests for path followers.
+ * These tests cover: PathFollower movement, looping, ping-pong, stopping,
+ * easing and speed profiles, plus the easings and speedKeyframes helpers.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { CatmullRomSpline } from './catmullRom';
+import { PathFollower, easings, speedKeyframes } from './pathFollower';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+/** Straight open path of length 100 along x */
+const line = (): CatmullRomSpline => {
+  const spline = new CatmullRomSpline({ alpha: 0 });
+  spline.setPoints([v(0, 0), v(50, 0), v(100, 0)]);
+  return spline;
+};
+
+/** Closed square loop */
+const loop = (): CatmullRomSpline => {
+  const spline = new CatmullRomSpline({ closed: true });
+  spline.setPoints([v(0, 0), v(100, 0), v(100, 100), v(0, 100)]);
+  return spline;
+};
+
+describe('PathFollower', () => {
+  test('advances by distance and stops at the end of open paths', () => {
+    const follower = new PathFollower(line(), { speed: 30 });
+    expect(follower.loop).toBe(false);
+    expect(follower.update().x).toBeCloseTo(30, 1);
+    follower.update(2);
+    expect(follower.distance).toBeCloseTo(90);
+    follower.update();
+    expect(follower.finished).toBe(true);
+    expect(follower.position.x).toBeCloseTo(100);
+
+    // Reversing leaves the end straight away
+    follower.advance(-10);
+    expect(follower.position.x).toBeCloseTo(90, 1);
+  });
+
+  test('closed splines loop and count laps', () => {
+    const spline = loop();
+    const follower = new PathFollower(spline, { speed: 1 });
+    const length = follower.length;
+    expect(follower.loop).toBe(true);
+    follower.advance(length * 2.25);
+    expect(follower.laps).toBe(2);
+    expect(follower.progress).toBeCloseTo(0.25);
+    expect(follower.finished).toBe(false);
+
+    follower.advance(-length * 0.5);
+    expect(follower.progress).toBeCloseTo(0.75);
+  });
+
+  test('ping-pong turns around at the ends', () => {
+    const follower = new PathFollower(line(), { pingPong: true, startDistance: 80 });
+    expect(follower.direction.x).toBeCloseTo(1);
+    follower.advance(40);
+    expect(follower.distance).toBeCloseTo(80);
+    expect(follower.direction.x).toBeCloseTo(-1);
+    follower.advance(100);
+    expect(follower.distance).toBeCloseTo(20);
+    expect(follower.direction.x).toBeCloseTo(1);
+  });
+
+  test('easing remaps progress but keeps the ends', () => {
+    const follower = new PathFollower(line(), { easing: 'easeInQuad' });
+    follower.advance(50);
+    expect(follower.position.x).toBeCloseTo(25, 1);
+    follower.advance(50);
+    expect(follower.position.x).toBeCloseTo(100);
+  });
+
+  test('speed profiles vary the step with progress', () => {
+    const follower = new PathFollower(line(), { speed: (p) => (p < 0.5 ? 10 : 1) });
+    follower.update();
+    expect(follower.distance).toBeCloseTo(10);
+    follower.reset(60);
+    follower.update();
+    expect(follower.distance).toBeCloseTo(61);
+  });
+
+  test('followers track edits to the spline', () => {
+    const spline = line();
+    const follower = new PathFollower(spline, { startDistance: 50 });
+    expect(follower.position.x).toBeCloseTo(50, 1);
+    spline.setPoints([v(0, 0), v(100, 0), v(200, 0)]);
+    expect(follower.length).toBeCloseTo(200);
+    expect(follower.position.x).toBeCloseTo(50, 1);
+  });
+});
+
+describe('helpers', () => {
+  test('easings start at 0 and end at 1', () => {
+    for (const ease of Object.values(easings)) {
+      expect(ease(0)).toBeCloseTo(0);
+      expect(ease(1)).toBeCloseTo(1);
+    }
+    expect(easings.easeInOutCubic(0.5)).toBeCloseTo(0.5);
+  });
+
+  test('speedKeyframes interpolates and clamps', () => {
+    const speed = speedKeyframes([
+      [1, 2],
+      [0, 4],
+      [0.5, 0],
+    ]);
+    expect(speed(-1)).toBe(4);
+    expect(speed(0.25)).toBeCloseTo(2);
+    expect(speed(0.75)).toBeCloseTo(1);
+    expect(speed(2)).toBe(2);
+    expect(speedKeyframes([])(0.5)).toBe(0);
+  });
+});
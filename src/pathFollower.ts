@@ -0,0 +1,249 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Move objects along splines by distance.
+ *
+ * A `PathFollower` keeps the distance travelled along a spline and looks its
+ * position up in the spline's cached arc-length table, so hundreds of
+ * followers can ride paths every frame without resampling. Followers support:
+ * - Constant or variable speed (a function of progress, or keyframes)
+ * - Easing curves that remap progress along each lap
+ * - Looping (default for closed splines), ping-pong or stopping at the end
+ */
+
+import type { Spline } from './splines';
+import { createVector } from './vec2';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Maps progress (0 to 1) to eased progress */
+export type Easing = (x: number) => number;
+
+/** Names of the built-in easing curves */
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInOutSine';
+
+/** Distance per unit time: constant, or a function of progress along the path (0 to 1) */
+export type SpeedProfile = number | ((progress: number) => number);
+
+/** Options for path followers */
+export type PathFollowerOptions = {
+  /** Distance per unit time (default: 1) */
+  readonly speed?: SpeedProfile;
+  /** Easing applied to the progress of each lap (default: 'linear') */
+  readonly easing?: Easing | EasingName;
+  /** Wrap around at the end (default: true for closed splines) */
+  readonly loop?: boolean;
+  /** Turn around at the ends instead of wrapping or stopping (default: false) */
+  readonly pingPong?: boolean;
+  /** Starting distance along the path (default: 0) */
+  readonly startDistance?: number;
+};
+
+// ============================================================================
+// Easing
+// ============================================================================
+
+/**
+ * Built-in easing curves for path followers.
+ *
+ * @example
+ * ```ts
+ * const follower = new PathFollower(spline, { easing: easings.easeInOutCubic });
+ * ```
+ */
+export const easings: Readonly<Record<EasingName, Easing>> = {
+  linear: (x) => x,
+  easeInQuad: (x) => x * x,
+  easeOutQuad: (x) => 1 - (1 - x) * (1 - x),
+  easeInOutQuad: (x) => (x < 0.5 ? 2 * x * x : 1 - Math.pow(-2 * x + 2, 2) / 2),
+  easeInCubic: (x) => x * x * x,
+  easeOutCubic: (x) => 1 - Math.pow(1 - x, 3),
+  easeInOutCubic: (x) => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2),
+  easeInOutSine: (x) => -(Math.cos(PI * x) - 1) / 2,
+};
+
+/**
+ * Build a speed profile that interpolates linearly between keyframes.
+ *
+ * @param keys - [progress, speed] pairs; progress from 0 to 1
+ * @returns Speed as a function of progress (constant beyond the first and last key)
+ *
+ * @example
+ * ```ts
+ * // Slow on the bend in the middle of the path
+ * const speed = speedKeyframes([[0, 4], [0.4, 4], [0.5, 1], [0.6, 4], [1, 4]]);
+ * const follower = new PathFollower(spline, { speed });
+ * ```
+ */
+export function speedKeyframes(
+  keys: readonly (readonly [number, number])[],
+): (progress: number) => number {
+  const sorted = [...keys].sort((a, b) => a[0] - b[0]);
+  return (progress) => {
+    const first = sorted[0];
+    if (!first) return 0;
+    if (progress <= first[0]) return first[1];
+    for (let i = 1; i < sorted.length; i++) {
+      const [p1, s1] = sorted[i]!;
+      if (progress <= p1) {
+        const [p0, s0] = sorted[i - 1]!;
+        return p1 > p0 ? s0 + ((progress - p0) / (p1 - p0)) * (s1 - s0) : s1;
+      }
+    }
+    return sorted[sorted.length - 1]![1];
+  };
+}
+
+// ============================================================================
+// Path Follower
+// ============================================================================
+
+/**
+ * An object travelling along a spline by distance.
+ *
+ * @example
+ * ```ts
+ * const followers = Array.from({ length: 300 }, (_, i) =>
+ *   new PathFollower(spline, { speed: 2, startDistance: i * 5 }),
+ * );
+ *
+ * function draw() {
+ *   for (const f of followers) {
+ *     const p = f.update(deltaTime / 16);
+ *     circle(p.x, p.y, 4);
+ *   }
+ * }
+ * ```
+ */
+export class PathFollower {
+  readonly spline: Spline;
+  speed: SpeedProfile;
+  easing: Easing;
+  loop: boolean;
+  pingPong: boolean;
+  private travelled: number;
+
+  /**
+   * Create a follower at the start of a spline.
+   * @param spline - Path to follow
+   * @param options - Speed, easing and end behaviour
+   */
+  constructor(spline: Spline, options: PathFollowerOptions = {}) {
+    const { speed = 1, easing = 'linear', pingPong = false, startDistance = 0 } = options;
+    this.spline = spline;
+    this.speed = speed;
+    this.easing = typeof easing === 'function' ? easing : easings[easing];
+    this.loop = options.loop ?? spline.closed;
+    this.pingPong = pingPong;
+    this.travelled = startDistance;
+  }
+
+  /**
+   * Get the length of the path (from the spline's cached table).
+   */
+  get length(): number {
+    return this.spline.getArcLengthTable().length;
+  }
+
+  /**
+   * Get the distance from the start of the path to the follower.
+   */
+  get distance(): number {
+    const length = this.length;
+    if (length === 0) return 0;
+    if (this.pingPong) {
+      const leg = Math.floor(this.travelled / length);
+      const along = this.travelled - leg * length;
+      return leg % 2 === 0 ? along : length - along;
+    }
+    if (this.loop) return ((this.travelled % length) + length) % length;
+    return Math.max(0, Math.min(length, this.travelled));
+  }
+
+  /**
+   * Get the progress along the path, before easing (0 to 1).
+   */
+  get progress(): number {
+    const length = this.length;
+    return length > 0 ? this.distance / length : 0;
+  }
+
+  /**
+   * Get the number of completed laps (ping-pong legs count one each).
+   */
+  get laps(): number {
+    const length = this.length;
+    return length > 0 && (this.loop || this.pingPong) ? Math.floor(this.travelled / length) : 0;
+  }
+
+  /**
+   * Whether the follower has stopped at the end of a path that neither loops
+   * nor ping-pongs.
+   */
+  get finished(): boolean {
+    return !this.loop && !this.pingPong && this.travelled >= this.length;
+  }
+
+  /**
+   * Get the spline parameter of the follower, after easing.
+   */
+  get t(): number {
+    const table = this.spline.getArcLengthTable();
+    return table.tAtFraction(this.easing(this.progress));
+  }
+
+  /**
+   * Get the follower's position.
+   */
+  get position(): p5.Vector {
+    return this.spline.getPoint(this.t);
+  }
+
+  /**
+   * Get the unit direction of travel (reversed on ping-pong return legs).
+   */
+  get direction(): p5.Vector {
+    const d = this.spline.getDirection(this.t);
+    return this.pingPong && Math.abs(this.laps % 2) === 1 ? createVector(-d.x, -d.y, -d.z) : d;
+  }
+
+  /**
+   * Advance by the speed at the current progress.
+   * @param dt - Time step (default: 1)
+   * @returns New position
+   */
+  update(dt = 1): p5.Vector {
+    const speed = typeof this.speed === 'function' ? this.speed(this.progress) : this.speed;
+    this.advance(speed * dt);
+    return this.position;
+  }
+
+  /**
+   * Move by a distance (negative moves back).
+   * @param delta - Distance to travel
+   */
+  advance(delta: number): void {
+    this.travelled += delta;
+    // Stopped followers turn back immediately when the speed reverses
+    if (!this.loop && !this.pingPong) {
+      this.travelled = Math.max(0, Math.min(this.length, this.travelled));
+    }
+  }
+
+  /**
+   * Jump to a distance along the path and clear the lap count.
+   * @param distance - Distance from the start (default: 0)
+   */
+  reset(distance = 0): void {
+    this.travelled = distance;
+  }
+}
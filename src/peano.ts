@@ -26,6 +26,8 @@
  * @see https://paulbourke.net/fractals/lsys/
  */
 
+import { createVector } from './vec2';
+
 export type BoundingBox = {
   readonly minX: number;
   readonly minY: number;
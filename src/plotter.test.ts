@@ -0,0 +1,96 @@
+/**
+ * Tests for pen plotter path optimisation.
+ * These tests cover: travelDistance, optimizePaths and optimizeSegments.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { optimizePaths, optimizeSegments, travelDistance } from './plotter';
+import type { SegmentPair } from './svg';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+/**
+ * Horizontal hatch lines in alternating direction, listed in shuffled row order.
+ */
+function hatchLines(): SegmentPair[] {
+  const rows = [5, 0, 8, 2, 9, 4, 1, 7, 3, 6];
+  return rows.map((r) =>
+    r % 2 === 0 ? [v(0, r * 10), v(100, r * 10)] : [v(100, r * 10), v(0, r * 10)],
+  );
+}
+
+describe('travelDistance', () => {
+  test('sums pen-up moves between paths', () => {
+    const paths = [
+      { points: [v(0, 0), v(10, 0)], closed: false },
+      { points: [v(10, 10), v(0, 10)], closed: false },
+    ];
+    expect(travelDistance(paths)).toBe(10);
+    expect(travelDistance(paths, v(0, 10))).toBe(20);
+  });
+
+  test('closed paths return to their start', () => {
+    const square = { points: [v(0, 0), v(10, 0), v(10, 10), v(0, 10)], closed: true };
+    const next = { points: [v(0, 5), v(0, 6)], closed: false };
+    expect(travelDistance([square, next])).toBe(5);
+  });
+});
+
+describe('optimizeSegments', () => {
+  test('reduces travel for shuffled hatch lines', () => {
+    const result = optimizeSegments(hatchLines());
+    expect(result.paths).toHaveLength(10);
+    expect(result.travelAfter).toBeLessThan(result.travelBefore);
+    // Boustrophedon order: one 10-unit step between each pair of rows
+    expect(result.travelAfter).toBeCloseTo(90);
+  });
+
+  test('reports travel of the input order', () => {
+    const segments = hatchLines();
+    const asPaths = segments.map(([a, b]) => ({ points: [a, b], closed: false }));
+    expect(optimizeSegments(segments).travelBefore).toBeCloseTo(travelDistance(asPaths));
+  });
+
+  test('joins touching segments into polylines', () => {
+    const result = optimizeSegments([
+      [v(0, 0), v(10, 0)],
+      [v(20, 0), v(10, 0)],
+      [v(50, 50), v(60, 50)],
+    ]);
+    expect(result.paths).toHaveLength(2);
+    expect(result.paths[0]!.points).toHaveLength(3);
+  });
+
+  test('keeps direction when reversing is disabled', () => {
+    const result = optimizeSegments([[v(10, 0), v(0, 0)]], { allowReverse: false });
+    expect(result.paths[0]!.points[0]!.x).toBe(10);
+  });
+});
+
+describe('optimizePaths', () => {
+  test('enters closed paths at the nearest vertex', () => {
+    const square = { points: [v(100, 100), v(110, 100), v(110, 110), v(100, 110)], closed: true };
+    const result = optimizePaths([square], { start: v(120, 120) });
+    expect(result.paths[0]!.points[0]!.x).toBe(110);
+    expect(result.paths[0]!.points[0]!.y).toBe(110);
+  });
+
+  test('keeps dots and single-point marks', () => {
+    const dot = { points: [v(50, 50), v(50, 50)], closed: false };
+    const mark = { points: [v(20, 80)], closed: false };
+    const line = { points: [v(0, 0), v(10, 0)], closed: false };
+    const result = optimizePaths([line, dot, mark]);
+    expect(result.paths).toHaveLength(3);
+    expect(result.paths.some((p) => p.points.length === 2 && p.points[0]!.x === 50)).toBe(true);
+    expect(result.paths.some((p) => p.points.length === 1 && p.points[0]!.y === 80)).toBe(true);
+  });
+
+  test('never makes travel worse than greedy alone', () => {
+    const segments = hatchLines();
+    const greedy = optimizeSegments(segments, { twoOptPasses: 0 });
+    const improved = optimizeSegments(segments);
+    expect(improved.travelAfter).toBeLessThanOrEqual(greedy.travelAfter + 1e-9);
+  });
+});
@@ -0,0 +1,300 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Pen plotter path optimisation.
+ * Joins touching segments into polylines, orders them (greedy nearest-neighbour
+ * plus 2-opt) and flips their direction to minimise pen-up travel.
+ */
+
+import { joinSegments, type SegmentPair, type SvgPath } from './svg';
+import { createVector } from './vec2';
+
+/** Default endpoint tolerance for joining segments */
+const DEFAULT_JOIN_TOLERANCE = 1e-3;
+
+/** Default number of 2-opt improvement passes */
+const DEFAULT_TWO_OPT_PASSES = 4;
+
+/** Minimum improvement for a 2-opt move to be applied */
+const TWO_OPT_EPSILON = 1e-9;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Options for path optimisation */
+export type PlotOptimizeOptions = {
+  /** Join touching paths/segments into polylines first (default: true) */
+  readonly join?: boolean;
+  /** Endpoint tolerance for joining (default: 0.001) */
+  readonly tolerance?: number;
+  /** Allow drawing paths in reverse (default: true) */
+  readonly allowReverse?: boolean;
+  /** Number of 2-opt passes, 0 to disable; requires allowReverse (default: 4) */
+  readonly twoOptPasses?: number;
+  /** Pen position before the first path (default: origin) */
+  readonly start?: p5.Vector;
+};
+
+/** Result of path optimisation */
+export type PlotOptimizeResult = {
+  /** Paths in plotting order and direction */
+  readonly paths: SvgPath[];
+  /** Pen-up travel of the input order */
+  readonly travelBefore: number;
+  /** Pen-up travel of the optimised order */
+  readonly travelAfter: number;
+};
+
+// ============================================================================
+// Path Helpers
+// ============================================================================
+
+/**
+ * Point where the pen goes down for a path.
+ */
+function entry(path: SvgPath): p5.Vector {
+  return path.points[0]!;
+}
+
+/**
+ * Point where the pen lifts after a path (closed paths return to their start).
+ */
+function exit(path: SvgPath): p5.Vector {
+  return path.closed ? path.points[0]! : path.points[path.points.length - 1]!;
+}
+
+/**
+ * Euclidean distance between two points.
+ */
+function dist(a: p5.Vector, b: p5.Vector): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Reverse the drawing direction of a path.
+ */
+function reversePath(path: SvgPath): SvgPath {
+  if (!path.closed) return { points: [...path.points].reverse(), closed: false };
+  const [first, ...rest] = path.points;
+  return { points: first ? [first, ...rest.reverse()] : [], closed: true };
+}
+
+/**
+ * Rotate a closed path so it starts at the vertex nearest to `p`.
+ */
+function rotateClosedPath(path: SvgPath, p: p5.Vector): SvgPath {
+  let best = 0;
+  let bestDist = Infinity;
+  path.points.forEach((q, i) => {
+    const d = dist(p, q);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  });
+  if (best === 0) return path;
+  return { points: [...path.points.slice(best), ...path.points.slice(0, best)], closed: true };
+}
+
+/**
+ * Calculate total pen-up travel for plotting paths in order.
+ *
+ * @param paths - Paths in plotting order
+ * @param start - Pen position before the first path (default: origin)
+ * @returns Sum of distances between consecutive paths
+ *
+ * @example
+ * ```ts
+ * const travel = travelDistance(paths, createVector(0, 0));
+ * ```
+ */
+export function travelDistance(
+  paths: readonly SvgPath[],
+  start: p5.Vector = createVector(0, 0),
+): number {
+  let total = 0;
+  let pen = start;
+  for (const path of paths) {
+    if (path.points.length === 0) continue;
+    total += dist(pen, entry(path));
+    pen = exit(path);
+  }
+  return total;
+}
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Order paths greedily: always plot the nearest remaining path next,
+ * entering it from whichever end is closer.
+ */
+function greedyOrder(
+  paths: readonly SvgPath[],
+  start: p5.Vector,
+  allowReverse: boolean,
+): SvgPath[] {
+  const remaining = [...paths];
+  const ordered: SvgPath[] = [];
+  let pen = start;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestDist = Infinity;
+    let bestReversed = false;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const path = remaining[i]!;
+      const dStart = dist(pen, entry(path));
+      if (dStart < bestDist) {
+        bestDist = dStart;
+        bestIndex = i;
+        bestReversed = false;
+      }
+      if (allowReverse && !path.closed) {
+        const dEnd = dist(pen, exit(path));
+        if (dEnd < bestDist) {
+          bestDist = dEnd;
+          bestIndex = i;
+          bestReversed = true;
+        }
+      }
+    }
+
+    // Swap-remove keeps selection O(1)
+    const chosen = remaining[bestIndex]!;
+    remaining[bestIndex] = remaining[remaining.length - 1]!;
+    remaining.pop();
+
+    let path = bestReversed ? reversePath(chosen) : chosen;
+    if (path.closed) path = rotateClosedPath(path, pen);
+    ordered.push(path);
+    pen = exit(path);
+  }
+
+  return ordered;
+}
+
+/**
+ * Improve an ordering with 2-opt moves: reversing a run of paths (and the
+ * direction of each path in it) when that shortens the travel at both ends.
+ */
+function twoOpt(paths: SvgPath[], start: p5.Vector, passes: number): SvgPath[] {
+  const result = [...paths];
+  const n = result.length;
+
+  for (let pass = 0; pass < passes; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      const before = i === 0 ? start : exit(result[i - 1]!);
+
+      for (let j = i + 1; j < n; j++) {
+        const first = result[i]!;
+        const last = result[j]!;
+        // A reversed run is entered at its last path's exit (drawn backwards)
+        const after = j + 1 < n ? entry(result[j + 1]!) : null;
+        const current = dist(before, entry(first)) + (after ? dist(exit(last), after) : 0);
+        const candidate = dist(before, exit(last)) + (after ? dist(entry(first), after) : 0);
+
+        if (candidate < current - TWO_OPT_EPSILON) {
+          const run = result
+            .slice(i, j + 1)
+            .reverse()
+            .map(reversePath);
+          result.splice(i, run.length, ...run);
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Optimisation
+// ============================================================================
+
+/**
+ * Reorder and flip paths to minimise pen-up travel.
+ *
+ * @param paths - Paths in their original order
+ * @param options - Optimisation options
+ * @returns Optimised paths with before/after travel distances
+ *
+ * @example
+ * ```ts
+ * const { paths, travelBefore, travelAfter } = optimizePaths(svg.getPaths('hatch'));
+ * console.log(`pen-up travel ${travelBefore.toFixed(0)} -> ${travelAfter.toFixed(0)}`);
+ * ```
+ */
+export function optimizePaths(
+  paths: readonly SvgPath[],
+  options: PlotOptimizeOptions = {},
+): PlotOptimizeResult {
+  const {
+    join = true,
+    tolerance = DEFAULT_JOIN_TOLERANCE,
+    allowReverse = true,
+    twoOptPasses = DEFAULT_TWO_OPT_PASSES,
+    start = createVector(0, 0),
+  } = options;
+
+  const input = paths.filter((p) => p.points.length > 0);
+  const travelBefore = travelDistance(input, start);
+
+  // Open two-point paths are plain segments and can be chained with each other.
+  // Marks within the join tolerance (dots, stipples) may quantize to a single
+  // endpoint, which joinSegments drops as degenerate, so they pass through unchanged.
+  let working = input;
+  if (join) {
+    const isSegment = (p: SvgPath): boolean =>
+      !p.closed &&
+      p.points.length === 2 &&
+      dist(p.points[0]!, p.points[1]!) >= tolerance * Math.SQRT2;
+    const segments = input.filter(isSegment).map((p) => [p.points[0]!, p.points[1]!] as const);
+    working = [...input.filter((p) => !isSegment(p)), ...joinSegments(segments, tolerance)];
+  }
+
+  let ordered = greedyOrder(working, start, allowReverse);
+  // 2-opt reverses runs of paths, which flips each path in the run
+  if (allowReverse && twoOptPasses > 0) ordered = twoOpt(ordered, start, twoOptPasses);
+
+  return { paths: ordered, travelBefore, travelAfter: travelDistance(ordered, start) };
+}
+
+/**
+ * Join, reorder and flip line segments to minimise pen-up travel.
+ * Accepts the raw output of `Polygons().draw`, Delaunay edges and similar sources.
+ *
+ * @param segments - Segments in drawing order
+ * @param options - Optimisation options
+ * @returns Optimised polylines with before/after travel distances
+ *
+ * @example
+ * ```ts
+ * const segments: SegmentPair[] = [];
+ * polys.draw((p0, p1) => segments.push([p0, p1]), shape);
+ *
+ * const { paths } = optimizeSegments(segments);
+ * for (const path of paths) {
+ *   beginShape();
+ *   path.points.forEach((p) => vertex(p.x, p.y));
+ *   endShape(path.closed ? CLOSE : undefined);
+ * }
+ * ```
+ */
+export function optimizeSegments(
+  segments: readonly SegmentPair[],
+  options: PlotOptimizeOptions = {},
+): PlotOptimizeResult {
+  return optimizePaths(
+    segments.map(([a, b]) => ({ points: [a, b], closed: false })),
+    options,
+  );
+}
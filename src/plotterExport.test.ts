@@ -0,0 +1,113 @@
+/**
+ * Tests for G-code and HPGL export.
+ * These tests cover: toGcode, toHpgl, page transforms and path sources.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  toGcode,
+  toHpgl,
+  plotLayersFromSvg,
+  pathsFromLineSegments,
+  pathsFromPolygons,
+  pathFromSpline,
+} from './plotterExport';
+import { SvgWriter } from './svg';
+import { LineSegment } from './marchingSquares';
+import { CatmullRomSpline } from './catmullRom';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+const line = { points: [v(0, 0), v(10, 0)], closed: false };
+
+describe('toGcode', () => {
+  test('emits header, pen moves and footer', () => {
+    const lines = toGcode([{ pen: 1, paths: [line] }])
+      .trim()
+      .split('\n');
+    expect(lines[0]).toBe('G21');
+    expect(lines[1]).toBe('G90');
+    expect(lines).toContain('G0 X0 Y0');
+    expect(lines).toContain('G1 Z0 F500');
+    expect(lines).toContain('G1 X10 Y0 F1500');
+    expect(lines).toContain('G1 Z5 F500');
+    expect(lines[lines.length - 1]).toBe('M2');
+  });
+
+  test('uses servo commands in servo mode', () => {
+    const gcode = toGcode([{ pen: 1, paths: [line] }], { penMode: 'servo', servoDwell: 0 });
+    expect(gcode).toContain('M3 S1000');
+    expect(gcode).toContain('M5');
+    expect(gcode).not.toContain('Z');
+  });
+
+  test('emits a tool change per pen', () => {
+    const gcode = toGcode(
+      [
+        { pen: 1, paths: [line] },
+        { pen: 1, paths: [line] },
+        { pen: 2, paths: [line] },
+      ],
+      { toolChange: (pen) => [`T${pen} M6`] },
+    );
+    expect(gcode.match(/M6/g)).toHaveLength(2);
+    expect(gcode).toContain('T2 M6');
+  });
+
+  test('applies scale, origin and Y flip', () => {
+    const gcode = toGcode([{ pen: 1, paths: [{ points: [v(1, 0), v(2, 10)], closed: false }] }], {
+      scale: 2,
+      origin: [100, 50],
+      flipY: true,
+      pageHeight: 10,
+    });
+    expect(gcode).toContain('G0 X102 Y70');
+    expect(gcode).toContain('G1 X104 Y50 F1500');
+  });
+
+  test('closes closed paths and uses travel feed rate', () => {
+    const square = { points: [v(0, 0), v(1, 0), v(1, 1)], closed: true };
+    const gcode = toGcode([{ pen: 1, paths: [square] }], { travelRate: 4000 });
+    const draws = gcode.split('\n').filter((l) => l.startsWith('G1 X'));
+    expect(draws[draws.length - 2]).toBe('G1 X0 Y0');
+    expect(gcode).toContain('G1 X0 Y0 F4000');
+  });
+});
+
+describe('toHpgl', () => {
+  test('converts to plotter units and selects pens', () => {
+    const hpgl = toHpgl([{ pen: 2, paths: [line] }]);
+    expect(hpgl).toBe('IN;\nSP2;\nPU0,0;\nPD400,0;\nPU;\nSP0;\n');
+  });
+});
+
+describe('path sources', () => {
+  test('plotLayersFromSvg maps layers to pens', () => {
+    const svg = new SvgWriter({ width: 100, height: 100 });
+    svg.addSegment(v(0, 0), v(1, 0), 'a');
+    svg.addSegment(v(0, 1), v(1, 1), 'b');
+    const layers = plotLayersFromSvg(svg, { b: 5 });
+    expect(layers.map((l) => l.pen)).toEqual([1, 5]);
+  });
+
+  test('pathsFromLineSegments joins connected segments', () => {
+    const paths = pathsFromLineSegments([new LineSegment(0, 0, 1, 0), new LineSegment(1, 0, 1, 1)]);
+    expect(paths).toHaveLength(1);
+  });
+
+  test('pathsFromPolygons closes every ring', () => {
+    const paths = pathsFromPolygons([{ segments: [[v(0, 0), v(1, 0), v(1, 1)], [v(0.2, 0.2)]] }]);
+    expect(paths).toHaveLength(1);
+    expect(paths[0]!.closed).toBe(true);
+  });
+
+  test('pathFromSpline samples the curve', () => {
+    const spline = new CatmullRomSpline({ segments: 4 });
+    spline.addPoint(0, 0);
+    spline.addPoint(10, 0);
+    spline.addPoint(20, 10);
+    expect(pathFromSpline(spline).points).toHaveLength(9);
+  });
+});
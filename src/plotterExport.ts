@@ -0,0 +1,314 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * G-code (GRBL) and HPGL export for pen plotters.
+ * Turns polylines into pen-up/pen-down machine commands with page origin,
+ * scaling and one tool change per pen.
+ */
+
+import type { CatmullRomSpline } from './catmullRom';
+import type { LineSegment, Polygon } from './marchingSquares';
+import { formatNumber, joinSegments, type SvgPath, type SvgWriter } from './svg';
+import { createVector } from './vec2';
+
+/** Default drawing feed rate (units/min) */
+const DEFAULT_FEED_RATE = 1500;
+
+/** Default Z feed rate for pen lift and plunge (units/min) */
+const DEFAULT_Z_FEED_RATE = 500;
+
+/** Default Z height with the pen lifted */
+const DEFAULT_Z_UP = 5;
+
+/** Default Z height with the pen on the paper */
+const DEFAULT_Z_DOWN = 0;
+
+/** Default servo command to lift the pen */
+const DEFAULT_SERVO_UP = 'M5';
+
+/** Default servo command to lower the pen */
+const DEFAULT_SERVO_DOWN = 'M3 S1000';
+
+/** Default dwell after servo moves (seconds) */
+const DEFAULT_SERVO_DWELL = 0.15;
+
+/** Default number of decimals in G-code coordinates */
+const DEFAULT_GCODE_PRECISION = 3;
+
+/** HPGL plotter units per millimetre */
+const HPGL_UNITS_PER_MM = 40;
+
+/** Default tolerance for joining segments into polylines */
+const DEFAULT_JOIN_TOLERANCE = 1e-3;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Paths plotted with one pen */
+export type PlotLayer = {
+  /** Pen / tool number (1-based) */
+  readonly pen: number;
+  /** Paths in plotting order */
+  readonly paths: readonly SvgPath[];
+};
+
+/** Page placement shared by all exporters */
+export type PlotTransformOptions = {
+  /** Multiplier from drawing units to machine units (default: 1) */
+  readonly scale?: number;
+  /** Machine position of the drawing origin [x, y] (default: [0, 0]) */
+  readonly origin?: readonly [number, number];
+  /** Flip Y so screen coordinates (Y down) plot upright on Y-up machines (default: false) */
+  readonly flipY?: boolean;
+  /** Drawing height used when flipping Y, in drawing units (default: 0) */
+  readonly pageHeight?: number;
+};
+
+/** G-code export options */
+export type GcodeOptions = PlotTransformOptions & {
+  /** Machine units (default: 'mm') */
+  readonly units?: 'mm' | 'in';
+  /** Drawing feed rate in units/min (default: 1500) */
+  readonly feedRate?: number;
+  /** Pen-up travel feed rate; omit to travel with rapid G0 moves */
+  readonly travelRate?: number;
+  /** Pen control: Z axis heights or servo commands (default: 'z') */
+  readonly penMode?: 'z' | 'servo';
+  /** Z height with the pen lifted (default: 5) */
+  readonly zUp?: number;
+  /** Z height with the pen down (default: 0) */
+  readonly zDown?: number;
+  /** Z feed rate in units/min (default: 500) */
+  readonly zFeedRate?: number;
+  /** Servo command lifting the pen (default: 'M5') */
+  readonly servoUp?: string;
+  /** Servo command lowering the pen (default: 'M3 S1000') */
+  readonly servoDown?: string;
+  /** Dwell after each servo move in seconds (default: 0.15) */
+  readonly servoDwell?: number;
+  /** Commands for switching to a pen (default: comment + M0 pause) */
+  readonly toolChange?: (pen: number) => readonly string[];
+  /** Decimals in coordinates (default: 3) */
+  readonly precision?: number;
+  /** Travel back to machine zero after plotting (default: true) */
+  readonly returnHome?: boolean;
+};
+
+/** HPGL export options */
+export type HpglOptions = PlotTransformOptions & {
+  /** Plotter units per machine millimetre (default: 40) */
+  readonly unitsPerMm?: number;
+  /** Pen velocity in cm/s, omitted when undefined */
+  readonly velocity?: number;
+};
+
+// ============================================================================
+// Path Sources
+// ============================================================================
+
+/**
+ * Build plot layers from an SVG writer, one pen per layer.
+ *
+ * @param svg - Writer holding the drawing
+ * @param pens - Pen number per layer name (default: layer order, starting at 1)
+ * @returns Plot layers in the writer's layer order
+ *
+ * @example
+ * ```ts
+ * const layers = plotLayersFromSvg(svg, { outline: 1, hatch: 2 });
+ * const gcode = toGcode(layers, { feedRate: 2000 });
+ * ```
+ */
+export function plotLayersFromSvg(
+  svg: SvgWriter,
+  pens: Readonly<Record<string, number>> = {},
+): PlotLayer[] {
+  return svg.layerNames.map((name, i) => ({
+    pen: pens[name] ?? i + 1,
+    paths: svg.getPaths(name),
+  }));
+}
+
+/**
+ * Join marching squares line segments into polylines.
+ * @param segments - Segments from marchingSquaresToSegments
+ * @param tolerance - Endpoint tolerance (default: 0.001)
+ * @returns Joined paths
+ */
+export function pathsFromLineSegments(
+  segments: readonly LineSegment[],
+  tolerance = DEFAULT_JOIN_TOLERANCE,
+): SvgPath[] {
+  return joinSegments(
+    segments.map((s) => [createVector(s.x1, s.y1), createVector(s.x2, s.y2)] as const),
+    tolerance,
+  );
+}
+
+/**
+ * Convert marching squares polygons (outer contours and holes) to closed paths.
+ * @param polygons - Polygons from getPathsFromMarchingSquaresResult
+ * @returns One closed path per ring
+ */
+export function pathsFromPolygons(polygons: readonly Polygon[]): SvgPath[] {
+  return polygons.flatMap((polygon) =>
+    polygon.segments
+      .filter((ring) => ring.length > 1)
+      .map((ring) => ({ points: ring, closed: true })),
+  );
+}
+
+/**
+ * Sample a Catmull-Rom spline into a path.
+ * @param spline - Spline to sample
+ * @param pointsPerSegment - Samples per spline segment (default: spline.segments)
+ * @returns Path following the curve
+ */
+export function pathFromSpline(spline: CatmullRomSpline, pointsPerSegment?: number): SvgPath {
+  return { points: spline.getPoints(pointsPerSegment), closed: spline.closed };
+}
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+/**
+ * Create a drawing-to-machine coordinate transform.
+ */
+function createTransform(options: PlotTransformOptions): (p: p5.Vector) => [number, number] {
+  const { scale = 1, origin = [0, 0], flipY = false, pageHeight = 0 } = options;
+  return (p) => [origin[0] + p.x * scale, origin[1] + (flipY ? pageHeight - p.y : p.y) * scale];
+}
+
+/**
+ * Drawing order of a path's vertices (closed paths return to their start).
+ */
+function strokePoints(path: SvgPath): readonly p5.Vector[] {
+  const first = path.points[0];
+  return path.closed && first && path.points.length > 2 ? [...path.points, first] : path.points;
+}
+
+// ============================================================================
+// G-code
+// ============================================================================
+
+/**
+ * Export plot layers as G-code for GRBL-style pen plotters.
+ * The pen is lifted with Z moves or servo commands, and every pen change
+ * emits the tool change commands (a pause by default).
+ *
+ * @param layers - Layers to plot, in order
+ * @param options - Machine options
+ * @returns G-code program
+ *
+ * @example
+ * ```ts
+ * const gcode = toGcode(plotLayersFromSvg(svg), {
+ *   penMode: 'servo',
+ *   feedRate: 3000,
+ *   flipY: true,
+ *   pageHeight: 297,
+ * });
+ * ```
+ */
+export function toGcode(layers: readonly PlotLayer[], options: GcodeOptions = {}): string {
+  const {
+    units = 'mm',
+    feedRate = DEFAULT_FEED_RATE,
+    travelRate,
+    penMode = 'z',
+    zUp = DEFAULT_Z_UP,
+    zDown = DEFAULT_Z_DOWN,
+    zFeedRate = DEFAULT_Z_FEED_RATE,
+    servoUp = DEFAULT_SERVO_UP,
+    servoDown = DEFAULT_SERVO_DOWN,
+    servoDwell = DEFAULT_SERVO_DWELL,
+    toolChange = (pen: number) => [`(Change to pen ${pen})`, 'M0'],
+    precision = DEFAULT_GCODE_PRECISION,
+    returnHome = true,
+  } = options;
+
+  const transform = createTransform(options);
+  const f = (v: number): string => formatNumber(v, precision);
+  const dwell = servoDwell > 0 ? [`G4 P${f(servoDwell)}`] : [];
+  const penUp = penMode === 'z' ? [`G1 Z${f(zUp)} F${f(zFeedRate)}`] : [servoUp, ...dwell];
+  const penDown = penMode === 'z' ? [`G1 Z${f(zDown)} F${f(zFeedRate)}`] : [servoDown, ...dwell];
+  const travel = (x: number, y: number): string =>
+    travelRate === undefined ? `G0 X${f(x)} Y${f(y)}` : `G1 X${f(x)} Y${f(y)} F${f(travelRate)}`;
+
+  const lines: string[] = [units === 'mm' ? 'G21' : 'G20', 'G90', ...penUp];
+  let currentPen: number | null = null;
+
+  for (const layer of layers) {
+    const paths = layer.paths.filter((p) => p.points.length > 1);
+    if (paths.length === 0) continue;
+
+    if (layer.pen !== currentPen) {
+      lines.push(...toolChange(layer.pen));
+      currentPen = layer.pen;
+    }
+
+    for (const path of paths) {
+      const [start, ...rest] = strokePoints(path).map(transform);
+      lines.push(travel(start![0], start![1]), ...penDown);
+      rest.forEach(([x, y], i) => {
+        lines.push(i === 0 ? `G1 X${f(x)} Y${f(y)} F${f(feedRate)}` : `G1 X${f(x)} Y${f(y)}`);
+      });
+      lines.push(...penUp);
+    }
+  }
+
+  if (returnHome) lines.push(travel(0, 0));
+  lines.push('M2');
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// HPGL
+// ============================================================================
+
+/**
+ * Export plot layers as HPGL. Coordinates are converted from machine
+ * millimetres to plotter units (40 per mm) and each pen is selected with `SP`.
+ *
+ * @param layers - Layers to plot, in order
+ * @param options - Plotter options
+ * @returns HPGL program
+ *
+ * @example
+ * ```ts
+ * const hpgl = toHpgl([{ pen: 1, paths }], { flipY: true, pageHeight: 297 });
+ * ```
+ */
+export function toHpgl(layers: readonly PlotLayer[], options: HpglOptions = {}): string {
+  const { unitsPerMm = HPGL_UNITS_PER_MM, velocity } = options;
+  const transform = createTransform(options);
+  const toUnits = (p: p5.Vector): string => {
+    const [x, y] = transform(p);
+    return `${Math.round(x * unitsPerMm)},${Math.round(y * unitsPerMm)}`;
+  };
+
+  const commands: string[] = ['IN;'];
+  if (velocity !== undefined) commands.push(`VS${velocity};`);
+  let currentPen: number | null = null;
+
+  for (const layer of layers) {
+    const paths = layer.paths.filter((p) => p.points.length > 1);
+    if (paths.length === 0) continue;
+
+    if (layer.pen !== currentPen) {
+      commands.push(`SP${layer.pen};`);
+      currentPen = layer.pen;
+    }
+
+    for (const path of paths) {
+      const [start, ...rest] = strokePoints(path);
+      commands.push(`PU${toUnits(start!)};`, `PD${rest.map(toUnits).join(',')};`);
+    }
+  }
+
+  commands.push('PU;', 'SP0;');
+  return commands.join('\n') + '\n';
+}
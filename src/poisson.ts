@@ -3,6 +3,9 @@
  * Provides both unbounded (PoissonDiscGrid) and bounded (PoissonDiscSampler) implementations.
  */
 
+import { type SeededRandom, toSeededRandom } from './random';
+import { createVector } from './vec2';
+
 /** Poisson disc cell size divisor */
 const POISSON_CELL_DIVISOR = Math.sqrt(2);
 
@@ -115,7 +118,7 @@ export class PoissonDiscSampler {
   private readonly cols: number;
   private readonly rows: number;
   private readonly maxAttempts: number;
-  private rngState: number;
+  private readonly rng: SeededRandom;
 
   /** 2D grid for O(1) cell lookup */
   readonly grid: (p5.Vector | undefined)[][];
@@ -128,14 +131,14 @@ export class PoissonDiscSampler {
    * @param width - Width of the sampling area
    * @param height - Height of the sampling area
    * @param radius - Minimum distance between points
-   * @param seed - Optional seed for reproducible results (default: Date.now())
+   * @param seed - Optional seed or shared SeededRandom for reproducible results (default: Date.now())
    * @param maxAttempts - Max attempts per point in Bridson's algorithm (default: 30)
    */
   constructor(
     width: number,
     height: number,
     radius: number,
-    seed?: number,
+    seed?: number | SeededRandom,
     maxAttempts = DEFAULT_MAX_ATTEMPTS,
   ) {
     this.width = width;
@@ -146,7 +149,7 @@ export class PoissonDiscSampler {
     this.cols = Math.ceil(width / this.cellSize);
     this.rows = Math.ceil(height / this.cellSize);
     this.maxAttempts = maxAttempts;
-    this.rngState = seed ?? Date.now();
+    this.rng = toSeededRandom(seed ?? Date.now());
 
     // Initialize empty 2D grid
     this.grid = Array.from({ length: this.cols }, () =>
@@ -154,17 +157,6 @@ export class PoissonDiscSampler {
     );
   }
 
-  /**
-   * Seeded random number generator (mulberry32).
-   * @returns Random number in [0, 1)
-   */
-  private random(): number {
-    let t = (this.rngState += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  }
-
   /**
    * Generate points to fill the bounded space using Bridson's algorithm.
    * @param startX - Optional starting X coordinate (default: center)
@@ -192,16 +184,16 @@ export class PoissonDiscSampler {
 
     // Step 2: Process active list
     while (active.length > 0) {
-      const idx = Math.floor(this.random() * active.length);
+      const idx = Math.floor(this.rng.next() * active.length);
       const point = active[idx]!;
       let found = false;
 
       // Try up to maxAttempts samples in the annulus
       for (let n = 0; n < this.maxAttempts; n++) {
-        const angle = this.random() * Math.PI * 2;
+        const angle = this.rng.next() * Math.PI * 2;
         const mag =
           this.radius * ANNULUS_INNER +
-          this.random() * this.radius * (ANNULUS_OUTER - ANNULUS_INNER);
+          this.rng.next() * this.radius * (ANNULUS_OUTER - ANNULUS_INNER);
         const sampleX = point.x + Math.cos(angle) * mag;
         const sampleY = point.y + Math.sin(angle) * mag;
 
@@ -0,0 +1,210 @@
+/**
+ * Tests for polygon analysis.
+ * These tests cover: signedArea/polygonArea, polygonCentroid, polygonPerimeter,
+ * orientation and its fixes, isConvex, convexHull, minAreaRect,
+ * selfIntersections/isSimple and polygonDistance, with point arrays, Poly and
+ * marching squares Polygon input.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  convexHull,
+  fixOrientation,
+  fixRingOrientations,
+  isConvex,
+  isSimple,
+  minAreaRect,
+  orientation,
+  polygonArea,
+  polygonCentroid,
+  polygonDistance,
+  polygonPerimeter,
+  selfIntersections,
+  signedArea,
+} from './polygonAnalysis';
+import { Poly } from './polygons';
+import { rect } from './testFixtures';
+import { createVector } from './vec2';
+
+const ell = [
+  createVector(0, 0),
+  createVector(20, 0),
+  createVector(20, 10),
+  createVector(10, 10),
+  createVector(10, 20),
+  createVector(0, 20),
+];
+
+const bowtie = [createVector(0, 0), createVector(10, 10), createVector(10, 0), createVector(0, 10)];
+
+describe('measurements', () => {
+  test('signed area follows orientation', () => {
+    expect(signedArea(rect(0, 0, 10, 5))).toBeCloseTo(50);
+    expect(signedArea(rect(0, 0, 10, 5).reverse())).toBeCloseTo(-50);
+    expect(polygonArea(rect(0, 0, 10, 5).reverse())).toBeCloseTo(50);
+    expect(signedArea([])).toBe(0);
+  });
+
+  test('holes are subtracted for Poly and Polygon input', () => {
+    const donut = Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 4, 4)]);
+    expect(polygonArea(donut)).toBeCloseTo(84);
+    expect(polygonArea({ segments: [rect(0, 0, 10, 10), rect(2, 2, 4, 4)] })).toBeCloseTo(84);
+  });
+
+  test('separate parts and islands in holes are filled', () => {
+    const blobs = Poly.fromRings(rect(0, 0, 10, 10), [rect(20, 0, 10, 10)]);
+    expect(polygonArea(blobs)).toBeCloseTo(200);
+    expect(signedArea(blobs)).toBeCloseTo(200);
+
+    // 30x30 donut with a 20x20 hole and a 10x10 island in the hole
+    const island = Poly.fromRings(rect(0, 0, 30, 30), [rect(5, 5, 20, 20), rect(10, 10, 10, 10)]);
+    expect(polygonArea(island)).toBeCloseTo(600);
+    expect(polygonArea({ segments: island.rings.map((r) => [...r]) })).toBeCloseTo(600);
+  });
+
+  test('winding fill rules are resolved before measuring', () => {
+    // Two overlapping squares wound the same way merge under nonzero
+    const overlap = Poly.fromRings(rect(0, 0, 10, 10), [rect(5, 0, 10, 10)], 'nonzero');
+    expect(polygonArea(overlap)).toBeCloseTo(150);
+    // A square inside another wound the same way is no hole under nonzero
+    const nested = Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 4, 4)], 'nonzero');
+    expect(polygonArea(nested)).toBeCloseTo(100);
+    nested.setFillRule('evenodd');
+    expect(polygonArea(nested)).toBeCloseTo(84);
+  });
+
+  test('centroid of simple and holed shapes', () => {
+    const c = polygonCentroid(ell);
+    // Two 10x10 squares at (15, 5) and (5, 15) plus one at (5, 5)
+    expect(c.x).toBeCloseTo(25 / 3);
+    expect(c.y).toBeCloseTo(25 / 3);
+
+    // A hole on the right pushes the centroid left
+    const holed = polygonCentroid(Poly.fromRings(rect(0, 0, 10, 10), [rect(6, 4, 2, 2)]));
+    expect(holed.x).toBeLessThan(5);
+    expect(holed.y).toBeCloseTo(5);
+
+    // Parts of equal area balance between them
+    const blobs = polygonCentroid(Poly.fromRings(rect(0, 0, 10, 10), [rect(20, 0, 10, 10)]));
+    expect(blobs.x).toBeCloseTo(15);
+    expect(blobs.y).toBeCloseTo(5);
+
+    // An off-centre island pulls the centroid towards it
+    const island = polygonCentroid(
+      Poly.fromRings(rect(0, 0, 30, 30), [rect(5, 5, 20, 20), rect(14, 10, 10, 10)]),
+    );
+    // Donut 500 at (15, 15), island 100 at (19, 15)
+    expect(island.x).toBeCloseTo((500 * 15 + 100 * 19) / 600);
+    expect(island.y).toBeCloseTo(15);
+  });
+
+  test('centroid of degenerate shapes is the vertex mean', () => {
+    const c = polygonCentroid([createVector(0, 0), createVector(4, 0), createVector(8, 0)]);
+    expect(c.x).toBeCloseTo(4);
+    expect(c.y).toBeCloseTo(0);
+  });
+
+  test('perimeter includes every ring', () => {
+    expect(polygonPerimeter(rect(0, 0, 10, 5))).toBeCloseTo(30);
+    expect(polygonPerimeter(Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 4, 4)]))).toBeCloseTo(
+      56,
+    );
+  });
+});
+
+describe('orientation', () => {
+  test('detects and fixes winding', () => {
+    const cw = rect(0, 0, 10, 10).reverse();
+    expect(orientation(cw)).toBe('cw');
+    expect(orientation(fixOrientation(cw))).toBe('ccw');
+    expect(orientation(fixOrientation(cw, 'cw'))).toBe('cw');
+    expect(orientation([createVector(0, 0), createVector(1, 1)])).toBe('none');
+  });
+
+  test('fixRingOrientations winds holes opposite to the outer ring', () => {
+    const poly = Poly.fromRings(rect(0, 0, 10, 10).reverse(), [rect(2, 2, 4, 4)]);
+    const [outer, hole] = fixRingOrientations(poly);
+    expect(orientation(outer!)).toBe('ccw');
+    expect(orientation(hole!)).toBe('cw');
+  });
+});
+
+describe('convexity and hulls', () => {
+  test('isConvex', () => {
+    expect(isConvex(rect(0, 0, 10, 10))).toBe(true);
+    expect(isConvex(rect(0, 0, 10, 10).reverse())).toBe(true);
+    expect(isConvex(ell)).toBe(false);
+    expect(isConvex(bowtie)).toBe(false);
+    expect(isConvex(Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 4, 4)]))).toBe(false);
+
+    // Collinear vertices are allowed, a doubly-wound pentagram is not
+    const withMid = [createVector(0, 0), createVector(5, 0), ...rect(0, 0, 10, 10).slice(1)];
+    expect(isConvex(withMid)).toBe(true);
+    const star = Array.from({ length: 5 }, (_, i) =>
+      createVector(Math.cos((i * 2 * TWO_PI) / 5), Math.sin((i * 2 * TWO_PI) / 5)),
+    );
+    expect(isConvex(star)).toBe(false);
+  });
+
+  test('convexHull drops interior and collinear points', () => {
+    const points = [...rect(0, 0, 10, 10), createVector(5, 5), createVector(5, 0)];
+    const hull = convexHull(points);
+    expect(hull).toHaveLength(4);
+    expect(orientation(hull)).toBe('ccw');
+    expect(polygonArea(hull)).toBeCloseTo(100);
+    expect(convexHull(ell)).toHaveLength(5);
+  });
+
+  test('minAreaRect finds the rotated box', () => {
+    const angle = 0.4;
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    const rotated = rect(-10, -3, 20, 6).map((p) =>
+      createVector(p.x * c - p.y * s, p.x * s + p.y * c),
+    );
+    const box = minAreaRect(rotated)!;
+
+    expect(box.width * box.height).toBeCloseTo(120);
+    expect(Math.max(box.width, box.height)).toBeCloseTo(20);
+    expect(box.center.x).toBeCloseTo(0);
+    expect(box.center.y).toBeCloseTo(0);
+    expect(box.corners).toHaveLength(4);
+    expect(minAreaRect([])).toBeNull();
+  });
+});
+
+describe('intersection and distance', () => {
+  test('selfIntersections finds crossings', () => {
+    const hits = selfIntersections(bowtie);
+    expect(hits).toHaveLength(1);
+    expect(hits[0]!.x).toBeCloseTo(5);
+    expect(hits[0]!.y).toBeCloseTo(5);
+    expect(isSimple(bowtie)).toBe(false);
+    expect(isSimple(ell)).toBe(true);
+  });
+
+  test('repeated points are not intersections', () => {
+    const square = rect(0, 0, 10, 10);
+    expect(isSimple([...square, square[0]!])).toBe(true);
+    expect(isSimple([square[0]!, ...square])).toBe(true);
+  });
+
+  test('holes touching the outer ring are reported', () => {
+    expect(isSimple(Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 4, 4)]))).toBe(true);
+    expect(isSimple(Poly.fromRings(rect(0, 0, 10, 10), [rect(0, 2, 4, 4)]))).toBe(false);
+  });
+
+  test('polygonDistance', () => {
+    expect(polygonDistance(rect(0, 0, 10, 10), rect(15, 0, 10, 10))).toBeCloseTo(5);
+    expect(polygonDistance(rect(0, 0, 10, 10), rect(13, 14, 5, 5))).toBeCloseTo(5);
+    expect(polygonDistance(rect(0, 0, 10, 10), rect(5, 5, 10, 10))).toBe(0);
+    expect(polygonDistance(rect(0, 0, 10, 10), rect(2, 2, 2, 2))).toBe(0);
+    expect(polygonDistance(rect(0, 0, 10, 10), [])).toBe(Infinity);
+  });
+
+  test('polygonDistance measures to hole boundaries', () => {
+    const frame = Poly.fromRings(rect(0, 0, 30, 30), [rect(5, 5, 20, 20)]);
+    expect(polygonDistance(frame, rect(12, 12, 6, 6))).toBeCloseTo(7);
+  });
+});
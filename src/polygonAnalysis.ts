@@ -0,0 +1,582 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Polygon measurements and tests: area, centroid, perimeter, orientation,
+ * convexity, convex hull, minimum-area bounding rectangle, self-intersection
+ * and polygon-to-polygon distance.
+ *
+ * Every function accepts a plain point array, a `Poly` or a marching squares
+ * `Polygon`. Multi-ring shapes are read with the even-odd rule (a `Poly` with
+ * its own fill rule), so separate parts and islands inside holes count as
+ * filled. Even-odd rings are expected to nest without crossing; resolve
+ * crossing rings with `resolveRings` first. The first ring is taken as the
+ * outer ring where one is needed.
+ * Orientation follows the usual math convention: positive signed area is
+ * counter-clockwise with Y up, which appears clockwise on screen in p5.
+ */
+
+import { lineIntersection, pointSegmentDistance } from './line';
+import { type Polygon, pointInPolygon } from './marchingSquares';
+import { resolveRings } from './polygonBoolean';
+import { Poly } from './polygons';
+import { ringDepths, ringSignedArea } from './ring';
+import { createVector } from './vec2';
+
+/** Tolerance on the total turning angle when testing convexity */
+const TURNING_EPSILON = 1e-6;
+
+/** Parametric slack when accepting intersections at segment ends */
+const PARAM_EPSILON = 1e-12;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Closed ring of points (the closing edge is implicit) */
+type Ring = readonly p5.Vector[];
+
+/** Any supported polygon representation */
+export type PolygonLike = Ring | Poly | Polygon;
+
+/**
+ * Ring winding: 'ccw' has positive signed area (counter-clockwise with Y up,
+ * clockwise on screen), 'cw' negative, 'none' zero area.
+ */
+export type Orientation = 'ccw' | 'cw' | 'none';
+
+/** Rotated rectangle */
+export type OrientedRect = {
+  /** Rectangle centre */
+  readonly center: p5.Vector;
+  /** Side length along `angle` */
+  readonly width: number;
+  /** Side length perpendicular to `angle` */
+  readonly height: number;
+  /** Direction of the width side in radians */
+  readonly angle: number;
+  /** Corner points in counter-clockwise order (Y up) */
+  readonly corners: p5.Vector[];
+};
+
+/** Internal edge for the intersection sweep */
+type Edge = {
+  readonly a: p5.Vector;
+  readonly b: p5.Vector;
+  readonly ring: number;
+  readonly index: number;
+  readonly ringLength: number;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rings of a shape: the outer ring first, then holes.
+ */
+function shapeRings(shape: PolygonLike): readonly Ring[] {
+  if (shape instanceof Poly) return shape.rings.filter((ring) => ring.length > 0);
+  if ('segments' in shape) return shape.segments;
+  return [shape];
+}
+
+/**
+ * Rings describing the filled region under the even-odd rule. A Poly read with
+ * a winding rule is resolved into simple outer rings and holes first.
+ */
+function regionRings(shape: PolygonLike): readonly Ring[] {
+  if (shape instanceof Poly && shape.fillRule !== 'evenodd') {
+    return resolveRings(shape.rings, shape.fillRule).flatMap((c) => [c.outer, ...c.holes]);
+  }
+  return shapeRings(shape);
+}
+
+/**
+ * Region rings with the sign each adds to the filled area: +1 for outer
+ * boundaries and islands (even nesting depth), -1 for holes (odd depth).
+ */
+function weightedRings(shape: PolygonLike): { ring: Ring; weight: number }[] {
+  const rings = regionRings(shape);
+  const depths = ringDepths(rings);
+  return rings.map((ring, i) => ({ ring, weight: depths[i]! % 2 === 0 ? 1 : -1 }));
+}
+
+/**
+ * Whether a point lies in the filled region of a shape.
+ */
+function insideShape(p: p5.Vector, shape: PolygonLike): boolean {
+  if (shape instanceof Poly) return shape.inside(p);
+  return shapeRings(shape).reduce((inside, ring) => inside !== pointInPolygon(p, ring), false);
+}
+
+/**
+ * Point where segments ab and cd meet, or null.
+ * Collinear overlaps report the first shared point along ab.
+ */
+function segmentHit(a: p5.Vector, b: p5.Vector, c: p5.Vector, d: p5.Vector): p5.Vector | null {
+  const hit = lineIntersection(a, b, c, d, { epsilon: PARAM_EPSILON });
+  if (!hit) return null;
+  return hit.type === 'point' ? hit.point : hit.start;
+}
+
+/**
+ * Edges of all rings. Repeated points are dropped first so that neighbouring
+ * edges always have neighbouring indices.
+ */
+function shapeEdges(shape: PolygonLike): Edge[] {
+  const edges: Edge[] = [];
+  shapeRings(shape).forEach((ring, r) => {
+    const pts = ring.filter((p, i) => {
+      const q = ring[(i + 1) % ring.length]!;
+      return p.x !== q.x || p.y !== q.y;
+    });
+    for (let i = 0, n = pts.length; i < n; i++) {
+      edges.push({ a: pts[i]!, b: pts[(i + 1) % n]!, ring: r, index: i, ringLength: n });
+    }
+  });
+  return edges;
+}
+
+/**
+ * Whether two edges of the same ring share a vertex by construction.
+ */
+function adjacent(e: Edge, f: Edge): boolean {
+  if (e.ring !== f.ring) return false;
+  const diff = Math.abs(e.index - f.index);
+  return diff === 1 || diff === e.ringLength - 1;
+}
+
+// ============================================================================
+// Measurements
+// ============================================================================
+
+/**
+ * Signed area of a shape. The sign is the first ring's orientation (positive
+ * when counter-clockwise with Y up) and the magnitude the filled area: every
+ * part and island added, holes subtracted.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Signed area
+ *
+ * @example
+ * ```ts
+ * const a = signedArea(cell.polygon);
+ * if (a < 0) console.log('clockwise (Y up)');
+ * ```
+ */
+export function signedArea(shape: PolygonLike): number {
+  const outer = shapeRings(shape)[0];
+  if (!outer) return 0;
+  const area = weightedRings(shape).reduce(
+    (sum, { ring, weight }) => sum + weight * Math.abs(ringSignedArea(ring)),
+    0,
+  );
+  return Math.sign(ringSignedArea(outer)) * area;
+}
+
+/**
+ * Filled area of a shape: every part and island added, holes subtracted.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Area (never negative)
+ *
+ * @example
+ * ```ts
+ * const big = cells.filter((c) => polygonArea(c.polygon) > 400);
+ * ```
+ */
+export function polygonArea(shape: PolygonLike): number {
+  return Math.abs(signedArea(shape));
+}
+
+/**
+ * Centroid (centre of mass) of the filled region, holes subtracted.
+ * Shapes without area fall back to the mean of their vertices.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Centroid, or the origin for an empty shape
+ *
+ * @example
+ * ```ts
+ * const c = polygonCentroid(poly);
+ * text(label, c.x, c.y);
+ * ```
+ */
+export function polygonCentroid(shape: PolygonLike): p5.Vector {
+  let sumX = 0;
+  let sumY = 0;
+  let sumArea = 0;
+
+  weightedRings(shape).forEach(({ ring, weight }) => {
+    const area = ringSignedArea(ring);
+    if (area === 0) return;
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const p = ring[j]!;
+      const q = ring[i]!;
+      const c = p.x * q.y - q.x * p.y;
+      cx += (p.x + q.x) * c;
+      cy += (p.y + q.y) * c;
+    }
+    // Ring centroid times its area; holes count negative
+    sumX += (weight * Math.sign(area) * cx) / 6;
+    sumY += (weight * Math.sign(area) * cy) / 6;
+    sumArea += weight * Math.abs(area);
+  });
+
+  if (sumArea !== 0) return createVector(sumX / sumArea, sumY / sumArea);
+
+  const points = shapeRings(shape).flat();
+  if (points.length === 0) return createVector(0, 0);
+  return createVector(
+    points.reduce((s, p) => s + p.x, 0) / points.length,
+    points.reduce((s, p) => s + p.y, 0) / points.length,
+  );
+}
+
+/**
+ * Total boundary length of all rings, closing edges included.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Perimeter
+ *
+ * @example
+ * ```ts
+ * const ink = polygonPerimeter(poly); // pen travel for the outline
+ * ```
+ */
+export function polygonPerimeter(shape: PolygonLike): number {
+  let length = 0;
+  for (const ring of shapeRings(shape)) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      length += Math.hypot(ring[i]!.x - ring[j]!.x, ring[i]!.y - ring[j]!.y);
+    }
+  }
+  return length;
+}
+
+// ============================================================================
+// Orientation
+// ============================================================================
+
+/**
+ * Winding direction of the outer ring.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns 'ccw', 'cw' or 'none' for rings without area
+ *
+ * @example
+ * ```ts
+ * if (orientation(points) === 'cw') points.reverse();
+ * ```
+ */
+export function orientation(shape: PolygonLike): Orientation {
+  const outer = shapeRings(shape)[0];
+  const area = outer ? ringSignedArea(outer) : 0;
+  return area > 0 ? 'ccw' : area < 0 ? 'cw' : 'none';
+}
+
+/**
+ * Copy of a ring wound in the requested direction.
+ *
+ * @param points - Ring to orient
+ * @param target - Wanted orientation (default: 'ccw')
+ * @returns New array, reversed if needed
+ *
+ * @example
+ * ```ts
+ * const ccw = fixOrientation(points);
+ * ```
+ */
+export function fixOrientation(points: Ring, target: Orientation = 'ccw'): p5.Vector[] {
+  const current = orientation(points);
+  const flip = current !== 'none' && target !== 'none' && current !== target;
+  return flip ? [...points].reverse() : [...points];
+}
+
+/**
+ * Rings of a shape with the outer ring wound as requested and holes the
+ * opposite way, as expected by nonzero filling and most mesh tools.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @param target - Wanted outer orientation (default: 'ccw')
+ * @returns New rings: outer first, then holes
+ *
+ * @example
+ * ```ts
+ * const [outer, ...holes] = fixRingOrientations(poly);
+ * const filled = Poly.fromRings(outer, holes, 'nonzero');
+ * ```
+ */
+export function fixRingOrientations(
+  shape: PolygonLike,
+  target: Orientation = 'ccw',
+): p5.Vector[][] {
+  const opposite: Orientation = target === 'ccw' ? 'cw' : target === 'cw' ? 'ccw' : 'none';
+  return shapeRings(shape).map((ring, r) => fixOrientation(ring, r === 0 ? target : opposite));
+}
+
+// ============================================================================
+// Convexity
+// ============================================================================
+
+/**
+ * Test whether a shape is a convex polygon: a single ring that turns the same
+ * way at every corner and winds around exactly once. Collinear vertices are
+ * allowed; holes and self-intersecting rings are not convex.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns true if convex
+ *
+ * @example
+ * ```ts
+ * const simple = cells.every((c) => isConvex(c.polygon)); // Voronoi cells are convex
+ * ```
+ */
+export function isConvex(shape: PolygonLike): boolean {
+  const rings = shapeRings(shape);
+  if (rings.length !== 1) return false;
+
+  const pts = rings[0]!.filter((p, i, ring) => {
+    const q = ring[(i + 1) % ring.length]!;
+    return p.x !== q.x || p.y !== q.y;
+  });
+  const n = pts.length;
+  if (n < 3) return false;
+
+  let sign = 0;
+  let turning = 0;
+  for (let i = 0; i < n; i++) {
+    const a = pts[(i + n - 1) % n]!;
+    const b = pts[i]!;
+    const c = pts[(i + 1) % n]!;
+    const ux = b.x - a.x;
+    const uy = b.y - a.y;
+    const vx = c.x - b.x;
+    const vy = c.y - b.y;
+    const cross = ux * vy - uy * vx;
+    const dot = ux * vx + uy * vy;
+
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+    turning += Math.atan2(cross, dot);
+  }
+
+  return sign !== 0 && Math.abs(Math.abs(turning) - TWO_PI) < TURNING_EPSILON;
+}
+
+/**
+ * Convex hull of all vertices (Andrew's monotone chain).
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Hull ring, counter-clockwise with Y up, without collinear points
+ *
+ * @example
+ * ```ts
+ * const hull = convexHull(scatter);
+ * beginShape();
+ * hull.forEach((p) => vertex(p.x, p.y));
+ * endShape(CLOSE);
+ * ```
+ */
+export function convexHull(shape: PolygonLike): p5.Vector[] {
+  const points = shapeRings(shape)
+    .flat()
+    .sort((p, q) => p.x - q.x || p.y - q.y);
+  const unique = points.filter(
+    (p, i) => i === 0 || p.x !== points[i - 1]!.x || p.y !== points[i - 1]!.y,
+  );
+  if (unique.length < 3) return unique.map((p) => createVector(p.x, p.y));
+
+  const cross = (o: p5.Vector, a: p5.Vector, b: p5.Vector) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: p5.Vector[] = [];
+  for (const p of unique) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+  const upper: p5.Vector[] = [];
+  for (let i = unique.length - 1; i >= 0; i--) {
+    const p = unique[i]!;
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return [...lower, ...upper].map((p) => createVector(p.x, p.y));
+}
+
+/**
+ * Smallest-area rectangle enclosing the shape, at any rotation (rotating
+ * calipers over the convex hull: one side always lies along a hull edge).
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Oriented rectangle, or null for an empty shape
+ *
+ * @example
+ * ```ts
+ * const box = minAreaRect(poly);
+ * if (box) console.log(box.width, box.height, box.angle);
+ * ```
+ */
+export function minAreaRect(shape: PolygonLike): OrientedRect | null {
+  const hull = convexHull(shape);
+  if (hull.length === 0) return null;
+
+  let best: {
+    area: number;
+    angle: number;
+    minU: number;
+    maxU: number;
+    minV: number;
+    maxV: number;
+  } | null = null;
+
+  const n = hull.length;
+  for (let i = 0; i < Math.max(1, n); i++) {
+    const a = hull[i]!;
+    const b = hull[(i + 1) % n]!;
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    const angle = len > 0 ? Math.atan2(b.y - a.y, b.x - a.x) : 0;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+
+    let minU = Infinity;
+    let maxU = -Infinity;
+    let minV = Infinity;
+    let maxV = -Infinity;
+    for (const p of hull) {
+      const u = p.x * ux + p.y * uy;
+      const v = -p.x * uy + p.y * ux;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (!best || area < best.area) best = { area, angle, minU, maxU, minV, maxV };
+  }
+
+  const { angle, minU, maxU, minV, maxV } = best!;
+  const ux = Math.cos(angle);
+  const uy = Math.sin(angle);
+  const toWorld = (u: number, v: number) => createVector(u * ux - v * uy, u * uy + v * ux);
+
+  return {
+    center: toWorld((minU + maxU) / 2, (minV + maxV) / 2),
+    width: maxU - minU,
+    height: maxV - minV,
+    angle,
+    corners: [toWorld(minU, minV), toWorld(maxU, minV), toWorld(maxU, maxV), toWorld(minU, maxV)],
+  };
+}
+
+// ============================================================================
+// Intersection and Distance
+// ============================================================================
+
+/**
+ * Points where edges of the shape cross or touch each other, other than the
+ * shared corners of neighbouring edges. Holes touching the outer ring or each
+ * other count as well. Edges are swept along x so only overlapping spans are compared.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns Intersection points (empty for a simple polygon)
+ *
+ * @example
+ * ```ts
+ * const hits = selfIntersections(drawnPath);
+ * hits.forEach((p) => circle(p.x, p.y, 4));
+ * ```
+ */
+export function selfIntersections(shape: PolygonLike): p5.Vector[] {
+  const edges = shapeEdges(shape).sort((e, f) => Math.min(e.a.x, e.b.x) - Math.min(f.a.x, f.b.x));
+  const hits: p5.Vector[] = [];
+  let active: Edge[] = [];
+
+  for (const edge of edges) {
+    const minX = Math.min(edge.a.x, edge.b.x);
+    active = active.filter((other) => Math.max(other.a.x, other.b.x) >= minX);
+
+    for (const other of active) {
+      if (adjacent(edge, other)) continue;
+      if (
+        Math.max(edge.a.y, edge.b.y) < Math.min(other.a.y, other.b.y) ||
+        Math.min(edge.a.y, edge.b.y) > Math.max(other.a.y, other.b.y)
+      ) {
+        continue;
+      }
+      const hit = segmentHit(edge.a, edge.b, other.a, other.b);
+      if (hit) hits.push(hit);
+    }
+    active.push(edge);
+  }
+
+  return hits;
+}
+
+/**
+ * Test whether a shape's rings neither cross nor touch themselves or each other.
+ *
+ * @param shape - Point array, Poly or Polygon
+ * @returns true if simple
+ *
+ * @example
+ * ```ts
+ * if (!isSimple(points)) points = resolveRings([points])[0].outer;
+ * ```
+ */
+export function isSimple(shape: PolygonLike): boolean {
+  return selfIntersections(shape).length === 0;
+}
+
+/**
+ * Shortest distance between the filled regions of two shapes. Overlapping or
+ * touching shapes, and shapes inside one another, are 0 apart; a shape lying
+ * in another's hole is measured to the hole boundary.
+ *
+ * @param a - First shape
+ * @param b - Second shape
+ * @returns Distance (0 when the regions meet, Infinity if either shape is empty)
+ *
+ * @example
+ * ```ts
+ * const clear = polygonDistance(label, obstacle) > 5;
+ * ```
+ */
+export function polygonDistance(a: PolygonLike, b: PolygonLike): number {
+  const edgesA = shapeEdges(a);
+  const edgesB = shapeEdges(b);
+  if (edgesA.length === 0 || edgesB.length === 0) return Infinity;
+
+  for (const e of edgesA) {
+    for (const f of edgesB) {
+      if (segmentHit(e.a, e.b, f.a, f.b)) return 0;
+    }
+  }
+  if (insideShape(edgesA[0]!.a, b) || insideShape(edgesB[0]!.a, a)) return 0;
+
+  let best = Infinity;
+  for (const e of edgesA) {
+    for (const f of edgesB) {
+      best = Math.min(
+        best,
+        pointSegmentDistance(e.a, f.a, f.b),
+        pointSegmentDistance(e.b, f.a, f.b),
+        pointSegmentDistance(f.a, e.a, e.b),
+        pointSegmentDistance(f.b, e.a, e.b),
+      );
+    }
+  }
+  return best;
+}
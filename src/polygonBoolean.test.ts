@@ -0,0 +1,118 @@
+/**
+ * Tests for region boolean operations.
+ * These tests cover: polygonBoolean (union, intersection, difference, xor,
+ * holes, shared edges, disjoint and touching regions) and the Poly wrappers.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { signedArea } from './polygonAnalysis';
+import { polygonBoolean } from './polygonBoolean';
+import { Poly } from './polygons';
+import { rect, totalArea } from './testFixtures';
+import { createVector } from './vec2';
+
+describe('polygonBoolean', () => {
+  const a = [rect(0, 0, 10, 10)];
+  const b = [rect(5, 5, 10, 10)];
+
+  test('union of overlapping squares', () => {
+    const result = polygonBoolean(a, b, 'union');
+    expect(result).toHaveLength(1);
+    expect(result[0]!.holes).toHaveLength(0);
+    expect(result[0]!.outer).toHaveLength(8);
+    expect(totalArea(result)).toBeCloseTo(175);
+  });
+
+  test('intersection of overlapping squares', () => {
+    const result = polygonBoolean(a, b, 'intersection');
+    expect(result).toHaveLength(1);
+    expect(totalArea(result)).toBeCloseTo(25);
+  });
+
+  test('difference of overlapping squares', () => {
+    const result = polygonBoolean(a, b, 'difference');
+    expect(result).toHaveLength(1);
+    expect(result[0]!.outer).toHaveLength(6);
+    expect(totalArea(result)).toBeCloseTo(75);
+  });
+
+  test('xor of overlapping squares gives two components touching at corners', () => {
+    const result = polygonBoolean(a, b, 'xor');
+    expect(result).toHaveLength(2);
+    expect(totalArea(result)).toBeCloseTo(150);
+  });
+
+  test('difference of a contained shape creates a hole', () => {
+    const result = polygonBoolean(a, [rect(3, 3, 4, 4)], 'difference');
+    expect(result).toHaveLength(1);
+    expect(result[0]!.holes).toHaveLength(1);
+    expect(signedArea(result[0]!.outer)).toBeGreaterThan(0);
+    expect(signedArea(result[0]!.holes[0]!)).toBeLessThan(0);
+    expect(totalArea(result)).toBeCloseTo(84);
+  });
+
+  test('input holes are respected', () => {
+    const donut = [rect(0, 0, 10, 10), rect(2, 2, 6, 6)];
+    const result = polygonBoolean(donut, [rect(5, -5, 10, 20)], 'intersection');
+    expect(totalArea(result)).toBeCloseTo(50 - 18);
+  });
+
+  test('shared edges merge in a union', () => {
+    const result = polygonBoolean(a, [rect(10, 0, 10, 10)], 'union');
+    expect(result).toHaveLength(1);
+    expect(totalArea(result)).toBeCloseTo(200);
+  });
+
+  test('disjoint regions stay separate', () => {
+    const far = [rect(20, 20, 5, 5)];
+    expect(polygonBoolean(a, far, 'union')).toHaveLength(2);
+    expect(polygonBoolean(a, far, 'intersection')).toHaveLength(0);
+    expect(totalArea(polygonBoolean(a, far, 'difference'))).toBeCloseTo(100);
+  });
+
+  test('ring orientation does not matter', () => {
+    const reversed = [rect(5, 5, 10, 10).reverse()];
+    expect(totalArea(polygonBoolean(a, reversed, 'union'))).toBeCloseTo(175);
+  });
+
+  test('empty input gives empty output', () => {
+    expect(polygonBoolean([], [], 'union')).toEqual([]);
+    expect(totalArea(polygonBoolean(a, [], 'union'))).toBeCloseTo(100);
+  });
+});
+
+describe('Poly region booleans', () => {
+  test('difference returns a Poly with a hole that hatching respects', () => {
+    const outer = Poly.fromRings(rect(-50, -50, 100, 100));
+    const inner = Poly.fromRings(rect(-25, -25, 50, 50));
+    const [frame] = outer.difference(inner);
+
+    expect(frame).toBeDefined();
+    expect(frame!.rings).toHaveLength(2);
+    expect(frame!.inside(createVector(-40, -40))).toBe(true);
+    expect(frame!.inside(createVector(0, 0))).toBe(false);
+
+    frame!.addHatching(Math.PI / 4, 5);
+    const mids: p5.Vector[] = [];
+    frame!.drawWith((p0, p1) => mids.push(createVector((p0.x + p1.x) / 2, (p0.y + p1.y) / 2)));
+    expect(mids.length).toBeGreaterThan(0);
+    for (const m of mids) expect(frame!.inside(m)).toBe(true);
+  });
+
+  test('union and intersection return components', () => {
+    const a = Poly.fromRings(rect(0, 0, 10, 10));
+    const b = Poly.fromRings(rect(20, 0, 10, 10));
+    expect(a.union(b)).toHaveLength(2);
+    expect(a.intersection(b)).toHaveLength(0);
+    expect(a.xor(b)).toHaveLength(2);
+  });
+
+  test('addOutline includes hole rings', () => {
+    const poly = Poly.fromRings(rect(0, 0, 10, 10), [rect(2, 2, 2, 2)]);
+    poly.addOutline();
+    let count = 0;
+    poly.drawWith(() => count++);
+    expect(count).toBe(8);
+  });
+});
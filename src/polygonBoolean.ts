@@ -0,0 +1,449 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Boolean operations on filled polygon regions (union, intersection,
+ * difference, XOR). Regions are sets of rings read with the even-odd rule,
+ * so holes and multiple components are supported on input and output.
+ *
+ * Edges of both regions are split at every crossing and overlap, each piece is
+ * kept when the result region lies on exactly one of its sides, and the kept
+ * pieces are chained into rings (outer rings and holes). The same machinery
+ * resolves self-intersecting rings under even-odd, nonzero or positive fill rules.
+ */
+
+import { ringSignedArea } from './ring';
+import { createVector } from './vec2';
+
+/** Relative tolerance (of the input extent) for snapping vertices */
+const SNAP_TOLERANCE = 1e-9;
+
+/** Relative offset (of the input extent) for sampling either side of an edge */
+const SIDE_OFFSET = 1e-7;
+
+/** Parametric slack when accepting crossings at segment ends */
+const PARAM_EPSILON = 1e-12;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Boolean operation on two regions */
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+/**
+ * Rule deciding which points rings enclose:
+ * 'evenodd' - odd number of crossings, 'nonzero' - winding number not zero,
+ * 'positive' - winding number above zero (used to clean raw offset curves)
+ */
+export type FillRule = 'evenodd' | 'nonzero' | 'positive';
+
+/** Closed ring of points (the closing edge is implicit) */
+export type Ring = readonly p5.Vector[];
+
+/** One connected result region: an outer ring and the holes inside it */
+export type BooleanComponent = {
+  /** Outer boundary */
+  readonly outer: p5.Vector[];
+  /** Hole rings inside the outer boundary */
+  readonly holes: p5.Vector[][];
+};
+
+/** Internal point */
+type Pt = { readonly x: number; readonly y: number };
+
+/** Internal directed edge between snapped vertex ids */
+type DirectedEdge = { readonly from: number; readonly to: number };
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+/**
+ * Drop repeated points (including a repeated closing point) and degenerate rings.
+ */
+function cleanRings(rings: readonly Ring[]): Pt[][] {
+  const out: Pt[][] = [];
+  for (const ring of rings) {
+    const pts: Pt[] = [];
+    for (const p of ring) {
+      const last = pts[pts.length - 1];
+      if (!last || last.x !== p.x || last.y !== p.y) pts.push({ x: p.x, y: p.y });
+    }
+    const first = pts[0];
+    const last = pts[pts.length - 1];
+    if (pts.length > 1 && first!.x === last!.x && first!.y === last!.y) pts.pop();
+    if (pts.length >= 3) out.push(pts);
+  }
+  return out;
+}
+
+/**
+ * Even-odd point-in-region test over all rings (horizontal ray crossing).
+ */
+function insideRings(x: number, y: number, rings: readonly Pt[][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i]!;
+      const b = ring[j]!;
+      if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Winding number of the rings around a point (counter-clockwise with Y up counts +1).
+ */
+function windingNumber(x: number, y: number, rings: readonly Pt[][]): number {
+  let winding = 0;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[j]!;
+      const b = ring[i]!;
+      const side = (b.x - a.x) * (y - a.y) - (x - a.x) * (b.y - a.y);
+      if (a.y <= y && b.y > y && side > 0) winding++;
+      else if (a.y > y && b.y <= y && side < 0) winding--;
+    }
+  }
+  return winding;
+}
+
+/**
+ * Test whether rings enclose a point under a fill rule.
+ */
+function insideByRule(x: number, y: number, rings: readonly Pt[][], fillRule: FillRule): boolean {
+  if (fillRule === 'evenodd') return insideRings(x, y, rings);
+  const winding = windingNumber(x, y, rings);
+  return fillRule === 'nonzero' ? winding !== 0 : winding > 0;
+}
+
+/**
+ * Combine the two membership tests according to the operation.
+ */
+function applyOperation(operation: BooleanOperation, inA: boolean, inB: boolean): boolean {
+  switch (operation) {
+    case 'union':
+      return inA || inB;
+    case 'intersection':
+      return inA && inB;
+    case 'difference':
+      return inA && !inB;
+    case 'xor':
+      return inA !== inB;
+  }
+}
+
+// ============================================================================
+// Edge Splitting
+// ============================================================================
+
+/**
+ * Split every edge at crossings with, and endpoints of, every other edge.
+ * Returns the split points of each edge in order, endpoints included.
+ */
+function splitEdges(edges: readonly (readonly [Pt, Pt])[], tolerance: number): Pt[][] {
+  const params: number[][] = edges.map(() => [0, 1]);
+  const boxes = edges.map(([a, b]) => [
+    Math.min(a.x, b.x) - tolerance,
+    Math.min(a.y, b.y) - tolerance,
+    Math.max(a.x, b.x) + tolerance,
+    Math.max(a.y, b.y) + tolerance,
+  ]);
+
+  // Parameter of p projected onto edge k, if p lies on it
+  const onEdge = (k: number, p: Pt): number | null => {
+    const [a, b] = edges[k]!;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+    if (t <= 0 || t >= 1) return null;
+    const dist = Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / Math.sqrt(len2);
+    return dist <= tolerance ? t : null;
+  };
+
+  for (let i = 0; i < edges.length; i++) {
+    const [a, b] = edges[i]!;
+    const bi = boxes[i]!;
+    for (let j = i + 1; j < edges.length; j++) {
+      const bj = boxes[j]!;
+      if (bi[2]! < bj[0]! || bj[2]! < bi[0]! || bi[3]! < bj[1]! || bj[3]! < bi[1]!) continue;
+
+      const [c, d] = edges[j]!;
+      const rx = b.x - a.x;
+      const ry = b.y - a.y;
+      const sx = d.x - c.x;
+      const sy = d.y - c.y;
+      const denom = rx * sy - ry * sx;
+
+      if (Math.abs(denom) > PARAM_EPSILON * Math.hypot(rx, ry) * Math.hypot(sx, sy)) {
+        const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denom;
+        const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+        if (t > 0 && t < 1 && u >= -PARAM_EPSILON && u <= 1 + PARAM_EPSILON) params[i]!.push(t);
+        if (u > 0 && u < 1 && t >= -PARAM_EPSILON && t <= 1 + PARAM_EPSILON) params[j]!.push(u);
+      }
+
+      // Endpoints touching the other edge (T-junctions and collinear overlaps)
+      for (const p of [c, d]) {
+        const t = onEdge(i, p);
+        if (t !== null) params[i]!.push(t);
+      }
+      for (const p of [a, b]) {
+        const u = onEdge(j, p);
+        if (u !== null) params[j]!.push(u);
+      }
+    }
+  }
+
+  return edges.map(([a, b], k) =>
+    params[k]!.sort((s, t) => s - t).map((t) => ({
+      x: a.x + t * (b.x - a.x),
+      y: a.y + t * (b.y - a.y),
+    })),
+  );
+}
+
+/**
+ * Merge points closer than the tolerance into shared vertices.
+ */
+function createVertexIndex(tolerance: number): {
+  readonly vertices: Pt[];
+  readonly indexOf: (p: Pt) => number;
+} {
+  const vertices: Pt[] = [];
+  const grid = new Map<string, number[]>();
+  const cell = (v: number): number => Math.floor(v / tolerance);
+
+  const indexOf = (p: Pt): number => {
+    const cx = cell(p.x);
+    const cy = cell(p.y);
+    for (let ox = -1; ox <= 1; ox++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        for (const id of grid.get(`${cx + ox},${cy + oy}`) ?? []) {
+          const v = vertices[id]!;
+          if (Math.abs(v.x - p.x) <= tolerance && Math.abs(v.y - p.y) <= tolerance) return id;
+        }
+      }
+    }
+    vertices.push(p);
+    const key = `${cx},${cy}`;
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(vertices.length - 1);
+    else grid.set(key, [vertices.length - 1]);
+    return vertices.length - 1;
+  };
+
+  return { vertices, indexOf };
+}
+
+// ============================================================================
+// Ring Assembly
+// ============================================================================
+
+/**
+ * Chain directed boundary edges into closed rings.
+ * At vertices with several exits the sharpest left turn is taken, which keeps
+ * regions touching at a single point as separate rings.
+ */
+function chainRings(edges: readonly DirectedEdge[], vertices: readonly Pt[]): Pt[][] {
+  const outgoing = new Map<number, number[]>();
+  edges.forEach((e, k) => {
+    const list = outgoing.get(e.from);
+    if (list) list.push(k);
+    else outgoing.set(e.from, [k]);
+  });
+
+  const used = Array.from({ length: edges.length }, () => false);
+  const rings: Pt[][] = [];
+
+  for (let start = 0; start < edges.length; start++) {
+    if (used[start]) continue;
+    used[start] = true;
+
+    const ring: Pt[] = [vertices[edges[start]!.from]!];
+    let current = edges[start]!;
+
+    while (current.to !== edges[start]!.from) {
+      const from = vertices[current.from]!;
+      const at = vertices[current.to]!;
+      const dx = at.x - from.x;
+      const dy = at.y - from.y;
+
+      let best = -1;
+      let bestTurn = -Infinity;
+      for (const k of outgoing.get(current.to) ?? []) {
+        if (used[k]) continue;
+        const next = vertices[edges[k]!.to]!;
+        const ex = next.x - at.x;
+        const ey = next.y - at.y;
+        const turn = Math.atan2(dx * ey - dy * ex, dx * ex + dy * ey);
+        if (turn > bestTurn) {
+          bestTurn = turn;
+          best = k;
+        }
+      }
+
+      // Open chain: can only happen with inconsistent input, drop it
+      if (best < 0) break;
+
+      used[best] = true;
+      ring.push(at);
+      current = edges[best]!;
+    }
+
+    if (current.to === edges[start]!.from && ring.length >= 3) rings.push(ring);
+  }
+
+  return rings;
+}
+
+/**
+ * Group rings into components: each hole goes to the smallest outer ring containing it.
+ */
+function groupRings(rings: readonly Pt[][], offset: number): BooleanComponent[] {
+  const outers = rings
+    .filter((r) => ringSignedArea(r) > 0)
+    .sort((a, b) => ringSignedArea(a) - ringSignedArea(b));
+  const holes = rings.filter((r) => ringSignedArea(r) < 0);
+  const toVectors = (ring: readonly Pt[]): p5.Vector[] => ring.map((p) => createVector(p.x, p.y));
+
+  const components = outers.map((outer) => ({ outer, holes: [] as Pt[][] }));
+
+  for (const hole of holes) {
+    // A point just left of the hole's first edge lies in the surrounding region
+    const a = hole[0]!;
+    const b = hole[1]!;
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    const px = (a.x + b.x) / 2 - ((b.y - a.y) / len) * offset;
+    const py = (a.y + b.y) / 2 + ((b.x - a.x) / len) * offset;
+    const owner = components.find((c) => insideRings(px, py, [c.outer]));
+    owner?.holes.push(hole);
+  }
+
+  return components.map((c) => ({ outer: toVectors(c.outer), holes: c.holes.map(toVectors) }));
+}
+
+// ============================================================================
+// Region Construction
+// ============================================================================
+
+/**
+ * Build the boundary of the region `inRegion` over the arrangement of all edges.
+ * Pieces are kept where the region lies on exactly one side, oriented with it on the left.
+ */
+function buildRegion(
+  rings: readonly Pt[][],
+  inRegion: (x: number, y: number) => boolean,
+): BooleanComponent[] {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of rings.flat()) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  if (minX > maxX) return [];
+
+  const extent = Math.max(maxX - minX, maxY - minY, 1);
+  const tolerance = extent * SNAP_TOLERANCE;
+  const offset = extent * SIDE_OFFSET;
+
+  const edges = rings.flatMap((ring) =>
+    ring.map((p, i) => [p, ring[(i + 1) % ring.length]!] as const),
+  );
+  const { vertices, indexOf } = createVertexIndex(tolerance);
+
+  // Unique undirected pieces; overlapping edges collapse into one
+  const pieces = new Map<string, readonly [number, number]>();
+  for (const points of splitEdges(edges, tolerance)) {
+    for (let k = 0; k < points.length - 1; k++) {
+      const from = indexOf(points[k]!);
+      const to = indexOf(points[k + 1]!);
+      if (from === to) continue;
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      if (!pieces.has(key)) pieces.set(key, [from, to]);
+    }
+  }
+
+  const boundary: DirectedEdge[] = [];
+  for (const [from, to] of pieces.values()) {
+    const p = vertices[from]!;
+    const q = vertices[to]!;
+    const len = Math.hypot(q.x - p.x, q.y - p.y);
+    const nx = (-(q.y - p.y) / len) * offset;
+    const ny = ((q.x - p.x) / len) * offset;
+    const mx = (p.x + q.x) / 2;
+    const my = (p.y + q.y) / 2;
+
+    const left = inRegion(mx + nx, my + ny);
+    const right = inRegion(mx - nx, my - ny);
+    if (left !== right) boundary.push(left ? { from, to } : { from: to, to: from });
+  }
+
+  return groupRings(chainRings(boundary, vertices), offset);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Compute a boolean operation between two filled regions.
+ * Each region is a list of rings read with the even-odd rule, so holes are
+ * simply additional rings. Ring orientation does not matter on input.
+ *
+ * Output outer rings have positive signed area (counter-clockwise with Y up,
+ * clockwise on screen) and holes the opposite orientation.
+ *
+ * @param subject - Rings of the first region
+ * @param clip - Rings of the second region
+ * @param operation - 'union', 'intersection', 'difference' (subject minus clip) or 'xor'
+ * @returns Result components, each an outer ring with its holes
+ *
+ * @example
+ * ```ts
+ * const square = [createVector(0, 0), createVector(100, 0), createVector(100, 100), createVector(0, 100)];
+ * const hole = circlePoints(createVector(50, 50), 30, 48);
+ * const [donut] = polygonBoolean([square], [hole], 'difference');
+ * // donut.outer is the square, donut.holes[0] the circle
+ * ```
+ */
+export function polygonBoolean(
+  subject: readonly Ring[],
+  clip: readonly Ring[],
+  operation: BooleanOperation,
+): BooleanComponent[] {
+  const a = cleanRings(subject);
+  const b = cleanRings(clip);
+  return buildRegion([...a, ...b], (x, y) =>
+    applyOperation(operation, insideRings(x, y, a), insideRings(x, y, b)),
+  );
+}
+
+/**
+ * Rebuild a region from rings that may self-intersect or overlap.
+ * The result has simple, non-overlapping rings in the same form as polygonBoolean.
+ *
+ * @param rings - Input rings
+ * @param fillRule - Which points the rings enclose (default: 'nonzero')
+ * @returns Result components, each an outer ring with its holes
+ *
+ * @example
+ * ```ts
+ * // A figure-eight becomes two triangles
+ * const parts = resolveRings([[createVector(0, 0), createVector(10, 10), createVector(10, 0), createVector(0, 10)]]);
+ * ```
+ */
+export function resolveRings(
+  rings: readonly Ring[],
+  fillRule: FillRule = 'nonzero',
+): BooleanComponent[] {
+  const cleaned = cleanRings(rings);
+  return buildRegion(cleaned, (x, y) => insideByRule(x, y, cleaned, fillRule));
+}
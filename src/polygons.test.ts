@@ -0,0 +1,180 @@
+/**
+ * Tests for Poly rings and the polygon manager.
+ * These tests cover: Polygons (occlusion between registered polygons, custom
+ * bounds and cell size, clamping outside the grid, auto-growing), stats, and
+ * Poly rings under even-odd and nonzero fill rules (inside, outline, hatching,
+ * booleans) including construction from marching squares contours.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { getPathsFromMarchingSquaresResult, marchingSquares } from './marchingSquares';
+import { Poly, Polygons } from './polygons';
+import { rect } from './testFixtures';
+import { createVector } from './vec2';
+
+const square = (x: number, y: number, size: number): Poly => {
+  const poly = new Poly();
+  poly.addPoints(
+    createVector(x, y),
+    createVector(x + size, y),
+    createVector(x + size, y + size),
+    createVector(x, y + size),
+  );
+  poly.addOutline();
+  return poly;
+};
+
+/** Number of segments drawn for a polygon */
+const drawCount = (polys: ReturnType<typeof Polygons>, poly: Poly): number => {
+  let count = 0;
+  polys.draw(() => count++, poly);
+  return count;
+};
+
+describe('Polygons', () => {
+  test('later polygons are clipped by earlier ones', () => {
+    const polys = Polygons();
+    expect(drawCount(polys, square(0, 0, 20))).toBe(4);
+    // Fully covered by the first square
+    expect(drawCount(polys, square(5, 5, 10))).toBe(0);
+    expect(polys.list()).toHaveLength(2);
+  });
+
+  test('default grid matches the previous fixed world', () => {
+    const stats = Polygons().stats();
+    expect(stats.bounds).toEqual([-100, -100, 100, 100]);
+    expect(stats.columns).toBe(25);
+    expect(stats.rows).toBe(25);
+    expect(stats.cellSize).toBe(8);
+  });
+
+  test('custom bounds and cell size', () => {
+    const polys = Polygons({ bounds: [0, 0, 800, 600], cellSize: 10 });
+    polys.draw(() => {}, square(5, 5, 10));
+
+    const stats = polys.stats();
+    expect(stats.columns).toBe(80);
+    expect(stats.rows).toBe(60);
+    expect(stats.occupiedBins).toBe(4);
+    expect(stats.entries).toBe(4);
+    expect(stats.maxPerBin).toBe(1);
+  });
+
+  test('polygons outside the bounds still occlude', () => {
+    const polys = Polygons();
+    polys.draw(() => {}, square(500, 500, 20));
+    expect(polys.stats().clamped).toBe(1);
+    expect(drawCount(polys, square(505, 505, 10))).toBe(0);
+  });
+
+  test('autoGrow extends the grid instead of clamping', () => {
+    const polys = Polygons({ bounds: [0, 0, 100, 100], cellSize: 10, autoGrow: true });
+    polys.draw(() => {}, square(10, 10, 5));
+    polys.draw(() => {}, square(250, -40, 20));
+
+    const stats = polys.stats();
+    expect(stats.clamped).toBe(0);
+    expect(stats.bounds[0]).toBe(0);
+    expect(stats.bounds[1]).toBeLessThanOrEqual(-40);
+    expect(stats.bounds[2]).toBeGreaterThanOrEqual(270);
+    expect(drawCount(polys, square(255, -35, 5))).toBe(0);
+    expect(drawCount(polys, square(12, 12, 1))).toBe(0);
+  });
+
+  test('many small polygons spread over the bins', () => {
+    const polys = Polygons({ bounds: [0, 0, 1000, 1000], cellSize: 10 });
+    for (let y = 0; y < 50; y++) {
+      for (let x = 0; x < 50; x++) {
+        polys.draw(() => {}, square(x * 20 + 1, y * 20 + 1, 8));
+      }
+    }
+
+    const stats = polys.stats();
+    expect(stats.polygons).toBe(2500);
+    expect(stats.maxPerBin).toBe(1);
+    expect(stats.meanPerOccupiedBin).toBe(1);
+  });
+});
+
+describe('Poly rings and fill rules', () => {
+  test('island inside a hole is filled under even-odd', () => {
+    const poly = Poly.fromRings(rect(-30, -30, 60, 60), [
+      rect(-20, -20, 40, 40),
+      rect(-5, -5, 10, 10),
+    ]);
+    expect(poly.inside(createVector(-25, 0))).toBe(true);
+    expect(poly.inside(createVector(-10, 0))).toBe(false);
+    expect(poly.inside(createVector(0, 0))).toBe(true);
+  });
+
+  test('separate parts extend the bounding box', () => {
+    const poly = Poly.fromRings(rect(0, 0, 10, 10), [rect(50, 50, 10, 10)]);
+    expect(poly.boundingBox).toEqual([0, 0, 60, 60]);
+    expect(poly.inside(createVector(55, 55))).toBe(true);
+  });
+
+  test('nonzero merges overlapping rings of the same direction', () => {
+    const rings = [rect(0, 0, 20, 20), rect(10, 0, 20, 20)];
+    const evenOdd = Poly.fromRings(rings[0]!, [rings[1]!]);
+    const nonzero = Poly.fromRings(rings[0]!, [rings[1]!], 'nonzero');
+
+    expect(evenOdd.inside(createVector(15, 10))).toBe(false);
+    expect(nonzero.fillRule).toBe('nonzero');
+    expect(nonzero.inside(createVector(15, 10))).toBe(true);
+
+    // The outline follows the merged boundary, without the buried edges
+    nonzero.addOutline();
+    let length = 0;
+    nonzero.drawWith((a, b) => (length += Math.hypot(b.x - a.x, b.y - a.y)));
+    expect(length).toBeCloseTo(100);
+  });
+
+  test('nonzero cuts holes with reversed rings', () => {
+    const poly = Poly.fromRings(rect(0, 0, 20, 20), [rect(5, 5, 10, 10).reverse()], 'nonzero');
+    expect(poly.inside(createVector(2, 2))).toBe(true);
+    expect(poly.inside(createVector(10, 10))).toBe(false);
+
+    poly.addHatching(Math.PI / 4, 2);
+    const mids: p5.Vector[] = [];
+    poly.drawWith((a, b) => mids.push(createVector((a.x + b.x) / 2, (a.y + b.y) / 2)));
+    expect(mids.length).toBeGreaterThan(0);
+    for (const m of mids) expect(poly.inside(m)).toBe(true);
+  });
+
+  test('nonzero hatching covers the overlap once', () => {
+    const poly = Poly.fromRings(rect(0, 0, 20, 20), [rect(10, 0, 20, 20)], 'nonzero');
+    poly.addHatching(Math.PI / 4, 2);
+    let hit = false;
+    poly.drawWith((a, b) => {
+      const mx = (a.x + b.x) / 2;
+      if (mx > 12 && mx < 18) hit = true;
+    });
+    expect(hit).toBe(true);
+  });
+
+  test('boolean operations respect the fill rule', () => {
+    const poly = Poly.fromRings(rect(0, 0, 20, 20), [rect(10, 0, 20, 20)], 'nonzero');
+    const [merged] = poly.union(Poly.fromRings(rect(0, 0, 1, 1)));
+    expect(merged!.rings).toHaveLength(1);
+    expect(merged!.inside(createVector(15, 10))).toBe(true);
+  });
+
+  test('fromMarchingSquares builds a donut from contours', () => {
+    const size = 20;
+    const values = Array.from({ length: size }, (_, y) =>
+      Array.from({ length: size }, (_, x) => {
+        const r = Math.hypot(x - 9.5, y - 9.5);
+        return r > 3 && r < 7 ? 1 : 0;
+      }),
+    );
+    const cells = marchingSquares(values, 0.5, size, size, false);
+    const poly = Poly.fromMarchingSquares(getPathsFromMarchingSquaresResult(cells, size, size, 1));
+
+    expect(poly.rings).toHaveLength(2);
+    expect(poly.inside(createVector(10, 10))).toBe(false);
+    expect(poly.inside(createVector(15, 10))).toBe(true);
+    expect(poly.inside(createVector(1, 1))).toBe(false);
+    expect(Poly.fromMarchingSquares([]).rings).toEqual([[]]);
+  });
+});
@@ -4,14 +4,34 @@
  * Inspired by Reinder Nijhoff and Lionel Lemarie's techniques.
  */
 
-/** Spatial grid size for polygon bucketing */
+import {
+  type StippleOptions,
+  type WaveHatchOptions,
+  concentricSegments,
+  spiralSegments,
+  stippleSegments,
+  waveHatchSegments,
+  zigZagSegments,
+} from './fills';
+import { type Polygon } from './marchingSquares';
+import { type OffsetOptions, offsetRings } from './offset';
+import {
+  type BooleanOperation,
+  type FillRule,
+  type Ring,
+  polygonBoolean,
+  resolveRings,
+} from './polygonBoolean';
+import { createVector } from './vec2';
+
+/** Default number of spatial grid cells along the wider side of the bounds */
 const GRID_SIZE = 25;
 
-/** World bounds for spatial grid */
-const WORLD_BOUNDS = 200;
+/** Default area covered by the spatial grid */
+const DEFAULT_WORLD_BOUNDS: AABB = [-100, -100, 100, 100];
 
-/** Half world bounds (center offset) */
-const WORLD_CENTER_OFFSET = 100;
+/** Upper limit on grid cells when auto-growing; beyond it polygons are clamped */
+const MAX_GRID_CELLS = 1 << 20;
 
 /** Large value for infinite bounds */
 const INFINITE_BOUND = 1e5;
@@ -78,11 +98,20 @@ export type DrawSegmentFunction = (p0: p5.Vector, p1: p5.Vector) => void;
 /**
  * Polygon with contour points and drawable segments.
  * Supports clipping, hatching, and boolean operations.
+ * A polygon may have several rings (holes, islands, separate parts). Outlines,
+ * fills, `inside` and the boolean operations read them with the fill rule:
+ * even-odd by default, or nonzero / positive winding.
  */
 export class Poly {
   /** Contour points defining the polygon boundary */
   private cp: p5.Vector[] = [];
 
+  /** Further rings (holes, islands or separate parts) */
+  private holes: p5.Vector[][] = [];
+
+  /** Rule deciding which points the rings enclose */
+  private rule: FillRule = 'evenodd';
+
   /** Drawable segments (pairs of points) */
   private dp: p5.Vector[] = [];
 
@@ -94,21 +123,115 @@ export class Poly {
    * @param pts - p5.Vector points to add
    */
   addPoints(...pts: p5.Vector[]): void {
+    this.cp = [...this.cp, ...pts];
+    this.updateBounds();
+  }
+
+  /**
+   * Add a hole ring inside the polygon boundary.
+   * @param pts - p5.Vector points of the hole
+   */
+  addHole(...pts: p5.Vector[]): void {
+    this.addRing(...pts);
+  }
+
+  /**
+   * Add another ring: a hole, an island inside a hole or a separate part.
+   * What it encloses depends on the fill rule.
+   * @param pts - p5.Vector points of the ring
+   */
+  addRing(...pts: p5.Vector[]): void {
+    if (pts.length === 0) return;
+    this.holes.push(pts);
+    this.updateBounds();
+  }
+
+  /**
+   * Rule deciding which points the rings enclose.
+   */
+  get fillRule(): FillRule {
+    return this.rule;
+  }
+
+  /**
+   * Set how rings are read. With 'evenodd' every ring toggles inside/outside;
+   * with 'nonzero' overlapping rings of the same direction merge and rings of
+   * the opposite direction cut holes.
+   * @param rule - Fill rule
+   */
+  setFillRule(rule: FillRule): void {
+    this.rule = rule;
+  }
+
+  /**
+   * Recompute the bounding box over all rings.
+   */
+  private updateBounds(): void {
     let minX = AABB_INITIAL_MIN;
     let maxX = AABB_INITIAL_MAX;
     let minY = AABB_INITIAL_MIN;
     let maxY = AABB_INITIAL_MAX;
 
-    this.cp = [...this.cp, ...pts];
-    this.cp.forEach((p) => {
-      minX = Math.min(minX, p.x);
-      maxX = Math.max(maxX, p.x);
-      minY = Math.min(minY, p.y);
-      maxY = Math.max(maxY, p.y);
-    });
+    for (const ring of this.rings) {
+      ring.forEach((p) => {
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y);
+      });
+    }
     this.aabb = [minX, minY, maxX, maxY];
   }
 
+  /**
+   * Boundary ring followed by hole rings.
+   */
+  get rings(): readonly (readonly p5.Vector[])[] {
+    return [this.cp, ...this.holes];
+  }
+
+  /**
+   * Create a polygon from rings, e.g. a boolean operation result.
+   * @param outer - Boundary ring
+   * @param holes - Hole rings (or any further rings)
+   * @param fillRule - How the rings are read (default: 'evenodd')
+   * @returns New polygon
+   */
+  static fromRings(
+    outer: readonly p5.Vector[],
+    holes: readonly (readonly p5.Vector[])[] = [],
+    fillRule: FillRule = 'evenodd',
+  ): Poly {
+    const poly = new Poly();
+    poly.addPoints(...outer);
+    holes.forEach((hole) => poly.addRing(...hole));
+    poly.setFillRule(fillRule);
+    return poly;
+  }
+
+  /**
+   * Create one polygon from marching squares contours. All contours become
+   * rings read with the even-odd rule, so holes and islands inside holes are
+   * filled correctly however the contours were grouped.
+   *
+   * @param polygons - Output of getPathsFromMarchingSquaresResult
+   * @returns New polygon (empty when there are no contours)
+   *
+   * @example
+   * ```ts
+   * const cells = marchingSquares(field, 0.5);
+   * const contours = getPathsFromMarchingSquaresResult(cells, field.width, field.height, 4);
+   * const blob = Poly.fromMarchingSquares(contours);
+   * blob.addOutline();
+   * blob.addHatching(Math.PI / 4, 3);
+   * polys.draw(drawFn, blob);
+   * ```
+   */
+  static fromMarchingSquares(polygons: readonly Polygon[]): Poly {
+    const [outer = [], ...rest] = polygons.flatMap((polygon) => polygon.segments);
+    return Poly.fromRings(outer, rest);
+  }
+
   /**
    * Add drawable line segments.
    * @param segs - Pairs of points defining segments
@@ -119,11 +242,15 @@ export class Poly {
 
   /**
    * Add polygon outline as drawable segments.
-   * Connects contour points in order.
+   * Connects contour points in order, including hole rings. Under a winding
+   * fill rule the boundary of the filled region is drawn instead, so edges
+   * buried inside overlapping rings are left out.
    */
   addOutline(): void {
-    for (let i = 0, n = this.cp.length; i < n; i++) {
-      this.dp.push(this.cp[i]!, this.cp[(i + 1) % n]!);
+    for (const ring of this.regionRings()) {
+      for (let i = 0, n = ring.length; i < n; i++) {
+        this.dp.push(ring[i]!, ring[(i + 1) % n]!);
+      }
     }
   }
 
@@ -171,17 +298,100 @@ export class Poly {
   }
 
   /**
-   * Test if a point is inside the polygon using ray-casting.
+   * Add two sets of hatching lines crossing each other.
+   *
+   * @param angle - Angle of the first set in radians
+   * @param spacing - Distance between hatch lines
+   * @param crossAngle - Angle between the two sets (default: PI / 2)
+   */
+  addCrossHatching(angle: number, spacing: number, crossAngle = Math.PI / 2): void {
+    this.addHatching(angle, spacing);
+    this.addHatching(angle + crossAngle, spacing);
+  }
+
+  /**
+   * Add sine-wave hatching clipped to the polygon.
+   *
+   * @param angle - Line direction in radians
+   * @param spacing - Distance between wave centre lines
+   * @param options - Amplitude, wavelength and smoothness
+   */
+  addWaveHatching(angle: number, spacing: number, options: WaveHatchOptions = {}): void {
+    this.addClipped(waveHatchSegments(this.regionRings(), angle, spacing, options));
+  }
+
+  /**
+   * Add an Archimedean spiral clipped to the polygon.
+   *
+   * @param spacing - Distance between turns
+   * @param center - Spiral centre (default: bounding box centre)
+   */
+  addSpiralFill(spacing: number, center?: p5.Vector): void {
+    this.addClipped(spiralSegments(this.regionRings(), spacing, center));
+  }
+
+  /**
+   * Add contour-parallel fill lines (repeated insets of the outline and holes).
+   *
+   * @param spacing - Distance between contours
+   * @param options - Join style of the insets
+   */
+  addConcentricFill(spacing: number, options: OffsetOptions = {}): void {
+    this.addClipped(concentricSegments(this.regionRings(), spacing, options));
+  }
+
+  /**
+   * Add a continuous zig-zag fill: scanlines joined end to end so each part of
+   * the polygon is plotted with a single pen-down.
+   *
+   * @param angle - Scanline direction in radians
+   * @param spacing - Distance between scanlines
+   */
+  addZigZagFill(angle: number, spacing: number): void {
+    // Built inside the outline already; clipping would cut connectors running along it
+    this.dp.push(...zigZagSegments(this.regionRings(), angle, spacing));
+  }
+
+  /**
+   * Add stipple dots on a jittered grid inside the polygon.
+   *
+   * @param spacing - Grid spacing between dots
+   * @param options - Seed, jitter and dot size
+   */
+  addStipple(spacing: number, options: StippleOptions = {}): void {
+    this.addClipped(stippleSegments(this.regionRings(), spacing, options));
+  }
+
+  /**
+   * Clip segment pairs to the polygon and add them as drawable segments.
+   */
+  private addClipped(segs: p5.Vector[]): void {
+    const clipPoly = new Poly();
+    clipPoly.dp = segs;
+    clipPoly.boolean(this, false);
+    this.dp = [...this.dp, ...clipPoly.dp];
+  }
+
+  /**
+   * Test if a point is inside the polygon using ray-casting, or the winding
+   * number under a nonzero / positive fill rule.
    * @param p - Point to test
    * @returns true if point is inside
    */
   inside(p: p5.Vector): boolean {
+    if (this.rule !== 'evenodd') {
+      const winding = this.windingNumber(p);
+      return this.rule === 'nonzero' ? winding !== 0 : winding > 0;
+    }
+
     let count = 0;
-    for (let i = 0, n = this.cp.length; i < n; i++) {
-      const a = this.cp[i]!;
-      const b = this.cp[(i + 1) % n]!;
-      if (this.segmentIntersect(p, createVector(RAY_TEST_OFFSET_X, RAY_TEST_OFFSET_Y), a, b)) {
-        count++;
+    for (const ring of this.rings) {
+      for (let i = 0, n = ring.length; i < n; i++) {
+        const a = ring[i]!;
+        const b = ring[(i + 1) % n]!;
+        if (this.segmentIntersect(p, createVector(RAY_TEST_OFFSET_X, RAY_TEST_OFFSET_Y), a, b)) {
+          count++;
+        }
       }
     }
     return (count & 1) === 1;
@@ -203,11 +413,11 @@ export class Poly {
       const B = this.dp[i + 1]!;
       const intersections: p5.Vector[] = [];
 
-      for (let j = 0, m = other.cp.length; j < m; j++) {
-        const C = other.cp[j]!;
-        const D = other.cp[(j + 1) % m]!;
-        const pt = this.segmentIntersect(A, B, C, D);
-        if (pt !== false) intersections.push(pt);
+      for (const ring of other.rings) {
+        for (let j = 0, m = ring.length; j < m; j++) {
+          const pt = this.segmentIntersect(A, B, ring[j]!, ring[(j + 1) % m]!);
+          if (pt !== false) intersections.push(pt);
+        }
       }
 
       if (intersections.length === 0) {
@@ -243,6 +453,104 @@ export class Poly {
     return this.dp.length > 0;
   }
 
+  /**
+   * Union of the filled regions of this polygon and another.
+   * @param other - Second polygon
+   * @returns Result polygons (one per connected component, with holes)
+   */
+  union(other: Poly): Poly[] {
+    return this.regionBoolean(other, 'union');
+  }
+
+  /**
+   * Intersection of the filled regions of this polygon and another.
+   * @param other - Second polygon
+   * @returns Result polygons (one per connected component, with holes)
+   */
+  intersection(other: Poly): Poly[] {
+    return this.regionBoolean(other, 'intersection');
+  }
+
+  /**
+   * This polygon's filled region minus another's.
+   * @param other - Polygon to subtract
+   * @returns Result polygons (one per connected component, with holes)
+   *
+   * @example
+   * ```ts
+   * const [frame] = outer.difference(inner);
+   * frame.addOutline();
+   * frame.addHatching(Math.PI / 4, 3);
+   * polys.draw(drawFn, frame);
+   * ```
+   */
+  difference(other: Poly): Poly[] {
+    return this.regionBoolean(other, 'difference');
+  }
+
+  /**
+   * Areas covered by exactly one of this polygon and another.
+   * @param other - Second polygon
+   * @returns Result polygons (one per connected component, with holes)
+   */
+  xor(other: Poly): Poly[] {
+    return this.regionBoolean(other, 'xor');
+  }
+
+  /**
+   * Grow or shrink the filled region, holes included.
+   * @param distance - Offset distance (positive = outset, negative = inset)
+   * @param options - Join style (miter, round or bevel)
+   * @returns Result polygons; an inset that pinches off gives several, one that vanishes none
+   *
+   * @example
+   * ```ts
+   * const [margin] = shape.offset(5, { join: 'round' });
+   * const insets = shape.offset(-2);
+   * ```
+   */
+  offset(distance: number, options: OffsetOptions = {}): Poly[] {
+    return offsetRings(this.regionRings(), distance, options).map((c) =>
+      Poly.fromRings(c.outer, c.holes),
+    );
+  }
+
+  /**
+   * Run a region boolean and wrap the components as new polygons.
+   * Unlike `boolean`, this builds new outlines rather than clipping segments.
+   */
+  private regionBoolean(other: Poly, operation: BooleanOperation): Poly[] {
+    return polygonBoolean(this.regionRings(), other.regionRings(), operation).map((c) =>
+      Poly.fromRings(c.outer, c.holes),
+    );
+  }
+
+  /**
+   * Rings describing the filled region under the even-odd rule. Rings read with
+   * a winding rule are resolved into simple outer rings and holes first.
+   */
+  private regionRings(): readonly Ring[] {
+    if (this.rule === 'evenodd') return this.rings;
+    return resolveRings(this.rings, this.rule).flatMap((c) => [c.outer, ...c.holes]);
+  }
+
+  /**
+   * Winding number of all rings around a point (counter-clockwise with Y up counts +1).
+   */
+  private windingNumber(p: p5.Vector): number {
+    let winding = 0;
+    for (const ring of this.rings) {
+      for (let i = 0, n = ring.length; i < n; i++) {
+        const a = ring[i]!;
+        const b = ring[(i + 1) % n]!;
+        const side = (b.x - a.x) * (p.y - a.y) - (p.x - a.x) * (b.y - a.y);
+        if (a.y <= p.y && b.y > p.y && side > 0) winding++;
+        else if (a.y > p.y && b.y <= p.y && side < 0) winding--;
+      }
+    }
+    return winding;
+  }
+
   /**
    * Calculate intersection point of two line segments.
    * @param A - First point of first segment
@@ -282,6 +590,40 @@ export class Poly {
   }
 }
 
+/** Options for the polygon manager's spatial grid */
+export type PolygonsOptions = {
+  /** Area covered by the grid as [minX, minY, maxX, maxY] (default: [-100, -100, 100, 100]) */
+  readonly bounds?: AABB;
+  /** Grid cell size in world units (default: wider side of the bounds / 25) */
+  readonly cellSize?: number;
+  /** Extend the grid when a polygon falls outside it instead of clamping (default: false) */
+  readonly autoGrow?: boolean;
+};
+
+/** Spatial grid occupancy, for tuning bounds and cell size */
+export type PolygonBinStats = {
+  /** Registered polygons */
+  readonly polygons: number;
+  /** Current grid area (grows with autoGrow) */
+  readonly bounds: AABB;
+  /** Grid cell size */
+  readonly cellSize: number;
+  /** Grid columns */
+  readonly columns: number;
+  /** Grid rows */
+  readonly rows: number;
+  /** Bins holding at least one polygon */
+  readonly occupiedBins: number;
+  /** Total polygon references over all bins */
+  readonly entries: number;
+  /** Most polygons in a single bin */
+  readonly maxPerBin: number;
+  /** Average polygons per occupied bin */
+  readonly meanPerOccupiedBin: number;
+  /** Polygons reaching outside the grid, clamped into its edge bins */
+  readonly clamped: number;
+};
+
 /**
  * Polygon manager with spatial hashing for efficient clipping.
  */
@@ -299,12 +641,19 @@ export interface PolygonManager {
    * @param register - Whether to register this polygon (default: true)
    */
   draw(drawFn: DrawSegmentFunction, polygon: Poly, register?: boolean): void;
+
+  /** Report spatial grid occupancy */
+  stats(): PolygonBinStats;
 }
 
 /**
  * Create a new polygon manager with spatial hashing.
  * Efficiently manages multiple polygons with automatic clipping.
+ * Each polygon is stored in the grid cells its bounding box covers, so lookups
+ * only touch nearby cells. Polygons outside the bounds are clamped into the edge
+ * cells (still correct, just slower) unless `autoGrow` extends the grid.
  *
+ * @param options - Grid bounds, cell size and growth
  * @returns Polygon manager interface
  *
  * @example
@@ -315,50 +664,123 @@ export interface PolygonManager {
  * p.addOutline();
  * p.addHatching(Math.PI / 4, 5);
  * polys.draw((p0, p1) => line(p0.x, p0.y, p1.x, p1.y), p);
+ *
+ * // A large canvas with many small shapes
+ * const dense = Polygons({ bounds: [0, 0, 800, 600], cellSize: 10 });
  * ```
  */
-export function Polygons(): PolygonManager {
+export function Polygons(options: PolygonsOptions = {}): PolygonManager {
+  const { autoGrow = false } = options;
+  const bounds = options.bounds ?? DEFAULT_WORLD_BOUNDS;
+  const cellSize =
+    options.cellSize !== undefined && options.cellSize > 0
+      ? options.cellSize
+      : Math.max(bounds[2] - bounds[0], bounds[3] - bounds[1]) / GRID_SIZE || 1;
+
   const polys: Poly[] = [];
-  const bins: number[][] = Array.from({ length: GRID_SIZE ** 2 }, () => []);
+  let originX = bounds[0];
+  let originY = bounds[1];
+  let columns = Math.max(1, Math.ceil((bounds[2] - bounds[0]) / cellSize));
+  let rows = Math.max(1, Math.ceil((bounds[3] - bounds[1]) / cellSize));
+  // Sparse bins keyed by gx + gy * columns
+  let bins = new Map<number, number[]>();
+  let clamped = 0;
+
+  /**
+   * Grid cell range covered by an AABB, clamped to the grid.
+   */
+  function cellRange(aabb: AABB): [number, number, number, number] {
+    const clampX = (x: number) => Math.min(columns - 1, Math.max(0, x));
+    const clampY = (y: number) => Math.min(rows - 1, Math.max(0, y));
+    return [
+      clampX(Math.floor((aabb[0] - originX) / cellSize)),
+      clampY(Math.floor((aabb[1] - originY) / cellSize)),
+      clampX(Math.floor((aabb[2] - originX) / cellSize)),
+      clampY(Math.floor((aabb[3] - originY) / cellSize)),
+    ];
+  }
+
+  /**
+   * Whether an AABB reaches outside the grid.
+   */
+  function outsideGrid(aabb: AABB): boolean {
+    return (
+      aabb[0] < originX ||
+      aabb[1] < originY ||
+      aabb[2] > originX + columns * cellSize ||
+      aabb[3] > originY + rows * cellSize
+    );
+  }
+
+  /**
+   * Insert a polygon index into the bins its bounding box covers.
+   */
+  function insert(idx: number): void {
+    const box = polys[idx]!.boundingBox;
+    const [x0, y0, x1, y1] = cellRange(box);
+    for (let gy = y0; gy <= y1; gy++) {
+      for (let gx = x0; gx <= x1; gx++) {
+        const key = gx + gy * columns;
+        const bucket = bins.get(key);
+        if (bucket) bucket.push(idx);
+        else bins.set(key, [idx]);
+      }
+    }
+    if (outsideGrid(box)) clamped++;
+  }
+
+  /**
+   * Extend the grid to cover an AABB, at least doubling each side that grows
+   * so repeated growth stays cheap, then rebuild the bins.
+   */
+  function grow(aabb: AABB): void {
+    const extend = (need: number, current: number) =>
+      need > 0 ? Math.max(Math.ceil(need), current) : 0;
+    const left = extend((originX - aabb[0]) / cellSize, columns);
+    const right = extend((aabb[2] - originX) / cellSize - columns, columns);
+    const bottom = extend((originY - aabb[1]) / cellSize, rows);
+    const top = extend((aabb[3] - originY) / cellSize - rows, rows);
+    const newColumns = columns + left + right;
+    const newRows = rows + bottom + top;
+    if (newColumns * newRows > MAX_GRID_CELLS) return;
+
+    originX -= left * cellSize;
+    originY -= bottom * cellSize;
+    columns = newColumns;
+    rows = newRows;
+    bins = new Map();
+    clamped = 0;
+    for (let idx = 0; idx < polys.length; idx++) insert(idx);
+  }
 
   /**
    * Get polygons that potentially overlap with the given AABB.
    * Uses spatial hashing for efficient lookup.
    */
   function reducedPolygonList(aabb: AABB): Poly[] {
-    const found: Record<number, number> = {};
-    const cellSize = WORLD_BOUNDS / GRID_SIZE;
-
-    for (let gx = 0; gx < GRID_SIZE; gx++) {
-      const minX = gx * cellSize - WORLD_CENTER_OFFSET;
-      const cell = [minX, 0, minX + cellSize, 0];
-
-      if (!(aabb[2] < cell[0]! || aabb[0] > cell[2]!)) {
-        for (let gy = 0; gy < GRID_SIZE; gy++) {
-          const minY = gy * cellSize - WORLD_CENTER_OFFSET;
-          cell[1] = minY;
-          cell[3] = minY + cellSize;
-
-          if (!(aabb[3] < cell[1]! || aabb[1] > cell[3]!)) {
-            bins[gx + gy * GRID_SIZE]!.forEach((idx) => {
-              const p = polys[idx]!;
-              if (
-                !(
-                  aabb[3] < p.boundingBox[1] ||
-                  aabb[1] > p.boundingBox[3] ||
-                  aabb[2] < p.boundingBox[0] ||
-                  aabb[0] > p.boundingBox[2]
-                )
-              ) {
-                found[idx] = 1;
-              }
-            });
+    const found = new Set<number>();
+    const [x0, y0, x1, y1] = cellRange(aabb);
+
+    for (let gy = y0; gy <= y1; gy++) {
+      for (let gx = x0; gx <= x1; gx++) {
+        bins.get(gx + gy * columns)?.forEach((idx) => {
+          const p = polys[idx]!;
+          if (
+            !(
+              aabb[3] < p.boundingBox[1] ||
+              aabb[1] > p.boundingBox[3] ||
+              aabb[2] < p.boundingBox[0] ||
+              aabb[0] > p.boundingBox[2]
+            )
+          ) {
+            found.add(idx);
           }
-        }
+        });
       }
     }
 
-    return Object.keys(found).map((i) => polys[Number.parseInt(i)]!);
+    // Keep registration order so clipping is deterministic
+    return [...found].sort((a, b) => a - b).map((i) => polys[i]!);
   }
 
   /**
@@ -366,27 +788,8 @@ export function Polygons(): PolygonManager {
    */
   function registerPoly(p: Poly): void {
     polys.push(p);
-    const idx = polys.length - 1;
-    const cellSize = WORLD_BOUNDS / GRID_SIZE;
-
-    bins.forEach((bucket, index) => {
-      const gx = index % GRID_SIZE;
-      const gy = (index / GRID_SIZE) | 0;
-      const minX = gx * cellSize - WORLD_CENTER_OFFSET;
-      const minY = gy * cellSize - WORLD_CENTER_OFFSET;
-      const cell: AABB = [minX, minY, minX + cellSize, minY + cellSize];
-
-      if (
-        !(
-          cell[3] < p.boundingBox[1] ||
-          cell[1] > p.boundingBox[3] ||
-          cell[2] < p.boundingBox[0] ||
-          cell[0] > p.boundingBox[2]
-        )
-      ) {
-        bucket.push(idx);
-      }
-    });
+    if (autoGrow && outsideGrid(p.boundingBox)) grow(p.boundingBox);
+    insert(polys.length - 1);
   }
 
   return {
@@ -398,5 +801,25 @@ export function Polygons(): PolygonManager {
       polygon.drawWith(drawFn);
       if (register) registerPoly(polygon);
     },
+    stats(): PolygonBinStats {
+      let entries = 0;
+      let maxPerBin = 0;
+      bins.forEach((bucket) => {
+        entries += bucket.length;
+        maxPerBin = Math.max(maxPerBin, bucket.length);
+      });
+      return {
+        polygons: polys.length,
+        bounds: [originX, originY, originX + columns * cellSize, originY + rows * cellSize],
+        cellSize,
+        columns,
+        rows,
+        occupiedBins: bins.size,
+        entries,
+        maxPerBin,
+        meanPerOccupiedBin: bins.size > 0 ? entries / bins.size : 0,
+        clamped,
+      };
+    },
   };
 }
@@ -0,0 +1,225 @@
+/**
+ * Tests for polyline utilities.
+ * These tests cover: polylineLength, pointAtDistance, resamplePolyline,
+ * simplifyRDP, simplifyVisvalingam, chaikinSmooth, offsetPolyline,
+ * dashPolyline, subPolyline and trimPolyline on open and closed polylines.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  chaikinSmooth,
+  dashPolyline,
+  offsetPolyline,
+  pointAtDistance,
+  polylineLength,
+  resamplePolyline,
+  simplifyRDP,
+  simplifyVisvalingam,
+  subPolyline,
+  trimPolyline,
+} from './polyline';
+import { createVector } from './vec2';
+
+const square = [createVector(0, 0), createVector(10, 0), createVector(10, 10), createVector(0, 10)];
+
+const zigzag = [
+  createVector(0, 0),
+  createVector(10, 0),
+  createVector(10, 10),
+  createVector(20, 10),
+];
+
+const circle = (r: number, n: number): p5.Vector[] =>
+  Array.from({ length: n }, (_, i) =>
+    createVector(r * Math.cos((i / n) * TWO_PI), r * Math.sin((i / n) * TWO_PI)),
+  );
+
+const expectPoint = (p: p5.Vector | null | undefined, x: number, y: number) => {
+  expect(p).toBeDefined();
+  expect(p!.x).toBeCloseTo(x);
+  expect(p!.y).toBeCloseTo(y);
+};
+
+describe('measuring', () => {
+  test('polylineLength for open and closed polylines', () => {
+    expect(polylineLength(square)).toBeCloseTo(30);
+    expect(polylineLength(square, true)).toBeCloseTo(40);
+    expect(polylineLength([])).toBe(0);
+    expect(polylineLength([createVector(1, 1)], true)).toBe(0);
+  });
+
+  test('pointAtDistance clamps open and wraps closed polylines', () => {
+    expectPoint(pointAtDistance(square, 15), 10, 5);
+    expectPoint(pointAtDistance(square, 50), 0, 10);
+    expectPoint(pointAtDistance(square, -5), 0, 0);
+    expectPoint(pointAtDistance(square, 35, true), 0, 5);
+    expectPoint(pointAtDistance(square, 45, true), 5, 0);
+    expectPoint(pointAtDistance(square, -5, true), 0, 5);
+    expect(pointAtDistance([], 1)).toBeNull();
+  });
+});
+
+describe('resampling and smoothing', () => {
+  test('resample by count keeps end points', () => {
+    const pts = resamplePolyline(zigzag, { count: 6 });
+    expect(pts).toHaveLength(7);
+    expectPoint(pts[0], 0, 0);
+    expectPoint(pts[3], 10, 5);
+    expectPoint(pts[6], 20, 10);
+  });
+
+  test('resample closed by spacing does not repeat the start', () => {
+    const pts = resamplePolyline(square, { spacing: 5 }, true);
+    expect(pts).toHaveLength(8);
+    expectPoint(pts[7], 0, 5);
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i]!;
+      const b = pts[(i + 1) % pts.length]!;
+      expect(Math.hypot(b.x - a.x, b.y - a.y)).toBeCloseTo(5);
+    }
+  });
+
+  test('resample ignores non-positive spacing and handles zero length', () => {
+    expect(resamplePolyline(zigzag, { spacing: 0 })).toHaveLength(4);
+    expect(resamplePolyline(zigzag, { spacing: -2 })).toHaveLength(4);
+    expect(resamplePolyline(zigzag, { spacing: NaN })).toHaveLength(4);
+
+    const dot = [createVector(3, 4), createVector(3, 4)];
+    const open = resamplePolyline(dot, { spacing: 0.5 });
+    expect(open).toHaveLength(2);
+    expectPoint(open[0], 3, 4);
+    expectPoint(open[1], 3, 4);
+    expect(resamplePolyline(dot, { count: 5 }, true)).toHaveLength(1);
+    expect(resamplePolyline(dot, { spacing: 0 })).toHaveLength(2);
+  });
+
+  test('simplifyRDP drops near-collinear points', () => {
+    const noisy = Array.from({ length: 21 }, (_, i) => createVector(i, i % 2 === 0 ? 0 : 0.1));
+    noisy.push(createVector(20, 10));
+    const simple = simplifyRDP(noisy, 0.5);
+    expect(simple).toHaveLength(3);
+    expectPoint(simple[1], 20, 0);
+    expect(simplifyRDP(noisy, 0.01)).toHaveLength(noisy.length);
+  });
+
+  test('simplifyRDP on a closed polyline keeps its corners', () => {
+    const dense = resamplePolyline(square, { spacing: 1 }, true);
+    const simple = simplifyRDP(dense, 0.1, true);
+    expect(simple).toHaveLength(4);
+    expect(polylineLength(simple, true)).toBeCloseTo(40);
+  });
+
+  test('simplifyVisvalingam removes small triangles first', () => {
+    const pts = [
+      createVector(0, 0),
+      createVector(5, 0.1),
+      createVector(10, 0),
+      createVector(10, 10),
+      createVector(20, 10),
+    ];
+    const simple = simplifyVisvalingam(pts, 1);
+    expect(simple).toHaveLength(4);
+    expect(simple.some((p) => p.x === 5)).toBe(false);
+    expect(simplifyVisvalingam(pts, 1000)).toHaveLength(2);
+  });
+
+  test('simplifyVisvalingam on a closed polyline keeps a triangle', () => {
+    const ring = circle(10, 64);
+    expect(simplifyVisvalingam(ring, 0.5, true).length).toBeLessThan(64);
+    expect(simplifyVisvalingam(ring, 1e6, true)).toHaveLength(3);
+  });
+
+  test('chaikinSmooth keeps open ends and doubles closed corners', () => {
+    const open = chaikinSmooth(zigzag, 2);
+    expectPoint(open[0], 0, 0);
+    expectPoint(open[open.length - 1], 20, 10);
+    expect(polylineLength(open)).toBeLessThan(polylineLength(zigzag));
+
+    const closed = chaikinSmooth(square, 1, true);
+    expect(closed).toHaveLength(8);
+    expectPoint(closed[0], 2.5, 0);
+    expectPoint(closed[7], 0, 2.5);
+  });
+});
+
+describe('offsetPolyline', () => {
+  test('open polyline shifts to the left of travel', () => {
+    const line = offsetPolyline([createVector(0, 0), createVector(10, 0)], 2);
+    expectPoint(line[0], 0, 2);
+    expectPoint(line[1], 10, 2);
+  });
+
+  test('closed square grows with a negative distance', () => {
+    // The square runs counter-clockwise with Y up, so left is inside
+    const inset = offsetPolyline(square, 1, true);
+    expect(inset).toHaveLength(4);
+    expect(polylineLength(inset, true)).toBeCloseTo(32);
+
+    const outset = offsetPolyline(square, -1, true);
+    expect(outset).toHaveLength(4);
+    expectPoint(outset[0], -1, -1);
+  });
+
+  test('outer corners follow the join style', () => {
+    // Right turn at (10, 0): the left side is the outer corner
+    const corner = [createVector(0, 0), createVector(10, 0), createVector(10, -10)];
+    expect(offsetPolyline(corner, 1)).toHaveLength(3);
+    expect(offsetPolyline(corner, 1, false, { join: 'bevel' })).toHaveLength(4);
+
+    const round = offsetPolyline(corner, 1, false, { join: 'round', arcSegments: 16 });
+    expect(round).toHaveLength(2 + 5);
+    for (const p of round.slice(1, -1)) {
+      expect(Math.hypot(p.x - 10, p.y)).toBeCloseTo(1);
+    }
+  });
+
+  test('miter limit falls back to bevel at sharp corners', () => {
+    const spike = [createVector(0, 0), createVector(10, 0), createVector(0, -1)];
+    expect(offsetPolyline(spike, 1)).toHaveLength(4);
+    expect(offsetPolyline(spike, 1, false, { miterLimit: 100 })).toHaveLength(3);
+  });
+});
+
+describe('dashing and trimming', () => {
+  test('dashPolyline splits into pattern lengths', () => {
+    const dashes = dashPolyline(zigzag, [4, 3]);
+    expect(dashes).toHaveLength(5);
+    expect(polylineLength(dashes[0]!)).toBeCloseTo(4);
+    // The second dash wraps the corner at (10, 0)
+    expect(dashes[1]).toHaveLength(3);
+    expect(polylineLength(dashes[1]!)).toBeCloseTo(4);
+    // The last dash is cut short by the end of the line
+    expect(polylineLength(dashes[4]!)).toBeCloseTo(2);
+  });
+
+  test('dashPolyline phase and closed polylines', () => {
+    const shifted = dashPolyline(square, [5, 5], true, 2.5);
+    expect(shifted).toHaveLength(5);
+    expect(polylineLength(shifted[0]!)).toBeCloseTo(2.5);
+    expect(polylineLength(shifted[4]!)).toBeCloseTo(2.5);
+    expect(dashPolyline(square, [])).toHaveLength(1);
+  });
+
+  test('subPolyline and wrapping on closed polylines', () => {
+    const part = subPolyline(square, 5, 15);
+    expect(part).toHaveLength(3);
+    expectPoint(part[0], 5, 0);
+    expectPoint(part[2], 10, 5);
+
+    const wrapped = subPolyline(square, 35, 5, true);
+    expect(polylineLength(wrapped)).toBeCloseTo(10);
+    expectPoint(wrapped[0], 0, 5);
+    expectPoint(wrapped[wrapped.length - 1], 5, 0);
+    expect(subPolyline(square, 10, 5)).toEqual([]);
+  });
+
+  test('trimPolyline shortens both ends', () => {
+    const trimmed = trimPolyline(zigzag, 2, 3);
+    expect(polylineLength(trimmed)).toBeCloseTo(25);
+    expectPoint(trimmed[0], 2, 0);
+    expectPoint(trimmed[trimmed.length - 1], 17, 10);
+    expect(trimPolyline(zigzag, 15)).toEqual([]);
+    expect(polylineLength(trimPolyline(square, 1, 1, true))).toBeCloseTo(38);
+  });
+});
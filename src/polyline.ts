@@ -0,0 +1,628 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Polyline utilities: length, point at distance, uniform resampling,
+ * simplification (Ramer–Douglas–Peucker, Visvalingam–Whyatt), Chaikin
+ * smoothing, parallel offset, dashing and trimming.
+ *
+ * Every function takes a `closed` flag. Closed polylines have an implicit
+ * closing segment from the last point back to the first and are returned
+ * without a repeated end point.
+ */
+
+import { pointSegmentDistance } from './line';
+import { type JoinType } from './offset';
+import { createVector } from './vec2';
+
+/** Default miter limit as a multiple of the offset distance */
+const DEFAULT_MITER_LIMIT = 2;
+
+/** Default number of segments per full circle for round joins */
+const DEFAULT_ARC_SEGMENTS = 32;
+
+/** Chaikin cut ratio (quarter points) */
+const CHAIKIN_RATIO = 0.25;
+
+/** Cross products below this (for unit directions) count as collinear */
+const COLLINEAR_EPSILON = 1e-12;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Options for resampling.
+ * Either the number of segments or the target distance between points.
+ */
+export type ResampleOptions = { count: number } | { spacing: number };
+
+/** Options for polyline offsetting */
+export type PolylineOffsetOptions = {
+  /** Style of outer corners (default: 'miter'); inner corners always meet exactly */
+  readonly join?: JoinType;
+  /** Longest miter as a multiple of the distance before falling back to bevel (default: 2) */
+  readonly miterLimit?: number;
+  /** Segments per full circle for round joins (default: 32) */
+  readonly arcSegments?: number;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Points of the path to walk: closed polylines repeat the first point at the end.
+ */
+function pathPoints(points: readonly p5.Vector[], closed: boolean): readonly p5.Vector[] {
+  return closed && points.length > 1 ? [...points, points[0]!] : points;
+}
+
+/**
+ * Cumulative distance from the start to each point of a path.
+ */
+function cumulativeLengths(path: readonly p5.Vector[]): number[] {
+  const lengths = [0];
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1]!;
+    const b = path[i]!;
+    lengths.push(lengths[i - 1]! + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  return lengths;
+}
+
+/**
+ * Point at distance d along a path with precomputed cumulative lengths.
+ */
+function pointOnPath(path: readonly p5.Vector[], lengths: readonly number[], d: number): p5.Vector {
+  // Binary search for the segment containing d
+  let lo = 0;
+  let hi = lengths.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (lengths[mid]! <= d) lo = mid;
+    else hi = mid;
+  }
+  const a = path[lo]!;
+  const b = path[hi] ?? a;
+  const span = lengths[hi]! - lengths[lo]!;
+  const t = span > 0 ? (d - lengths[lo]!) / span : 0;
+  return createVector(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+}
+
+/**
+ * Part of a path between two distances, with interpolated end points.
+ */
+function slicePath(
+  path: readonly p5.Vector[],
+  lengths: readonly number[],
+  from: number,
+  to: number,
+): p5.Vector[] {
+  const out = [pointOnPath(path, lengths, from)];
+  for (let i = 0; i < path.length; i++) {
+    if (lengths[i]! > from && lengths[i]! < to) out.push(createVector(path[i]!.x, path[i]!.y));
+  }
+  out.push(pointOnPath(path, lengths, to));
+  return out;
+}
+
+/**
+ * Area of the triangle abc.
+ */
+function triangleArea(a: p5.Vector, b: p5.Vector, c: p5.Vector): number {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+}
+
+/**
+ * Copies of the points.
+ */
+function copyPoints(points: readonly p5.Vector[]): p5.Vector[] {
+  return points.map((p) => createVector(p.x, p.y));
+}
+
+// ============================================================================
+// Measuring
+// ============================================================================
+
+/**
+ * Total length of a polyline.
+ *
+ * @param points - Polyline points
+ * @param closed - Include the closing segment (default: false)
+ * @returns Length
+ *
+ * @example
+ * ```ts
+ * const ink = polylineLength(generatePeanoCurve(3));
+ * ```
+ */
+export function polylineLength(points: readonly p5.Vector[], closed = false): number {
+  const lengths = cumulativeLengths(pathPoints(points, closed));
+  return lengths[lengths.length - 1]!;
+}
+
+/**
+ * Point at a distance along a polyline. Open polylines clamp the distance to
+ * their length; closed ones wrap around.
+ *
+ * @param points - Polyline points
+ * @param d - Distance from the first point
+ * @param closed - Include the closing segment (default: false)
+ * @returns Point, or null for an empty polyline
+ *
+ * @example
+ * ```ts
+ * const halfway = pointAtDistance(path, polylineLength(path) / 2);
+ * ```
+ */
+export function pointAtDistance(
+  points: readonly p5.Vector[],
+  d: number,
+  closed = false,
+): p5.Vector | null {
+  if (points.length === 0) return null;
+  const path = pathPoints(points, closed);
+  const lengths = cumulativeLengths(path);
+  const total = lengths[lengths.length - 1]!;
+  const wrapped =
+    closed && total > 0 ? ((d % total) + total) % total : Math.max(0, Math.min(total, d));
+  return pointOnPath(path, lengths, wrapped);
+}
+
+// ============================================================================
+// Resampling and Smoothing
+// ============================================================================
+
+/**
+ * Resample a polyline to evenly spaced points along its length. Corners between
+ * samples are cut, so use a spacing small enough for the detail you need.
+ *
+ * @param points - Polyline points
+ * @param options - Either { count } segments or a target { spacing }
+ * @param closed - Treat as closed (default: false)
+ * @returns Evenly spaced points; open results keep both end points. A spacing
+ *   that is not positive returns a copy of the input, and a path without length
+ *   its start point (plus the end point when open).
+ *
+ * @example
+ * ```ts
+ * const even = resamplePolyline(spline.getPoints(), { spacing: 2 });
+ * ```
+ */
+export function resamplePolyline(
+  points: readonly p5.Vector[],
+  options: ResampleOptions,
+  closed = false,
+): p5.Vector[] {
+  if (points.length < 2) return copyPoints(points);
+  if ('spacing' in options && !(options.spacing > 0)) return copyPoints(points);
+  const path = pathPoints(points, closed);
+  const lengths = cumulativeLengths(path);
+  const total = lengths[lengths.length - 1]!;
+  if (total === 0) return copyPoints(closed ? [path[0]!] : [path[0]!, path[path.length - 1]!]);
+
+  const count =
+    'count' in options
+      ? Math.max(1, Math.floor(options.count))
+      : Math.max(1, Math.round(total / options.spacing));
+
+  const out: p5.Vector[] = [];
+  const last = closed ? count - 1 : count;
+  for (let i = 0; i <= last; i++) out.push(pointOnPath(path, lengths, (total * i) / count));
+  return out;
+}
+
+/**
+ * Simplify a polyline with the Ramer–Douglas–Peucker algorithm: points closer
+ * than `tolerance` to the simplified line are dropped.
+ *
+ * @param points - Polyline points
+ * @param tolerance - Largest allowed deviation
+ * @param closed - Treat as closed (default: false)
+ * @returns Subset of the input points (end points always kept)
+ *
+ * @example
+ * ```ts
+ * const light = simplifyRDP(getReactionDiffusionPath(rd), 0.5);
+ * ```
+ */
+export function simplifyRDP(
+  points: readonly p5.Vector[],
+  tolerance: number,
+  closed = false,
+): p5.Vector[] {
+  if (points.length < 3) return copyPoints(points);
+
+  if (closed) {
+    // Split at the point farthest from the first and simplify both halves
+    let far = 0;
+    let farDist = -1;
+    points.forEach((p, i) => {
+      const d = Math.hypot(p.x - points[0]!.x, p.y - points[0]!.y);
+      if (d > farDist) {
+        farDist = d;
+        far = i;
+      }
+    });
+    const first = simplifyRDP(points.slice(0, far + 1), tolerance);
+    const second = simplifyRDP([...points.slice(far), points[0]!], tolerance);
+    return [...first, ...second.slice(1, -1)];
+  }
+
+  const keep = Array.from({ length: points.length }, () => false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let index = -1;
+    let maxDist = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const d = pointSegmentDistance(points[i]!, points[start]!, points[end]!);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index >= 0) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return copyPoints(points.filter((_, i) => keep[i]));
+}
+
+/**
+ * Simplify a polyline with the Visvalingam–Whyatt algorithm: the point forming
+ * the smallest triangle with its neighbours is removed repeatedly until every
+ * remaining triangle has at least `minArea`. Keeps shapes smoother than RDP.
+ *
+ * @param points - Polyline points
+ * @param minArea - Smallest triangle area to keep
+ * @param closed - Treat as closed (default: false)
+ * @returns Subset of the input points (open end points always kept)
+ *
+ * @example
+ * ```ts
+ * const coast = simplifyVisvalingam(contour, 4, true);
+ * ```
+ */
+export function simplifyVisvalingam(
+  points: readonly p5.Vector[],
+  minArea: number,
+  closed = false,
+): p5.Vector[] {
+  const n = points.length;
+  const minPoints = closed ? 3 : 2;
+  if (n <= minPoints) return copyPoints(points);
+
+  const prev = Array.from({ length: n }, (_, i) => (i === 0 ? (closed ? n - 1 : -1) : i - 1));
+  const next = Array.from({ length: n }, (_, i) => (i === n - 1 ? (closed ? 0 : -1) : i + 1));
+  const removed = Array.from({ length: n }, () => false);
+  const area = (i: number) =>
+    prev[i]! < 0 || next[i]! < 0
+      ? Infinity
+      : triangleArea(points[prev[i]!]!, points[i]!, points[next[i]!]!);
+
+  // Min-heap of [area, index]; stale entries are skipped when popped
+  const heap: [number, number][] = [];
+  const current = Array.from({ length: n }, (_, i) => area(i));
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent]![0] <= heap[i]![0]) break;
+      [heap[parent], heap[i]] = [heap[i]!, heap[parent]!];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0]!;
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l]![0] < heap[m]![0]) m = l;
+        if (r < heap.length && heap[r]![0] < heap[m]![0]) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i]!, heap[m]!];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  current.forEach((a, i) => push([a, i]));
+  let remaining = n;
+
+  while (heap.length > 0 && remaining > minPoints) {
+    const [a, i] = pop();
+    if (removed[i] || a !== current[i]) continue;
+    if (a >= minArea) break;
+
+    removed[i] = true;
+    remaining--;
+    const p = prev[i]!;
+    const q = next[i]!;
+    if (p >= 0) next[p] = q;
+    if (q >= 0) prev[q] = p;
+    // Neighbours' areas never drop below the removed one, so the order stays monotone
+    for (const k of [p, q]) {
+      if (k >= 0 && !removed[k]) {
+        current[k] = Math.max(area(k), a);
+        push([current[k]!, k]);
+      }
+    }
+  }
+
+  return copyPoints(points.filter((_, i) => !removed[i]));
+}
+
+/**
+ * Smooth a polyline with Chaikin's corner cutting: each iteration replaces every
+ * corner with two points at a quarter and three quarters along its edges.
+ *
+ * @param points - Polyline points
+ * @param iterations - Number of refinement passes (default: 1)
+ * @param closed - Treat as closed (default: false)
+ * @returns Smoothed points; open results keep both end points
+ *
+ * @example
+ * ```ts
+ * const soft = chaikinSmooth(generatePeanoCurve(2), 3);
+ * ```
+ */
+export function chaikinSmooth(
+  points: readonly p5.Vector[],
+  iterations = 1,
+  closed = false,
+): p5.Vector[] {
+  let current = copyPoints(points);
+  if (current.length < 3) return current;
+
+  for (let k = 0; k < iterations; k++) {
+    const n = current.length;
+    const out: p5.Vector[] = closed ? [] : [current[0]!];
+    const edges = closed ? n : n - 1;
+    for (let i = 0; i < edges; i++) {
+      const a = current[i]!;
+      const b = current[(i + 1) % n]!;
+      const q = createVector(a.x + (b.x - a.x) * CHAIKIN_RATIO, a.y + (b.y - a.y) * CHAIKIN_RATIO);
+      const r = createVector(
+        a.x + (b.x - a.x) * (1 - CHAIKIN_RATIO),
+        a.y + (b.y - a.y) * (1 - CHAIKIN_RATIO),
+      );
+      // Open ends keep their original points instead of the outer cuts
+      if (closed || i > 0) out.push(q);
+      if (closed || i < edges - 1) out.push(r);
+    }
+    if (!closed) out.push(current[n - 1]!);
+    current = out;
+  }
+
+  return current;
+}
+
+// ============================================================================
+// Offsetting
+// ============================================================================
+
+/**
+ * Parallel offset of a polyline. Positive distances shift it to the left of
+ * the direction of travel with Y up (to the right on a Y-down screen). Inner
+ * corners meet at the exact intersection; outer corners use the join style.
+ * Very tight inner corners can still fold over, as with any raw offset curve.
+ *
+ * @param points - Polyline points
+ * @param distance - Offset distance
+ * @param closed - Treat as closed (default: false)
+ * @param options - Join style for outer corners
+ * @returns Offset polyline
+ *
+ * @example
+ * ```ts
+ * // Parallel strokes for a thick pen line
+ * for (let d = -2; d <= 2; d += 0.5) lines.push(offsetPolyline(path, d));
+ * ```
+ */
+export function offsetPolyline(
+  points: readonly p5.Vector[],
+  distance: number,
+  closed = false,
+  options: PolylineOffsetOptions = {},
+): p5.Vector[] {
+  const {
+    join = 'miter',
+    miterLimit = DEFAULT_MITER_LIMIT,
+    arcSegments = DEFAULT_ARC_SEGMENTS,
+  } = options;
+
+  // Drop repeated points so every segment has a direction
+  const pts = points.filter((p, i) => {
+    const q = points[i + 1] ?? (closed ? points[0] : undefined);
+    return !q || p.x !== q.x || p.y !== q.y;
+  });
+  const n = pts.length;
+  if (n < 2) return copyPoints(pts);
+
+  const normalOf = (a: p5.Vector, b: p5.Vector) => {
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    return { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+  };
+
+  const out: p5.Vector[] = [];
+  for (let i = 0; i < n; i++) {
+    const p = pts[i]!;
+    const hasPrev = closed || i > 0;
+    const hasNext = closed || i < n - 1;
+    const n1 = hasPrev ? normalOf(pts[(i + n - 1) % n]!, p) : null;
+    const n2 = hasNext ? normalOf(p, pts[(i + 1) % n]!) : null;
+
+    if (!n1 || !n2) {
+      const nn = (n1 ?? n2)!;
+      out.push(createVector(p.x + nn.x * distance, p.y + nn.y * distance));
+      continue;
+    }
+
+    const a = createVector(p.x + n1.x * distance, p.y + n1.y * distance);
+    const b = createVector(p.x + n2.x * distance, p.y + n2.y * distance);
+    // Turn direction: positive when the path turns left
+    const cross = n1.x * n2.y - n1.y * n2.x;
+    const dot = n1.x * n2.x + n1.y * n2.y;
+
+    if (Math.abs(cross) < COLLINEAR_EPSILON && dot > 0) {
+      out.push(a);
+      continue;
+    }
+
+    const miterScale = distance / (1 + dot);
+    const miter = createVector(p.x + (n1.x + n2.x) * miterScale, p.y + (n1.y + n2.y) * miterScale);
+    const inner = cross * distance > 0;
+    const cosHalf = Math.sqrt(Math.max(0, (1 + dot) / 2));
+
+    if (inner && cosHalf > 0) {
+      out.push(miter);
+    } else if (join === 'miter' && cosHalf > 0 && 1 / cosHalf <= miterLimit) {
+      out.push(miter);
+    } else if (join === 'round') {
+      const start = Math.atan2(n1.y, n1.x);
+      let sweep = Math.atan2(n2.y, n2.x) - start;
+      // Normals rotate the same way as the path turns
+      if (cross > 0 && sweep < 0) sweep += TWO_PI;
+      if (cross < 0 && sweep > 0) sweep -= TWO_PI;
+      const steps = Math.max(1, Math.ceil((Math.abs(sweep) / TWO_PI) * arcSegments));
+      for (let k = 0; k <= steps; k++) {
+        const angle = start + (sweep * k) / steps;
+        out.push(createVector(p.x + distance * Math.cos(angle), p.y + distance * Math.sin(angle)));
+      }
+    } else {
+      out.push(a, b);
+    }
+  }
+
+  return out;
+}
+
+// ============================================================================
+// Dashing and Trimming
+// ============================================================================
+
+/**
+ * Split a polyline into dashes.
+ *
+ * @param points - Polyline points
+ * @param pattern - Alternating dash and gap lengths, e.g. [4, 2] or [6, 2, 1, 2]
+ * @param closed - Treat as closed (default: false)
+ * @param phase - Distance into the pattern at the start (default: 0)
+ * @returns One polyline per dash
+ *
+ * @example
+ * ```ts
+ * dashPolyline(circlePoints(center, 50, 96), [5, 3], true).forEach((dash) => svg.addPath(dash));
+ * ```
+ */
+export function dashPolyline(
+  points: readonly p5.Vector[],
+  pattern: readonly number[],
+  closed = false,
+  phase = 0,
+): p5.Vector[][] {
+  const patternLength = pattern.reduce((sum, v) => sum + Math.max(0, v), 0);
+  if (points.length < 2 || patternLength <= 0) return [copyPoints(pathPoints(points, closed))];
+
+  const path = pathPoints(points, closed);
+  const lengths = cumulativeLengths(path);
+  const total = lengths[lengths.length - 1]!;
+  const dashes: p5.Vector[][] = [];
+
+  // Start at the beginning of the pattern entry containing the phase
+  let d = -(((phase % patternLength) + patternLength) % patternLength);
+  let k = 0;
+  while (d < total) {
+    const len = Math.max(0, pattern[k % pattern.length]!);
+    if (k % 2 === 0) {
+      const from = Math.max(0, d);
+      const to = Math.min(total, d + len);
+      if (to > from) dashes.push(slicePath(path, lengths, from, to));
+    }
+    d += len;
+    k++;
+  }
+  return dashes;
+}
+
+/**
+ * Part of a polyline between two distances along it. On closed polylines a
+ * range with `to < from` wraps past the start.
+ *
+ * @param points - Polyline points
+ * @param from - Start distance
+ * @param to - End distance
+ * @param closed - Treat as closed (default: false)
+ * @returns Open polyline (empty when the range is empty)
+ *
+ * @example
+ * ```ts
+ * // Draw a growing stroke
+ * const part = subPolyline(path, 0, polylineLength(path) * progress);
+ * ```
+ */
+export function subPolyline(
+  points: readonly p5.Vector[],
+  from: number,
+  to: number,
+  closed = false,
+): p5.Vector[] {
+  if (points.length < 2) return copyPoints(points);
+  const path = pathPoints(points, closed);
+  const lengths = cumulativeLengths(path);
+  const total = lengths[lengths.length - 1]!;
+
+  if (closed && total > 0) {
+    const start = ((from % total) + total) % total;
+    const end = ((to % total) + total) % total;
+    if (end < start || (end === start && to !== from)) {
+      const head = slicePath(path, lengths, start, total);
+      return [...head, ...slicePath(path, lengths, 0, end).slice(1)];
+    }
+    return end > start ? slicePath(path, lengths, start, end) : [];
+  }
+
+  const start = Math.max(0, Math.min(total, from));
+  const end = Math.max(0, Math.min(total, to));
+  return end > start ? slicePath(path, lengths, start, end) : [];
+}
+
+/**
+ * Shorten a polyline by fixed lengths at both ends, e.g. to leave gaps where
+ * lines meet or to keep strokes clear of an outline.
+ *
+ * @param points - Polyline points
+ * @param startTrim - Length removed from the start
+ * @param endTrim - Length removed from the end (default: startTrim)
+ * @param closed - Treat as closed, opening it at the first point (default: false)
+ * @returns Trimmed open polyline (empty when nothing is left)
+ *
+ * @example
+ * ```ts
+ * const clear = trimPolyline(hatchLine, 1.5);
+ * ```
+ */
+export function trimPolyline(
+  points: readonly p5.Vector[],
+  startTrim: number,
+  endTrim = startTrim,
+  closed = false,
+): p5.Vector[] {
+  const total = polylineLength(points, closed);
+  if (startTrim + endTrim >= total) return [];
+  const path = pathPoints(points, closed);
+  return slicePath(path, cumulativeLengths(path), startTrim, total - endTrim);
+}
@@ -0,0 +1,187 @@
+/**
+ * Tests for the shared seeded random number generator.
+ * These tests cover: SeededRandom, fork/substream, state save/restore,
+ * the source helpers and generators driven by a shared SeededRandom.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { SeededRandom, toRandomFunction, toSeededRandom, toSeed } from './random';
+import { PoissonDiscSampler } from './poisson';
+import { CirclePacker } from './circlePacking';
+import { subdivideTriangleRoot } from './triangles';
+import { createVector } from './vec2';
+
+describe('SeededRandom', () => {
+  test('same seed produces the same sequence', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    for (let i = 0; i < 10; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  test('next stays in [0, 1)', () => {
+    const rng = new SeededRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng.next();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  test('nextInt stays in [min, max)', () => {
+    const rng = new SeededRandom(7);
+    const seen = new Set<number>();
+    for (let i = 0; i < 200; i++) {
+      const v = rng.nextInt(2, 5);
+      expect(Number.isInteger(v)).toBe(true);
+      seen.add(v);
+    }
+    expect([...seen].sort()).toEqual([2, 3, 4]);
+  });
+
+  test('nextGaussian approximates mean and deviation', () => {
+    const rng = new SeededRandom(3);
+    const n = 5000;
+    const values = Array.from({ length: n }, () => rng.nextGaussian(10, 2));
+    const mean = values.reduce((s, v) => s + v, 0) / n;
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / n;
+    expect(mean).toBeCloseTo(10, 0);
+    expect(Math.sqrt(variance)).toBeCloseTo(2, 0);
+  });
+
+  test('choice returns an element and undefined for empty arrays', () => {
+    const rng = new SeededRandom(5);
+    expect(['a', 'b', 'c']).toContain(rng.choice(['a', 'b', 'c'])!);
+    expect(rng.choice([])).toBeUndefined();
+  });
+
+  test('shuffle returns a permutation without mutating the input', () => {
+    const rng = new SeededRandom(9);
+    const input = [1, 2, 3, 4, 5, 6];
+    const result = rng.shuffle(input);
+    expect(input).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...result].sort()).toEqual(input);
+  });
+
+  test('weightedIndex never picks zero-weight entries', () => {
+    const rng = new SeededRandom(11);
+    for (let i = 0; i < 200; i++) {
+      expect(rng.weightedIndex([0, 1, 0, 3])).not.toBe(0);
+    }
+    expect(rng.weightedIndex([0, 0])).toBe(-1);
+    expect(rng.weightedPick(['x', 'y'], [0, 1])).toBe('y');
+  });
+
+  test('getState/setState replays the sequence', () => {
+    const rng = new SeededRandom(123);
+    rng.next();
+    const state = rng.getState();
+    const first = [rng.next(), rng.next()];
+    rng.setState(state);
+    expect([rng.next(), rng.next()]).toEqual(first);
+  });
+
+  test('state stays 32-bit over long runs', () => {
+    const rng = new SeededRandom(7);
+    for (let i = 0; i < 10000; i++) rng.nextUint32();
+    const state = rng.getState();
+    expect(state).toBe(state | 0);
+
+    // A state near 2^53 (millions of draws without wrapping) matches its 32-bit equivalent
+    const a = new SeededRandom();
+    const b = new SeededRandom();
+    a.setState(5);
+    b.setState(2 ** 53 - 2 ** 32 + 5);
+    const draws = (rng: SeededRandom) => [rng.nextUint32(), rng.nextUint32(), rng.nextUint32()];
+    expect(draws(b)).toEqual(draws(a));
+  });
+
+  test('fork advances the parent, substream does not', () => {
+    const a = new SeededRandom(99);
+    const b = new SeededRandom(99);
+    a.fork();
+    expect(a.next()).not.toBe(b.next());
+
+    const c = new SeededRandom(99);
+    const before = c.getState();
+    const s1 = c.substream('layer');
+    const s2 = c.substream('layer');
+    expect(c.getState()).toBe(before);
+    expect(s1.next()).toBe(s2.next());
+    expect(c.substream('other').seed).not.toBe(s1.seed);
+  });
+});
+
+describe('source helpers', () => {
+  test('toRandomFunction passes functions through', () => {
+    const fn = (): number => 0.25;
+    expect(toRandomFunction(fn)).toBe(fn);
+  });
+
+  test('toRandomFunction seeds numbers deterministically', () => {
+    expect(toRandomFunction(4)()).toBe(new SeededRandom(4).next());
+  });
+
+  test('toSeededRandom reuses generators', () => {
+    const rng = new SeededRandom(1);
+    expect(toSeededRandom(rng)).toBe(rng);
+    expect(toSeededRandom(8).seed).toBe(8);
+  });
+
+  test('toSeed draws from generators', () => {
+    expect(toSeed(17)).toBe(17);
+    expect(toSeed(new SeededRandom(2))).toBe(new SeededRandom(2).nextUint32());
+  });
+});
+
+describe('generators with a shared SeededRandom', () => {
+  test('PoissonDiscSampler accepts a SeededRandom', () => {
+    const a = new PoissonDiscSampler(100, 100, 10, new SeededRandom(5)).generate();
+    const b = new PoissonDiscSampler(100, 100, 10, 5).generate();
+    expect(a.map((p) => [p.x, p.y])).toEqual(b.map((p) => [p.x, p.y]));
+  });
+
+  test('CirclePacker reset replays a shared generator', () => {
+    const packer = new CirclePacker({
+      seed: new SeededRandom(21),
+      rectBounds: { x: 0, y: 0, width: 200, height: 200 },
+      strategy: 'random',
+    });
+    packer.update();
+    const first = packer.circles.map((c) => [c.pos.x, c.pos.y]);
+    packer.reset();
+    packer.update();
+    expect(packer.circles.map((c) => [c.pos.x, c.pos.y])).toEqual(first);
+  });
+
+  test('CirclePacker reset leaves the shared generator to other consumers', () => {
+    const shared = new SeededRandom(21);
+    const expected = new SeededRandom(21);
+    expected.fork(); // The packer forks its own stream once
+    const packer = new CirclePacker({
+      seed: shared,
+      rectBounds: { x: 0, y: 0, width: 200, height: 200 },
+      strategy: 'random',
+    });
+    packer.update();
+    packer.reset();
+    packer.update();
+    // A second consumer continues where the shared stream left off
+    expect([shared.next(), shared.next()]).toEqual([expected.next(), expected.next()]);
+  });
+
+  test('subdivideTriangleRoot accepts a SeededRandom', () => {
+    const params = { splitProbability: 0.8, startRes: 4 };
+    const a = subdivideTriangleRoot(createVector(0, 0), 0, 100, {
+      ...params,
+      rng: new SeededRandom(3),
+    });
+    const b = subdivideTriangleRoot(createVector(0, 0), 0, 100, {
+      ...params,
+      rng: new SeededRandom(3),
+    });
+    expect(a.map((t) => t.generation)).toEqual(b.map((t) => t.generation));
+  });
+});
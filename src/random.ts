@@ -0,0 +1,257 @@
+/**
+ * Seeded random number generation shared by every generator.
+ * A single seed reproduces a whole composite artwork: pass one SeededRandom
+ * around, or fork independent sub-streams for each layer.
+ */
+
+/** Upper bound (exclusive) of a 32-bit unsigned integer */
+const UINT32_RANGE = 4294967296;
+
+/** Mulberry32 state increment */
+const MULBERRY_INCREMENT = 0x6d2b79f5;
+
+/** FNV-1a offset basis for hashing sub-stream keys */
+const FNV_OFFSET = 0x811c9dc5;
+
+/** FNV-1a prime for hashing sub-stream keys */
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Random number generator function type.
+ * Returns a value in [0, 1).
+ */
+export type RandomFunction = () => number;
+
+/**
+ * Anything a generator accepts as a source of randomness:
+ * a numeric seed, a SeededRandom, or a plain function such as Math.random.
+ */
+export type RandomSource = number | SeededRandom | RandomFunction;
+
+/**
+ * Hash a sub-stream key together with a seed (FNV-1a over the key's characters).
+ */
+function hashKey(seed: number, key: string | number): number {
+  let h = (FNV_OFFSET ^ seed) >>> 0;
+  const text = String(key);
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, FNV_PRIME) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Seeded pseudorandom number generator (Mulberry32).
+ * Deterministic, fast and small enough to create one per layer or cell.
+ *
+ * @example
+ * ```ts
+ * const rng = new SeededRandom(42);
+ * rng.next(); // [0, 1)
+ * rng.nextBetween(10, 20); // [10, 20)
+ * rng.choice(['red', 'green', 'blue']);
+ * const layer = rng.substream('background'); // independent, reproducible stream
+ * ```
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * Create a new generator.
+   * @param seed - Seed for reproducible sequences (default: random)
+   */
+  constructor(public readonly seed: number = Math.floor(Math.random() * UINT32_RANGE)) {
+    this.state = seed;
+  }
+
+  /**
+   * Generate next random number in [0, 1).
+   * @returns Random value
+   */
+  next(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  /**
+   * Generate next random 32-bit unsigned integer.
+   * @returns Integer in [0, 2^32)
+   */
+  nextUint32(): number {
+    // Wrap the state to 32 bits so it never grows past exact double precision
+    this.state = (this.state + MULBERRY_INCREMENT) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Generate random number in range [min, max).
+   * @param min - Minimum value (inclusive)
+   * @param max - Maximum value (exclusive)
+   * @returns Random value in range
+   */
+  nextBetween(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Generate random integer in range [min, max).
+   * @param min - Minimum value (inclusive)
+   * @param max - Maximum value (exclusive)
+   * @returns Random integer in range
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.nextBetween(min, max));
+  }
+
+  /**
+   * Generate a random boolean.
+   * @param probability - Chance of returning true (default: 0.5)
+   * @returns Random boolean
+   */
+  nextBool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Generate a normally distributed number using the Box-Muller transform.
+   * @param mean - Mean of the distribution (default: 0)
+   * @param sd - Standard deviation (default: 1)
+   * @returns Gaussian random value
+   */
+  nextGaussian(mean = 0, sd = 1): number {
+    const u1 = this.next() || Number.MIN_VALUE;
+    const u2 = this.next();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return mean + z * sd;
+  }
+
+  /**
+   * Pick a random element from an array.
+   * @param items - Array to pick from
+   * @returns Random element, or undefined for an empty array
+   */
+  choice<T>(items: readonly T[]): T | undefined {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Return a shuffled copy of an array (Fisher-Yates).
+   * @param items - Array to shuffle (not modified)
+   * @returns New shuffled array
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      const tmp = result[i]!;
+      result[i] = result[j]!;
+      result[j] = tmp;
+    }
+    return result;
+  }
+
+  /**
+   * Pick a random index with probability proportional to its weight.
+   * @param weights - Non-negative weights
+   * @returns Selected index, or -1 if all weights are zero
+   */
+  weightedIndex(weights: readonly number[]): number {
+    const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+    if (total <= 0) return -1;
+
+    let r = this.next() * total;
+    for (let i = 0; i < weights.length; i++) {
+      r -= Math.max(0, weights[i]!);
+      if (r < 0) return i;
+    }
+    return weights.length - 1;
+  }
+
+  /**
+   * Pick a random element with probability proportional to its weight.
+   * @param items - Array to pick from
+   * @param weights - Weight per item (same length as items)
+   * @returns Selected element, or undefined if all weights are zero
+   */
+  weightedPick<T>(items: readonly T[], weights: readonly number[]): T | undefined {
+    const index = this.weightedIndex(weights.slice(0, items.length));
+    return index >= 0 ? items[index] : undefined;
+  }
+
+  /**
+   * Create an independent generator seeded from this one.
+   * Advances this generator by one draw.
+   * @returns New generator
+   */
+  fork(): SeededRandom {
+    return new SeededRandom(this.nextUint32());
+  }
+
+  /**
+   * Create a named sub-stream derived from this generator's seed.
+   * Does not advance this generator, so the same key always yields the same stream.
+   * @param key - Sub-stream name or index
+   * @returns New generator
+   */
+  substream(key: string | number): SeededRandom {
+    return new SeededRandom(hashKey(this.seed, key));
+  }
+
+  /**
+   * Save the internal state.
+   * @returns Opaque state value for setState (a signed 32-bit integer after the first draw)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore a previously saved state (or jump to a raw seed state).
+   * @param state - Value returned by getState
+   */
+  setState(state: number): void {
+    this.state = state;
+  }
+
+  /**
+   * Get a bound `() => number` function for APIs that take a RandomFunction.
+   * @returns Function returning values in [0, 1)
+   */
+  asFunction(): RandomFunction {
+    return () => this.next();
+  }
+}
+
+/**
+ * Resolve any random source to a RandomFunction.
+ * @param source - Seed, generator or function (default: Math.random)
+ * @returns Function returning values in [0, 1)
+ */
+export function toRandomFunction(source: RandomSource = Math.random): RandomFunction {
+  if (typeof source === 'function') return source;
+  if (typeof source === 'number') return new SeededRandom(source).asFunction();
+  return source.asFunction();
+}
+
+/**
+ * Resolve a seed or generator to a SeededRandom.
+ * Numbers create a new generator; generators are used as-is.
+ * @param source - Seed or generator (default: random seed)
+ * @returns SeededRandom instance
+ */
+export function toSeededRandom(source?: number | SeededRandom): SeededRandom {
+  return source instanceof SeededRandom ? source : new SeededRandom(source);
+}
+
+/**
+ * Resolve a seed or generator to a numeric seed for hash-based generators
+ * (simplex permutation, Worley cells). Generators contribute one draw.
+ * @param source - Seed or generator
+ * @returns Numeric seed
+ */
+export function toSeed(source: number | SeededRandom): number {
+  return typeof source === 'number' ? source : source.nextUint32();
+}
@@ -11,12 +11,8 @@ import {
   type Polygon,
   type MarchingSquareCell,
 } from './marchingSquares';
-
-/** Initial random seed bound */
-const DEFAULT_RANDOM_SEED_BOUND = 10000000;
-
-/** Seed sine multiplier for pseudorandom generation */
-const RANDOM_SINE_MULTIPLIER = 10000;
+import { type SeededRandom, toSeededRandom } from './random';
+import { ScalarField, type ScalarFieldConfig } from './scalarField';
 
 /** Initial value for chemical A */
 const INITIAL_A_VALUE = 1;
@@ -78,44 +74,6 @@ const DEFAULT_DIFFUSION_B = 0.5;
 /** Minimum seed coordinate offset to stay within bounds */
 const SEED_COORDINATE_OFFSET = 2;
 
-/**
- * Seeded pseudorandom number generator using sine-based hashing.
- * Produces deterministic sequences for reproducible patterns.
- *
- * @example
- * ```ts
- * const rng = new SeededRandom(42);
- * const value = rng.next(); // [0, 1)
- * const inRange = rng.nextBetween(10, 20); // [10, 20)
- * ```
- */
-export class SeededRandom {
-  private val: number;
-
-  constructor(public readonly seed: number = Math.random() * DEFAULT_RANDOM_SEED_BOUND) {
-    this.val = seed;
-  }
-
-  /**
-   * Generate next random number in [0, 1).
-   * @returns Random value
-   */
-  next(): number {
-    const x = Math.sin(this.val++) * RANDOM_SINE_MULTIPLIER;
-    return x - Math.floor(x);
-  }
-
-  /**
-   * Generate random number in range [min, max).
-   * @param min - Minimum value (inclusive)
-   * @param max - Maximum value (exclusive)
-   * @returns Random value in range
-   */
-  nextBetween(min: number, max: number): number {
-    return min + this.next() * (max - min);
-  }
-}
-
 /**
  * Cell state in reaction-diffusion simulation.
  * Contains concentrations of chemicals A and B.
@@ -384,13 +342,43 @@ export class GrayScott {
 
     return field;
   }
+
+  /**
+   * Export simulation state as a ScalarField normalized to [0, 1].
+   * Unlike toScalarField, values are not quantized.
+   *
+   * @param which - Which chemical to export ("a" or "b")
+   * @param config - World placement of the field
+   * @returns Field with one cell per simulation cell
+   *
+   * @example
+   * ```ts
+   * const field = gs.toField('b', { cellSize: 4 });
+   * const cells = marchingSquares(field, 0.5);
+   * ```
+   */
+  toField(which: 'a' | 'b' = 'a', config: ScalarFieldConfig = {}): ScalarField {
+    const W = this.width;
+    const field = new ScalarField(W, this.height, config);
+    const min = which === 'a' ? this.minA : this.minB;
+    const range = (which === 'a' ? this.maxA : this.maxB) - min || 1;
+
+    for (let x = 0; x < W; x++) {
+      for (let y = 0; y < this.height; y++) {
+        const c = this.buffer[x]![y]!;
+        field.data[y * W + x] = ((which === 'a' ? c.a : c.b) - min) / range;
+      }
+    }
+
+    return field;
+  }
 }
 
 /**
  * Run Gray-Scott simulation and extract marching squares contours.
  * Produces organic pattern contours ready for vector rendering.
  *
- * @param randomSeed - Random seed for reproducibility
+ * @param randomSeed - Random seed or shared SeededRandom for reproducibility
  * @param nrOfSeeds - Number of initial catalyst seeds
  * @param grayScottSize - Grid size (square)
  * @param k - Kill rate
@@ -399,7 +387,7 @@ export class GrayScott {
  * @returns Marching squares cell grid
  */
 export function getMarchingSquaresResultFromReactionDiffusion(
-  randomSeed: number,
+  randomSeed: number | SeededRandom,
   nrOfSeeds: number,
   grayScottSize: number,
   k: number,
@@ -407,7 +395,7 @@ export function getMarchingSquaresResultFromReactionDiffusion(
   steps: number,
 ): MarchingSquareCell[][] {
   const gs = new GrayScott(grayScottSize, grayScottSize, k, f);
-  const rng = new SeededRandom(randomSeed);
+  const rng = toSeededRandom(randomSeed);
 
   for (let s = 0; s < nrOfSeeds; s++) {
     const x = Math.floor(rng.next() * (grayScottSize - SEED_COORDINATE_OFFSET));
@@ -442,7 +430,7 @@ export function getMarchingSquaresResultFromReactionDiffusion(
  * Convenience wrapper for full RD → marching squares → segments pipeline.
  *
  * @param scale - Output scale in world units
- * @param randomSeed - Random seed (default: 12345)
+ * @param randomSeed - Random seed or SeededRandom (default: 12345)
  * @param numberOfSeeds - Number of catalyst seeds (default: 150)
  * @param grayScottSize - Grid size (default: 250)
  * @param k - Kill rate (default: 0.063)
@@ -460,7 +448,7 @@ export function getMarchingSquaresResultFromReactionDiffusion(
  */
 export function getReactionDiffusionSegments(
   scale: number,
-  randomSeed = DEFAULT_RANDOM_SEED,
+  randomSeed: number | SeededRandom = DEFAULT_RANDOM_SEED,
   numberOfSeeds = DEFAULT_NUMBER_OF_SEEDS,
   grayScottSize = DEFAULT_GRAY_SCOTT_SIZE,
   k = DEFAULT_KILL_RATE,
@@ -485,7 +473,7 @@ export function getReactionDiffusionSegments(
  * Convenience wrapper for full RD → marching squares → paths pipeline.
  *
  * @param scale - Output scale in world units
- * @param randomSeed - Random seed (default: 12345)
+ * @param randomSeed - Random seed or SeededRandom (default: 12345)
  * @param numberOfSeeds - Number of catalyst seeds (default: 150)
  * @param grayScottSize - Grid size (default: 250)
  * @param k - Kill rate (default: 0.06)
@@ -505,7 +493,7 @@ export function getReactionDiffusionSegments(
  */
 export function getReactionDiffusionPath(
   scale: number,
-  randomSeed = DEFAULT_RANDOM_SEED,
+  randomSeed: number | SeededRandom = DEFAULT_RANDOM_SEED,
   numberOfSeeds = DEFAULT_NUMBER_OF_SEEDS,
   grayScottSize = DEFAULT_GRAY_SCOTT_SIZE,
   k = ALT_KILL_RATE,
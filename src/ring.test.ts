@@ -0,0 +1,34 @@
+/**
+ * Tests for ring helpers.
+ * These tests cover: ringSignedArea, pointInRing and ringDepths with plain
+ * x/y points.
+ */
+import { test, expect, describe } from 'bun:test';
+
+import { pointInRing, ringDepths, ringSignedArea } from './ring';
+
+const square = (x: number, y: number, size: number) => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+describe('ring helpers', () => {
+  test('ringSignedArea is positive counter-clockwise (Y up)', () => {
+    expect(ringSignedArea(square(0, 0, 10))).toBe(100);
+    expect(ringSignedArea(square(0, 0, 10).reverse())).toBe(-100);
+    expect(ringSignedArea([])).toBe(0);
+  });
+
+  test('pointInRing uses the even-odd rule', () => {
+    const ring = square(0, 0, 10);
+    expect(pointInRing({ x: 5, y: 5 }, ring)).toBe(true);
+    expect(pointInRing({ x: 15, y: 5 }, ring)).toBe(false);
+  });
+
+  test('ringDepths counts enclosing rings', () => {
+    const rings = [square(0, 0, 30), square(5, 5, 20), square(10, 10, 10), square(40, 0, 10), []];
+    expect(ringDepths(rings)).toEqual([0, 1, 2, 0, 0]);
+  });
+});
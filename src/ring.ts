@@ -0,0 +1,82 @@
+/**
+ * Ring-level helpers shared by the polygon modules (analysis, booleans,
+ * offsetting and triangulation). A ring is a closed list of points whose
+ * closing edge is implicit. Points only need `x` and `y`, so internal point
+ * types work as well as vectors, and this module imports nothing.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Anything with plane coordinates */
+export type RingPoint = { readonly x: number; readonly y: number };
+
+// ============================================================================
+// Ring Helpers
+// ============================================================================
+
+/**
+ * Signed area of a ring by the shoelace formula.
+ *
+ * @param ring - Ring points
+ * @returns Area, positive when counter-clockwise with Y up (clockwise on screen in p5)
+ *
+ * @example
+ * ```ts
+ * if (ringSignedArea(points) < 0) points.reverse();
+ * ```
+ */
+export function ringSignedArea(ring: readonly RingPoint[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j]!.x * ring[i]!.y - ring[i]!.x * ring[j]!.y;
+  }
+  return sum / 2;
+}
+
+/**
+ * Even-odd test of a point against a single ring.
+ *
+ * @param p - Point to test
+ * @param ring - Ring points
+ * @returns true if the point is inside
+ *
+ * @example
+ * ```ts
+ * const covered = pointInRing(mouse, outline);
+ * ```
+ */
+export function pointInRing(p: RingPoint, ring: readonly RingPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]!;
+    const b = ring[j]!;
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Nesting depth of each ring: how many other rings contain its first point.
+ * Under the even-odd rule, rings at even depth are outer boundaries (including
+ * islands inside holes) and rings at odd depth are holes. Rings are assumed
+ * not to cross each other.
+ *
+ * @param rings - Rings of one shape
+ * @returns Depth per ring, in input order (empty rings get 0)
+ *
+ * @example
+ * ```ts
+ * const holes = rings.filter((_, i) => ringDepths(rings)[i]! % 2 === 1);
+ * ```
+ */
+export function ringDepths(rings: readonly (readonly RingPoint[])[]): number[] {
+  return rings.map((ring) => {
+    const first = ring[0];
+    if (!first) return 0;
+    return rings.filter((other) => other !== ring && pointInRing(first, other)).length;
+  });
+}
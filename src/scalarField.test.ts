@@ -0,0 +1,207 @@
+/**
+ * Tests for scalar fields.
+ * These tests cover: ScalarField construction, sampling, normalize, map/combine,
+ * blur, gradients and the producers/consumers that accept fields
+ * (marchingSquares, GrayScott, Worley noise, warpField).
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { ScalarField } from './scalarField';
+import { marchingSquares } from './marchingSquares';
+import { GrayScott } from './reactionDiffusion';
+import { SeededRandom } from './random';
+import { worleyField, worleyScalarField } from './worleyNoise';
+import { warp2D, warpField } from './warp';
+
+describe('ScalarField construction', () => {
+  test('fromArray stores rows in row-major order', () => {
+    const field = ScalarField.fromArray([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+    expect(field.width).toBe(3);
+    expect(field.height).toBe(2);
+    expect(Array.from(field.data)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(field.get(2, 1)).toBe(6);
+    expect(field.toArray()).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+  });
+
+  test('fromFunction evaluates at world positions', () => {
+    const field = ScalarField.fromFunction(3, 2, (x, y) => x + 10 * y, {
+      originX: 5,
+      originY: 1,
+      cellSize: 2,
+    });
+    expect(field.get(0, 0)).toBe(15);
+    expect(field.get(2, 1)).toBe(39);
+  });
+
+  test('wraps matching data without copying', () => {
+    const data = new Float32Array(4);
+    const field = new ScalarField(2, 2, {}, data);
+    field.set(1, 1, 7);
+    expect(data[3]).toBe(7);
+  });
+
+  test('pads data of the wrong length', () => {
+    const field = new ScalarField(2, 2, {}, new Float32Array([1, 2]));
+    expect(Array.from(field.data)).toEqual([1, 2, 0, 0]);
+  });
+
+  test('clamps get and ignores out-of-range set', () => {
+    const field = ScalarField.fromArray([[1, 2]]);
+    field.set(5, 0, 9);
+    expect(field.get(-3, 0)).toBe(1);
+    expect(field.get(10, 10)).toBe(2);
+  });
+});
+
+describe('ScalarField sampling', () => {
+  const field = ScalarField.fromArray(
+    [
+      [0, 10],
+      [20, 30],
+    ],
+    { cellSize: 10 },
+  );
+
+  test('bilinear interpolates in world units', () => {
+    expect(field.sample(5, 0)).toBeCloseTo(5);
+    expect(field.sample(5, 5)).toBeCloseTo(15);
+  });
+
+  test('nearest snaps to the closest cell', () => {
+    expect(field.sample(6, 1, 'nearest')).toBe(10);
+  });
+
+  test('bicubic passes through cell values', () => {
+    expect(field.sample(10, 10, 'bicubic')).toBeCloseTo(30);
+    expect(field.sample(0, 10, 'bicubic')).toBeCloseTo(20);
+  });
+
+  test('sampler works as a noise function', () => {
+    const fn = field.sampler();
+    expect(fn(5, 5)).toBeCloseTo(field.sample(5, 5));
+  });
+});
+
+describe('ScalarField operations', () => {
+  const field = ScalarField.fromArray([
+    [2, 4],
+    [6, 10],
+  ]);
+
+  test('min, max and normalize', () => {
+    expect(field.min()).toBe(2);
+    expect(field.max()).toBe(10);
+    const n = field.normalize();
+    expect(n.min()).toBe(0);
+    expect(n.max()).toBe(1);
+    expect(n.get(1, 0)).toBeCloseTo(0.25);
+  });
+
+  test('normalize maps constant fields to the minimum', () => {
+    const flat = new ScalarField(2, 2).map(() => 3).normalize(-1, 1);
+    expect(Array.from(flat.data)).toEqual([-1, -1, -1, -1]);
+  });
+
+  test('map and combine return new fields', () => {
+    const doubled = field.map((v) => v * 2);
+    const sum = field.combine(doubled, (a, b) => a + b);
+    expect(sum.get(1, 1)).toBe(30);
+    expect(field.get(1, 1)).toBe(10);
+  });
+
+  test('combine resamples fields on another grid', () => {
+    const coarse = ScalarField.fromFunction(2, 2, (x) => x, { cellSize: 2 });
+    const fine = ScalarField.fromFunction(3, 1, () => 0);
+    expect(Array.from(fine.combine(coarse, (_, b) => b).data)).toEqual([0, 1, 2]);
+  });
+
+  test('blur preserves constant fields and smooths spikes', () => {
+    const spike = new ScalarField(5, 5);
+    spike.set(2, 2, 1);
+    const blurred = spike.blur(2);
+    expect(blurred.get(2, 2)).toBeLessThan(1);
+    expect(blurred.get(1, 2)).toBeGreaterThan(0);
+
+    const flat = new ScalarField(4, 4).map(() => 5).blur(1);
+    for (const v of flat.data) expect(v).toBeCloseTo(5);
+  });
+
+  test('gradient of a linear ramp is constant', () => {
+    const ramp = ScalarField.fromFunction(5, 5, (x, y) => 3 * x - y, { cellSize: 0.5 });
+    const { dx, dy } = ramp.gradient();
+    // Including the borders, where one-sided differences are used
+    for (const v of dx.data) expect(v).toBeCloseTo(3);
+    for (const v of dy.data) expect(v).toBeCloseTo(-1);
+    expect(new ScalarField(1, 3).gradient().dx.get(0, 1)).toBe(0);
+    const g = ramp.gradientAt(1, 1);
+    expect(g.x).toBeCloseTo(3);
+    expect(g.y).toBeCloseTo(-1);
+  });
+
+  test('clone copies data', () => {
+    const copy = field.clone();
+    copy.set(0, 0, 100);
+    expect(field.get(0, 0)).toBe(2);
+  });
+});
+
+describe('field producers and consumers', () => {
+  test('marchingSquares gives the same cells for fields and arrays', () => {
+    const values = [
+      [0, 0, 0, 0],
+      [0, 1, 1, 0],
+      [0, 1, 1, 0],
+      [0, 0, 0, 0],
+    ];
+    const fromArray = marchingSquares(values, 0.5, 4, 4, false);
+    const fromField = marchingSquares(
+      ScalarField.fromArray(values),
+      0.5,
+      undefined,
+      undefined,
+      false,
+    );
+    expect(fromField.map((row) => row.map((c) => c.nr))).toEqual(
+      fromArray.map((row) => row.map((c) => c.nr)),
+    );
+  });
+
+  test('GrayScott.toField is normalized and row-major', () => {
+    const gs = new GrayScott(8, 6, 0.062, 0.055);
+    gs.addInitialSeed(3, 2, new SeededRandom(1));
+    gs.stepMany(5);
+    const field = gs.toField('b');
+    expect(field.width).toBe(8);
+    expect(field.height).toBe(6);
+    expect(field.min()).toBeGreaterThanOrEqual(0);
+    expect(field.max()).toBeLessThanOrEqual(1);
+    // toScalarField quantizes the same values to [0, 255]
+    const diff = field.get(5, 4) * 255 - gs.toScalarField('b')[4]![5]!;
+    expect(diff).toBeGreaterThan(-1e-3);
+    expect(diff).toBeLessThan(1);
+  });
+
+  test('worleyScalarField matches worleyField with default placement', () => {
+    const config = { seed: 7, cellSize: 4 };
+    const field = worleyScalarField(6, 4, config);
+    const array = worleyField(6, 4, config);
+    expect(field.get(5, 3)).toBeCloseTo(array[3]![5]!);
+  });
+
+  test('warpField matches warp2D at cell positions', () => {
+    const field = ScalarField.fromFunction(10, 10, (x, y) => Math.sin(x) + Math.cos(y), {
+      cellSize: 0.5,
+    });
+    const warpFn = (x: number, y: number): number => Math.sin(x * y) * 0.1;
+    const warped = warpField(field, warpFn, 2);
+    expect(warped.width).toBe(10);
+    expect(warped.get(3, 4)).toBeCloseTo(warp2D(field, warpFn, 1.5, 2, 2));
+  });
+});
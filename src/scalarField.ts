@@ -0,0 +1,371 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * Scalar fields backed by a flat Float32Array.
+ * A common grid type for noise, warping, simulations and contour extraction,
+ * stored row-major ([y][x]) with a world-space origin and cell size.
+ */
+
+import { createVector } from './vec2';
+
+/** Gaussian kernel sigma as a fraction of the blur radius */
+const BLUR_SIGMA_RATIO = 0.5;
+
+/** Minimum Gaussian sigma */
+const MIN_BLUR_SIGMA = 0.5;
+
+/** Catmull-Rom (a = -0.5) cubic convolution coefficient */
+const CUBIC_A = -0.5;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Placement of a field in world space */
+export type ScalarFieldConfig = {
+  /** World X of cell (0, 0) (default: 0) */
+  readonly originX?: number;
+  /** World Y of cell (0, 0) (default: 0) */
+  readonly originY?: number;
+  /** World size of one cell (default: 1) */
+  readonly cellSize?: number;
+};
+
+/** Interpolation used when sampling between cells */
+export type SampleMode = 'nearest' | 'bilinear' | 'bicubic';
+
+// ============================================================================
+// Interpolation Helpers
+// ============================================================================
+
+/**
+ * Cubic convolution weights for the four taps around fractional offset t.
+ */
+function cubicWeights(t: number): [number, number, number, number] {
+  const w = (x: number): number => {
+    const ax = Math.abs(x);
+    if (ax <= 1) return (CUBIC_A + 2) * ax ** 3 - (CUBIC_A + 3) * ax ** 2 + 1;
+    if (ax < 2) return CUBIC_A * ax ** 3 - 5 * CUBIC_A * ax ** 2 + 8 * CUBIC_A * ax - 4 * CUBIC_A;
+    return 0;
+  };
+  return [w(1 + t), w(t), w(1 - t), w(2 - t)];
+}
+
+// ============================================================================
+// Scalar Field Class
+// ============================================================================
+
+/**
+ * 2D grid of numbers with world-space placement.
+ * Cell (i, j) sits at world position (originX + i * cellSize, originY + j * cellSize).
+ * Operations return new fields; the source is never modified.
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise2D(42);
+ * const field = ScalarField.fromFunction(200, 200, (x, y) => fbm2D(noise, x, y), { cellSize: 2 });
+ * const smooth = field.blur(2).normalize();
+ * const cells = marchingSquares(smooth, 0.5);
+ * ```
+ */
+export class ScalarField {
+  readonly width: number;
+  readonly height: number;
+  readonly originX: number;
+  readonly originY: number;
+  readonly cellSize: number;
+  /** Row-major values: index = j * width + i */
+  readonly data: Float32Array;
+
+  /**
+   * Create a new field.
+   * @param width - Number of columns
+   * @param height - Number of rows
+   * @param config - World placement
+   * @param data - Row-major values to wrap without copying; copied into a zero-padded
+   *   array when the length is not width * height (default: zeros)
+   */
+  constructor(width: number, height: number, config: ScalarFieldConfig = {}, data?: Float32Array) {
+    this.width = width;
+    this.height = height;
+    this.originX = config.originX ?? 0;
+    this.originY = config.originY ?? 0;
+    this.cellSize = config.cellSize ?? 1;
+    if (data?.length === width * height) {
+      this.data = data;
+    } else {
+      this.data = new Float32Array(width * height);
+      if (data) this.data.set(data.subarray(0, this.data.length));
+    }
+  }
+
+  /**
+   * Create a field from nested arrays indexed [y][x].
+   * @param values - Row arrays
+   * @param config - World placement
+   * @returns New field
+   */
+  static fromArray(
+    values: ReadonlyArray<ReadonlyArray<number>>,
+    config: ScalarFieldConfig = {},
+  ): ScalarField {
+    const height = values.length;
+    const width = values[0]?.length ?? 0;
+    const field = new ScalarField(width, height, config);
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        field.data[j * width + i] = values[j]![i] ?? 0;
+      }
+    }
+    return field;
+  }
+
+  /**
+   * Create a field by evaluating a function at every cell's world position.
+   * @param width - Number of columns
+   * @param height - Number of rows
+   * @param fn - Function of world coordinates (e.g. a noise function)
+   * @param config - World placement
+   * @returns New field
+   */
+  static fromFunction(
+    width: number,
+    height: number,
+    fn: (x: number, y: number) => number,
+    config: ScalarFieldConfig = {},
+  ): ScalarField {
+    const field = new ScalarField(width, height, config);
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        field.data[j * width + i] = fn(field.worldX(i), field.worldY(j));
+      }
+    }
+    return field;
+  }
+
+  /** World X coordinate of column i. */
+  worldX(i: number): number {
+    return this.originX + i * this.cellSize;
+  }
+
+  /** World Y coordinate of row j. */
+  worldY(j: number): number {
+    return this.originY + j * this.cellSize;
+  }
+
+  /** Placement of this field, for creating fields on the same grid. */
+  get config(): Required<ScalarFieldConfig> {
+    return { originX: this.originX, originY: this.originY, cellSize: this.cellSize };
+  }
+
+  /**
+   * Get the value of a cell; indices are clamped to the grid.
+   * @param i - Column
+   * @param j - Row
+   * @returns Cell value
+   */
+  get(i: number, j: number): number {
+    const ci = Math.min(Math.max(i, 0), this.width - 1);
+    const cj = Math.min(Math.max(j, 0), this.height - 1);
+    return this.data[cj * this.width + ci]!;
+  }
+
+  /**
+   * Set the value of a cell (ignored outside the grid).
+   * @param i - Column
+   * @param j - Row
+   * @param value - New value
+   */
+  set(i: number, j: number, value: number): void {
+    if (i < 0 || j < 0 || i >= this.width || j >= this.height) return;
+    this.data[j * this.width + i] = value;
+  }
+
+  /**
+   * Sample the field at a world position; positions outside the grid are clamped.
+   * @param x - World X
+   * @param y - World Y
+   * @param mode - Interpolation (default: 'bilinear')
+   * @returns Interpolated value
+   */
+  sample(x: number, y: number, mode: SampleMode = 'bilinear'): number {
+    const gx = (x - this.originX) / this.cellSize;
+    const gy = (y - this.originY) / this.cellSize;
+
+    if (mode === 'nearest') return this.get(Math.round(gx), Math.round(gy));
+
+    const i = Math.floor(gx);
+    const j = Math.floor(gy);
+    const tx = gx - i;
+    const ty = gy - j;
+
+    if (mode === 'bilinear') {
+      const top = this.get(i, j) * (1 - tx) + this.get(i + 1, j) * tx;
+      const bottom = this.get(i, j + 1) * (1 - tx) + this.get(i + 1, j + 1) * tx;
+      return top * (1 - ty) + bottom * ty;
+    }
+
+    const wx = cubicWeights(tx);
+    const wy = cubicWeights(ty);
+    let sum = 0;
+    for (let n = 0; n < 4; n++) {
+      let row = 0;
+      for (let m = 0; m < 4; m++) {
+        row += this.get(i - 1 + m, j - 1 + n) * wx[m]!;
+      }
+      sum += row * wy[n]!;
+    }
+    return sum;
+  }
+
+  /**
+   * Get a function sampling this field, usable wherever a NoiseFunction2D is expected.
+   * @param mode - Interpolation (default: 'bilinear')
+   * @returns Function of world coordinates
+   */
+  sampler(mode: SampleMode = 'bilinear'): (x: number, y: number) => number {
+    return (x, y) => this.sample(x, y, mode);
+  }
+
+  /** Smallest value in the field (Infinity when empty). */
+  min(): number {
+    let result = Infinity;
+    for (const v of this.data) if (v < result) result = v;
+    return result;
+  }
+
+  /** Largest value in the field (-Infinity when empty). */
+  max(): number {
+    let result = -Infinity;
+    for (const v of this.data) if (v > result) result = v;
+    return result;
+  }
+
+  /**
+   * Linearly rescale values to a range; constant fields map to `min`.
+   * @param min - Output minimum (default: 0)
+   * @param max - Output maximum (default: 1)
+   * @returns New field
+   */
+  normalize(min = 0, max = 1): ScalarField {
+    const lo = this.min();
+    const range = this.max() - lo;
+    const scale = range > 0 ? (max - min) / range : 0;
+    return this.map((v) => min + (v - lo) * scale);
+  }
+
+  /**
+   * Transform every value.
+   * @param fn - Mapping of value and cell indices
+   * @returns New field on the same grid
+   */
+  map(fn: (value: number, i: number, j: number) => number): ScalarField {
+    const out = new ScalarField(this.width, this.height, this.config);
+    for (let j = 0; j < this.height; j++) {
+      for (let i = 0; i < this.width; i++) {
+        const k = j * this.width + i;
+        out.data[k] = fn(this.data[k]!, i, j);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Combine with another field cell by cell.
+   * Fields on a different grid are sampled (bilinear) at this field's cell positions.
+   * @param other - Second field
+   * @param fn - Combination of both values
+   * @returns New field on this field's grid
+   */
+  combine(other: ScalarField, fn: (a: number, b: number) => number): ScalarField {
+    const sameGrid =
+      other.width === this.width &&
+      other.height === this.height &&
+      other.originX === this.originX &&
+      other.originY === this.originY &&
+      other.cellSize === this.cellSize;
+    return this.map((v, i, j) =>
+      fn(
+        v,
+        sameGrid ? other.data[j * this.width + i]! : other.sample(this.worldX(i), this.worldY(j)),
+      ),
+    );
+  }
+
+  /**
+   * Gaussian blur (separable, edges clamped).
+   * @param radius - Kernel radius in cells
+   * @returns New field
+   */
+  blur(radius: number): ScalarField {
+    const r = Math.max(0, Math.round(radius));
+    if (r === 0) return this.map((v) => v);
+
+    const sigma = Math.max(MIN_BLUR_SIGMA, r * BLUR_SIGMA_RATIO);
+    const kernel = Array.from({ length: 2 * r + 1 }, (_, k) =>
+      Math.exp(-((k - r) ** 2) / (2 * sigma * sigma)),
+    );
+    const total = kernel.reduce((s, w) => s + w, 0);
+    const weights = kernel.map((w) => w / total);
+
+    const horizontal = this.map((_, i, j) =>
+      weights.reduce((s, w, k) => s + w * this.get(i + k - r, j), 0),
+    );
+    return horizontal.map((_, i, j) =>
+      weights.reduce((s, w, k) => s + w * horizontal.get(i, j + k - r), 0),
+    );
+  }
+
+  /**
+   * Partial derivatives per cell (world units): central differences inside
+   * the grid, one-sided differences on the first and last row and column.
+   * @returns Fields of d/dx and d/dy
+   */
+  gradient(): { readonly dx: ScalarField; readonly dy: ScalarField } {
+    const { width, height, cellSize } = this;
+    return {
+      dx: this.map((_, i, j) => {
+        const i0 = Math.max(0, i - 1);
+        const i1 = Math.min(width - 1, i + 1);
+        return i1 > i0 ? (this.get(i1, j) - this.get(i0, j)) / ((i1 - i0) * cellSize) : 0;
+      }),
+      dy: this.map((_, i, j) => {
+        const j0 = Math.max(0, j - 1);
+        const j1 = Math.min(height - 1, j + 1);
+        return j1 > j0 ? (this.get(i, j1) - this.get(i, j0)) / ((j1 - j0) * cellSize) : 0;
+      }),
+    };
+  }
+
+  /**
+   * Gradient at a world position (central differences of bilinear samples).
+   * @param x - World X
+   * @param y - World Y
+   * @returns Gradient vector
+   */
+  gradientAt(x: number, y: number): p5.Vector {
+    const h = this.cellSize;
+    return createVector(
+      (this.sample(x + h, y) - this.sample(x - h, y)) / (2 * h),
+      (this.sample(x, y + h) - this.sample(x, y - h)) / (2 * h),
+    );
+  }
+
+  /**
+   * Copy the field.
+   * @returns New field with the same values and placement
+   */
+  clone(): ScalarField {
+    return new ScalarField(this.width, this.height, this.config, this.data.slice());
+  }
+
+  /**
+   * Convert to nested arrays indexed [y][x].
+   * @returns Row arrays
+   */
+  toArray(): number[][] {
+    return Array.from({ length: this.height }, (_, j) =>
+      Array.from(this.data.subarray(j * this.width, (j + 1) * this.width)),
+    );
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for simplex noise.
+ * These tests cover: SimplexNoise2D, SimplexNoise3D, SimplexNoise4D, the
+ * fbm2D/fbm3D/fbm4D variants, seams between simplices, seamless loops with
+ * loopNoise and tiling with periodicNoise2D and periodicFbm2D.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { SeededRandom } from './random';
+import {
+  SimplexNoise2D,
+  SimplexNoise3D,
+  SimplexNoise4D,
+  fbm2D,
+  fbm3D,
+  fbm4D,
+  loopNoise,
+  periodicFbm2D,
+} from './simplexCurl';
+
+/** Deterministic sample coordinates in [-20, 20) */
+const samples = (count: number, dims: number): number[][] => {
+  const rng = new SeededRandom(99);
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dims }, () => rng.next() * 40 - 20),
+  );
+};
+
+describe('SimplexNoise2D', () => {
+  test('output is unchanged by the shared permutation table', () => {
+    const noise = new SimplexNoise2D(42);
+    expect(noise.noise2D(10.5, 20.3)).toBeCloseTo(0.735256347917767, 12);
+    expect(fbm2D(noise, 100, 200, 0.5, 4)).toBeCloseTo(0.2304688014828904, 12);
+  });
+});
+
+describe('SimplexNoise3D', () => {
+  test('output for a fixed seed stays pinned', () => {
+    const noise = new SimplexNoise3D(42);
+    expect(noise.noise3D(10.5, 20.3, 4.7)).toBeCloseTo(-0.20625004910617487, 12);
+    expect(fbm3D(noise, 100, 200, 50, 0.5, 4)).toBeCloseTo(0.9236744022669638, 12);
+  });
+
+  test('same seed gives the same noise, different seeds differ', () => {
+    const a = new SimplexNoise3D(7);
+    const b = new SimplexNoise3D(7);
+    const c = new SimplexNoise3D(8);
+    expect(a.noise3D(1.3, 2.7, 3.1)).toBe(b.noise3D(1.3, 2.7, 3.1));
+    expect(a.noise3D(1.3, 2.7, 3.1)).not.toBe(c.noise3D(1.3, 2.7, 3.1));
+    expect(new SimplexNoise3D(new SeededRandom(5)).noise3D(0.3, 0.2, 0.1)).toBe(
+      new SimplexNoise3D(new SeededRandom(5)).noise3D(0.3, 0.2, 0.1),
+    );
+  });
+
+  test('values stay in [-1, 1] and vary smoothly', () => {
+    const noise = new SimplexNoise3D(3);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const [x, y, z] of samples(5000, 3)) {
+      const v = noise.noise3D(x!, y!, z!);
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+      expect(Math.abs(noise.noise3D(x!, y!, z! + 1e-4) - v)).toBeLessThan(0.01);
+    }
+    expect(min).toBeGreaterThanOrEqual(-1);
+    expect(max).toBeLessThanOrEqual(1);
+    expect(max - min).toBeGreaterThan(1.2);
+  });
+
+  test('has no seams between simplices', () => {
+    const noise = new SimplexNoise3D(3);
+    let prev = noise.noise3D(0, 0.31, 0.17);
+    let maxStep = 0;
+    for (let x = 1e-4; x < 20; x += 1e-4) {
+      const v = noise.noise3D(x, 0.31 + x * 0.37, 0.17 + x * 0.61);
+      maxStep = Math.max(maxStep, Math.abs(v - prev));
+      prev = v;
+    }
+    expect(maxStep).toBeLessThan(2e-3);
+  });
+
+  test('integer lattice points are zero', () => {
+    const noise = new SimplexNoise3D(11);
+    expect(noise.noise3D(3, -2, 5)).toBeCloseTo(0, 12);
+  });
+
+  test('fbm3D is deterministic and varies with z', () => {
+    const noise = new SimplexNoise3D(42);
+    const v = fbm3D(noise, 100, 200, 0, 0.5, 4);
+    expect(fbm3D(noise, 100, 200, 0, 0.5, 4)).toBe(v);
+    expect(fbm3D(noise, 100, 200, 300, 0.5, 4)).not.toBe(v);
+  });
+});
+
+describe('SimplexNoise4D', () => {
+  test('output for a fixed seed stays pinned', () => {
+    const noise = new SimplexNoise4D(42);
+    expect(noise.noise4D(10.5, 20.3, 4.7, 1.9)).toBeCloseTo(-0.08638862510958145, 12);
+    expect(fbm4D(noise, 100, 200, 50, 30, 0.5, 4)).toBeCloseTo(-0.06462124282720476, 12);
+    expect(noise.loopNoise(1.2, 3.4, 0.7, 4)).toBeCloseTo(-0.6310411221703542, 12);
+  });
+
+  test('values stay in [-1, 1] and vary smoothly', () => {
+    const noise = new SimplexNoise4D(3);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const [x, y, z, w] of samples(5000, 4)) {
+      const v = noise.noise4D(x!, y!, z!, w!);
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+      expect(Math.abs(noise.noise4D(x!, y!, z!, w! + 1e-4) - v)).toBeLessThan(0.01);
+    }
+    expect(min).toBeGreaterThanOrEqual(-1);
+    expect(max).toBeLessThanOrEqual(1);
+    expect(max - min).toBeGreaterThan(1.2);
+  });
+
+  test('has no seams between simplices', () => {
+    const noise = new SimplexNoise4D(3);
+    let prev = noise.noise4D(0, 0.31, 0.17, 0.53);
+    let maxStep = 0;
+    for (let x = 1e-4; x < 20; x += 1e-4) {
+      const v = noise.noise4D(x, 0.31 + x * 0.37, 0.17 + x * 0.61, 0.53 + x * 0.29);
+      maxStep = Math.max(maxStep, Math.abs(v - prev));
+      prev = v;
+    }
+    expect(maxStep).toBeLessThan(2e-3);
+  });
+
+  test('same seed gives the same noise', () => {
+    const a = new SimplexNoise4D(7);
+    const b = new SimplexNoise4D(7);
+    expect(a.noise4D(1.3, 2.7, 3.1, 4.9)).toBe(b.noise4D(1.3, 2.7, 3.1, 4.9));
+    expect(a.noise4D(1.3, 2.7, 3.1, 4.9)).not.toBe(
+      new SimplexNoise4D(8).noise4D(1.3, 2.7, 3.1, 4.9),
+    );
+  });
+
+  test('loopNoise repeats every period and changes within it', () => {
+    const noise = new SimplexNoise4D(5);
+    for (const t of [0, 0.3, 1.7]) {
+      expect(noise.loopNoise(1.2, 3.4, t + 4, 4)).toBeCloseTo(noise.loopNoise(1.2, 3.4, t, 4), 10);
+    }
+    const a = noise.loopNoise(1.2, 3.4, 0, 4);
+    expect(noise.loopNoise(1.2, 3.4, 2, 4)).not.toBeCloseTo(a, 3);
+    // Small time steps move as far through the noise as small x steps
+    expect(Math.abs(noise.loopNoise(1.2, 3.4, 0.001, 4) - a)).toBeLessThan(0.02);
+    expect(Number.isFinite(noise.loopNoise(1, 2, 3, 0))).toBe(true);
+    expect(loopNoise(noise, 1.2, 3.4, 1.7, 4)).toBe(noise.loopNoise(1.2, 3.4, 1.7, 4));
+  });
+
+  test('fbm4D loops when time follows a circle in z and w', () => {
+    const noise = new SimplexNoise4D(42);
+    const at = (angle: number) =>
+      fbm4D(noise, 50, 80, 300 * Math.cos(angle), 300 * Math.sin(angle), 0.5, 4);
+    expect(at(TWO_PI + 1)).toBeCloseTo(at(1), 10);
+    expect(at(1)).not.toBe(at(2));
+  });
+});
+
+describe('periodic noise', () => {
+  test('periodicNoise2D wraps in x and y', () => {
+    const noise = new SimplexNoise4D(9);
+    for (const [x, y] of samples(200, 2)) {
+      const v = noise.periodicNoise2D(x!, y!, 5, 3);
+      expect(noise.periodicNoise2D(x! + 5, y!, 5, 3)).toBeCloseTo(v, 10);
+      expect(noise.periodicNoise2D(x!, y! - 6, 5, 3)).toBeCloseTo(v, 10);
+      expect(Math.abs(v)).toBeLessThanOrEqual(1);
+    }
+    // The y period defaults to the x period
+    expect(noise.periodicNoise2D(1.3, 2.7 + 4, 4)).toBeCloseTo(
+      noise.periodicNoise2D(1.3, 2.7, 4),
+      10,
+    );
+  });
+
+  test('opposite tile edges match', () => {
+    const noise = new SimplexNoise4D(9);
+    for (let i = 0; i <= 10; i++) {
+      const y = i * 0.4;
+      expect(noise.periodicNoise2D(0, y, 4, 4)).toBeCloseTo(noise.periodicNoise2D(4, y, 4, 4), 10);
+      expect(noise.periodicNoise2D(y, 0, 4, 4)).toBeCloseTo(noise.periodicNoise2D(y, 4, 4, 4), 10);
+    }
+  });
+
+  test('periodicFbm2D repeats with its period in input units', () => {
+    const noise = new SimplexNoise4D(42);
+    for (const [x, y] of samples(100, 2)) {
+      const v = periodicFbm2D(noise, x! * 20, y! * 20, 400, 300, 5, 4);
+      expect(periodicFbm2D(noise, x! * 20 + 400, y! * 20 + 300, 400, 300, 5, 4)).toBeCloseTo(v, 9);
+    }
+    expect(periodicFbm2D(noise, 10, 20, 400)).not.toBe(periodicFbm2D(noise, 110, 20, 400));
+  });
+
+  test('non-positive periods leave an axis unwrapped', () => {
+    const noise = new SimplexNoise4D(2);
+    expect(noise.periodicNoise2D(1.3, 0.4, 0, 5)).not.toBeCloseTo(
+      noise.periodicNoise2D(2.6, 0.4, 0, 5),
+      6,
+    );
+    expect(noise.periodicNoise2D(1.3, 0.4, 0, 5)).toBeCloseTo(
+      noise.periodicNoise2D(1.3, 5.4, 0, 5),
+      10,
+    );
+  });
+});
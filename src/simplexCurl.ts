@@ -1,9 +1,17 @@
 /// <reference path="../node_modules/@types/p5/global.d.ts" />
 
 /**
- * 2D Simplex noise generation with fractal Brownian motion (FBM) and curl noise.
+ * Seeded 2D, 3D and 4D Simplex noise with fractal Brownian motion (FBM) and curl noise.
+ *
+ * All dimensions share the same seeded permutation table, so a 3D or 4D
+ * generator built from a seed is as reproducible as the 2D one. 4D noise
+ * also provides seamless loops over time and 2D noise that tiles with any
+ * period, by sampling circles in 4D space.
  */
 
+import { type SeededRandom, toSeed } from './random';
+import { createVector } from './vec2';
+
 /** Simplex noise scale factor to normalize output to approximately [-1, 1] */
 const NOISE_SCALE_FACTOR = 70;
 
@@ -13,9 +21,27 @@ const SIMPLEX_SKEW_2D = (Math.sqrt(3) - 1) / 2;
 /** Unskew factor for 2D simplex noise */
 const SIMPLEX_UNSKEW_2D = (3 - Math.sqrt(3)) / 6;
 
-/** Corner contribution threshold for simplex noise */
+/** Corner contribution threshold for simplex noise (larger radii reach past the simplex and leave seams in 3D and 4D) */
 const CORNER_THRESHOLD = 0.5;
 
+/** 3D simplex noise scale factor to normalize output to approximately [-1, 1] */
+const NOISE_SCALE_FACTOR_3D = 76.8;
+
+/** 4D simplex noise scale factor to normalize output to approximately [-1, 1] */
+const NOISE_SCALE_FACTOR_4D = 62.7;
+
+/** Skew factor for 3D simplex noise */
+const SIMPLEX_SKEW_3D = 1 / 3;
+
+/** Unskew factor for 3D simplex noise */
+const SIMPLEX_UNSKEW_3D = 1 / 6;
+
+/** Skew factor for 4D simplex noise */
+const SIMPLEX_SKEW_4D = (Math.sqrt(5) - 1) / 4;
+
+/** Unskew factor for 4D simplex noise */
+const SIMPLEX_UNSKEW_4D = (5 - Math.sqrt(5)) / 20;
+
 /** Permutation table size */
 const PERM_SIZE = 512;
 
@@ -28,6 +54,9 @@ const HASH_MULTIPLIER = 1103515245;
 /** Number of gradient vectors */
 const GRADIENT_COUNT = 12;
 
+/** Number of 4D gradient vectors */
+const GRADIENT_COUNT_4D = 32;
+
 /** Default FBM frequency divisor */
 const DEFAULT_FBM_FREQUENCY_DIVISOR = 1000;
 
@@ -65,6 +94,107 @@ const GRADIENT_VECTORS: ReadonlyArray<readonly [number, number]> = [
   [0, -1],
 ] as const;
 
+/** Gradient vectors for 3D simplex noise (midpoints of the 12 cube edges) */
+const GRADIENT_VECTORS_3D: ReadonlyArray<readonly [number, number, number]> = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1],
+] as const;
+
+/** Gradient vectors for 4D simplex noise (midpoints of the 32 tesseract edges) */
+const GRADIENT_VECTORS_4D: ReadonlyArray<readonly [number, number, number, number]> = [
+  [0, 1, 1, 1],
+  [0, 1, 1, -1],
+  [0, 1, -1, 1],
+  [0, 1, -1, -1],
+  [0, -1, 1, 1],
+  [0, -1, 1, -1],
+  [0, -1, -1, 1],
+  [0, -1, -1, -1],
+  [1, 0, 1, 1],
+  [1, 0, 1, -1],
+  [1, 0, -1, 1],
+  [1, 0, -1, -1],
+  [-1, 0, 1, 1],
+  [-1, 0, 1, -1],
+  [-1, 0, -1, 1],
+  [-1, 0, -1, -1],
+  [1, 1, 0, 1],
+  [1, 1, 0, -1],
+  [1, -1, 0, 1],
+  [1, -1, 0, -1],
+  [-1, 1, 0, 1],
+  [-1, 1, 0, -1],
+  [-1, -1, 0, 1],
+  [-1, -1, 0, -1],
+  [1, 1, 1, 0],
+  [1, 1, -1, 0],
+  [1, -1, 1, 0],
+  [1, -1, -1, 0],
+  [-1, 1, 1, 0],
+  [-1, 1, -1, 0],
+  [-1, -1, 1, 0],
+  [-1, -1, -1, 0],
+] as const;
+
+/**
+ * Integer hash function for seeded random permutation.
+ * @param i - Input integer
+ * @returns Hashed integer
+ */
+function permutationHash(i: number): number {
+  i = HASH_MULTIPLIER * ((i >> 1) ^ i);
+  const h32 = HASH_MULTIPLIER * (i ^ (i >> 3));
+  return h32 ^ (h32 >> 16);
+}
+
+/**
+ * Build the doubled permutation table shared by all simplex dimensions.
+ * @param source - Integer seed or SeededRandom
+ * @returns Permutation of 0-255, repeated twice to avoid index wrapping
+ */
+function seededPermutation(source: number | SeededRandom): Uint8Array {
+  const perm = new Uint8Array(PERM_SIZE);
+  let seed = toSeed(source);
+
+  // Initialize permutation table
+  for (let i = 0; i < PERM_SIZE; i++) {
+    perm[i] = i & PERM_MASK;
+  }
+
+  // Shuffle with seeded hash
+  for (let i = 0; i < PERM_MASK; i++) {
+    const r = ((seed = permutationHash(i + seed)) % (PERM_MASK + 1 - i)) + i;
+    const swp = perm[i]!;
+    perm[i + PERM_MASK + 1] = perm[i] = perm[r]!;
+    perm[r + PERM_MASK + 1] = perm[r] = swp;
+  }
+  return perm;
+}
+
+/**
+ * Map a coordinate onto a circle whose circumference is the period, so that
+ * it wraps seamlessly while moving through noise at its original rate.
+ * @param v - Coordinate to wrap
+ * @param period - Wrapping period; non-positive periods leave v unwrapped
+ * @returns Two coordinates on the circle
+ */
+function periodicCoordinates(v: number, period: number): [number, number] {
+  if (period <= 0) return [v, 0];
+  const angle = (v / period) * TWO_PI;
+  const radius = period / TWO_PI;
+  return [radius * Math.cos(angle), radius * Math.sin(angle)];
+}
+
 /**
  * Seeded 2D Simplex noise generator.
  * Produces smooth, continuous noise in the range approximately [-1, 1].
@@ -80,23 +210,10 @@ export class SimplexNoise2D {
 
   /**
    * Create a new seeded simplex noise generator.
-   * @param seed - Integer seed for reproducible noise (default: 1)
+   * @param source - Integer seed or SeededRandom for reproducible noise (default: 1)
    */
-  constructor(seed = 1) {
-    this.perm = new Uint8Array(PERM_SIZE);
-
-    // Initialize permutation table
-    for (let i = 0; i < PERM_SIZE; i++) {
-      this.perm[i] = i & PERM_MASK;
-    }
-
-    // Shuffle with seeded hash
-    for (let i = 0; i < PERM_MASK; i++) {
-      const r = ((seed = SimplexNoise2D.hash(i + seed)) % (PERM_MASK + 1 - i)) + i;
-      const swp = this.perm[i]!;
-      this.perm[i + PERM_MASK + 1] = this.perm[i] = this.perm[r]!;
-      this.perm[r + PERM_MASK + 1] = this.perm[r] = swp;
-    }
+  constructor(source: number | SeededRandom = 1) {
+    this.perm = seededPermutation(source);
   }
 
   /**
@@ -161,16 +278,282 @@ export class SimplexNoise2D {
     // Scale to approximately [-1, 1]
     return NOISE_SCALE_FACTOR * (n0 + n1 + n2);
   }
+}
+
+/**
+ * Seeded 3D Simplex noise generator, for volumes and 2D noise animated over time.
+ * Produces smooth, continuous noise in the range approximately [-1, 1].
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise3D(12345);
+ * const value = noise.noise3D(x * 0.01, y * 0.01, frameCount * 0.005); // ~[-1, 1]
+ * ```
+ */
+export class SimplexNoise3D {
+  private readonly perm: Uint8Array;
+
+  /**
+   * Create a new seeded 3D simplex noise generator.
+   * @param source - Integer seed or SeededRandom for reproducible noise (default: 1)
+   */
+  constructor(source: number | SeededRandom = 1) {
+    this.perm = seededPermutation(source);
+  }
+
+  /**
+   * Sample 3D simplex noise at coordinates (x, y, z).
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param z - Z coordinate
+   * @returns Noise value in approximately [-1, 1]
+   */
+  noise3D(x: number, y: number, z: number): number {
+    // Skew input space to determine which simplex cell we're in
+    const s = (x + y + z) * SIMPLEX_SKEW_3D;
+    const cx = Math.floor(x + s);
+    const cy = Math.floor(y + s);
+    const cz = Math.floor(z + s);
+
+    // Unskew back to (x0, y0, z0) in simplex cell
+    const t = (cx + cy + cz) * SIMPLEX_UNSKEW_3D;
+    const x0 = x - cx + t;
+    const y0 = y - cy + t;
+    const z0 = z - cz + t;
+
+    // Determine which of the six tetrahedra we're in: offsets of the second
+    // and third corners, walking along the largest coordinates first
+    let i1: number, j1: number, k1: number, i2: number, j2: number, k2: number;
+    if (x0 >= y0) {
+      if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
+    }
+
+    const i = cx & PERM_MASK;
+    const j = cy & PERM_MASK;
+    const k = cz & PERM_MASK;
+    const perm = this.perm;
+
+    // Sum the four corner contributions and scale to approximately [-1, 1]
+    return (
+      NOISE_SCALE_FACTOR_3D *
+      (this.corner(x0, y0, z0, perm[i + perm[j + perm[k]!]!]!) +
+        this.corner(
+          x0 - i1 + SIMPLEX_UNSKEW_3D,
+          y0 - j1 + SIMPLEX_UNSKEW_3D,
+          z0 - k1 + SIMPLEX_UNSKEW_3D,
+          perm[i + i1 + perm[j + j1 + perm[k + k1]!]!]!,
+        ) +
+        this.corner(
+          x0 - i2 + 2 * SIMPLEX_UNSKEW_3D,
+          y0 - j2 + 2 * SIMPLEX_UNSKEW_3D,
+          z0 - k2 + 2 * SIMPLEX_UNSKEW_3D,
+          perm[i + i2 + perm[j + j2 + perm[k + k2]!]!]!,
+        ) +
+        this.corner(
+          x0 - 1 + 3 * SIMPLEX_UNSKEW_3D,
+          y0 - 1 + 3 * SIMPLEX_UNSKEW_3D,
+          z0 - 1 + 3 * SIMPLEX_UNSKEW_3D,
+          perm[i + 1 + perm[j + 1 + perm[k + 1]!]!]!,
+        ))
+    );
+  }
+
+  /**
+   * Contribution of one simplex corner.
+   * @param x - X offset from the corner
+   * @param y - Y offset from the corner
+   * @param z - Z offset from the corner
+   * @param hash - Permutation value of the corner
+   * @returns Attenuated gradient dot product
+   */
+  private corner(x: number, y: number, z: number, hash: number): number {
+    let t = CORNER_THRESHOLD - x * x - y * y - z * z;
+    if (t <= 0) return 0;
+    t *= t;
+    const g = GRADIENT_VECTORS_3D[hash % GRADIENT_COUNT]!;
+    return t * t * (g[0] * x + g[1] * y + g[2] * z);
+  }
+}
+
+/**
+ * Seeded 4D Simplex noise generator, for animated volumes and seamless loops.
+ * Produces smooth, continuous noise in the range approximately [-1, 1].
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise4D(12345);
+ * const value = noise.noise4D(x, y, z, time); // ~[-1, 1]
+ * ```
+ */
+export class SimplexNoise4D {
+  private readonly perm: Uint8Array;
+
+  /**
+   * Create a new seeded 4D simplex noise generator.
+   * @param source - Integer seed or SeededRandom for reproducible noise (default: 1)
+   */
+  constructor(source: number | SeededRandom = 1) {
+    this.perm = seededPermutation(source);
+  }
+
+  /**
+   * Sample 4D simplex noise at coordinates (x, y, z, w).
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param z - Z coordinate
+   * @param w - W coordinate
+   * @returns Noise value in approximately [-1, 1]
+   */
+  noise4D(x: number, y: number, z: number, w: number): number {
+    // Skew input space to determine which simplex cell we're in
+    const s = (x + y + z + w) * SIMPLEX_SKEW_4D;
+    const cx = Math.floor(x + s);
+    const cy = Math.floor(y + s);
+    const cz = Math.floor(z + s);
+    const cw = Math.floor(w + s);
+
+    // Unskew back to (x0, y0, z0, w0) in simplex cell
+    const t = (cx + cy + cz + cw) * SIMPLEX_UNSKEW_4D;
+    const x0 = x - cx + t;
+    const y0 = y - cy + t;
+    const z0 = z - cz + t;
+    const w0 = w - cw + t;
+
+    // Rank the coordinates: the simplex steps along the largest one first
+    let rankX = 0;
+    let rankY = 0;
+    let rankZ = 0;
+    let rankW = 0;
+    if (x0 > y0) rankX++;
+    else rankY++;
+    if (x0 > z0) rankX++;
+    else rankZ++;
+    if (x0 > w0) rankX++;
+    else rankW++;
+    if (y0 > z0) rankY++;
+    else rankZ++;
+    if (y0 > w0) rankY++;
+    else rankW++;
+    if (z0 > w0) rankZ++;
+    else rankW++;
+
+    const i = cx & PERM_MASK;
+    const j = cy & PERM_MASK;
+    const k = cz & PERM_MASK;
+    const l = cw & PERM_MASK;
+
+    // Corner n (1 to 3) is offset along every axis ranked at least 4 - n
+    let sum = this.corner(x0, y0, z0, w0, i, j, k, l);
+    for (let n = 1; n <= 3; n++) {
+      const oX = rankX >= 4 - n ? 1 : 0;
+      const oY = rankY >= 4 - n ? 1 : 0;
+      const oZ = rankZ >= 4 - n ? 1 : 0;
+      const oW = rankW >= 4 - n ? 1 : 0;
+      const u = n * SIMPLEX_UNSKEW_4D;
+      sum += this.corner(
+        x0 - oX + u,
+        y0 - oY + u,
+        z0 - oZ + u,
+        w0 - oW + u,
+        i + oX,
+        j + oY,
+        k + oZ,
+        l + oW,
+      );
+    }
+    const u = 4 * SIMPLEX_UNSKEW_4D;
+    sum += this.corner(x0 - 1 + u, y0 - 1 + u, z0 - 1 + u, w0 - 1 + u, i + 1, j + 1, k + 1, l + 1);
+
+    // Scale to approximately [-1, 1]
+    return NOISE_SCALE_FACTOR_4D * sum;
+  }
+
+  /**
+   * Sample noise that loops seamlessly in time.
+   *
+   * Time travels around a circle of circumference `period` in (z, w), so
+   * `t` moves through the noise at the same rate as `x` and `y` and the
+   * value at `t + period` equals the value at `t`.
+   *
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param t - Time
+   * @param period - Time after which the noise repeats
+   * @returns Noise value in approximately [-1, 1]
+   *
+   * @example
+   * ```ts
+   * const noise = new SimplexNoise4D(7);
+   * // A 120-frame loop for a GIF
+   * const v = noise.loopNoise(x * 0.01, y * 0.01, frameCount / 120, 1);
+   * ```
+   */
+  loopNoise(x: number, y: number, t: number, period: number): number {
+    const [z, w] = periodicCoordinates(t, period);
+    return this.noise4D(x, y, z, w);
+  }
+
+  /**
+   * Sample 2D noise that tiles seamlessly.
+   *
+   * x travels around a circle in (x, y) and y around a circle in (z, w) of
+   * 4D noise, each with circumference equal to its period, so the result
+   * wraps like a torus with features the same size as untiled noise.
+   *
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param periodX - Distance after which the noise repeats in x
+   * @param periodY - Distance after which the noise repeats in y (default: periodX)
+   * @returns Noise value in approximately [-1, 1]
+   *
+   * @example
+   * ```ts
+   * const noise = new SimplexNoise4D(7);
+   * // Wallpaper tile: the right and bottom edges match the left and top
+   * const v = noise.periodicNoise2D(x * 0.02, y * 0.02, width * 0.02, height * 0.02);
+   * ```
+   */
+  periodicNoise2D(x: number, y: number, periodX: number, periodY = periodX): number {
+    const [ax, bx] = periodicCoordinates(x, periodX);
+    const [ay, by] = periodicCoordinates(y, periodY);
+    return this.noise4D(ax, bx, ay, by);
+  }
 
   /**
-   * Integer hash function for seeded random permutation.
-   * @param i - Input integer
-   * @returns Hashed integer
+   * Contribution of one simplex corner.
+   * @param x - X offset from the corner
+   * @param y - Y offset from the corner
+   * @param z - Z offset from the corner
+   * @param w - W offset from the corner
+   * @param i - Wrapped X cell index of the corner
+   * @param j - Wrapped Y cell index of the corner
+   * @param k - Wrapped Z cell index of the corner
+   * @param l - Wrapped W cell index of the corner
+   * @returns Attenuated gradient dot product
    */
-  private static hash(i: number): number {
-    i = HASH_MULTIPLIER * ((i >> 1) ^ i);
-    const h32 = HASH_MULTIPLIER * (i ^ (i >> 3));
-    return h32 ^ (h32 >> 16);
+  private corner(
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    i: number,
+    j: number,
+    k: number,
+    l: number,
+  ): number {
+    let t = CORNER_THRESHOLD - x * x - y * y - z * z - w * w;
+    if (t <= 0) return 0;
+    t *= t;
+    const perm = this.perm;
+    const hash = perm[i + perm[j + perm[k + perm[l]!]!]!]!;
+    const g = GRADIENT_VECTORS_4D[hash % GRADIENT_COUNT_4D]!;
+    return t * t * (g[0] * x + g[1] * y + g[2] * z + g[3] * w);
   }
 }
 
@@ -213,6 +596,174 @@ export function fbm2D(
   return v;
 }
 
+/**
+ * Fractal Brownian Motion (FBM) using layered octaves of 3D simplex noise.
+ * Same octave layout as {@link fbm2D}, with z as the third coordinate.
+ *
+ * @param noise - SimplexNoise3D instance to use
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param z - Z coordinate
+ * @param frequency - Base frequency multiplier (default: 0.3)
+ * @param octaves - Number of noise layers to combine (default: 3)
+ * @returns Combined noise value
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise3D(42);
+ * const value = fbm3D(noise, 100, 200, frameCount, 0.5, 4);
+ * ```
+ */
+export function fbm3D(
+  noise: SimplexNoise3D,
+  x: number,
+  y: number,
+  z: number,
+  frequency = 0.3,
+  octaves = 3,
+): number {
+  x *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  y *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  z *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+
+  let f = 1;
+  let v = 0;
+
+  for (let i = 0; i < octaves; i++) {
+    v += noise.noise3D(x * f, y * f, z * f) / f;
+    f *= FBM_FREQUENCY_MULTIPLIER;
+    x += DEFAULT_FBM_OCTAVE_SHIFT;
+  }
+
+  return v;
+}
+
+/**
+ * Fractal Brownian Motion (FBM) using layered octaves of 4D simplex noise.
+ * Same octave layout as {@link fbm2D}; octaves shift only along x, so a
+ * circle sampled in (z, w) still loops seamlessly.
+ *
+ * @param noise - SimplexNoise4D instance to use
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param z - Z coordinate
+ * @param w - W coordinate
+ * @param frequency - Base frequency multiplier (default: 0.3)
+ * @param octaves - Number of noise layers to combine (default: 3)
+ * @returns Combined noise value
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise4D(42);
+ * const a = (frameCount / 120) * TWO_PI;
+ * const value = fbm4D(noise, x, y, 200 * cos(a), 200 * sin(a), 0.5, 4);
+ * ```
+ */
+export function fbm4D(
+  noise: SimplexNoise4D,
+  x: number,
+  y: number,
+  z: number,
+  w: number,
+  frequency = 0.3,
+  octaves = 3,
+): number {
+  x *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  y *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  z *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  w *= frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+
+  let f = 1;
+  let v = 0;
+
+  for (let i = 0; i < octaves; i++) {
+    v += noise.noise4D(x * f, y * f, z * f, w * f) / f;
+    f *= FBM_FREQUENCY_MULTIPLIER;
+    x += DEFAULT_FBM_OCTAVE_SHIFT;
+  }
+
+  return v;
+}
+
+/**
+ * Sample 4D noise that loops seamlessly in time.
+ * Function form of {@link SimplexNoise4D.loopNoise}, taking the generator
+ * first like the fbm variants so it can be passed around the same way.
+ *
+ * @param noise - SimplexNoise4D instance to use
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param t - Time
+ * @param period - Time after which the noise repeats
+ * @returns Noise value in approximately [-1, 1]
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise4D(7);
+ * // A 120-frame loop for a GIF
+ * const v = loopNoise(noise, x * 0.01, y * 0.01, frameCount / 120, 1);
+ * ```
+ */
+export function loopNoise(
+  noise: SimplexNoise4D,
+  x: number,
+  y: number,
+  t: number,
+  period: number,
+): number {
+  return noise.loopNoise(x, y, t, period);
+}
+
+/**
+ * Fractal Brownian Motion (FBM) that tiles seamlessly.
+ * Same frequency and octave layout as {@link fbm2D}, with every octave
+ * sampled through {@link SimplexNoise4D.periodicNoise2D}. Periods are in
+ * input coordinates, so a `periodX` by `periodY` tile repeats exactly.
+ *
+ * @param noise - SimplexNoise4D instance to use
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param periodX - Distance after which the noise repeats in x
+ * @param periodY - Distance after which the noise repeats in y (default: periodX)
+ * @param frequency - Base frequency multiplier (default: 0.3)
+ * @param octaves - Number of noise layers to combine (default: 3)
+ * @returns Combined noise value
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise4D(42);
+ * // Toroidal flow field: particles leaving one edge re-enter the other
+ * const fbmFn = (x: number, y: number) => periodicFbm2D(noise, x, y, width, height, 3);
+ * const vel = curlNoise2D(p.x, p.y, fbmFn);
+ * ```
+ */
+export function periodicFbm2D(
+  noise: SimplexNoise4D,
+  x: number,
+  y: number,
+  periodX: number,
+  periodY = periodX,
+  frequency = 0.3,
+  octaves = 3,
+): number {
+  const scale = frequency / DEFAULT_FBM_FREQUENCY_DIVISOR;
+  x *= scale;
+  y *= scale;
+  const px = periodX * scale;
+  const py = periodY * scale;
+
+  let f = 1;
+  let v = 0;
+
+  for (let i = 0; i < octaves; i++) {
+    v += noise.periodicNoise2D(x * f, y * f, px * f, py * f) / f;
+    f *= FBM_FREQUENCY_MULTIPLIER;
+    x += DEFAULT_FBM_OCTAVE_SHIFT;
+  }
+
+  return v;
+}
+
 /**
  * Type for FBM function that can be passed to curlNoise2D.
  */
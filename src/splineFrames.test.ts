@@ -0,0 +1,196 @@
+/**
+ * Tests for spline frames.
+ * These tests cover: splineCurvature, splineSignedCurvature, splineNormal,
+ * rotationMinimizingFrames (open, closed and 3D), adaptiveSplineParams,
+ * adaptiveSplinePoints, splineStroke and splineTube.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { CatmullRomSpline } from './catmullRom';
+import {
+  adaptiveSplineParams,
+  adaptiveSplinePoints,
+  rotationMinimizingFrames,
+  splineCurvature,
+  splineNormal,
+  splineSignedCurvature,
+  splineStroke,
+  splineTube,
+} from './splineFrames';
+import { BSpline, HermiteSpline } from './splines';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number, z = 0): p5.Vector => createVector(x, y, z);
+
+/** Closed uniform Catmull-Rom through points on a circle of radius r */
+const circleSpline = (r: number, n = 32, is3D = false): CatmullRomSpline => {
+  const spline = new CatmullRomSpline({ closed: true, alpha: 0, is3D });
+  spline.setPoints(
+    Array.from({ length: n }, (_, i) =>
+      v(r * Math.cos((i / n) * TWO_PI), r * Math.sin((i / n) * TWO_PI)),
+    ),
+  );
+  return spline;
+};
+
+/** Straight Hermite line from (0, 0) to (30, 0) */
+const straight = (): HermiteSpline => {
+  const spline = new HermiteSpline();
+  spline.setPoints([v(0, 0), v(10, 0), v(20, 0), v(30, 0)]);
+  return spline;
+};
+
+const len = (p: p5.Vector): number => Math.hypot(p.x, p.y, p.z);
+const dot = (a: p5.Vector, b: p5.Vector): number => a.x * b.x + a.y * b.y + a.z * b.z;
+
+describe('curvature and normals', () => {
+  test('curvature of a circle is 1 / radius', () => {
+    const spline = circleSpline(50);
+    for (const t of [0.1, 0.37, 0.8]) {
+      expect(Math.abs(splineCurvature(spline, t) * 50 - 1)).toBeLessThan(0.02);
+    }
+    expect(splineCurvature(straight(), 0.4)).toBeCloseTo(0);
+  });
+
+  test('signed curvature is positive for counter-clockwise turns', () => {
+    const ccw = circleSpline(20);
+    expect(Math.abs(splineSignedCurvature(ccw, 0.3) * 20 - 1)).toBeLessThan(0.02);
+
+    const cw = new CatmullRomSpline({ closed: true, alpha: 0 });
+    cw.setPoints([...ccw.points].reverse());
+    expect(Math.abs(splineSignedCurvature(cw, 0.3) * 20 + 1)).toBeLessThan(0.02);
+  });
+
+  test('normal points left of travel', () => {
+    const n = splineNormal(straight(), 0.5);
+    expect(n.x).toBeCloseTo(0);
+    expect(n.y).toBeCloseTo(1);
+
+    // On a counter-clockwise circle, left is the centre
+    const spline = circleSpline(10);
+    const p = spline.getPoint(0.25);
+    const inward = splineNormal(spline, 0.25);
+    expect(dot(inward, p) / len(p)).toBeCloseTo(-1, 2);
+  });
+
+  test('3D curvature of a helix', () => {
+    const spline = new CatmullRomSpline({ alpha: 0, is3D: true });
+    const r = 20;
+    const c = 5;
+    spline.setPoints(
+      Array.from({ length: 97 }, (_, i) => {
+        const a = (i / 32) * TWO_PI;
+        return v(r * Math.cos(a), r * Math.sin(a), c * a);
+      }),
+    );
+    // Helix curvature r / (r² + c²)
+    const expected = r / (r * r + c * c);
+    expect(Math.abs(splineCurvature(spline, 0.5) / expected - 1)).toBeLessThan(0.05);
+  });
+});
+
+describe('rotationMinimizingFrames', () => {
+  test('frames are orthonormal and follow the tangent', () => {
+    const spline = new BSpline({ is3D: true });
+    spline.setPoints([v(0, 0, 0), v(20, 0, 10), v(20, 20, 20), v(0, 20, 30), v(0, 0, 40)]);
+    const frames = rotationMinimizingFrames(spline, 25);
+    expect(frames).toHaveLength(25);
+    for (const f of frames) {
+      expect(len(f.tangent)).toBeCloseTo(1);
+      expect(len(f.normal)).toBeCloseTo(1);
+      expect(len(f.binormal)).toBeCloseTo(1);
+      expect(dot(f.tangent, f.normal)).toBeCloseTo(0);
+      expect(dot(f.tangent, f.binormal)).toBeCloseTo(0);
+      expect(dot(f.normal, f.binormal)).toBeCloseTo(0);
+      const d = spline.getDirection(f.t);
+      expect(dot(d, f.tangent)).toBeCloseTo(1);
+    }
+  });
+
+  test('straight lines do not twist and honour the initial normal', () => {
+    const frames = rotationMinimizingFrames(straight(), 10, {
+      initialNormal: { x: 0, y: 1, z: 1 },
+    });
+    for (const f of frames) {
+      expect(f.normal.x).toBeCloseTo(0);
+      expect(f.normal.y).toBeCloseTo(Math.SQRT1_2);
+      expect(f.normal.z).toBeCloseTo(Math.SQRT1_2);
+    }
+  });
+
+  test('closed loops end with the starting frame', () => {
+    const spline = new CatmullRomSpline({ closed: true, is3D: true, alpha: 0 });
+    // A trefoil knot accumulates twist around the circuit
+    spline.setPoints(
+      Array.from({ length: 36 }, (_, i) => {
+        const a = (i / 36) * TWO_PI;
+        return v(
+          10 * (Math.sin(a) + 2 * Math.sin(2 * a)),
+          10 * (Math.cos(a) - 2 * Math.cos(2 * a)),
+          -10 * Math.sin(3 * a),
+        );
+      }),
+    );
+    const frames = rotationMinimizingFrames(spline, 120);
+    const first = frames[0]!;
+    const last = frames[frames.length - 1]!;
+    expect(dot(first.normal, last.normal)).toBeCloseTo(1);
+
+    const open = rotationMinimizingFrames(spline, 120, { closeTwist: false });
+    expect(dot(open[0]!.normal, open[119]!.normal)).toBeLessThan(0.99);
+  });
+
+  test('degenerate input returns no frames', () => {
+    expect(rotationMinimizingFrames(new BSpline(), 10)).toEqual([]);
+    expect(rotationMinimizingFrames(straight(), 1)).toEqual([]);
+  });
+});
+
+describe('adaptive sampling', () => {
+  test('straight sections get few samples, bends get many', () => {
+    const spline = new CatmullRomSpline({ alpha: 0 });
+    spline.setPoints([v(0, 0), v(100, 0), v(200, 0), v(205, 5), v(200, 10)]);
+    const ts = adaptiveSplineParams(spline, { tolerance: 0.1 });
+    expect(ts[0]).toBe(0);
+    expect(ts[ts.length - 1]).toBe(1);
+    for (let i = 1; i < ts.length; i++) expect(ts[i]!).toBeGreaterThan(ts[i - 1]!);
+
+    // The first segment is straight, the last one bends sharply
+    const straightCount = ts.filter((t) => t <= 0.25).length;
+    const bendCount = ts.filter((t) => t > 0.75).length;
+    expect(bendCount).toBeGreaterThan(straightCount * 2);
+  });
+
+  test('tighter tolerance gives more points within tolerance', () => {
+    const spline = circleSpline(100, 8);
+    const coarse = adaptiveSplinePoints(spline, { tolerance: 1, maxAngle: PI });
+    const fine = adaptiveSplinePoints(spline, { tolerance: 0.05, maxAngle: PI });
+    expect(fine.length).toBeGreaterThan(coarse.length);
+    expect(adaptiveSplineParams(new BSpline())).toEqual([]);
+  });
+});
+
+describe('strokes and tubes', () => {
+  test('stroke sides are offset by half the width', () => {
+    const { left, right } = splineStroke(straight(), (t) => 2 + 4 * t);
+    expect(left.length).toBe(right.length);
+    expect(left[0]!.y).toBeCloseTo(1);
+    expect(right[0]!.y).toBeCloseTo(-1);
+    expect(left[left.length - 1]!.y).toBeCloseTo(3);
+    expect(right[right.length - 1]!.x).toBeCloseTo(30);
+  });
+
+  test('tube rings lie at the radius around the curve', () => {
+    const spline = circleSpline(40, 16, true);
+    const rings = splineTube(spline, 3, { rings: 20, sides: 8 });
+    expect(rings).toHaveLength(20);
+    for (const ring of rings) {
+      expect(ring).toHaveLength(8);
+      const centre = ring.reduce((c, p) => v(c.x + p.x / 8, c.y + p.y / 8, c.z + p.z / 8), v(0, 0));
+      for (const p of ring) {
+        expect(Math.hypot(p.x - centre.x, p.y - centre.y, p.z - centre.z)).toBeCloseTo(3);
+      }
+    }
+  });
+});
@@ -0,0 +1,482 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Differential geometry along splines: curvature, normals, rotation-minimizing
+ * frames and curvature-adaptive sampling.
+ *
+ * Works with any `Spline` (Catmull-Rom, B-spline, Hermite, TCB). Use it to:
+ * - Draw variable-width brush strokes (`splineStroke`)
+ * - Place and orient objects along paths (`rotationMinimizingFrames`)
+ * - Sweep tubes in WEBGL (`splineTube`)
+ *
+ * Second derivatives are estimated from the spline's tangent by central
+ * differences, so every family is supported without extra methods. 2D
+ * quantities (signed curvature, normals, strokes) use x and y with Y up:
+ * positive curvature turns left and normals point left of travel.
+ */
+
+import type { Point3 } from './hiddenLine3d';
+import type { Spline } from './splines';
+import { createVector } from './vec2';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Position and orthonormal axes at one parameter along a spline */
+export type SplineFrame = {
+  /** Spline parameter (0 to 1) */
+  readonly t: number;
+  /** Point on the spline */
+  readonly point: p5.Vector;
+  /** Unit tangent (direction of travel) */
+  readonly tangent: p5.Vector;
+  /** Unit normal, perpendicular to the tangent */
+  readonly normal: p5.Vector;
+  /** Unit binormal: tangent × normal */
+  readonly binormal: p5.Vector;
+};
+
+/** Options for rotation-minimizing frames */
+export type FrameOptions = {
+  /** Normal at t = 0, projected perpendicular to the tangent (default: least aligned axis) */
+  readonly initialNormal?: Point3;
+  /** Spread the twist of closed splines so the last frame matches the first (default: true) */
+  readonly closeTwist?: boolean;
+};
+
+/** Options for curvature-adaptive sampling */
+export type AdaptiveSampleOptions = {
+  /** Maximum distance between the curve and its chords (default: 0.5) */
+  readonly tolerance?: number;
+  /** Maximum turn in radians between neighbouring samples (default: PI / 18) */
+  readonly maxAngle?: number;
+  /** Initial intervals per spline segment (default: 2) */
+  readonly minSubdivisions?: number;
+  /** Maximum recursion depth per initial interval (default: 10) */
+  readonly maxDepth?: number;
+};
+
+/** Both sides of a variable-width stroke */
+export type StrokeSides = {
+  /** Points left of travel */
+  readonly left: p5.Vector[];
+  /** Points right of travel, in the same order */
+  readonly right: p5.Vector[];
+};
+
+/** Options for tubes swept along a spline */
+export type TubeOptions = {
+  /** Rings along the spline (default: 20 per segment, plus one) */
+  readonly rings?: number;
+  /** Points around each ring (default: 12) */
+  readonly sides?: number;
+} & FrameOptions;
+
+/** Width or radius, constant or varying with the spline parameter */
+export type WidthProfile = number | ((t: number) => number);
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Parameter step for finite-difference second derivatives */
+const DIFF_STEP = 1e-4;
+
+/** Tangent lengths below this are treated as zero */
+const EPSILON = 1e-12;
+
+/** World axes tried for the default initial normal */
+const AXES: readonly Point3[] = [
+  { x: 1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: 0, z: 1 },
+];
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/** Vector difference a - b */
+function sub(a: Point3, b: Point3): Point3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/** Vector a scaled by s */
+function scale(a: Point3, s: number): Point3 {
+  return { x: a.x * s, y: a.y * s, z: a.z * s };
+}
+
+/** Dot product */
+function dot(a: Point3, b: Point3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/** Cross product */
+function cross(a: Point3, b: Point3): Point3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+/** Unit vector (zero vectors stay zero) */
+function normalize(a: Point3): Point3 {
+  const len = Math.hypot(a.x, a.y, a.z);
+  return len > 0 ? { x: a.x / len, y: a.y / len, z: a.z / len } : a;
+}
+
+/** Convert to a p5.Vector */
+function toVector(a: Point3): p5.Vector {
+  return createVector(a.x, a.y, a.z);
+}
+
+/**
+ * Second derivative at t, with respect to the local segment parameter like
+ * `getTangent`.
+ */
+function secondDerivative(spline: Spline, t: number): Point3 {
+  const t0 = Math.max(0, t - DIFF_STEP);
+  const t1 = Math.min(1, t + DIFF_STEP);
+  const d = sub(spline.getTangent(t1), spline.getTangent(t0));
+  return scale(d, 1 / ((t1 - t0) * Math.max(1, spline.segmentCount)));
+}
+
+/**
+ * Distance from p to the chord ab, in 3D.
+ */
+function chordDistance(p: Point3, a: Point3, b: Point3): number {
+  const ab = sub(b, a);
+  const len2 = dot(ab, ab);
+  const u = len2 > 0 ? Math.max(0, Math.min(1, dot(sub(p, a), ab) / len2)) : 0;
+  const d = sub(p, { x: a.x + ab.x * u, y: a.y + ab.y * u, z: a.z + ab.z * u });
+  return Math.hypot(d.x, d.y, d.z);
+}
+
+/**
+ * Evaluate a width profile at t.
+ */
+function widthAt(width: WidthProfile, t: number): number {
+  return typeof width === 'function' ? width(t) : width;
+}
+
+// ============================================================================
+// Curvature and Normals
+// ============================================================================
+
+/**
+ * Curvature (1 / radius of the osculating circle) at t, in 2D or 3D.
+ *
+ * @param spline - Any spline
+ * @param t - Parameter value (0 to 1)
+ * @returns Non-negative curvature; 0 where the curve is straight or stalls
+ *
+ * @example
+ * ```ts
+ * const k = splineCurvature(spline, 0.5);
+ * const radius = k > 0 ? 1 / k : Infinity;
+ * ```
+ */
+export function splineCurvature(spline: Spline, t: number): number {
+  const d1 = spline.getTangent(t);
+  const speed = Math.hypot(d1.x, d1.y, d1.z);
+  if (speed < EPSILON) return 0;
+  const c = cross(d1, secondDerivative(spline, t));
+  return Math.hypot(c.x, c.y, c.z) / (speed * speed * speed);
+}
+
+/**
+ * Signed 2D curvature at t: positive where the curve turns left
+ * (counter-clockwise with Y up), negative where it turns right.
+ *
+ * @param spline - Any spline (z is ignored)
+ * @param t - Parameter value (0 to 1)
+ * @returns Signed curvature
+ *
+ * @example
+ * ```ts
+ * // Colour the stroke by bend direction
+ * stroke(splineSignedCurvature(spline, t) > 0 ? 'tomato' : 'teal');
+ * ```
+ */
+export function splineSignedCurvature(spline: Spline, t: number): number {
+  const d1 = spline.getTangent(t);
+  const speed2 = d1.x * d1.x + d1.y * d1.y;
+  if (speed2 < EPSILON) return 0;
+  const d2 = secondDerivative(spline, t);
+  return (d1.x * d2.y - d1.y * d2.x) / Math.pow(speed2, 1.5);
+}
+
+/**
+ * Unit 2D normal at t, pointing left of travel (the tangent turned 90°
+ * counter-clockwise with Y up). Use `rotationMinimizingFrames` for 3D.
+ *
+ * @param spline - Any spline (z is ignored)
+ * @param t - Parameter value (0 to 1)
+ * @returns Unit normal, or a zero vector where the curve stalls
+ *
+ * @example
+ * ```ts
+ * const p = spline.getPoint(t);
+ * const n = splineNormal(spline, t);
+ * line(p.x, p.y, p.x + n.x * 10, p.y + n.y * 10);
+ * ```
+ */
+export function splineNormal(spline: Spline, t: number): p5.Vector {
+  const d = spline.getTangent(t);
+  const len = Math.hypot(d.x, d.y);
+  return len > EPSILON ? createVector(-d.y / len, d.x / len) : createVector(0, 0);
+}
+
+// ============================================================================
+// Rotation-Minimizing Frames
+// ============================================================================
+
+/**
+ * Rotation-minimizing frames at evenly spaced parameters, computed with the
+ * double reflection method (Wang et al. 2008). Unlike Frenet frames they do
+ * not flip at inflections or spin on straight sections, which makes them the
+ * right choice for sweeping tubes and orienting objects in 3D.
+ *
+ * @param spline - Any spline (2D splines get frames in the XY plane and z)
+ * @param count - Number of frames (at least 2), from t = 0 to t = 1
+ * @param options - Initial normal and closed-loop twist correction
+ * @returns Frames in parameter order, or [] for splines with no segments
+ *
+ * @example
+ * ```ts
+ * for (const { point, normal, binormal } of rotationMinimizingFrames(spline, 30)) {
+ *   // Draw a small cross in the plane perpendicular to the path
+ *   line(point.x, point.y, point.z, point.x + normal.x * 5, point.y + normal.y * 5, point.z + normal.z * 5);
+ *   line(point.x, point.y, point.z, point.x + binormal.x * 5, point.y + binormal.y * 5, point.z + binormal.z * 5);
+ * }
+ * ```
+ */
+export function rotationMinimizingFrames(
+  spline: Spline,
+  count: number,
+  options: FrameOptions = {},
+): SplineFrame[] {
+  if (spline.segmentCount === 0 || count < 2) return [];
+  const { initialNormal, closeTwist = true } = options;
+
+  const ts = Array.from({ length: count }, (_, i) => i / (count - 1));
+  const points: Point3[] = ts.map((t) => spline.getPoint(t));
+  const tangents = ts.map((t) => normalize(spline.getTangent(t)));
+
+  // Initial normal: the given vector (or least aligned axis) made perpendicular
+  const t0 = tangents[0]!;
+  const seed =
+    initialNormal ??
+    AXES.reduce((best, axis) => (Math.abs(dot(axis, t0)) < Math.abs(dot(best, t0)) ? axis : best));
+  let normal = normalize(sub(seed, scale(t0, dot(seed, t0))));
+  const normals: Point3[] = [normal];
+
+  for (let i = 0; i < count - 1; i++) {
+    const ti = tangents[i]!;
+    const tNext = tangents[i + 1]!;
+
+    // Reflect across the plane bisecting the two points...
+    const v1 = sub(points[i + 1]!, points[i]!);
+    const c1 = dot(v1, v1);
+    let rL = normal;
+    let tL = ti;
+    if (c1 > EPSILON) {
+      rL = sub(normal, scale(v1, (2 / c1) * dot(v1, normal)));
+      tL = sub(ti, scale(v1, (2 / c1) * dot(v1, ti)));
+    }
+
+    // ...then across the plane that maps the reflected tangent onto the next one
+    const v2 = sub(tNext, tL);
+    const c2 = dot(v2, v2);
+    normal = c2 > EPSILON ? sub(rL, scale(v2, (2 / c2) * dot(v2, rL))) : rL;
+    normal = normalize(sub(normal, scale(tNext, dot(normal, tNext))));
+    normals.push(normal);
+  }
+
+  // Closed loops: rotate progressively so the last normal meets the first
+  let twist = 0;
+  if (spline.closed && closeTwist) {
+    const first = normals[0]!;
+    const last = normals[count - 1]!;
+    twist = Math.atan2(dot(cross(last, first), tangents[count - 1]!), dot(last, first));
+  }
+
+  return ts.map((t, i) => {
+    const tangent = tangents[i]!;
+    let n = normals[i]!;
+    if (twist !== 0) {
+      const angle = (twist * i) / (count - 1);
+      const b = cross(tangent, n);
+      n = normalize({
+        x: n.x * Math.cos(angle) + b.x * Math.sin(angle),
+        y: n.y * Math.cos(angle) + b.y * Math.sin(angle),
+        z: n.z * Math.cos(angle) + b.z * Math.sin(angle),
+      });
+    }
+    return {
+      t,
+      point: toVector(points[i]!),
+      tangent: toVector(tangent),
+      normal: toVector(n),
+      binormal: toVector(cross(tangent, n)),
+    };
+  });
+}
+
+// ============================================================================
+// Adaptive Sampling
+// ============================================================================
+
+/**
+ * Parameters sampled densely where the curve bends and sparsely where it is
+ * straight. An interval is split while its midpoint lies more than `tolerance`
+ * from the chord or the direction turns more than `maxAngle` across it.
+ *
+ * @param spline - Any spline
+ * @param options - Tolerance, angle and depth limits
+ * @returns Increasing t values from 0 to 1, or [] for splines with no segments
+ *
+ * @example
+ * ```ts
+ * const ts = adaptiveSplineParams(spline, { tolerance: 0.25 });
+ * ```
+ */
+export function adaptiveSplineParams(
+  spline: Spline,
+  options: AdaptiveSampleOptions = {},
+): number[] {
+  const segments = spline.segmentCount;
+  if (segments === 0) return [];
+  const { tolerance = 0.5, maxAngle = PI / 18, minSubdivisions = 2, maxDepth = 10 } = options;
+  const minCos = Math.cos(maxAngle);
+
+  const result = [0];
+  const refine = (t0: number, t1: number, p0: p5.Vector, p1: p5.Vector, depth: number) => {
+    const tm = (t0 + t1) / 2;
+    const pm = spline.getPoint(tm);
+    if (depth < maxDepth) {
+      const deviation = chordDistance(pm, p0, p1);
+      const d0 = spline.getDirection(t0);
+      const d1 = spline.getDirection(t1);
+      if (deviation > tolerance || dot(d0, d1) < minCos) {
+        refine(t0, tm, p0, pm, depth + 1);
+        refine(tm, t1, pm, p1, depth + 1);
+        return;
+      }
+    }
+    result.push(t1);
+  };
+
+  const intervals = segments * Math.max(1, minSubdivisions);
+  let prev = spline.getPoint(0);
+  for (let i = 0; i < intervals; i++) {
+    const t0 = i / intervals;
+    const t1 = (i + 1) / intervals;
+    const next = spline.getPoint(t1);
+    refine(t0, t1, prev, next, 0);
+    prev = next;
+  }
+  return result;
+}
+
+/**
+ * Points sampled with `adaptiveSplineParams`.
+ *
+ * @param spline - Any spline
+ * @param options - Tolerance, angle and depth limits
+ * @returns Points from start to end
+ *
+ * @example
+ * ```ts
+ * beginShape();
+ * for (const p of adaptiveSplinePoints(spline)) vertex(p.x, p.y);
+ * endShape();
+ * ```
+ */
+export function adaptiveSplinePoints(
+  spline: Spline,
+  options: AdaptiveSampleOptions = {},
+): p5.Vector[] {
+  return adaptiveSplineParams(spline, options).map((t) => spline.getPoint(t));
+}
+
+// ============================================================================
+// Strokes and Tubes
+// ============================================================================
+
+/**
+ * Both edges of a variable-width 2D stroke, offset along the normal by half
+ * the width at each adaptive sample.
+ *
+ * @param spline - Any spline (z is ignored)
+ * @param width - Stroke width, or a function of t for tapering brushes
+ * @param options - Adaptive sampling options
+ * @returns Left and right edges in travel order
+ *
+ * @example
+ * ```ts
+ * const { left, right } = splineStroke(spline, (t) => 12 * Math.sin(t * PI));
+ * beginShape();
+ * for (const p of [...left, ...right.reverse()]) vertex(p.x, p.y);
+ * endShape(CLOSE);
+ * ```
+ */
+export function splineStroke(
+  spline: Spline,
+  width: WidthProfile,
+  options: AdaptiveSampleOptions = {},
+): StrokeSides {
+  const left: p5.Vector[] = [];
+  const right: p5.Vector[] = [];
+  for (const t of adaptiveSplineParams(spline, options)) {
+    const p = spline.getPoint(t);
+    const n = splineNormal(spline, t);
+    const half = widthAt(width, t) / 2;
+    left.push(createVector(p.x + n.x * half, p.y + n.y * half));
+    right.push(createVector(p.x - n.x * half, p.y - n.y * half));
+  }
+  return { left, right };
+}
+
+/**
+ * Rings of a tube swept along the spline with rotation-minimizing frames.
+ * Connect ring i to ring i + 1 with quads or a TRIANGLE_STRIP in WEBGL.
+ *
+ * @param spline - Any spline
+ * @param radius - Tube radius, or a function of t
+ * @param options - Ring count, sides and frame options
+ * @returns One ring of `sides` points per frame
+ *
+ * @example
+ * ```ts
+ * const rings = splineTube(spline, 4, { sides: 16 });
+ * for (let i = 0; i < rings.length - 1; i++) {
+ *   beginShape(TRIANGLE_STRIP);
+ *   for (let j = 0; j <= 16; j++) {
+ *     const a = rings[i][j % 16];
+ *     const b = rings[i + 1][j % 16];
+ *     vertex(a.x, a.y, a.z);
+ *     vertex(b.x, b.y, b.z);
+ *   }
+ *   endShape();
+ * }
+ * ```
+ */
+export function splineTube(
+  spline: Spline,
+  radius: WidthProfile,
+  options: TubeOptions = {},
+): p5.Vector[][] {
+  const { rings = spline.segmentCount * 20 + 1, sides = 12 } = options;
+  return rotationMinimizingFrames(spline, rings, options).map((frame) => {
+    const r = widthAt(radius, frame.t);
+    const { point, normal, binormal } = frame;
+    return Array.from({ length: sides }, (_, j) => {
+      const angle = (j / sides) * TWO_PI;
+      const c = Math.cos(angle) * r;
+      const s = Math.sin(angle) * r;
+      return createVector(
+        point.x + normal.x * c + binormal.x * s,
+        point.y + normal.y * c + binormal.y * s,
+        point.z + normal.z * c + binormal.z * s,
+      );
+    });
+  });
+}
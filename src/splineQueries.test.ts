@@ -0,0 +1,171 @@
+/**
+ * Tests for spline queries.
+ * These tests cover: SplineIndex, nearestPointOnSpline, distanceToSpline,
+ * splineLineIntersections, splineIntersections and splitSpline.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { bezierPoint } from './bezier';
+import { CatmullRomSpline } from './catmullRom';
+import {
+  SplineIndex,
+  distanceToSpline,
+  nearestPointOnSpline,
+  splineIntersections,
+  splineLineIntersections,
+  splitSpline,
+} from './splineQueries';
+import { BSpline, HermiteSpline } from './splines';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+/** Closed uniform Catmull-Rom approximating a circle of radius r */
+const circleSpline = (r: number, cx = 0, cy = 0): CatmullRomSpline => {
+  const spline = new CatmullRomSpline({ closed: true, alpha: 0 });
+  spline.setPoints(
+    Array.from({ length: 24 }, (_, i) =>
+      v(cx + r * Math.cos((i / 24) * TWO_PI), cy + r * Math.sin((i / 24) * TWO_PI)),
+    ),
+  );
+  return spline;
+};
+
+/** Open uniform Catmull-Rom wave through five points */
+const wave = (): CatmullRomSpline => {
+  const spline = new CatmullRomSpline({ alpha: 0 });
+  spline.setPoints([v(0, 0), v(25, 20), v(50, 0), v(75, -20), v(100, 0)]);
+  return spline;
+};
+
+describe('nearest point', () => {
+  test('nearest point on a circle lies along the radius', () => {
+    const spline = circleSpline(50);
+    const hit = nearestPointOnSpline(spline, v(100, 100));
+    expect(hit).not.toBeNull();
+    expect(hit!.point.x).toBeCloseTo(hit!.point.y, 1);
+    expect(hit!.distance).toBeCloseTo(Math.hypot(100, 100) - 50, 0);
+    expect(hit!.t).toBeCloseTo(1 / 8, 2);
+  });
+
+  test('the result is a local minimum of the distance', () => {
+    const spline = wave();
+    const p = v(40, 30);
+    const hit = nearestPointOnSpline(spline, p)!;
+    const dist = (t: number) => {
+      const q = spline.getPoint(t);
+      return Math.hypot(q.x - p.x, q.y - p.y);
+    };
+    expect(dist(hit.t)).toBeCloseTo(hit.distance, 9);
+    for (let t = 0; t <= 1; t += 0.01) expect(dist(t)).toBeGreaterThanOrEqual(hit.distance - 1e-9);
+  });
+
+  test('points beyond the ends snap to the end points', () => {
+    const hit = nearestPointOnSpline(wave(), v(-10, -5))!;
+    expect(hit.t).toBe(0);
+    expect(hit.distance).toBeCloseTo(Math.hypot(10, 5));
+  });
+
+  test('index agrees with brute force and can be rebuilt', () => {
+    const spline = wave();
+    const index = new SplineIndex(spline, 200);
+    expect(index.samples).toBe(200);
+    for (const p of [v(10, 10), v(60, -30), v(90, 5)]) {
+      const brute = nearestPointOnSpline(spline, p, 2000)!;
+      expect(index.nearest(p)!.distance).toBeCloseTo(brute.distance, 6);
+    }
+
+    spline.setPoints([v(0, 0), v(100, 0)]);
+    expect(distanceToSpline(index, v(50, 10))).not.toBeCloseTo(10);
+    index.rebuild();
+    expect(distanceToSpline(index, v(50, 10))).toBeCloseTo(10);
+  });
+
+  test('empty splines have no nearest point', () => {
+    const empty = new BSpline();
+    expect(nearestPointOnSpline(empty, v(0, 0))).toBeNull();
+    expect(distanceToSpline(empty, v(0, 0))).toBe(Infinity);
+    expect(new SplineIndex(empty).samples).toBe(0);
+  });
+});
+
+describe('intersections', () => {
+  test('line through a circle hits it twice', () => {
+    const spline = circleSpline(50);
+    const hits = splineLineIntersections(spline, v(-100, 0), v(100, 0));
+    expect(hits).toHaveLength(2);
+    const xs = hits.map((h) => h.point.x).sort((a, b) => a - b);
+    expect(xs[0]).toBeCloseTo(-50, 1);
+    expect(xs[1]).toBeCloseTo(50, 1);
+    for (const h of hits) expect(h.point.y).toBeCloseTo(0, 6);
+    expect(hits[0]!.u).toBeCloseTo((hits[0]!.point.x + 100) / 200);
+  });
+
+  test('line kinds limit the crossings', () => {
+    const spline = circleSpline(50);
+    expect(splineLineIntersections(spline, v(0, 0), v(10, 0))).toHaveLength(0);
+    expect(splineLineIntersections(spline, v(0, 0), v(10, 0), 'ray')).toHaveLength(1);
+    expect(splineLineIntersections(spline, v(0, 0), v(10, 0), 'line')).toHaveLength(2);
+  });
+
+  test('wave crosses its axis at the sample points exactly once each', () => {
+    const hits = splineLineIntersections(wave(), v(-10, 0), v(110, 0));
+    expect(hits.map((h) => Math.round(h.point.x))).toEqual([0, 50, 100]);
+  });
+
+  test('two circles cross twice', () => {
+    const a = circleSpline(50);
+    const b = circleSpline(50, 60, 0);
+    const hits = splineIntersections(a, b);
+    expect(hits).toHaveLength(2);
+    for (const h of hits) {
+      expect(h.point.x).toBeCloseTo(30, 1);
+      const onB = b.getPoint(h.u);
+      expect(onB.x).toBeCloseTo(h.point.x, 6);
+      expect(onB.y).toBeCloseTo(h.point.y, 6);
+    }
+    expect(hits[0]!.t).toBeLessThan(hits[1]!.t);
+  });
+
+  test('different spline families can be intersected', () => {
+    const bspline = new BSpline();
+    bspline.setPoints([v(50, -50), v(50, 0), v(50, 50)]);
+    const hits = splineIntersections(new SplineIndex(wave()), bspline);
+    expect(hits).toHaveLength(1);
+    expect(hits[0]!.point.x).toBeCloseTo(50, 6);
+    expect(hits[0]!.u).toBeCloseTo(0.5, 4);
+    expect(splineIntersections(wave(), circleSpline(5, 500, 500))).toEqual([]);
+  });
+});
+
+describe('splitSpline', () => {
+  test('split pieces reproduce the curve', () => {
+    const spline = wave();
+    const [before, after] = splitSpline(spline, 0.6);
+    expect(before).toHaveLength(3);
+    expect(after).toHaveLength(2);
+
+    const end = before[before.length - 1]![3];
+    const split = spline.getPoint(0.6);
+    expect(end.x).toBeCloseTo(split.x);
+    expect(after[0]![0].x).toBeCloseTo(split.x);
+
+    // Halfway along the right part of segment 2 (t 0.5 to 0.75, split at 0.4)
+    const p = bezierPoint(after[0]!, 0.5);
+    const q = spline.getPoint(0.5 + 0.7 * 0.25);
+    expect(p.x).toBeCloseTo(q.x);
+    expect(p.y).toBeCloseTo(q.y);
+  });
+
+  test('split at the ends and at segment joins', () => {
+    const spline = new HermiteSpline();
+    spline.setPoints([v(0, 0), v(10, 5), v(20, 0)]);
+    expect(splitSpline(spline, 0)[0]).toEqual([]);
+    expect(splitSpline(spline, 1)[1]).toEqual([]);
+    const [before, after] = splitSpline(spline, 0.5);
+    expect(before).toHaveLength(1);
+    expect(after).toHaveLength(1);
+    expect(splitSpline(new CatmullRomSpline(), 0.5)).toEqual([[], []]);
+  });
+});
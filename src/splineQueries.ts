@@ -0,0 +1,580 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Geometric queries on splines: nearest point, distance, intersections with
+ * lines and other splines, and splitting.
+ *
+ * Queries sample the spline into a polyline, find candidates on it, then
+ * refine them on the true curve. A `SplineIndex` keeps the samples in a
+ * bounding-box tree so repeated queries (dragging, hit testing every frame)
+ * skip most of the curve; call `rebuild()` after editing the spline.
+ *
+ * All queries are 2D (z is ignored) and work with any `Spline`.
+ */
+
+import { type CubicBezier, splitBezier } from './bezier';
+import { type LineKind, lineIntersection } from './line';
+import type { Spline } from './splines';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Closest point on a spline to a query point */
+export type SplineNearest = {
+  /** Spline parameter (0 to 1) */
+  readonly t: number;
+  /** Point on the spline */
+  readonly point: p5.Vector;
+  /** Distance from the query point */
+  readonly distance: number;
+};
+
+/**
+ * Intersection of a spline with a line or another spline. `t` is the parameter
+ * on the (first) spline and `u` on the line or second spline.
+ */
+export type SplineIntersection = {
+  readonly point: p5.Vector;
+  readonly t: number;
+  readonly u: number;
+};
+
+/** A spline made of cubic segments, such as Catmull-Rom, Hermite or TCB */
+export type SegmentedSpline = {
+  readonly segmentCount: number;
+  getSegmentBezier(segment: number): CubicBezier;
+};
+
+/** Bounding-box tree node over the sample segments lo..hi-1 */
+type BoxNode = {
+  readonly minX: number;
+  readonly minY: number;
+  readonly maxX: number;
+  readonly maxY: number;
+  readonly lo: number;
+  readonly hi: number;
+  readonly left: BoxNode | null;
+  readonly right: BoxNode | null;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default polyline samples per spline segment */
+const SAMPLES_PER_SEGMENT = 16;
+
+/** Sample segments per tree leaf */
+const LEAF_SIZE = 8;
+
+/** Golden-section steps when refining a nearest point */
+const GOLDEN_ITERATIONS = 48;
+
+/** Newton steps when refining a curve–curve crossing */
+const NEWTON_ITERATIONS = 12;
+
+/** Bisection steps when refining a curve–line crossing */
+const BISECTION_ITERATIONS = 52;
+
+/** Crossings closer than this are reported once */
+const DUPLICATE_DISTANCE = 1e-6;
+
+/** Tolerance on line parameters and Newton determinants */
+const EPSILON = 1e-9;
+
+/** Inverse golden ratio */
+const INV_PHI = (Math.sqrt(5) - 1) / 2;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Squared distance from p to segment ab.
+ */
+function segmentDistance2(p: p5.Vector, a: p5.Vector, b: p5.Vector): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const s = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  const x = a.x + s * dx - p.x;
+  const y = a.y + s * dy - p.y;
+  return x * x + y * y;
+}
+
+/**
+ * Squared distance from p to a node's box (0 inside).
+ */
+function boxDistance2(node: BoxNode, p: p5.Vector): number {
+  const dx = Math.max(node.minX - p.x, 0, p.x - node.maxX);
+  const dy = Math.max(node.minY - p.y, 0, p.y - node.maxY);
+  return dx * dx + dy * dy;
+}
+
+/**
+ * Whether two boxes overlap (touching counts).
+ */
+function boxesOverlap(a: BoxNode, b: BoxNode): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+/**
+ * Minimize f on [lo, hi] with golden-section search.
+ */
+function goldenMinimum(f: (t: number) => number, lo: number, hi: number): number {
+  let a = lo;
+  let b = hi;
+  let c = b - INV_PHI * (b - a);
+  let d = a + INV_PHI * (b - a);
+  let fc = f(c);
+  let fd = f(d);
+  for (let i = 0; i < GOLDEN_ITERATIONS; i++) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - INV_PHI * (b - a);
+      fc = f(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + INV_PHI * (b - a);
+      fd = f(d);
+    }
+  }
+  // The end points can beat the interior (closest point at the curve's end)
+  const mid = (a + b) / 2;
+  return [lo, hi].reduce((best, t) => (f(t) < f(best) ? t : best), mid);
+}
+
+/**
+ * Refine a crossing of splines a and b with Newton's method on a(t) = b(u).
+ */
+function refineCrossing(a: Spline, b: Spline, t: number, u: number): [number, number] {
+  const residual = (s: number, v: number) => {
+    const pa = a.getPoint(s);
+    const pb = b.getPoint(v);
+    return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+  };
+  const initial = residual(t, u);
+  let s = t;
+  let v = u;
+
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const pa = a.getPoint(s);
+    const pb = b.getPoint(v);
+    const fx = pa.x - pb.x;
+    const fy = pa.y - pb.y;
+    if (Math.hypot(fx, fy) < EPSILON) break;
+
+    // Tangents are per segment; scale them to the global parameter
+    const ta = a.getTangent(s);
+    const tb = b.getTangent(v);
+    const ax = ta.x * a.segmentCount;
+    const ay = ta.y * a.segmentCount;
+    const bx = tb.x * b.segmentCount;
+    const by = tb.y * b.segmentCount;
+    const det = bx * ay - ax * by;
+    if (Math.abs(det) < EPSILON) break;
+
+    s = Math.max(0, Math.min(1, s + (fx * by - bx * fy) / det));
+    v = Math.max(0, Math.min(1, v + (fx * ay - ax * fy) / det));
+  }
+
+  return residual(s, v) <= initial ? [s, v] : [t, u];
+}
+
+/**
+ * Whether a line parameter lies in the range of its kind.
+ */
+function inLineRange(u: number, kind: LineKind): boolean {
+  if (kind === 'line') return true;
+  if (u < -EPSILON) return false;
+  return kind === 'ray' || u <= 1 + EPSILON;
+}
+
+// ============================================================================
+// Spline Index
+// ============================================================================
+
+/**
+ * Sampled spline with a bounding-box tree for fast nearest-point and
+ * intersection queries. Build once and reuse while the spline is unchanged.
+ *
+ * @example
+ * ```ts
+ * const index = new SplineIndex(spline);
+ *
+ * function mousePressed() {
+ *   const hit = index.nearest(createVector(mouseX, mouseY));
+ *   if (hit && hit.distance < 8) dragT = hit.t;
+ * }
+ * ```
+ */
+export class SplineIndex {
+  readonly spline: Spline;
+  private readonly requestedSamples: number | undefined;
+  private ts: number[] = [];
+  private points: p5.Vector[] = [];
+  private root: BoxNode | null = null;
+
+  /**
+   * Create an index over a spline.
+   * @param spline - Spline to index
+   * @param samples - Polyline segments (default: 16 per spline segment)
+   */
+  constructor(spline: Spline, samples?: number) {
+    this.spline = spline;
+    this.requestedSamples = samples;
+    this.rebuild();
+  }
+
+  /**
+   * Get the number of polyline segments sampled from the spline.
+   */
+  get samples(): number {
+    return Math.max(0, this.ts.length - 1);
+  }
+
+  /**
+   * Resample the spline and rebuild the tree. Call after editing the spline.
+   */
+  rebuild(): void {
+    if (this.spline.segmentCount === 0) {
+      this.ts = [];
+      this.points = [];
+      this.root = null;
+      return;
+    }
+    const samples = Math.max(
+      1,
+      Math.floor(this.requestedSamples ?? this.spline.segmentCount * SAMPLES_PER_SEGMENT),
+    );
+    this.ts = Array.from({ length: samples + 1 }, (_, i) => i / samples);
+    this.points = this.ts.map((t) => this.spline.getPoint(t));
+    this.root = this.build(0, samples);
+  }
+
+  /**
+   * Find the closest point on the spline.
+   * @param point - Query point
+   * @returns Parameter, point and distance, or null for an empty spline
+   */
+  nearest(point: p5.Vector): SplineNearest | null {
+    if (!this.root) return null;
+
+    // Closest sample segment, visiting nearer boxes first
+    let best = Infinity;
+    let bestSegment = 0;
+    const stack: BoxNode[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (boxDistance2(node, point) >= best) continue;
+      if (node.left && node.right) {
+        const leftFirst = boxDistance2(node.left, point) <= boxDistance2(node.right, point);
+        stack.push(leftFirst ? node.right : node.left, leftFirst ? node.left : node.right);
+        continue;
+      }
+      for (let k = node.lo; k < node.hi; k++) {
+        const d2 = segmentDistance2(point, this.points[k]!, this.points[k + 1]!);
+        if (d2 < best) {
+          best = d2;
+          bestSegment = k;
+        }
+      }
+    }
+
+    // Refine on the curve around that segment
+    const lo = this.ts[Math.max(0, bestSegment - 1)]!;
+    const hi = this.ts[Math.min(this.samples, bestSegment + 2)]!;
+    const distance2 = (t: number) => {
+      const p = this.spline.getPoint(t);
+      return (p.x - point.x) ** 2 + (p.y - point.y) ** 2;
+    };
+    const t = goldenMinimum(distance2, lo, hi);
+    const p = this.spline.getPoint(t);
+    return { t, point: p, distance: Math.hypot(p.x - point.x, p.y - point.y) };
+  }
+
+  /**
+   * Distance from a point to the spline.
+   * @param point - Query point
+   * @returns Distance, or Infinity for an empty spline
+   */
+  distance(point: p5.Vector): number {
+    return this.nearest(point)?.distance ?? Infinity;
+  }
+
+  /**
+   * Intersect the spline with a segment, ray or infinite line through a and b.
+   * @param a - First point of the line
+   * @param b - Second point of the line
+   * @param kind - Line kind (default: 'segment')
+   * @returns Crossings sorted by t; `u` is the parameter along ab
+   */
+  lineIntersections(a: p5.Vector, b: p5.Vector, kind: LineKind = 'segment'): SplineIntersection[] {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    if (len2 === 0 || !this.root) return [];
+
+    // Signed distance (times |ab|) to the line
+    const side = (p: p5.Vector) => dx * (p.y - a.y) - dy * (p.x - a.x);
+    const result: SplineIntersection[] = [];
+    const add = (t: number) => {
+      const point = this.spline.getPoint(t);
+      const u = ((point.x - a.x) * dx + (point.y - a.y) * dy) / len2;
+      if (inLineRange(u, kind)) result.push({ point, t, u });
+    };
+
+    for (let k = 0; k < this.samples; k++) {
+      const f0 = side(this.points[k]!);
+      const f1 = side(this.points[k + 1]!);
+      if (f0 === 0) {
+        add(this.ts[k]!);
+        continue;
+      }
+      if (f1 === 0) {
+        // Counted as the start of the next sample segment, or here at the end
+        if (k === this.samples - 1 && !this.spline.closed) add(1);
+        continue;
+      }
+      if (f0 > 0 === f1 > 0) continue;
+
+      // Bisection on the true curve between the samples
+      let lo = this.ts[k]!;
+      let hi = this.ts[k + 1]!;
+      let fLo = f0;
+      for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const mid = (lo + hi) / 2;
+        const fMid = side(this.spline.getPoint(mid));
+        if (fMid > 0 === fLo > 0) {
+          lo = mid;
+          fLo = fMid;
+        } else {
+          hi = mid;
+        }
+      }
+      add((lo + hi) / 2);
+    }
+    return result;
+  }
+
+  /**
+   * Intersect with another indexed spline.
+   * @param other - Index of the second spline (a different spline)
+   * @returns Crossings sorted by t; `u` is the parameter on the other spline
+   */
+  intersections(other: SplineIndex): SplineIntersection[] {
+    if (!this.root || !other.root) return [];
+    const result: SplineIntersection[] = [];
+
+    const stack: [BoxNode, BoxNode][] = [[this.root, other.root]];
+    while (stack.length > 0) {
+      const [a, b] = stack.pop()!;
+      if (!boxesOverlap(a, b)) continue;
+
+      // Descend into the larger internal node
+      const aLeaf = !a.left || !a.right;
+      const bLeaf = !b.left || !b.right;
+      if (!aLeaf && (bLeaf || a.hi - a.lo >= b.hi - b.lo)) {
+        stack.push([a.left!, b], [a.right!, b]);
+        continue;
+      }
+      if (!bLeaf) {
+        stack.push([a, b.left!], [a, b.right!]);
+        continue;
+      }
+
+      for (let i = a.lo; i < a.hi; i++) {
+        for (let j = b.lo; j < b.hi; j++) {
+          const hit = lineIntersection(
+            this.points[i]!,
+            this.points[i + 1]!,
+            other.points[j]!,
+            other.points[j + 1]!,
+          );
+          if (hit?.type !== 'point') continue;
+
+          const t0 = this.ts[i]! + hit.t * (this.ts[i + 1]! - this.ts[i]!);
+          const u0 = other.ts[j]! + hit.u * (other.ts[j + 1]! - other.ts[j]!);
+          const [t, u] = refineCrossing(this.spline, other.spline, t0, u0);
+          const point = this.spline.getPoint(t);
+          const duplicate = result.some(
+            (r) => Math.hypot(r.point.x - point.x, r.point.y - point.y) < DUPLICATE_DISTANCE,
+          );
+          if (!duplicate) result.push({ point, t, u });
+        }
+      }
+    }
+    return result.sort((p, q) => p.t - q.t);
+  }
+
+  /**
+   * Build the tree over sample segments lo..hi-1.
+   */
+  private build(lo: number, hi: number): BoxNode {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (let i = lo; i <= hi; i++) {
+      const p = this.points[i]!;
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+    if (hi - lo <= LEAF_SIZE) return { minX, minY, maxX, maxY, lo, hi, left: null, right: null };
+    const mid = Math.floor((lo + hi) / 2);
+    return {
+      minX,
+      minY,
+      maxX,
+      maxY,
+      lo,
+      hi,
+      left: this.build(lo, mid),
+      right: this.build(mid, hi),
+    };
+  }
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Find the closest point on a spline to a query point.
+ *
+ * @param spline - Spline, or a prebuilt index for repeated queries
+ * @param point - Query point
+ * @param samples - Polyline segments when indexing a spline (default: 16 per segment)
+ * @returns Parameter, point and distance, or null for an empty spline
+ *
+ * @example
+ * ```ts
+ * const hit = nearestPointOnSpline(spline, createVector(mouseX, mouseY));
+ * if (hit) circle(hit.point.x, hit.point.y, 6);
+ * ```
+ */
+export function nearestPointOnSpline(
+  spline: Spline | SplineIndex,
+  point: p5.Vector,
+  samples?: number,
+): SplineNearest | null {
+  const index = spline instanceof SplineIndex ? spline : new SplineIndex(spline, samples);
+  return index.nearest(point);
+}
+
+/**
+ * Distance from a point to a spline.
+ *
+ * @param spline - Spline, or a prebuilt index for repeated queries
+ * @param point - Query point
+ * @param samples - Polyline segments when indexing a spline (default: 16 per segment)
+ * @returns Distance, or Infinity for an empty spline
+ *
+ * @example
+ * ```ts
+ * const hover = distanceToSpline(index, createVector(mouseX, mouseY)) < 5;
+ * ```
+ */
+export function distanceToSpline(
+  spline: Spline | SplineIndex,
+  point: p5.Vector,
+  samples?: number,
+): number {
+  return nearestPointOnSpline(spline, point, samples)?.distance ?? Infinity;
+}
+
+/**
+ * Intersect a spline with a segment, ray or infinite line.
+ *
+ * @param spline - Spline, or a prebuilt index
+ * @param a - First point of the line
+ * @param b - Second point of the line
+ * @param kind - Line kind (default: 'segment')
+ * @param samples - Polyline segments when indexing a spline (default: 16 per segment)
+ * @returns Crossings sorted by t; `u` is the parameter along ab
+ *
+ * @example
+ * ```ts
+ * // Hatch a closed spline shape with horizontal lines
+ * for (let y = 0; y < height; y += 5) {
+ *   const xs = splineLineIntersections(index, createVector(0, y), createVector(1, y), 'line')
+ *     .map((hit) => hit.point.x)
+ *     .sort((a, b) => a - b);
+ *   for (let i = 0; i + 1 < xs.length; i += 2) line(xs[i], y, xs[i + 1], y);
+ * }
+ * ```
+ */
+export function splineLineIntersections(
+  spline: Spline | SplineIndex,
+  a: p5.Vector,
+  b: p5.Vector,
+  kind: LineKind = 'segment',
+  samples?: number,
+): SplineIntersection[] {
+  const index = spline instanceof SplineIndex ? spline : new SplineIndex(spline, samples);
+  return index.lineIntersections(a, b, kind);
+}
+
+/**
+ * Find the crossings of two different splines.
+ *
+ * @param a - First spline or index
+ * @param b - Second spline or index
+ * @param samples - Polyline segments when indexing a spline (default: 16 per segment)
+ * @returns Crossings sorted by t on the first spline; `u` is on the second
+ *
+ * @example
+ * ```ts
+ * for (const hit of splineIntersections(river, road)) {
+ *   circle(hit.point.x, hit.point.y, 10); // Bridge
+ * }
+ * ```
+ */
+export function splineIntersections(
+  a: Spline | SplineIndex,
+  b: Spline | SplineIndex,
+  samples?: number,
+): SplineIntersection[] {
+  const indexA = a instanceof SplineIndex ? a : new SplineIndex(a, samples);
+  const indexB = b instanceof SplineIndex ? b : new SplineIndex(b, samples);
+  return indexA.intersections(indexB);
+}
+
+/**
+ * Split a spline with cubic segments at t into two chains of exact Bézier
+ * curves. For closed splines, the second part followed by the first is the
+ * loop opened at t.
+ *
+ * @param spline - Catmull-Rom, Hermite or Kochanek–Bartels spline
+ * @param t - Split parameter (0 to 1)
+ * @returns Béziers before and after t (either may be empty at the ends)
+ *
+ * @example
+ * ```ts
+ * // Reveal a path as it is drawn
+ * const [drawn] = splitSpline(spline, frameCount / 300);
+ * svg.addBeziers(drawn);
+ * ```
+ */
+export function splitSpline(spline: SegmentedSpline, t: number): [CubicBezier[], CubicBezier[]] {
+  const count = spline.segmentCount;
+  if (count === 0) return [[], []];
+
+  const segmentT = Math.max(0, Math.min(1, t)) * count;
+  const segment = Math.min(Math.floor(segmentT), count - 1);
+  const localT = segmentT - segment;
+  const curves = Array.from({ length: count }, (_, i) => spline.getSegmentBezier(i));
+  const [left, right] = splitBezier(curves[segment]!, localT);
+
+  const before = curves.slice(0, segment);
+  const after = curves.slice(segment + 1);
+  if (localT > 0) before.push(left);
+  if (localT < 1) after.unshift(right);
+  return [before, after];
+}
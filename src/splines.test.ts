@@ -0,0 +1,211 @@
+/**
+ * Tests for spline families.
+ * These tests cover: BSpline (clamped, uniform, closed and custom knots),
+ * HermiteSpline with explicit and estimated tangents, KochanekBartelsSpline
+ * TCB parameters, and the shared sampling and arc-length API.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { CatmullRomSpline } from './catmullRom';
+import { BSpline, HermiteSpline, KochanekBartelsSpline, type Spline } from './splines';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number, z = 0): p5.Vector => createVector(x, y, z);
+
+const zigzag = [v(0, 0), v(10, 10), v(20, 0), v(30, 10), v(40, 0)];
+
+const expectPoint = (p: p5.Vector | undefined, x: number, y: number) => {
+  expect(p).toBeDefined();
+  expect(p!.x).toBeCloseTo(x);
+  expect(p!.y).toBeCloseTo(y);
+};
+
+describe('BSpline', () => {
+  test('clamped cubic starts and ends at the end points', () => {
+    const spline = new BSpline();
+    spline.setPoints(zigzag);
+    expect(spline.knots).toEqual([0, 0, 0, 0, 0.5, 1, 1, 1, 1]);
+    expect(spline.segmentCount).toBe(2);
+    expectPoint(spline.getPoint(0), 0, 0);
+    expectPoint(spline.getPoint(1), 40, 0);
+    // Approximating: the inner control points are not reached
+    expect(spline.getPoint(0.25).y).toBeLessThan(10);
+  });
+
+  test('degree 1 is the control polygon', () => {
+    const spline = new BSpline({ degree: 1 });
+    spline.setPoints(zigzag);
+    expect(spline.segmentCount).toBe(4);
+    expectPoint(spline.getPoint(0.25), 10, 10);
+    expectPoint(spline.getPoint(0.125), 5, 5);
+  });
+
+  test('degree is lowered when there are too few points', () => {
+    const spline = new BSpline({ degree: 5 });
+    spline.setPoints([v(0, 0), v(10, 0)]);
+    expect(spline.effectiveDegree).toBe(1);
+    expectPoint(spline.getPoint(0.5), 5, 0);
+  });
+
+  test('uniform cubic matches the B-spline basis', () => {
+    const spline = new BSpline({ clamped: false });
+    spline.setPoints([v(0, 0), v(6, 6), v(12, 0), v(18, 6)]);
+    expect(spline.segmentCount).toBe(1);
+    // (P0 + 4 P1 + P2) / 6 at the start of the single span
+    expectPoint(spline.getPoint(0), 6, 4);
+    expectPoint(spline.getPoint(1), 12, 2);
+  });
+
+  test('closed splines join smoothly at the start', () => {
+    const spline = new BSpline({ closed: true });
+    spline.setPoints([v(10, 0), v(0, 10), v(-10, 0), v(0, -10)]);
+    expect(spline.segmentCount).toBe(4);
+    const start = spline.getPoint(0);
+    const end = spline.getPoint(1);
+    expectPoint(end, start.x, start.y);
+    const d0 = spline.getDirection(0);
+    const d1 = spline.getDirection(1);
+    expectPoint(d1, d0.x, d0.y);
+  });
+
+  test('a repeated knot pulls the curve onto a control point', () => {
+    const spline = new BSpline({ degree: 2, knots: [0, 0, 0, 1, 1, 2, 2, 2] });
+    spline.setPoints([v(0, 0), v(10, 10), v(20, 0), v(30, 10), v(40, 0)]);
+    expect(spline.knots).toEqual([0, 0, 0, 1, 1, 2, 2, 2]);
+    expectPoint(spline.getPoint(0.5), 20, 0);
+    // Wrong lengths fall back to the default knots
+    spline.setKnots([0, 1]);
+    expect(spline.knots).toHaveLength(8);
+    expect(spline.knots[3]).toBeCloseTo(1 / 3);
+  });
+
+  test('tangent agrees with finite differences', () => {
+    const spline = new BSpline();
+    spline.setPoints(zigzag);
+    const h = 1e-5;
+    const a = spline.getPoint(0.3 - h);
+    const b = spline.getPoint(0.3 + h);
+    const tangent = spline.getTangent(0.3);
+    const scale = 1 / spline.segmentCount;
+    expect(tangent.x).toBeCloseTo(((b.x - a.x) / (2 * h)) * scale, 3);
+    expect(tangent.y).toBeCloseTo(((b.y - a.y) / (2 * h)) * scale, 3);
+  });
+});
+
+describe('HermiteSpline', () => {
+  test('passes through the points with the given tangents', () => {
+    const spline = new HermiteSpline();
+    spline.setPoints([v(0, 0), v(10, 0)], [v(0, 20), v(0, -20)]);
+    expectPoint(spline.getPoint(0), 0, 0);
+    expectPoint(spline.getPoint(1), 10, 0);
+    expectPoint(spline.getTangent(0), 0, 20);
+    expectPoint(spline.getTangent(1), 0, -20);
+    expect(spline.getPoint(0.5).y).toBeCloseTo(5);
+  });
+
+  test('missing tangents match uniform Catmull-Rom', () => {
+    const hermite = new HermiteSpline();
+    hermite.setPoints(zigzag);
+    const catmull = new CatmullRomSpline({ alpha: 0 });
+    catmull.setPoints(zigzag);
+    for (const t of [0.1, 0.4, 0.75]) {
+      const p = catmull.getPoint(t);
+      expectPoint(hermite.getPoint(t), p.x, p.y);
+    }
+  });
+
+  test('setTangent overrides and resets one point', () => {
+    const spline = new HermiteSpline({ closed: true });
+    spline.setPoints([v(0, 0), v(10, 0), v(10, 10)]);
+    spline.setTangent(1, v(0, 5));
+    expectPoint(spline.tangents[1], 0, 5);
+    spline.setTangent(1, null);
+    expectPoint(spline.tangents[1], 5, 5);
+    expect(spline.segmentCount).toBe(3);
+  });
+});
+
+describe('KochanekBartelsSpline', () => {
+  test('zero TCB equals uniform Catmull-Rom', () => {
+    const tcb = new KochanekBartelsSpline();
+    tcb.setPoints(zigzag);
+    const catmull = new CatmullRomSpline({ alpha: 0 });
+    catmull.setPoints(zigzag);
+    for (const t of [0.2, 0.5, 0.9]) {
+      const p = catmull.getPoint(t);
+      expectPoint(tcb.getPoint(t), p.x, p.y);
+    }
+  });
+
+  test('tension 1 gives zero tangents at the keys', () => {
+    const spline = new KochanekBartelsSpline({ tension: 1 });
+    spline.setPoints(zigzag);
+    expectPoint(spline.getTangent(0.25), 0, 0);
+  });
+
+  test('per-point parameters override the defaults', () => {
+    const spline = new KochanekBartelsSpline({ bias: 0.5 });
+    spline.setPoints(zigzag, [undefined, { continuity: -1 }]);
+    expect(spline.getParams(1)).toEqual({ tension: 0, continuity: -1, bias: 0.5 });
+    spline.setParams(2, { tension: 0.5 });
+    expect(spline.getParams(2).tension).toBe(0.5);
+  });
+
+  test('continuity -1 makes a corner at the key', () => {
+    const spline = new KochanekBartelsSpline();
+    spline.setPoints(zigzag);
+    spline.setParams(1, { continuity: -1 });
+    // Incoming tangent follows the previous edge, outgoing the next
+    const before = spline.getDirection(0.25 - 1e-9);
+    const after = spline.getDirection(0.25);
+    expectPoint(before, Math.SQRT1_2, Math.SQRT1_2);
+    expectPoint(after, Math.SQRT1_2, -Math.SQRT1_2);
+  });
+});
+
+describe('shared API', () => {
+  const families = (): Spline[] => {
+    const splines = [
+      new BSpline(),
+      new HermiteSpline(),
+      new KochanekBartelsSpline({ tension: 0.3 }),
+      new CatmullRomSpline({ alpha: 0 }),
+    ];
+    splines.forEach((s) => s.setPoints([v(0, 0), v(10, 4), v(20, 0), v(30, 4), v(40, 0)]));
+    return splines;
+  };
+
+  test('evenly spaced points have equal gaps', () => {
+    for (const spline of families()) {
+      const pts = spline.getEvenlySpacedPoints(11);
+      expect(pts).toHaveLength(11);
+      const gaps = pts.slice(1).map((p, i) => Math.hypot(p.x - pts[i]!.x, p.y - pts[i]!.y));
+      const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+      for (const gap of gaps) expect(Math.abs(gap - mean)).toBeLessThan(mean * 0.05);
+    }
+  });
+
+  test('getPoints samples every segment', () => {
+    const spline = new HermiteSpline({ segments: 5 });
+    spline.setPoints(zigzag);
+    expect(spline.getPoints()).toHaveLength(4 * 5 + 1);
+    expect(new BSpline().getPoints()).toEqual([]);
+  });
+
+  test('3D points keep z', () => {
+    const spline = new BSpline({ is3D: true });
+    spline.setPoints([v(0, 0, 0), v(10, 0, 10), v(20, 0, 20)]);
+    expect(spline.getPoint(0.5).z).toBeCloseTo(10);
+    expect(spline.getLength()).toBeCloseTo(Math.hypot(20, 20));
+  });
+
+  test('tToArcLengthT and clearPoints', () => {
+    const spline = new KochanekBartelsSpline();
+    spline.setPoints([v(0, 0), v(10, 0), v(30, 0)]);
+    expect(spline.tToArcLengthT(0.5)).toBeGreaterThan(0.5);
+    spline.clearPoints();
+    expect(spline.getLength()).toBe(0);
+    expectPoint(spline.getPoint(0.5), 0, 0);
+  });
+});
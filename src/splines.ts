@@ -0,0 +1,845 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+/**
+ * Spline families that share the `CatmullRomSpline` API, so sketches can swap
+ * one curve type for another.
+ *
+ * Families:
+ * - BSpline: approximating B-spline of any degree with uniform, clamped or
+ *   custom (non-uniform) knot vectors; smooth but does not pass through the
+ *   control points
+ * - HermiteSpline: cubic Hermite through every point with explicit tangents
+ * - KochanekBartelsSpline: TCB spline with tension, continuity and bias per point
+ *
+ * All splines are parameterised by t from 0 (start) to 1 (end) and support
+ * closed loops and 3D points.
+ */
+
+import { ARC_LENGTH_SAMPLES, ArcLengthTable } from './arcLength';
+import type { CubicBezier } from './bezier';
+import type { PointInput } from './catmullRom';
+import { createVector } from './vec2';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Common API of all splines, including `CatmullRomSpline`.
+ */
+export interface Spline {
+  /** Control points */
+  readonly points: readonly p5.Vector[];
+  /** Whether the curve loops back to the start */
+  readonly closed: boolean;
+  /** Number of curve segments */
+  readonly segmentCount: number;
+  /** Point at t (0 to 1) */
+  getPoint(t: number): p5.Vector;
+  /** Velocity at t with respect to the local segment parameter */
+  getTangent(t: number): p5.Vector;
+  /** Normalized tangent at t */
+  getDirection(t: number): p5.Vector;
+  /** Approximate curve length */
+  getLength(samples?: number): number;
+  /** Points sampled uniformly in t */
+  getPoints(pointsPerSegment?: number): p5.Vector[];
+  /** Points spaced evenly along the curve */
+  getEvenlySpacedPoints(numPoints: number): p5.Vector[];
+  /** Convert t to the arc-length parameterised t */
+  tToArcLengthT(t: number, samples?: number): number;
+  /** Cached arc-length table, rebuilt after edits */
+  getArcLengthTable(samples?: number): ArcLengthTable;
+}
+
+/** Configuration shared by all spline families */
+export type SplineConfig = {
+  /** Whether the curve should loop back to the start */
+  readonly closed?: boolean;
+  /** Number of interpolated points per segment */
+  readonly segments?: number;
+  /** Whether to use 3D coordinates */
+  readonly is3D?: boolean;
+};
+
+/** Configuration for B-splines */
+export type BSplineConfig = SplineConfig & {
+  /** Polynomial degree (default: 3); lowered when there are too few points */
+  readonly degree?: number;
+  /** Clamp the ends so the curve starts and ends at the end points (default: true) */
+  readonly clamped?: boolean;
+  /** Custom non-decreasing knot vector of length points + degree + 1 (default: none) */
+  readonly knots?: readonly number[];
+};
+
+/** Tension, continuity and bias of a Kochanek–Bartels key */
+export type TcbParams = {
+  /** Tightness: 1 = sharp, -1 = round (default: 0) */
+  readonly tension?: number;
+  /** Corner shape: non-zero values break tangent continuity (default: 0) */
+  readonly continuity?: number;
+  /** Overshoot direction: 1 = towards the next point, -1 = towards the previous (default: 0) */
+  readonly bias?: number;
+};
+
+/** Configuration for Kochanek–Bartels splines; TCB values are defaults for every point */
+export type KochanekBartelsConfig = SplineConfig & TcbParams;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default configuration values */
+const DEFAULT_CONFIG: Required<SplineConfig> = {
+  closed: false,
+  segments: 20,
+  is3D: false,
+};
+
+/** Default B-spline degree */
+const DEFAULT_DEGREE = 3;
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/**
+ * Euclidean distance between two points (including z).
+ */
+function pointDistance(a: p5.Vector, b: p5.Vector): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+/**
+ * Cubic Hermite point between p1 and p2 with tangents m1 and m2.
+ */
+function hermitePoint(
+  p1: p5.Vector,
+  p2: p5.Vector,
+  m1: p5.Vector,
+  m2: p5.Vector,
+  t: number,
+): p5.Vector {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const h00 = 2 * t3 - 3 * t2 + 1;
+  const h10 = t3 - 2 * t2 + t;
+  const h01 = -2 * t3 + 3 * t2;
+  const h11 = t3 - t2;
+  return createVector(
+    h00 * p1.x + h10 * m1.x + h01 * p2.x + h11 * m2.x,
+    h00 * p1.y + h10 * m1.y + h01 * p2.y + h11 * m2.y,
+    h00 * p1.z + h10 * m1.z + h01 * p2.z + h11 * m2.z,
+  );
+}
+
+/**
+ * Derivative of the cubic Hermite segment with respect to t.
+ */
+function hermiteTangent(
+  p1: p5.Vector,
+  p2: p5.Vector,
+  m1: p5.Vector,
+  m2: p5.Vector,
+  t: number,
+): p5.Vector {
+  const t2 = t * t;
+  const d00 = 6 * t2 - 6 * t;
+  const d10 = 3 * t2 - 4 * t + 1;
+  const d01 = -6 * t2 + 6 * t;
+  const d11 = 3 * t2 - 2 * t;
+  return createVector(
+    d00 * p1.x + d10 * m1.x + d01 * p2.x + d11 * m2.x,
+    d00 * p1.y + d10 * m1.y + d01 * p2.y + d11 * m2.y,
+    d00 * p1.z + d10 * m1.z + d01 * p2.z + d11 * m2.z,
+  );
+}
+
+/**
+ * Cubic Bézier equal to the Hermite segment: handles are a third of the tangents.
+ */
+function hermiteBezier(p1: p5.Vector, p2: p5.Vector, m1: p5.Vector, m2: p5.Vector): CubicBezier {
+  return [
+    createVector(p1.x, p1.y, p1.z),
+    createVector(p1.x + m1.x / 3, p1.y + m1.y / 3, p1.z + m1.z / 3),
+    createVector(p2.x - m2.x / 3, p2.y - m2.y / 3, p2.z - m2.z / 3),
+    createVector(p2.x, p2.y, p2.z),
+  ];
+}
+
+// ============================================================================
+// Spline Base Class
+// ============================================================================
+
+/**
+ * Control point storage and the sampling, length and arc-length methods shared
+ * by every spline family. Subclasses provide `getPoint`, `getTangent` and
+ * `segmentCount`.
+ */
+export abstract class SplineBase implements Spline {
+  protected _points: p5.Vector[] = [];
+  private arcLengthTable: ArcLengthTable | null = null;
+  readonly closed: boolean;
+  readonly segments: number;
+  readonly is3D: boolean;
+
+  /**
+   * @param config - Shared configuration options
+   */
+  constructor(config: SplineConfig = {}) {
+    this.closed = config.closed ?? DEFAULT_CONFIG.closed;
+    this.segments = config.segments ?? DEFAULT_CONFIG.segments;
+    this.is3D = config.is3D ?? DEFAULT_CONFIG.is3D;
+  }
+
+  /**
+   * Get the control points.
+   * @returns Array of control points
+   */
+  get points(): readonly p5.Vector[] {
+    return this._points;
+  }
+
+  /**
+   * Get the number of curve segments.
+   */
+  abstract get segmentCount(): number;
+
+  /**
+   * Get point at parameter t (0 to 1) along the entire spline.
+   * @param t - Parameter value (0 to 1)
+   */
+  abstract getPoint(t: number): p5.Vector;
+
+  /**
+   * Get tangent (velocity) vector at parameter t, with respect to the local
+   * segment parameter as in `CatmullRomSpline`.
+   * @param t - Parameter value (0 to 1)
+   */
+  abstract getTangent(t: number): p5.Vector;
+
+  /**
+   * Add a control point to the spline.
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param z - Z coordinate (optional, for 3D)
+   */
+  addPoint(x: number, y: number, z?: number): void {
+    this._points.push(this.is3D ? createVector(x, y, z ?? 0) : createVector(x, y));
+    this.invalidate();
+  }
+
+  /**
+   * Set all control points at once.
+   * @param points - Array of points (p5.Vector or {x, y, z?} objects)
+   */
+  setPoints(points: readonly (p5.Vector | PointInput)[]): void {
+    this._points = points.map((p) =>
+      this.is3D && p.z !== undefined ? createVector(p.x, p.y, p.z) : createVector(p.x, p.y),
+    );
+    this.invalidate();
+  }
+
+  /**
+   * Clear all control points.
+   */
+  clearPoints(): void {
+    this._points = [];
+    this.invalidate();
+  }
+
+  /**
+   * Drop the cached arc-length table. Called by every setter; call it
+   * yourself after moving control points in place.
+   */
+  invalidate(): void {
+    this.arcLengthTable = null;
+  }
+
+  /**
+   * Get the cached arc-length table, building it on first use.
+   * @param samples - Table resolution (default: 256); a different value rebuilds the cache
+   * @returns Arc-length table of the current curve
+   */
+  getArcLengthTable(samples = ARC_LENGTH_SAMPLES): ArcLengthTable {
+    if (this.arcLengthTable?.samples !== samples) {
+      this.arcLengthTable = new ArcLengthTable((t) => this.getPoint(t), samples);
+    }
+    return this.arcLengthTable;
+  }
+
+  /**
+   * Get normalized tangent (direction) at parameter t.
+   * @param t - Parameter value (0 to 1)
+   * @returns Normalized direction vector
+   */
+  getDirection(t: number): p5.Vector {
+    const tangent = this.getTangent(t);
+    const len = Math.hypot(tangent.x, tangent.y, tangent.z);
+    return len > 0 ? createVector(tangent.x / len, tangent.y / len, tangent.z / len) : tangent;
+  }
+
+  /**
+   * Get approximate curve length using numerical integration.
+   * @param samples - Number of samples for approximation (default: the cached arc-length table)
+   * @returns Approximate arc length
+   */
+  getLength(samples?: number): number {
+    if (this._points.length < 2) return 0;
+    if (samples === undefined) return this.getArcLengthTable().length;
+    let length = 0;
+    let prev = this.getPoint(0);
+    for (let i = 1; i <= samples; i++) {
+      const current = this.getPoint(i / samples);
+      length += pointDistance(prev, current);
+      prev = current;
+    }
+    return length;
+  }
+
+  /**
+   * Get array of points sampled uniformly in t.
+   * @param pointsPerSegment - Number of points per segment (default: this.segments)
+   * @returns Array of points along the curve
+   */
+  getPoints(pointsPerSegment?: number): p5.Vector[] {
+    const count = this.segmentCount;
+    if (count === 0) return [];
+    const total = count * (pointsPerSegment ?? this.segments);
+    return Array.from({ length: total + 1 }, (_, i) => this.getPoint(i / total));
+  }
+
+  /**
+   * Get evenly spaced points along curve (arc-length parameterization).
+   * @param numPoints - Number of evenly spaced points
+   * @returns Array of evenly spaced points
+   */
+  getEvenlySpacedPoints(numPoints: number): p5.Vector[] {
+    if (this._points.length < 2) return [];
+
+    const table = this.getArcLengthTable();
+    return Array.from({ length: numPoints }, (_, i) =>
+      this.getPoint(table.tAtFraction(numPoints > 1 ? i / (numPoints - 1) : 0)),
+    );
+  }
+
+  /**
+   * Convert t parameter to arc-length parameterized t, using the cached table.
+   * @param t - Fraction of the curve length (0 to 1)
+   * @param samples - Table resolution (default: 256)
+   * @returns Parameter t at that fraction of the length
+   */
+  tToArcLengthT(t: number, samples?: number): number {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return this.getArcLengthTable(samples).tAtFraction(t);
+  }
+
+  /**
+   * Get control point with wraparound for closed curves and clamping for open ones.
+   * @param index - Point index (can be negative or beyond array length)
+   */
+  protected getControlPoint(index: number): p5.Vector {
+    const n = this._points.length;
+    if (n === 0) return createVector(0, 0);
+    const i = this.closed ? ((index % n) + n) % n : Math.max(0, Math.min(n - 1, index));
+    return this._points[i]!;
+  }
+
+  /**
+   * Split a global t into a segment index and local parameter, for splines
+   * with one segment per pair of neighbouring points.
+   */
+  protected locate(t: number): { segment: number; localT: number } {
+    const count = this.segmentCount;
+    const segmentT = Math.max(0, Math.min(1, t)) * count;
+    const segment = Math.min(Math.floor(segmentT), count - 1);
+    return { segment, localT: segmentT - segment };
+  }
+
+  /**
+   * Copy of the first point, or the origin, for splines with fewer than two points.
+   */
+  protected fallbackPoint(): p5.Vector {
+    const first = this._points[0];
+    return first ? createVector(first.x, first.y, first.z) : createVector(0, 0);
+  }
+}
+
+// ============================================================================
+// B-Spline
+// ============================================================================
+
+/**
+ * B-spline of any degree. Unlike Catmull-Rom the curve is pulled towards the
+ * control points rather than passing through them, and is C(degree-1) smooth.
+ *
+ * @example
+ * ```ts
+ * const spline = new BSpline({ degree: 3 });
+ * spline.setPoints(points);
+ * const path = spline.getPoints();
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Non-uniform knots: a repeated inner knot creates a corner at point 3
+ * const sharp = new BSpline({ degree: 2, knots: [0, 0, 0, 1, 2, 2, 3, 3, 3] });
+ * ```
+ */
+export class BSpline extends SplineBase {
+  readonly degree: number;
+  readonly clamped: boolean;
+  private customKnots: readonly number[] | null;
+
+  /**
+   * Create a new B-spline.
+   * @param config - Configuration options
+   */
+  constructor(config: BSplineConfig = {}) {
+    super(config);
+    this.degree = Math.max(1, Math.floor(config.degree ?? DEFAULT_DEGREE));
+    this.clamped = config.clamped ?? true;
+    this.customKnots = config.knots ?? null;
+  }
+
+  /**
+   * Set a custom knot vector, or null to go back to the default.
+   * Ignored for closed splines and when its length does not match.
+   * @param knots - Non-decreasing knots (points + degree + 1 values)
+   */
+  setKnots(knots: readonly number[] | null): void {
+    this.customKnots = knots;
+    this.invalidate();
+  }
+
+  /**
+   * Get the effective degree (lowered when there are too few points).
+   */
+  get effectiveDegree(): number {
+    return Math.max(1, Math.min(this.degree, this._points.length - 1));
+  }
+
+  /**
+   * Get the knot vector in use.
+   * @returns Knots for the (wrapped, when closed) control points
+   */
+  get knots(): number[] {
+    const p = this.effectiveDegree;
+    const n = this.controlPoints().length;
+    const m = n + p + 1;
+
+    const custom = this.customKnots;
+    if (!this.closed && custom && custom.length === m) return [...custom];
+
+    if (this.clamped && !this.closed) {
+      const inner = n - p;
+      return Array.from({ length: m }, (_, i) => Math.max(0, Math.min(inner, i - p)) / inner);
+    }
+    return Array.from({ length: m }, (_, i) => i);
+  }
+
+  /**
+   * Get the number of non-empty knot spans in the curve's domain.
+   */
+  get segmentCount(): number {
+    if (this._points.length < 2) return 0;
+    const knots = this.knots;
+    const p = this.effectiveDegree;
+    let count = 0;
+    for (let i = p; i < knots.length - p - 1; i++) {
+      if (knots[i + 1]! > knots[i]!) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Get point at parameter t (0 to 1) along entire spline.
+   * @param t - Parameter value (0 to 1)
+   * @returns Point on the spline
+   */
+  getPoint(t: number): p5.Vector {
+    if (this._points.length < 2) return this.fallbackPoint();
+    const knots = this.knots;
+    return this.deBoor(this.controlPoints(), knots, this.effectiveDegree, this.knotValue(knots, t));
+  }
+
+  /**
+   * Get tangent (velocity) vector at parameter t.
+   * @param t - Parameter value (0 to 1)
+   * @returns Tangent vector at that point
+   */
+  getTangent(t: number): p5.Vector {
+    if (this._points.length < 2) return createVector(0, 0);
+    const knots = this.knots;
+    const p = this.effectiveDegree;
+    const points = this.controlPoints();
+
+    // The derivative is a B-spline of degree p - 1 over the inner knots
+    const derivative = points.slice(1).map((q, i) => {
+      const span = knots[i + p + 1]! - knots[i + 1]!;
+      const s = span > 0 ? p / span : 0;
+      const prev = points[i]!;
+      return createVector(s * (q.x - prev.x), s * (q.y - prev.y), s * (q.z - prev.z));
+    });
+    const d = this.deBoor(derivative, knots.slice(1, -1), p - 1, this.knotValue(knots, t));
+
+    // Scale from knot units to the local segment parameter
+    const p0 = knots[p]!;
+    const scale = (knots[knots.length - p - 1]! - p0) / Math.max(1, this.segmentCount);
+    return createVector(d.x * scale, d.y * scale, d.z * scale);
+  }
+
+  /**
+   * Control points, with the first `degree` repeated at the end when closed.
+   */
+  private controlPoints(): p5.Vector[] {
+    if (!this.closed) return this._points;
+    return [...this._points, ...this._points.slice(0, this.effectiveDegree)];
+  }
+
+  /**
+   * Map t (0 to 1) onto the knot domain.
+   */
+  private knotValue(knots: readonly number[], t: number): number {
+    const p = this.effectiveDegree;
+    const lo = knots[p]!;
+    const hi = knots[knots.length - p - 1]!;
+    return lo + Math.max(0, Math.min(1, t)) * (hi - lo);
+  }
+
+  /**
+   * De Boor's algorithm for the point at knot value u.
+   */
+  private deBoor(
+    points: readonly p5.Vector[],
+    knots: readonly number[],
+    p: number,
+    u: number,
+  ): p5.Vector {
+    const n = points.length;
+    if (p === 0) {
+      // Piecewise constant: pick the span containing u
+      let k = 0;
+      while (k < n - 1 && knots[k + 1]! <= u) k++;
+      const q = points[k]!;
+      return createVector(q.x, q.y, q.z);
+    }
+
+    // Span k with knots[k] <= u < knots[k + 1], staying inside the domain
+    let k = p;
+    while (k < n - 1 && knots[k + 1]! <= u) k++;
+
+    const d = points.slice(k - p, k + 1).map((q) => createVector(q.x, q.y, q.z));
+    for (let r = 1; r <= p; r++) {
+      for (let j = p; j >= r; j--) {
+        const i = j + k - p;
+        const denom = knots[i + p + 1 - r]! - knots[i]!;
+        const alpha = denom > 0 ? (u - knots[i]!) / denom : 0;
+        const a = d[j - 1]!;
+        const b = d[j]!;
+        d[j] = createVector(
+          a.x + (b.x - a.x) * alpha,
+          a.y + (b.y - a.y) * alpha,
+          a.z + (b.z - a.z) * alpha,
+        );
+      }
+    }
+    return d[p]!;
+  }
+}
+
+// ============================================================================
+// Hermite Spline
+// ============================================================================
+
+/**
+ * Cubic Hermite spline through every control point with explicit tangents.
+ * Points without a tangent use the Catmull-Rom estimate (half the difference
+ * of the neighbours).
+ *
+ * @example
+ * ```ts
+ * const spline = new HermiteSpline();
+ * spline.setPoints([a, b, c], [createVector(100, 0), null, createVector(0, -100)]);
+ * ```
+ */
+export class HermiteSpline extends SplineBase {
+  private _tangents: (p5.Vector | null)[] = [];
+
+  /**
+   * Create a new Hermite spline.
+   * @param config - Configuration options
+   */
+  constructor(config: SplineConfig = {}) {
+    super(config);
+  }
+
+  /**
+   * Get the number of curve segments.
+   */
+  get segmentCount(): number {
+    if (this._points.length < 2) return 0;
+    return this.closed ? this._points.length : this._points.length - 1;
+  }
+
+  /**
+   * Get the tangent used at each control point.
+   * @returns One tangent per control point
+   */
+  get tangents(): p5.Vector[] {
+    return this._points.map((_, i) => this.tangentAt(i));
+  }
+
+  /**
+   * Set all control points and, optionally, their tangents.
+   * @param points - Array of points
+   * @param tangents - Tangent per point; null or missing entries are estimated
+   */
+  override setPoints(
+    points: readonly (p5.Vector | PointInput)[],
+    tangents: readonly (p5.Vector | PointInput | null)[] = [],
+  ): void {
+    super.setPoints(points);
+    this._tangents = points.map((_, i) => {
+      const m = tangents[i];
+      return m ? createVector(m.x, m.y, this.is3D ? (m.z ?? 0) : 0) : null;
+    });
+  }
+
+  /**
+   * Set the tangent of one control point.
+   * @param index - Control point index
+   * @param tangent - Tangent, or null to use the estimate
+   */
+  setTangent(index: number, tangent: p5.Vector | PointInput | null): void {
+    this._tangents[index] = tangent
+      ? createVector(tangent.x, tangent.y, this.is3D ? (tangent.z ?? 0) : 0)
+      : null;
+    this.invalidate();
+  }
+
+  /**
+   * Clear all control points and tangents.
+   */
+  override clearPoints(): void {
+    super.clearPoints();
+    this._tangents = [];
+  }
+
+  /**
+   * Get point at parameter t (0 to 1) along entire spline.
+   * @param t - Parameter value (0 to 1)
+   * @returns Point on the spline
+   */
+  getPoint(t: number): p5.Vector {
+    if (this._points.length < 2) return this.fallbackPoint();
+    const { segment, localT } = this.locate(t);
+    return hermitePoint(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.tangentAt(segment),
+      this.tangentAt(segment + 1),
+      localT,
+    );
+  }
+
+  /**
+   * Get tangent (velocity) vector at parameter t.
+   * @param t - Parameter value (0 to 1)
+   * @returns Tangent vector at that point
+   */
+  getTangent(t: number): p5.Vector {
+    if (this._points.length < 2) return createVector(0, 0);
+    const { segment, localT } = this.locate(t);
+    return hermiteTangent(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.tangentAt(segment),
+      this.tangentAt(segment + 1),
+      localT,
+    );
+  }
+
+  /**
+   * Get the exact cubic Bézier of one segment.
+   * @param segment - Segment index (0 to segmentCount - 1)
+   * @returns Control points of the segment
+   */
+  getSegmentBezier(segment: number): CubicBezier {
+    return hermiteBezier(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.tangentAt(segment),
+      this.tangentAt(segment + 1),
+    );
+  }
+
+  /**
+   * Tangent at a control point: the explicit one or the Catmull-Rom estimate.
+   */
+  private tangentAt(index: number): p5.Vector {
+    const n = this._points.length;
+    const i = this.closed ? ((index % n) + n) % n : Math.max(0, Math.min(n - 1, index));
+    const explicit = this._tangents[i];
+    if (explicit) return explicit;
+    const prev = this.getControlPoint(i - 1);
+    const next = this.getControlPoint(i + 1);
+    return createVector((next.x - prev.x) / 2, (next.y - prev.y) / 2, (next.z - prev.z) / 2);
+  }
+}
+
+// ============================================================================
+// Kochanek-Bartels (TCB) Spline
+// ============================================================================
+
+/**
+ * Kochanek–Bartels spline: a Hermite spline through every control point whose
+ * tangents are shaped by tension, continuity and bias, set for the whole curve
+ * or per point. With all three at 0 it equals uniform Catmull-Rom.
+ *
+ * @example
+ * ```ts
+ * const spline = new KochanekBartelsSpline({ tension: 0.3 });
+ * spline.setPoints(keys);
+ * spline.setParams(2, { continuity: -1 }); // Sharp corner at key 2
+ * ```
+ */
+export class KochanekBartelsSpline extends SplineBase {
+  readonly tension: number;
+  readonly continuity: number;
+  readonly bias: number;
+  private params: (TcbParams | undefined)[] = [];
+
+  /**
+   * Create a new Kochanek–Bartels spline.
+   * @param config - Configuration options; TCB values are defaults for every point
+   */
+  constructor(config: KochanekBartelsConfig = {}) {
+    super(config);
+    this.tension = config.tension ?? 0;
+    this.continuity = config.continuity ?? 0;
+    this.bias = config.bias ?? 0;
+  }
+
+  /**
+   * Get the number of curve segments.
+   */
+  get segmentCount(): number {
+    if (this._points.length < 2) return 0;
+    return this.closed ? this._points.length : this._points.length - 1;
+  }
+
+  /**
+   * Set all control points and, optionally, their TCB values.
+   * @param points - Array of points
+   * @param params - TCB values per point; missing values use the spline defaults
+   */
+  override setPoints(
+    points: readonly (p5.Vector | PointInput)[],
+    params: readonly (TcbParams | undefined)[] = [],
+  ): void {
+    super.setPoints(points);
+    this.params = [...params];
+  }
+
+  /**
+   * Set the TCB values of one control point.
+   * @param index - Control point index
+   * @param params - Values to override; others keep the spline defaults
+   */
+  setParams(index: number, params: TcbParams): void {
+    this.params[index] = params;
+    this.invalidate();
+  }
+
+  /**
+   * Get the TCB values in effect at a control point.
+   * @param index - Control point index
+   * @returns Tension, continuity and bias
+   */
+  getParams(index: number): Required<TcbParams> {
+    const own = this.params[index];
+    return {
+      tension: own?.tension ?? this.tension,
+      continuity: own?.continuity ?? this.continuity,
+      bias: own?.bias ?? this.bias,
+    };
+  }
+
+  /**
+   * Clear all control points and TCB values.
+   */
+  override clearPoints(): void {
+    super.clearPoints();
+    this.params = [];
+  }
+
+  /**
+   * Get point at parameter t (0 to 1) along entire spline.
+   * @param t - Parameter value (0 to 1)
+   * @returns Point on the spline
+   */
+  getPoint(t: number): p5.Vector {
+    if (this._points.length < 2) return this.fallbackPoint();
+    const { segment, localT } = this.locate(t);
+    return hermitePoint(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.keyTangent(segment, 'out'),
+      this.keyTangent(segment + 1, 'in'),
+      localT,
+    );
+  }
+
+  /**
+   * Get tangent (velocity) vector at parameter t.
+   * @param t - Parameter value (0 to 1)
+   * @returns Tangent vector at that point
+   */
+  getTangent(t: number): p5.Vector {
+    if (this._points.length < 2) return createVector(0, 0);
+    const { segment, localT } = this.locate(t);
+    return hermiteTangent(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.keyTangent(segment, 'out'),
+      this.keyTangent(segment + 1, 'in'),
+      localT,
+    );
+  }
+
+  /**
+   * Get the exact cubic Bézier of one segment.
+   * @param segment - Segment index (0 to segmentCount - 1)
+   * @returns Control points of the segment
+   */
+  getSegmentBezier(segment: number): CubicBezier {
+    return hermiteBezier(
+      this.getControlPoint(segment),
+      this.getControlPoint(segment + 1),
+      this.keyTangent(segment, 'out'),
+      this.keyTangent(segment + 1, 'in'),
+    );
+  }
+
+  /**
+   * Incoming or outgoing tangent at a control point from its TCB values.
+   */
+  private keyTangent(index: number, side: 'in' | 'out'): p5.Vector {
+    const n = this._points.length;
+    const i = this.closed ? ((index % n) + n) % n : Math.max(0, Math.min(n - 1, index));
+    const { tension, continuity, bias } = this.getParams(i);
+    const prev = this.getControlPoint(i - 1);
+    const p = this.getControlPoint(i);
+    const next = this.getControlPoint(i + 1);
+
+    const c = side === 'out' ? continuity : -continuity;
+    const a = ((1 - tension) * (1 + bias) * (1 + c)) / 2;
+    const b = ((1 - tension) * (1 - bias) * (1 - c)) / 2;
+    return createVector(
+      a * (p.x - prev.x) + b * (next.x - p.x),
+      a * (p.y - prev.y) + b * (next.y - p.y),
+      a * (p.z - prev.z) + b * (next.z - p.z),
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for SVG export.
+ * These tests cover: joinSegments, removeCollinearPoints and SvgWriter output
+ * (layers, units, viewBox, merging, Bézier curves).
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { SvgWriter, joinSegments, removeCollinearPoints } from './svg';
+import { LineSegment } from './marchingSquares';
+import { createVector } from './vec2';
+
+const v = (x: number, y: number): p5.Vector => createVector(x, y);
+
+describe('joinSegments', () => {
+  test('joins segments regardless of direction', () => {
+    const paths = joinSegments([
+      [v(10, 0), v(0, 0)],
+      [v(10, 0), v(10, 10)],
+      [v(20, 10), v(10, 10)],
+    ]);
+    expect(paths).toHaveLength(1);
+    const coords = paths[0]!.points.map((p) => [p.x, p.y]);
+    if (coords[0]![0] !== 0) coords.reverse();
+    expect(coords).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [20, 10],
+    ]);
+    expect(paths[0]!.closed).toBe(false);
+  });
+
+  test('detects closed loops', () => {
+    const paths = joinSegments([
+      [v(0, 0), v(10, 0)],
+      [v(10, 0), v(10, 10)],
+      [v(10, 10), v(0, 0)],
+    ]);
+    expect(paths).toHaveLength(1);
+    expect(paths[0]!.closed).toBe(true);
+    expect(paths[0]!.points).toHaveLength(3);
+  });
+
+  test('keeps disconnected segments apart', () => {
+    const paths = joinSegments([
+      [v(0, 0), v(1, 0)],
+      [v(5, 5), v(6, 5)],
+    ]);
+    expect(paths).toHaveLength(2);
+  });
+
+  test('drops zero-length segments', () => {
+    expect(joinSegments([[v(1, 1), v(1, 1)]])).toHaveLength(0);
+  });
+});
+
+describe('removeCollinearPoints', () => {
+  test('removes points on a straight run', () => {
+    const path = removeCollinearPoints({
+      points: [v(0, 0), v(5, 0), v(10, 0), v(10, 10)],
+      closed: false,
+    });
+    expect(path.points.map((p) => [p.x, p.y])).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+    ]);
+  });
+
+  test('keeps reversals', () => {
+    const path = removeCollinearPoints({ points: [v(0, 0), v(10, 0), v(5, 0)], closed: false });
+    expect(path.points).toHaveLength(3);
+  });
+
+  test('removes redundant seam vertex on closed paths', () => {
+    const path = removeCollinearPoints({
+      points: [v(5, 0), v(10, 0), v(10, 10), v(0, 10), v(0, 0)],
+      closed: true,
+    });
+    expect(path.points).toHaveLength(4);
+  });
+});
+
+describe('SvgWriter', () => {
+  test('writes physical size and viewBox', () => {
+    const svg = new SvgWriter({ width: 210, height: 297, unit: 'mm' }).toString();
+    expect(svg).toContain('width="210mm"');
+    expect(svg).toContain('height="297mm"');
+    expect(svg).toContain('viewBox="0 0 210 297"');
+  });
+
+  test('writes one group per layer with its style', () => {
+    const svg = new SvgWriter({ width: 100, height: 100 });
+    svg.setLayer('outline', { stroke: 'red', strokeWidth: 0.5 });
+    svg.addSegment(v(0, 0), v(10, 0), 'outline');
+    svg.addSegment(v(0, 5), v(10, 5), 'hatch');
+
+    const text = svg.toString();
+    expect(svg.layerNames).toEqual(['outline', 'hatch']);
+    expect(text.match(/<g /g)).toHaveLength(2);
+    expect(text).toContain('inkscape:label="outline"');
+    expect(text).toContain('stroke="red" stroke-width="0.5"');
+  });
+
+  test('merges connected collinear segments into one path', () => {
+    const svg = new SvgWriter({ width: 100, height: 100 });
+    const draw = svg.drawFunction();
+    draw(v(0, 0), v(5, 0));
+    draw(v(5, 0), v(10, 0));
+    draw(v(10, 0), v(10, 10));
+
+    const paths = svg.getPaths();
+    expect(paths).toHaveLength(1);
+    expect(svg.toString()).toContain('<path d="M0 0L10 0L10 10"/>');
+  });
+
+  test('keeps segments separate when merging is disabled', () => {
+    const svg = new SvgWriter({ width: 100, height: 100, merge: false });
+    svg.addLineSegments([new LineSegment(0, 0, 5, 0), new LineSegment(5, 0, 10, 0)]);
+    expect(svg.getPaths()).toHaveLength(2);
+  });
+
+  test('writes closed polygons with Z', () => {
+    const svg = new SvgWriter({ width: 100, height: 100 });
+    svg.addPolygons([{ segments: [[v(0, 0), v(10, 0), v(10, 10)]] }]);
+    expect(svg.toString()).toContain('<path d="M0 0L10 0L10 10Z"/>');
+  });
+
+  test('writes Bézier chains as curve commands', () => {
+    const svg = new SvgWriter({ width: 100, height: 100 });
+    svg.addBeziers([
+      [v(0, 0), v(5, 10), v(10, 0)],
+      [v(10, 0), v(15, -10), v(20, 10), v(30, 0)],
+    ]);
+    svg.addBeziers([[v(0, 0), v(10, 10), v(20, 0)]], true);
+
+    const text = svg.toString();
+    expect(text).toContain('<path d="M0 0Q5 10 10 0C15 -10 20 10 30 0"/>');
+    expect(text).toContain('<path d="M0 0Q10 10 20 0Z"/>');
+    expect(svg.getPaths()).toHaveLength(0);
+  });
+
+  test('escapes attribute values', () => {
+    const svg = new SvgWriter({ width: 10, height: 10 });
+    svg.setLayer('a', { label: '1 "pen" <black>' });
+    expect(svg.toString()).toContain('inkscape:label="1 &quot;pen&quot; &lt;black&gt;"');
+  });
+});
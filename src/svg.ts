@@ -0,0 +1,512 @@
+/// <reference path="../node_modules/@types/p5/global.d.ts" />
+
+/**
+ * SVG export for pen plotter workflows.
+ * Collects segments and paths into pen layers, joins connected segments into
+ * `<path>` elements and writes documents sized in physical units.
+ */
+
+import { type Bezier, copyBezier } from './bezier';
+import type { LineSegment, Polygon } from './marchingSquares';
+import type { DrawSegmentFunction } from './polygons';
+import { createVector } from './vec2';
+
+/** Default layer name when none is given */
+const DEFAULT_LAYER = 'default';
+
+/** Default stroke color */
+const DEFAULT_STROKE = 'black';
+
+/** Default stroke width in viewBox units */
+const DEFAULT_STROKE_WIDTH = 1;
+
+/** Default number of decimals in path data */
+const DEFAULT_PRECISION = 3;
+
+/** Default distance under which endpoints are considered connected */
+const DEFAULT_TOLERANCE = 1e-3;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Physical unit for the document width and height */
+export type SvgUnit = 'px' | 'mm' | 'cm' | 'in';
+
+/** Line segment as a pair of endpoints (e.g. a Delaunay edge) */
+export type SegmentPair = readonly [p5.Vector, p5.Vector];
+
+/** Polyline ready for output */
+export type SvgPath = {
+  readonly points: readonly p5.Vector[];
+  readonly closed: boolean;
+};
+
+/** Style of a pen layer */
+export type SvgLayerStyle = {
+  /** Stroke color (default: 'black') */
+  readonly stroke?: string;
+  /** Stroke width in viewBox units (default: document strokeWidth) */
+  readonly strokeWidth?: number;
+  /** Layer label shown in Inkscape / AxiDraw (default: layer name) */
+  readonly label?: string;
+};
+
+/** Document options for the SVG writer */
+export type SvgWriterOptions = {
+  /** Document width in `unit` */
+  readonly width: number;
+  /** Document height in `unit` */
+  readonly height: number;
+  /** Physical unit of width and height (default: 'px') */
+  readonly unit?: SvgUnit;
+  /** viewBox [minX, minY, width, height] (default: [0, 0, width, height]) */
+  readonly viewBox?: readonly [number, number, number, number];
+  /** Default stroke width in viewBox units (default: 1) */
+  readonly strokeWidth?: number;
+  /** Background fill, or null for none (default: null) */
+  readonly background?: string | null;
+  /** Decimals in path data (default: 3) */
+  readonly precision?: number;
+  /** Join connected segments and drop collinear vertices (default: true) */
+  readonly merge?: boolean;
+  /** Endpoint / collinearity tolerance for merging (default: 0.001) */
+  readonly tolerance?: number;
+};
+
+/** Chain of Bézier curves written as one path */
+type SvgCurvePath = {
+  readonly curves: readonly Bezier[];
+  readonly closed: boolean;
+};
+
+/** Internal layer storage */
+type SvgLayer = {
+  style: SvgLayerStyle;
+  readonly segments: SegmentPair[];
+  readonly paths: SvgPath[];
+  readonly curves: SvgCurvePath[];
+};
+
+// ============================================================================
+// Segment Merging
+// ============================================================================
+
+/**
+ * Quantized endpoint key used to find touching segments.
+ */
+function pointKey(p: p5.Vector, tolerance: number): string {
+  return `${Math.round(p.x / tolerance)},${Math.round(p.y / tolerance)}`;
+}
+
+/**
+ * Join segments that share endpoints into polylines.
+ * Segments may be joined in either direction; chains whose ends meet are closed.
+ *
+ * @param segments - Segments as endpoint pairs
+ * @param tolerance - Distance under which endpoints are considered equal (default: 0.001)
+ * @returns Joined polylines
+ *
+ * @example
+ * ```ts
+ * const paths = joinSegments([
+ *   [createVector(0, 0), createVector(10, 0)],
+ *   [createVector(10, 0), createVector(10, 10)],
+ * ]);
+ * // paths[0].points: (0,0) (10,0) (10,10)
+ * ```
+ */
+export function joinSegments(
+  segments: readonly SegmentPair[],
+  tolerance = DEFAULT_TOLERANCE,
+): SvgPath[] {
+  // Degenerate segments would join to themselves
+  const valid = segments.filter(([a, b]) => pointKey(a, tolerance) !== pointKey(b, tolerance));
+  const used = Array.from({ length: valid.length }, () => false);
+  const ends = new Map<string, number[]>();
+
+  valid.forEach(([a, b], i) => {
+    for (const key of [pointKey(a, tolerance), pointKey(b, tolerance)]) {
+      const list = ends.get(key);
+      if (list) list.push(i);
+      else ends.set(key, [i]);
+    }
+  });
+
+  /**
+   * Take an unused segment touching `p` and return its far endpoint.
+   */
+  const takeNext = (p: p5.Vector): p5.Vector | null => {
+    const key = pointKey(p, tolerance);
+    for (const i of ends.get(key) ?? []) {
+      if (used[i]) continue;
+      used[i] = true;
+      const [a, b] = valid[i]!;
+      return pointKey(a, tolerance) === key ? b : a;
+    }
+    return null;
+  };
+
+  const paths: SvgPath[] = [];
+
+  for (let i = 0; i < valid.length; i++) {
+    if (used[i]) continue;
+    used[i] = true;
+    const [a, b] = valid[i]!;
+    const points: p5.Vector[] = [a, b];
+
+    for (let next = takeNext(b); next; next = takeNext(next)) {
+      points.push(next);
+    }
+    for (let prev = takeNext(a); prev; prev = takeNext(prev)) {
+      points.unshift(prev);
+    }
+
+    const closed =
+      points.length > 3 &&
+      pointKey(points[0]!, tolerance) === pointKey(points[points.length - 1]!, tolerance);
+    if (closed) points.pop();
+
+    paths.push({ points, closed });
+  }
+
+  return paths;
+}
+
+/**
+ * Remove interior vertices that lie on the line between their neighbours.
+ *
+ * @param path - Polyline to simplify
+ * @param tolerance - Maximum perpendicular deviation (default: 0.001)
+ * @returns Path without redundant collinear vertices
+ */
+export function removeCollinearPoints(path: SvgPath, tolerance = DEFAULT_TOLERANCE): SvgPath {
+  const pts = path.points;
+  const n = pts.length;
+  if (n < 3) return path;
+
+  const keep = (prev: p5.Vector, cur: p5.Vector, next: p5.Vector): boolean => {
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const len = Math.hypot(dx, dy);
+    if (len === 0) return true;
+    const cross = (cur.x - prev.x) * dy - (cur.y - prev.y) * dx;
+    const dot = (cur.x - prev.x) * dx + (cur.y - prev.y) * dy;
+    // Keep corners and reversals (the pen must actually turn there)
+    return Math.abs(cross) / len > tolerance || dot < 0 || dot > len * len;
+  };
+
+  const result: p5.Vector[] = [pts[0]!];
+  for (let i = 1; i < n - 1; i++) {
+    if (keep(result[result.length - 1]!, pts[i]!, pts[i + 1]!)) result.push(pts[i]!);
+  }
+  result.push(pts[n - 1]!);
+
+  if (path.closed) {
+    // The vertices next to the seam may also be redundant once the path wraps around
+    if (
+      result.length > 3 &&
+      !keep(result[result.length - 2]!, result[result.length - 1]!, result[0]!)
+    ) {
+      result.pop();
+    }
+    if (result.length > 3 && !keep(result[result.length - 1]!, result[0]!, result[1]!)) {
+      result.shift();
+    }
+  }
+
+  return { points: result, closed: path.closed };
+}
+
+// ============================================================================
+// Formatting Helpers
+// ============================================================================
+
+/**
+ * Format a number with limited precision and no trailing zeros.
+ * Shared by the SVG, G-code and HPGL writers.
+ *
+ * @param value - Number to format
+ * @param precision - Decimal places to keep
+ * @returns Shortest string for the rounded value ('0' rather than '-0')
+ *
+ * @example
+ * ```ts
+ * formatNumber(1.23456, 2); // '1.23'
+ * formatNumber(2.5, 3); // '2.5'
+ * ```
+ */
+export function formatNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Escape a string for use in an XML attribute.
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a polyline to SVG path data.
+ */
+function pathData(path: SvgPath, precision: number): string {
+  const f = (v: number): string => formatNumber(v, precision);
+  const [first, ...rest] = path.points;
+  if (!first) return '';
+  const d = [`M${f(first.x)} ${f(first.y)}`, ...rest.map((p) => `L${f(p.x)} ${f(p.y)}`)];
+  return d.join('') + (path.closed ? 'Z' : '');
+}
+
+/**
+ * Convert a chain of Bézier curves to SVG path data. A curve that does not
+ * start where the previous one ended begins a new subpath.
+ */
+function curveData(path: SvgCurvePath, precision: number): string {
+  const f = (v: number): string => formatNumber(v, precision);
+  const pt = (p: p5.Vector): string => `${f(p.x)} ${f(p.y)}`;
+  let d = '';
+  let last: p5.Vector | null = null;
+  for (const curve of path.curves) {
+    const [start, ...rest] = curve;
+    if (!last || last.x !== start.x || last.y !== start.y) d += `M${pt(start)}`;
+    d += (rest.length === 2 ? 'Q' : 'C') + rest.map(pt).join(' ');
+    last = rest[rest.length - 1]!;
+  }
+  return d + (path.closed && d ? 'Z' : '');
+}
+
+// ============================================================================
+// SVG Writer
+// ============================================================================
+
+/**
+ * Collects drawing output into pen layers and serialises it as an SVG document.
+ * Each layer becomes an Inkscape layer group, so AxiDraw and similar tools can
+ * plot pens separately.
+ *
+ * @example
+ * ```ts
+ * const svg = new SvgWriter({ width: 210, height: 297, unit: 'mm' });
+ * svg.setLayer('outline', { stroke: 'black', strokeWidth: 0.3 });
+ * svg.setLayer('hatch', { stroke: 'blue', strokeWidth: 0.3 });
+ *
+ * const polys = Polygons();
+ * polys.draw(svg.drawFunction('hatch'), shape);
+ * svg.addPath(outlinePoints, true, 'outline');
+ *
+ * const text = svg.toString();
+ * ```
+ */
+export class SvgWriter {
+  private readonly options: Required<Omit<SvgWriterOptions, 'viewBox'>> & {
+    readonly viewBox: readonly [number, number, number, number];
+  };
+  private readonly layers = new Map<string, SvgLayer>();
+
+  /**
+   * Create a new SVG writer.
+   * @param options - Document options
+   */
+  constructor(options: SvgWriterOptions) {
+    this.options = {
+      width: options.width,
+      height: options.height,
+      unit: options.unit ?? 'px',
+      viewBox: options.viewBox ?? [0, 0, options.width, options.height],
+      strokeWidth: options.strokeWidth ?? DEFAULT_STROKE_WIDTH,
+      background: options.background ?? null,
+      precision: options.precision ?? DEFAULT_PRECISION,
+      merge: options.merge ?? true,
+      tolerance: options.tolerance ?? DEFAULT_TOLERANCE,
+    };
+  }
+
+  /**
+   * Get a layer, creating it with default style if needed.
+   */
+  private getLayer(name: string): SvgLayer {
+    let layer = this.layers.get(name);
+    if (!layer) {
+      layer = { style: {}, segments: [], paths: [], curves: [] };
+      this.layers.set(name, layer);
+    }
+    return layer;
+  }
+
+  /**
+   * Define or update a pen layer. Layers are written in creation order.
+   * @param name - Layer name
+   * @param style - Stroke style and label
+   */
+  setLayer(name: string, style: SvgLayerStyle = {}): void {
+    const layer = this.getLayer(name);
+    layer.style = { ...layer.style, ...style };
+  }
+
+  /**
+   * Get the names of all layers in output order.
+   */
+  get layerNames(): string[] {
+    return [...this.layers.keys()];
+  }
+
+  /**
+   * Add a single line segment.
+   * @param p0 - Start point
+   * @param p1 - End point
+   * @param layer - Layer name (default: 'default')
+   */
+  addSegment(p0: p5.Vector, p1: p5.Vector, layer = DEFAULT_LAYER): void {
+    this.getLayer(layer).segments.push([createVector(p0.x, p0.y), createVector(p1.x, p1.y)]);
+  }
+
+  /**
+   * Add segments given as endpoint pairs (e.g. Delaunay edges).
+   * @param segments - Endpoint pairs
+   * @param layer - Layer name (default: 'default')
+   */
+  addSegments(segments: readonly SegmentPair[], layer = DEFAULT_LAYER): void {
+    for (const [p0, p1] of segments) this.addSegment(p0, p1, layer);
+  }
+
+  /**
+   * Add marching squares line segments.
+   * @param segments - Segments from marchingSquaresToSegments
+   * @param layer - Layer name (default: 'default')
+   */
+  addLineSegments(segments: readonly LineSegment[], layer = DEFAULT_LAYER): void {
+    const target = this.getLayer(layer).segments;
+    for (const s of segments) {
+      target.push([createVector(s.x1, s.y1), createVector(s.x2, s.y2)]);
+    }
+  }
+
+  /**
+   * Add a polyline.
+   * @param points - Path vertices
+   * @param closed - Whether to close the path (default: false)
+   * @param layer - Layer name (default: 'default')
+   */
+  addPath(points: readonly p5.Vector[], closed = false, layer = DEFAULT_LAYER): void {
+    if (points.length < 2) return;
+    this.getLayer(layer).paths.push({
+      points: points.map((p) => createVector(p.x, p.y)),
+      closed,
+    });
+  }
+
+  /**
+   * Add a chain of quadratic or cubic Bézier curves as one exact SVG path.
+   * Curves are written as curve commands; they are not merged with other
+   * output and are not part of `getPaths` (flatten them for G-code or HPGL).
+   * @param curves - Curves in drawing order
+   * @param closed - Whether to close the path (default: false)
+   * @param layer - Layer name (default: 'default')
+   */
+  addBeziers(curves: readonly Bezier[], closed = false, layer = DEFAULT_LAYER): void {
+    if (curves.length === 0) return;
+    this.getLayer(layer).curves.push({
+      curves: curves.map((c) => copyBezier(c)),
+      closed,
+    });
+  }
+
+  /**
+   * Add marching squares polygons; every ring (outer contour and holes) becomes a closed path.
+   * @param polygons - Polygons from getPathsFromMarchingSquaresResult
+   * @param layer - Layer name (default: 'default')
+   */
+  addPolygons(polygons: readonly Polygon[], layer = DEFAULT_LAYER): void {
+    for (const polygon of polygons) {
+      for (const ring of polygon.segments) this.addPath(ring, true, layer);
+    }
+  }
+
+  /**
+   * Get a draw callback that records segments into a layer.
+   * Pass it to `Polygons().draw` or `Poly.drawWith`.
+   * @param layer - Layer name (default: 'default')
+   * @returns Segment draw function
+   */
+  drawFunction(layer = DEFAULT_LAYER): DrawSegmentFunction {
+    return (p0, p1) => this.addSegment(p0, p1, layer);
+  }
+
+  /**
+   * Get the output paths of a layer (after merging when enabled).
+   * @param layer - Layer name (default: 'default')
+   * @returns Paths in output order
+   */
+  getPaths(layer = DEFAULT_LAYER): SvgPath[] {
+    const data = this.layers.get(layer);
+    if (!data) return [];
+
+    const { merge, tolerance } = this.options;
+    if (!merge) {
+      return [...data.paths, ...data.segments.map(([a, b]) => ({ points: [a, b], closed: false }))];
+    }
+
+    return [...data.paths, ...joinSegments(data.segments, tolerance)].map((p) =>
+      removeCollinearPoints(p, tolerance),
+    );
+  }
+
+  /**
+   * Remove all layers and content.
+   */
+  clear(): void {
+    this.layers.clear();
+  }
+
+  /**
+   * Serialise the document.
+   * @returns SVG markup
+   */
+  toString(): string {
+    const { width, height, unit, viewBox, strokeWidth, background, precision } = this.options;
+    const f = (v: number): string => formatNumber(v, precision);
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" ` +
+        `xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+        `width="${f(width)}${unit}" height="${f(height)}${unit}" ` +
+        `viewBox="${viewBox.map(f).join(' ')}">`,
+    ];
+
+    if (background) {
+      lines.push(
+        `  <rect x="${f(viewBox[0])}" y="${f(viewBox[1])}" width="${f(viewBox[2])}" ` +
+          `height="${f(viewBox[3])}" fill="${escapeAttribute(background)}"/>`,
+      );
+    }
+
+    let index = 1;
+    for (const [name, layer] of this.layers) {
+      const { stroke = DEFAULT_STROKE, label = name } = layer.style;
+      const layerWidth = layer.style.strokeWidth ?? strokeWidth;
+      lines.push(
+        `  <g id="layer${index}" inkscape:groupmode="layer" ` +
+          `inkscape:label="${escapeAttribute(label)}" fill="none" ` +
+          `stroke="${escapeAttribute(stroke)}" stroke-width="${f(layerWidth)}" ` +
+          `stroke-linecap="round" stroke-linejoin="round">`,
+      );
+      for (const path of this.getPaths(name)) {
+        lines.push(`    <path d="${pathData(path, precision)}"/>`);
+      }
+      for (const path of layer.curves) {
+        lines.push(`    <path d="${curveData(path, precision)}"/>`);
+      }
+      lines.push('  </g>');
+      index++;
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n');
+  }
+}
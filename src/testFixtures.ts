@@ -0,0 +1,23 @@
+/**
+ * Shapes and measurements shared by the polygon test files.
+ */
+
+import { polygonArea } from './polygonAnalysis';
+import type { BooleanComponent } from './polygonBoolean';
+import { createVector } from './vec2';
+
+/**
+ * Axis-aligned rectangle ring, counter-clockwise with Y up.
+ */
+export const rect = (x: number, y: number, w: number, h: number): p5.Vector[] => [
+  createVector(x, y),
+  createVector(x + w, y),
+  createVector(x + w, y + h),
+  createVector(x, y + h),
+];
+
+/**
+ * Filled area of boolean or offset components: outer areas minus hole areas.
+ */
+export const totalArea = (components: readonly BooleanComponent[]): number =>
+  components.reduce((sum, c) => sum + polygonArea({ segments: [c.outer, ...c.holes] }), 0);
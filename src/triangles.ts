@@ -5,7 +5,8 @@
  * Creates fractal triangle patterns with concentric arc decorations.
  */
 
-import { arcPoints } from './vec2';
+import { type RandomFunction, type SeededRandom, toRandomFunction } from './random';
+import { arcPoints, createVector } from './vec2';
 
 /** Default probability of subdivision at each level */
 const DEFAULT_SPLIT_PROBABILITY = 0.7;
@@ -64,11 +65,7 @@ const SPLIT_PROBABILITY_EXPONENT_OFFSET = 1;
 /** Primary circles lane index (first and third vertices) */
 const PRIMARY_CIRCLES_MULTIPLIER = 2;
 
-/**
- * Random number generator function type.
- * Returns a value in [0, 1).
- */
-export type RandomFunction = () => number;
+export type { RandomFunction };
 
 /**
  * Parameters for triangle subdivision.
@@ -80,8 +77,8 @@ export interface SubdivisionParams {
   readonly startRes?: number;
   /** Minimum resolution before stopping (default: 1) */
   readonly minRes?: number;
-  /** Random number generator (default: Math.random) */
-  readonly rng?: RandomFunction;
+  /** Random number generator or SeededRandom (default: Math.random) */
+  readonly rng?: RandomFunction | SeededRandom;
 }
 
 /**
@@ -92,8 +89,8 @@ export interface ArcBandOptions {
   readonly arcSteps?: number;
   /** Whether to randomize vertex order (default: true) */
   readonly randomSort?: boolean;
-  /** Random number generator (default: Math.random) */
-  readonly rng?: RandomFunction;
+  /** Random number generator or SeededRandom (default: Math.random) */
+  readonly rng?: RandomFunction | SeededRandom;
 }
 
 /**
@@ -156,7 +153,7 @@ export function subdivideTriangleRoot(
     splitProbability,
     startRes,
     minRes,
-    rng,
+    rng: toRandomFunction(rng),
   });
 
   return tris;
@@ -172,7 +169,7 @@ function subdivideTriangle(
   heading: number,
   height: number,
   generation: number,
-  params: Required<SubdivisionParams>,
+  params: Required<Omit<SubdivisionParams, 'rng'>> & { readonly rng: RandomFunction },
 ): void {
   const { splitProbability, startRes, minRes, rng } = params;
 
@@ -189,10 +186,8 @@ function subdivideTriangle(
   /**
    * Move forward from position in given direction.
    */
-  const forward = (pos: p5.Vector, angle: number, d: number): p5.Vector => {
-    const step = p5.Vector.fromAngle(angle, d);
-    return p5.Vector.add(pos, step);
-  };
+  const forward = (pos: p5.Vector, angle: number, d: number): p5.Vector =>
+    createVector(pos.x + Math.cos(angle) * d, pos.y + Math.sin(angle) * d);
 
   const halfHeight = height / SUBDIVISION_FACTOR;
   const nextGen = generation - 1;
@@ -226,8 +221,12 @@ function subdivideTriangle(
 export function triangleVertices(spec: TriangleSpec): [p5.Vector, p5.Vector, p5.Vector] {
   const { position, heading, height } = spec;
   const v0 = position;
-  const v1 = p5.Vector.add(v0, p5.Vector.fromAngle(heading, height));
-  const v2p = p5.Vector.add(v1, p5.Vector.fromAngle(heading - TRIANGLE_ROTATION_ANGLE, height));
+  const v1 = createVector(v0.x + Math.cos(heading) * height, v0.y + Math.sin(heading) * height);
+  const v2Heading = heading - TRIANGLE_ROTATION_ANGLE;
+  const v2p = createVector(
+    v1.x + Math.cos(v2Heading) * height,
+    v1.y + Math.sin(v2Heading) * height,
+  );
   return [v0, v1, v2p];
 }
 
@@ -251,7 +250,8 @@ export function triangleVertices(spec: TriangleSpec): [p5.Vector, p5.Vector, p5.
  */
 export function triangleArcBands(spec: TriangleSpec, options: ArcBandOptions = {}): ArcBand[] {
   const { position, heading, height, generation } = spec;
-  const { arcSteps = DEFAULT_ARC_STEPS, randomSort = true, rng = Math.random } = options;
+  const { arcSteps = DEFAULT_ARC_STEPS, randomSort = true } = options;
+  const rng = toRandomFunction(options.rng);
 
   const lanes = Math.pow(SUBDIVISION_FACTOR, generation + 1);
   const primaryCircles =
@@ -267,8 +267,7 @@ export function triangleArcBands(spec: TriangleSpec, options: ArcBandOptions = {
       center: pos,
       baseHeading: heading + i * TRIANGLE_ROTATION_ANGLE,
     });
-    const step = p5.Vector.fromAngle(angle, height);
-    pos = p5.Vector.add(pos, step);
+    pos = createVector(pos.x + Math.cos(angle) * height, pos.y + Math.sin(angle) * height);
     angle -= INVERSE_TRIANGLE_ROTATION_ANGLE;
   }
 
@@ -28,6 +28,9 @@
  * aesthetically pleasing meandering patterns with continuous derivatives.
  */
 
+import { type RandomFunction, type SeededRandom, toRandomFunction } from './random';
+import { createVector } from './vec2';
+
 export type TileType = 'diagonal' | 'curve' | 'triangle' | 'dots' | 'cross';
 export type PatternType = 'random' | 'structured' | 'checker' | 'gradient' | 'noise';
 export type Rotation = 0 | 1 | 2 | 3;
@@ -265,10 +268,11 @@ export function drawTile(
 /**
  * Generate random rotation (0-3 representing 0°, 90°, 180°, 270°)
  *
+ * @param rng - Random number generator (default: Math.random)
  * @returns Random rotation value
  */
-export function getRandomRotation(): Rotation {
-  return Math.floor(Math.random() * 4) as Rotation;
+export function getRandomRotation(rng: RandomFunction = Math.random): Rotation {
+  return Math.floor(rng() * 4) as Rotation;
 }
 
 /**
@@ -276,15 +280,20 @@ export function getRandomRotation(): Rotation {
  *
  * @param gridPos - p5.Vector with column and row indices (x=col, y=row)
  * @param pattern - Pattern type to apply
+ * @param rng - Random number generator for the random pattern (default: Math.random)
  * @returns Rotation value based on pattern
  */
-export function getRotation(gridPos: p5.Vector, pattern: PatternType): Rotation {
+export function getRotation(
+  gridPos: p5.Vector,
+  pattern: PatternType,
+  rng: RandomFunction = Math.random,
+): Rotation {
   const col = Math.floor(gridPos.x);
   const row = Math.floor(gridPos.y);
 
   switch (pattern) {
     case 'random':
-      return getRandomRotation();
+      return getRandomRotation(rng);
 
     case 'structured':
       return ((col + row) % 4) as Rotation;
@@ -305,7 +314,7 @@ export function getRotation(gridPos: p5.Vector, pattern: PatternType): Rotation
     }
 
     default:
-      return getRandomRotation();
+      return getRandomRotation(rng);
   }
 }
 
@@ -318,31 +327,33 @@ export function getRotation(gridPos: p5.Vector, pattern: PatternType): Rotation
  * @param cols - Number of columns
  * @param rows - Number of rows
  * @param pattern - Pattern type to use
- * @param seed - Optional seed for reproducibility
+ * @param seed - Optional seed or SeededRandom for reproducibility
  * @returns The grid of rotation values
  */
 export function initializeGrid(
   cols: number,
   rows: number,
   pattern: PatternType,
-  seed?: number,
+  seed?: number | SeededRandom,
 ): number[][] {
   const newGrid: number[][] = [];
+  const rng = toRandomFunction(seed);
 
-  // Set random seed if provided and available
+  // Seed p5's generators too if provided and available
   if (seed !== undefined) {
+    const numericSeed = typeof seed === 'number' ? seed : seed.seed;
     if (typeof randomSeed === 'function') {
-      randomSeed(seed);
+      randomSeed(numericSeed);
     }
     if (typeof noiseSeed === 'function') {
-      noiseSeed(seed);
+      noiseSeed(numericSeed);
     }
   }
 
   for (let row: number = 0; row < rows; row++) {
     newGrid[row] = [];
     for (let col: number = 0; col < cols; col++) {
-      newGrid[row]![col] = getRotation(createVector(col, row), pattern);
+      newGrid[row]![col] = getRotation(createVector(col, row), pattern, rng);
     }
   }
 
@@ -394,9 +405,11 @@ export function updateGrid(cols: number, rows: number, speed: number): void {
  * Randomize colors in the configuration
  *
  * @param config - Configuration to update
+ * @param rng - Random number generator (default: Math.random)
  */
-export function randomizeColors(config: TruchetConfig): void {
-  config.colors.background = `rgb(${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)})`;
-  config.colors.foreground = `rgb(${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)})`;
-  config.colors.accent = `rgb(${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)}, ${Math.floor(Math.random() * 256)})`;
+export function randomizeColors(config: TruchetConfig, rng: RandomFunction = Math.random): void {
+  const channel = (): number => Math.floor(rng() * 256);
+  config.colors.background = `rgb(${channel()}, ${channel()}, ${channel()})`;
+  config.colors.foreground = `rgb(${channel()}, ${channel()}, ${channel()})`;
+  config.colors.accent = `rgb(${channel()}, ${channel()}, ${channel()})`;
 }
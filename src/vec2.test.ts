@@ -0,0 +1,191 @@
+/**
+ * Tests for the pluggable vector backend.
+ * These tests cover: Vec2 and its p5.Vector API, setVectorFactory,
+ * p5VectorFactory, vec2Factory and headless use of generators without p5 globals.
+ */
+import { test, expect, describe, afterEach } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import {
+  Vec2,
+  createVector,
+  setVectorFactory,
+  getVectorFactory,
+  p5VectorFactory,
+  vec2Factory,
+} from './vec2';
+import { circlePoints, circleIntersectionPoints } from './circle';
+import { lerp, lineIntersection } from './line';
+import { DelaunayTriangulation } from './delaunay';
+
+afterEach(() => {
+  setVectorFactory(null);
+});
+
+describe('Vec2', () => {
+  test('computes magnitude and distance', () => {
+    const v = new Vec2(3, 4);
+    expect(v.mag()).toBe(5);
+    expect(v.dist(new Vec2(0, 0))).toBe(5);
+  });
+
+  test('mutating methods modify and return this', () => {
+    const v = new Vec2(1, 2);
+    const result = v.add({ x: 1, y: 1 }).mult(2);
+    expect(result).toBe(v);
+    expect(v.x).toBe(4);
+    expect(v.y).toBe(6);
+  });
+
+  test('copy returns an independent vector', () => {
+    const v = new Vec2(1, 2, 3);
+    const c = v.copy();
+    c.x = 10;
+    expect(v.x).toBe(1);
+    expect(c.z).toBe(3);
+  });
+
+  test('normalize leaves zero vectors unchanged', () => {
+    const v = new Vec2(0, 0).normalize();
+    expect(v.x).toBe(0);
+    expect(v.y).toBe(0);
+  });
+
+  test('rotate turns the vector in the XY plane', () => {
+    const v = new Vec2(1, 0).rotate(Math.PI / 2);
+    expect(v.x).toBeCloseTo(0);
+    expect(v.y).toBeCloseTo(1);
+  });
+
+  test('accepts the p5 number, vector and array argument forms', () => {
+    const v = new Vec2(1, 2, 3);
+    const typed: p5.Vector = v; // Vec2 satisfies the p5.Vector type without a cast
+    expect(typed.copy().add(1, 1).array()).toEqual([2, 3, 3]);
+    expect(v.copy().sub([1, 2, 3]).array()).toEqual([0, 0, 0]);
+    expect(v.copy().mult(2, 3).array()).toEqual([2, 6, 3]);
+    expect(v.copy().mult(v).array()).toEqual([1, 4, 9]);
+    expect(v.copy().div([2]).array()).toEqual([0.5, 1, 1.5]);
+    expect(v.copy().rem(2).array()).toEqual([1, 0, 1]);
+    expect(v.copy().set([4]).array()).toEqual([4, 0, 0]);
+    expect(v.copy().lerp(3, 4, 5, 0.5).array()).toEqual([2, 3, 4]);
+    expect(v.dot(1, 1, 1)).toBe(6);
+    expect(v.equals([1, 2, 3])).toBe(true);
+    expect(String(v)).toBe('Vec2 [1, 2, 3]');
+  });
+
+  test('cross, angleBetween, setHeading and reflect', () => {
+    const x = new Vec2(1, 0);
+    const y = new Vec2(0, 1);
+    expect(x.cross(y).array()).toEqual([0, 0, 1]);
+    expect(x.angleBetween(y)).toBeCloseTo(Math.PI / 2);
+    expect(y.angleBetween(x)).toBeCloseTo(-Math.PI / 2);
+    expect(x.angleBetween(new Vec2())).toBeNaN();
+
+    const h = new Vec2(3, 4).setHeading(Math.PI);
+    expect(h.x).toBeCloseTo(-5);
+    expect(h.y).toBeCloseTo(0);
+
+    const normal = new Vec2(0, 2);
+    const r = new Vec2(1, -1).reflect(normal);
+    expect(r.array()).toEqual([1, 1, 0]);
+    expect(normal.y).toBe(2);
+  });
+
+  test('slerp turns at a constant rate and interpolates length', () => {
+    const v = new Vec2(2, 0).slerp(new Vec2(0, 4), 0.5);
+    expect(v.heading()).toBeCloseTo(Math.PI / 4);
+    expect(v.mag()).toBeCloseTo(3);
+    // Opposite vectors turn through the XY plane
+    const back = new Vec2(1, 0).slerp(new Vec2(-1, 0), 0.5);
+    expect(back.x).toBeCloseTo(0);
+    expect(Math.abs(back.y)).toBeCloseTo(1);
+    expect(new Vec2(1, 0).slerp(new Vec2(0, 1), 1).array()).toEqual([0, 1, 0]);
+  });
+});
+
+describe('vector factory', () => {
+  test('createVector uses the configured factory', () => {
+    const made: p5.Vector[] = [];
+    setVectorFactory((x, y, z) => {
+      made.push(new Vec2(x, y, z));
+      return made[made.length - 1]!;
+    });
+    const v = createVector(1, 2);
+    expect(made).toEqual([v]);
+    expect(v.array()).toEqual([1, 2, 0]);
+  });
+
+  test('vec2Factory produces Vec2 instances', () => {
+    setVectorFactory(vec2Factory);
+    expect(createVector(1, 2) instanceof Vec2).toBe(true);
+  });
+
+  test('p5VectorFactory delegates to the instance', () => {
+    const calls: number[][] = [];
+    const instance = {
+      createVector: (x = 0, y = 0, z = 0) => {
+        calls.push([x, y, z]);
+        return new Vec2(x, y, z);
+      },
+    };
+    setVectorFactory(p5VectorFactory(instance));
+    createVector(5, 6);
+    expect(calls).toEqual([[5, 6, 0]]);
+  });
+
+  test('setVectorFactory(null) restores the default', () => {
+    setVectorFactory(vec2Factory);
+    expect(getVectorFactory()).toBe(vec2Factory);
+    setVectorFactory(null);
+    expect(getVectorFactory()).not.toBe(vec2Factory);
+  });
+});
+
+describe('headless generators', () => {
+  test('circlePoints works with Vec2', () => {
+    setVectorFactory(vec2Factory);
+    const pts = circlePoints(createVector(0, 0), 10, 4);
+    expect(pts).toHaveLength(4);
+    expect(pts[0]!.x).toBeCloseTo(10);
+    expect(pts[1]!.y).toBeCloseTo(10);
+  });
+
+  test('circleIntersectionPoints works with Vec2', () => {
+    setVectorFactory(vec2Factory);
+    const pts = circleIntersectionPoints(createVector(0, 0), 5, createVector(8, 0), 5);
+    expect(pts).toHaveLength(2);
+    expect(pts[0]!.x).toBeCloseTo(4);
+  });
+
+  test('lerp interpolates all components', () => {
+    setVectorFactory(vec2Factory);
+    const mid = lerp(createVector(0, 0, 0), createVector(10, 20, 30), 0.5);
+    expect(mid.x).toBe(5);
+    expect(mid.y).toBe(10);
+    expect(mid.z).toBe(15);
+  });
+
+  test('returned vectors support p5.Vector methods', () => {
+    setVectorFactory(vec2Factory);
+    const origin = createVector(0, 5);
+    const dir = createVector(1, 0);
+    const hit = lineIntersection(
+      origin,
+      origin.copy().add(dir),
+      createVector(10, 0),
+      createVector(10, 10),
+      {
+        first: 'ray',
+      },
+    );
+    expect(hit?.type).toBe('point');
+    if (hit?.type === 'point') expect(hit.point.copy().sub(origin).mag()).toBeCloseTo(10);
+  });
+
+  test('Delaunay triangulation works with Vec2', () => {
+    setVectorFactory(vec2Factory);
+    const points = [createVector(0, 0), createVector(10, 0), createVector(0, 10)];
+    const dt = new DelaunayTriangulation(points);
+    expect(dt.triangles).toHaveLength(1);
+  });
+});
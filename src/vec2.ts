@@ -2,12 +2,368 @@
 
 /**
  * 2D Vector utilities for geometric calculations and transformations.
- * All functions are pure and return new vectors without mutation.
+ * Provides the pluggable vector backend used by every generator, so the library
+ * runs in p5 global mode, p5 instance mode, Node scripts and workers alike.
  */
 
 /** Default arc resolution in steps */
 const DEFAULT_ARC_STEPS = 40;
 
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Factory that creates the vectors returned by every generator.
+ * Results are typed as p5.Vector, so a backend must provide its instance API:
+ * p5's own vectors or the built-in {@link Vec2}.
+ */
+export type VectorFactory = (x: number, y: number, z: number) => p5.Vector;
+
+/**
+ * Anything exposing p5's `createVector` (a p5 instance in instance mode).
+ */
+export type P5VectorSource = {
+  createVector(x?: number, y?: number, z?: number): p5.Vector;
+};
+
+// ============================================================================
+// Built-in Vector
+// ============================================================================
+
+/** Vector argument accepted by Vec2 methods: another vector or, as in p5, an array */
+type VectorArg =
+  | { readonly x: number; readonly y: number; readonly z?: number }
+  | readonly number[];
+
+/**
+ * Components of a p5-style argument list (a vector, an array or separate
+ * numbers), with `fill` for the ones left out.
+ */
+function components(
+  x: number | VectorArg | undefined,
+  y: number | undefined,
+  z: number | undefined,
+  fill: number,
+): [number, number, number] {
+  if (typeof x !== 'object') return [x ?? fill, y ?? fill, z ?? fill];
+  if ('x' in x) return [x.x, x.y, x.z ?? fill];
+  return [x[0] ?? fill, x[1] ?? fill, x[2] ?? fill];
+}
+
+/**
+ * Whether a p5-style argument list is a single scalar (one number, or a
+ * one-element array), which `mult`, `div` and `rem` apply to every component.
+ */
+function scalarArgument(x: number | VectorArg, y: number | undefined): number | null {
+  if (typeof x === 'number') return y === undefined ? x : null;
+  return !('x' in x) && x.length === 1 ? x[0]! : null;
+}
+
+/**
+ * Lightweight vector implementing the p5.Vector instance API, so geometry
+ * returned by the library behaves the same with or without p5.
+ * Mutating methods follow p5 semantics: they modify `this` and return it.
+ *
+ * @example
+ * ```ts
+ * const v = new Vec2(3, 4);
+ * v.mag(); // 5
+ * v.copy().normalize(); // (0.6, 0.8)
+ * ```
+ */
+export class Vec2 implements p5.Vector {
+  /**
+   * Create a new vector.
+   * @param x - X component (default: 0)
+   * @param y - Y component (default: 0)
+   * @param z - Z component, kept for 3D splines (default: 0)
+   */
+  constructor(
+    public x = 0,
+    public y = 0,
+    public z = 0,
+  ) {}
+
+  /** Readable form, e.g. `Vec2 [1, 2, 0]`. */
+  toString(): string {
+    return `Vec2 [${this.x}, ${this.y}, ${this.z}]`;
+  }
+
+  /** Return a new vector with the same components. */
+  copy(): Vec2 {
+    return new Vec2(this.x, this.y, this.z);
+  }
+
+  /** Set components in place from numbers, a vector or an array (missing ones become 0). */
+  set(x?: number | VectorArg, y?: number, z?: number): Vec2 {
+    [this.x, this.y, this.z] = components(x, y, z, 0);
+    return this;
+  }
+
+  /** Add another vector, an array or separate components in place. */
+  add(x: number | VectorArg, y?: number, z?: number): Vec2 {
+    const [dx, dy, dz] = components(x, y, z, 0);
+    this.x += dx;
+    this.y += dy;
+    this.z += dz;
+    return this;
+  }
+
+  /** Subtract another vector, an array or separate components in place. */
+  sub(x: number | VectorArg, y?: number, z?: number): Vec2 {
+    const [dx, dy, dz] = components(x, y, z, 0);
+    this.x -= dx;
+    this.y -= dy;
+    this.z -= dz;
+    return this;
+  }
+
+  /** Remainder per component in place; zero divisors leave a component unchanged. */
+  rem(x: number | VectorArg, y?: number, z?: number): Vec2 {
+    const n = scalarArgument(x, y);
+    const [dx, dy, dz] = n === null ? components(x, y, z, 0) : [n, n, n];
+    if (dx !== 0) this.x %= dx;
+    if (dy !== 0) this.y %= dy;
+    if (dz !== 0) this.z %= dz;
+    return this;
+  }
+
+  /** Multiply in place by a scalar, or per component by a vector, array or numbers. */
+  mult(x: number | VectorArg, y?: number, z?: number): Vec2 {
+    const n = scalarArgument(x, y);
+    const [fx, fy, fz] = n === null ? components(x, y, z, 1) : [n, n, n];
+    this.x *= fx;
+    this.y *= fy;
+    this.z *= fz;
+    return this;
+  }
+
+  /** Divide in place by a scalar, or per component by a vector, array or numbers. */
+  div(x: number | VectorArg, y?: number, z?: number): Vec2 {
+    const n = scalarArgument(x, y);
+    const [fx, fy, fz] = n === null ? components(x, y, z, 1) : [n, n, n];
+    this.x /= fx;
+    this.y /= fy;
+    this.z /= fz;
+    return this;
+  }
+
+  /** Length of the vector. */
+  mag(): number {
+    return Math.hypot(this.x, this.y, this.z);
+  }
+
+  /** Squared length of the vector. */
+  magSq(): number {
+    return this.x * this.x + this.y * this.y + this.z * this.z;
+  }
+
+  /** Dot product with another vector or separate components. */
+  dot(x: number | VectorArg, y?: number, z?: number): number {
+    const [vx, vy, vz] = components(x, y, z, 0);
+    return this.x * vx + this.y * vy + this.z * vz;
+  }
+
+  /** Cross product with another vector, as a new vector. */
+  cross(v: VectorArg): Vec2 {
+    const [vx, vy, vz] = components(v, undefined, undefined, 0);
+    return new Vec2(
+      this.y * vz - this.z * vy,
+      this.z * vx - this.x * vz,
+      this.x * vy - this.y * vx,
+    );
+  }
+
+  /** Euclidean distance to another vector. */
+  dist(v: VectorArg): number {
+    const [vx, vy, vz] = components(v, undefined, undefined, 0);
+    return Math.hypot(this.x - vx, this.y - vy, this.z - vz);
+  }
+
+  /** Scale to unit length in place (zero vectors are left unchanged). */
+  normalize(): Vec2 {
+    const m = this.mag();
+    return m > 0 ? this.div(m) : this;
+  }
+
+  /** Clamp the length to a maximum in place. */
+  limit(max: number): Vec2 {
+    const m = this.mag();
+    return m > max ? this.mult(max / m) : this;
+  }
+
+  /** Scale to the given length in place. */
+  setMag(len: number): Vec2 {
+    return this.normalize().mult(len);
+  }
+
+  /** Angle of the vector in the XY plane, in radians. */
+  heading(): number {
+    return Math.atan2(this.y, this.x);
+  }
+
+  /** Point the vector at an angle in the XY plane in place, keeping its XY length. */
+  setHeading(angle: number): Vec2 {
+    const m = Math.hypot(this.x, this.y);
+    return this.set(m * Math.cos(angle), m * Math.sin(angle), this.z);
+  }
+
+  /** Rotate in the XY plane in place. */
+  rotate(angle: number): Vec2 {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return this.set(this.x * c - this.y * s, this.x * s + this.y * c, this.z);
+  }
+
+  /** Angle to another vector in radians, signed by the z of their cross product (NaN for zero vectors). */
+  angleBetween(v: VectorArg): number {
+    const other = new Vec2().set(v);
+    if (this.magSq() * other.magSq() === 0) return NaN;
+    const axis = this.cross(other);
+    return Math.atan2(axis.mag(), this.dot(other)) * Math.sign(axis.z || 1);
+  }
+
+  /** Linearly interpolate in place towards a vector, or towards x, y, z with `amt` last. */
+  lerp(x: number | VectorArg, y?: number, z?: number, amt?: number): Vec2 {
+    const t = typeof x === 'number' ? (amt ?? 0) : (y ?? 0);
+    const [tx, ty, tz] = components(x, typeof x === 'number' ? y : undefined, z, 0);
+    this.x += (tx - this.x) * t;
+    this.y += (ty - this.y) * t;
+    this.z += (tz - this.z) * t;
+    return this;
+  }
+
+  /**
+   * Spherical interpolation in place: the direction turns towards `v` at a
+   * constant rate while the length is interpolated linearly.
+   */
+  slerp(v: VectorArg, amt: number): Vec2 {
+    const target = new Vec2().set(v);
+    if (amt === 0) return this;
+    if (amt === 1) return this.set(target);
+    const fromMag = this.mag();
+    const toMag = target.mag();
+    if (fromMag * toMag === 0) return this.lerp(target, amt);
+
+    const axis = this.cross(target);
+    const axisMag = axis.mag();
+    const theta = Math.atan2(axisMag, this.dot(target));
+    if (axisMag > 0) axis.div(axisMag);
+    else if (theta < Math.PI / 2) return this.lerp(target, amt);
+    else if (this.z === 0 && target.z === 0) axis.set(0, 0, 1);
+    else if (this.x !== 0) axis.set(this.y, -this.x, 0).normalize();
+    else axis.set(1, 0, 0);
+
+    // ey is perpendicular to this, in the plane of rotation, with the same length
+    const ey = axis.cross(this);
+    const scale = 1 - amt + (amt * toMag) / fromMag;
+    const cos = scale * Math.cos(amt * theta);
+    const sin = scale * Math.sin(amt * theta);
+    return this.set(
+      this.x * cos + ey.x * sin,
+      this.y * cos + ey.y * sin,
+      this.z * cos + ey.z * sin,
+    );
+  }
+
+  /** Reflect in place off a surface with the given normal (need not be unit length). */
+  reflect(surfaceNormal: VectorArg): Vec2 {
+    const n = new Vec2().set(surfaceNormal).normalize();
+    return this.sub(n.mult(2 * this.dot(n)));
+  }
+
+  /** Components as an array. */
+  array(): number[] {
+    return [this.x, this.y, this.z];
+  }
+
+  /** Exact component-wise equality with a vector, an array or separate numbers. */
+  equals(x?: number | VectorArg, y?: number, z?: number): boolean {
+    const [vx, vy, vz] = components(x, y, z, 0);
+    return this.x === vx && this.y === vy && this.z === vz;
+  }
+}
+
+// ============================================================================
+// Vector Backends
+// ============================================================================
+
+/**
+ * Backend producing built-in {@link Vec2} instances, for Node scripts and workers.
+ */
+export const vec2Factory: VectorFactory = (x, y, z) => new Vec2(x, y, z);
+
+/**
+ * Create a backend that delegates to a p5 instance (instance mode).
+ * @param p - p5 instance or any object exposing `createVector`
+ * @returns Vector factory bound to that instance
+ *
+ * @example
+ * ```ts
+ * new p5((p) => {
+ *   setVectorFactory(p5VectorFactory(p));
+ * });
+ * ```
+ */
+export function p5VectorFactory(p: P5VectorSource): VectorFactory {
+  return (x, y, z) => p.createVector(x, y, z);
+}
+
+/** Explicitly configured backend, or null to auto-detect */
+let configuredFactory: VectorFactory | null = null;
+
+/**
+ * Auto-detected backend: p5's global `createVector` when p5 runs in global mode,
+ * otherwise the built-in Vec2.
+ */
+function defaultFactory(x: number, y: number, z: number): p5.Vector {
+  const globalCreate = (
+    globalThis as { createVector?: (x: number, y: number, z: number) => p5.Vector }
+  ).createVector;
+  return typeof globalCreate === 'function' ? globalCreate(x, y, z) : vec2Factory(x, y, z);
+}
+
+/**
+ * Configure the vector backend used by every generator.
+ * @param factory - Backend to use, or null to restore auto-detection
+ *
+ * @example
+ * ```ts
+ * // Headless geometry in Node, no p5 required
+ * setVectorFactory(vec2Factory);
+ * const pts = circlePoints(createVector(0, 0), 10, 8);
+ * ```
+ */
+export function setVectorFactory(factory: VectorFactory | null): void {
+  configuredFactory = factory;
+}
+
+/**
+ * Get the active vector backend.
+ * @returns Configured factory, or the auto-detecting default
+ */
+export function getVectorFactory(): VectorFactory {
+  return configuredFactory ?? defaultFactory;
+}
+
+/**
+ * Create a vector with the active backend.
+ * Drop-in replacement for p5's global `createVector`.
+ *
+ * @param x - X component (default: 0)
+ * @param y - Y component (default: 0)
+ * @param z - Z component (default: 0)
+ * @returns New vector
+ */
+export function createVector(x = 0, y = 0, z = 0): p5.Vector {
+  return (configuredFactory ?? defaultFactory)(x, y, z);
+}
+
+// ============================================================================
+// Point Generation
+// ============================================================================
+
 /**
  * Generate discrete points along a circular arc.
  * Points are evenly spaced along the arc from startAngle to endAngle.
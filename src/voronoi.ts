@@ -23,6 +23,11 @@
  * seed state for incremental building.
  */
 
+import { type OffsetOptions, offsetPolygon } from './offset';
+import { polygonArea } from './polygonAnalysis';
+import { type RandomFunction, type SeededRandom, toRandomFunction } from './random';
+import { createVector } from './vec2';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -94,7 +99,7 @@ const DEFAULT_CONFIG: Required<VoronoiConfig> = {
  * @returns Euclidean distance
  */
 export function euclideanDistance(p1: p5.Vector, p2: p5.Vector): number {
-  return p1.dist(p2);
+  return Math.hypot(p1.x - p2.x, p1.y - p2.y);
 }
 
 /**
@@ -217,7 +222,7 @@ export class VoronoiDiagram {
    * @param seed - Seed point
    */
   addSeedVector(seed: p5.Vector): void {
-    this._seeds.push(seed.copy());
+    this._seeds.push(createVector(seed.x, seed.y));
   }
 
   /**
@@ -232,20 +237,26 @@ export class VoronoiDiagram {
    * @param seeds - Array of seed points
    */
   setSeeds(seeds: readonly p5.Vector[]): void {
-    this._seeds = seeds.map((s) => s.copy());
+    this._seeds = seeds.map((s) => createVector(s.x, s.y));
   }
 
   /**
    * Generate random seeds within bounds.
    * @param count - Number of seeds to generate
    * @param bounds - Bounds for seed placement
+   * @param rng - Random number generator or SeededRandom (default: Math.random)
    */
-  generateRandomSeeds(count: number, bounds: VoronoiBounds): void {
+  generateRandomSeeds(
+    count: number,
+    bounds: VoronoiBounds,
+    rng: RandomFunction | SeededRandom = Math.random,
+  ): void {
     this.clearSeeds();
+    const random = toRandomFunction(rng);
 
     for (let i = 0; i < count; i++) {
-      const x = bounds.x + Math.random() * bounds.width;
-      const y = bounds.y + Math.random() * bounds.height;
+      const x = bounds.x + random() * bounds.width;
+      const y = bounds.y + random() * bounds.height;
       this.addSeed(x, y);
     }
   }
@@ -256,17 +267,25 @@ export class VoronoiDiagram {
    * @param rows - Number of rows
    * @param bounds - Bounds for grid
    * @param jitter - Amount of random jitter (0-1, default 0.2)
+   * @param rng - Random number generator or SeededRandom (default: Math.random)
    */
-  generateGridSeeds(cols: number, rows: number, bounds: VoronoiBounds, jitter = 0.2): void {
+  generateGridSeeds(
+    cols: number,
+    rows: number,
+    bounds: VoronoiBounds,
+    jitter = 0.2,
+    rng: RandomFunction | SeededRandom = Math.random,
+  ): void {
     this.clearSeeds();
+    const random = toRandomFunction(rng);
 
     const cellW = bounds.width / cols;
     const cellH = bounds.height / rows;
 
     for (let i = 0; i < cols; i++) {
       for (let j = 0; j < rows; j++) {
-        const jitterX = (Math.random() - 0.5) * cellW * jitter * 2;
-        const jitterY = (Math.random() - 0.5) * cellH * jitter * 2;
+        const jitterX = (random() - 0.5) * cellW * jitter * 2;
+        const jitterY = (random() - 0.5) * cellH * jitter * 2;
         const x = bounds.x + (i + 0.5) * cellW + jitterX;
         const y = bounds.y + (j + 0.5) * cellH + jitterY;
         this.addSeed(x, y);
@@ -367,10 +386,11 @@ export class VoronoiDiagram {
   queryRegion(x: number, y: number): RegionQuery {
     const point = createVector(x, y);
     const result = this.findNearestSeed(point);
+    const seed = result.index >= 0 ? this._seeds[result.index] : undefined;
 
     return {
       seedIndex: result.index,
-      seed: result.index >= 0 ? (this._seeds[result.index]?.copy() ?? null) : null,
+      seed: seed ? createVector(seed.x, seed.y) : null,
       distance: result.distance,
     };
   }
@@ -557,7 +577,7 @@ export function computeVoronoiCellsEuclidean(
     const area = polygonArea(poly);
     out.push({
       seedIndex: i,
-      seed: si.copy(),
+      seed: createVector(si.x, si.y),
       polygon: poly,
       area,
     });
@@ -566,6 +586,37 @@ export function computeVoronoiCellsEuclidean(
   return out;
 }
 
+/**
+ * Shrink every cell to leave gaps between neighbours ("stained glass" leading).
+ * Each cell is inset by half the gap, so adjacent cells end up `gap` apart.
+ * Cells too small for the gap get an empty polygon and zero area.
+ *
+ * @param cells - Cells from computeVoronoiCellsEuclidean
+ * @param gap - Width of the gap between neighbouring cells
+ * @param options - Join style of the inset corners (default: miter)
+ * @returns Cells with inset polygons
+ *
+ * @example
+ * ```ts
+ * const cells = computeVoronoiCellsEuclidean(seeds, bounds);
+ * for (const cell of insetVoronoiCells(cells, 4, { join: 'round' })) {
+ *   svg.addPath(cell.polygon, true);
+ * }
+ * ```
+ */
+export function insetVoronoiCells(
+  cells: readonly VoronoiCell[],
+  gap: number,
+  options: OffsetOptions = {},
+): VoronoiCell[] {
+  return cells.map((cell) => {
+    if (cell.polygon.length < 3) return cell;
+    // Voronoi cells are convex, so an inset is a single ring or nothing
+    const polygon = offsetPolygon(cell.polygon, -gap / 2, options)[0]?.outer ?? [];
+    return { ...cell, polygon, area: polygonArea(polygon) };
+  });
+}
+
 /** Number of seeds (nominal regions). Some regions can be empty in the chosen bounds. */
 export function regionCount(seeds: readonly p5.Vector[]): number {
   return seeds.length;
@@ -610,7 +661,7 @@ function clipPolygonHalfPlane(
 
     if (Math.abs(denom) < EPS) {
       // Parallel-ish; return a to avoid NaNs (caller should only call when crossing)
-      return a.copy();
+      return createVector(a.x, a.y);
     }
 
     const t = ((linePoint.x - a.x) * normal.x + (linePoint.y - a.y) * normal.y) / denom;
@@ -626,12 +677,12 @@ function clipPolygonHalfPlane(
     const bIn = inside(b);
 
     if (aIn && bIn) {
-      out.push(b.copy());
+      out.push(createVector(b.x, b.y));
     } else if (aIn && !bIn) {
       out.push(intersect(a, b));
     } else if (!aIn && bIn) {
       out.push(intersect(a, b));
-      out.push(b.copy());
+      out.push(createVector(b.x, b.y));
     }
   }
 
@@ -641,11 +692,11 @@ function clipPolygonHalfPlane(
 
 function dedupeConsecutive(points: p5.Vector[], eps = 1e-7): p5.Vector[] {
   if (points.length === 0) return points;
-  const out: p5.Vector[] = [points[0]!.copy()];
+  const out: p5.Vector[] = [createVector(points[0]!.x, points[0]!.y)];
   for (let i = 1; i < points.length; i++) {
     const p = points[i]!;
     const q = out[out.length - 1]!;
-    if (Math.hypot(p.x - q.x, p.y - q.y) > eps) out.push(p.copy());
+    if (Math.hypot(p.x - q.x, p.y - q.y) > eps) out.push(createVector(p.x, p.y));
   }
   // also remove closing duplicate if it happens to match start
   if (out.length >= 2) {
@@ -655,15 +706,3 @@ function dedupeConsecutive(points: p5.Vector[], eps = 1e-7): p5.Vector[] {
   }
   return out;
 }
-
-function polygonArea(poly: readonly p5.Vector[]): number {
-  const n = poly.length;
-  if (n < 3) return 0;
-  let sum = 0;
-  for (let i = 0; i < n; i++) {
-    const a = poly[i]!;
-    const b = poly[(i + 1) % n]!;
-    sum += a.x * b.y - b.x * a.y;
-  }
-  return Math.abs(sum) * 0.5;
-}
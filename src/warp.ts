@@ -9,6 +9,7 @@
  * where f is the base function and h is the warping function.
  */
 
+import { ScalarField, type SampleMode } from './scalarField';
 import { SimplexNoise2D, fbm2D } from './simplexCurl';
 
 /**
@@ -16,6 +17,18 @@ import { SimplexNoise2D, fbm2D } from './simplexCurl';
  */
 export type NoiseFunction2D = (x: number, y: number) => number;
 
+/**
+ * A noise function or a sampled ScalarField (evaluated in world coordinates).
+ */
+export type FieldSource2D = NoiseFunction2D | ScalarField;
+
+/**
+ * Resolve a field source to a function of world coordinates.
+ */
+function toNoiseFunction(source: FieldSource2D): NoiseFunction2D {
+  return source instanceof ScalarField ? source.sampler() : source;
+}
+
 /**
  * Configuration for domain warping operations.
  */
@@ -34,8 +47,8 @@ export type WarpConfig = {
  * Apply domain warping to a 2D function.
  * Distorts the input coordinates before evaluating the base function.
  *
- * @param baseFn - Function to evaluate in warped space (e.g., fbm2D)
- * @param warpFn - Function used to distort the domain (e.g., fbm2D)
+ * @param baseFn - Function or ScalarField to evaluate in warped space (e.g., fbm2D)
+ * @param warpFn - Function or ScalarField used to distort the domain (e.g., fbm2D)
  * @param x - X coordinate
  * @param y - Y coordinate
  * @param strength - Warping strength/amplitude (default: 4.0)
@@ -51,21 +64,23 @@ export type WarpConfig = {
  * ```
  */
 export function warp2D(
-  baseFn: NoiseFunction2D,
-  warpFn: NoiseFunction2D,
+  baseFn: FieldSource2D,
+  warpFn: FieldSource2D,
   x: number,
   y: number,
   strength = 4.0,
   levels: 1 | 2 | 3 = 1,
 ): number {
+  const base = toNoiseFunction(baseFn);
+  const warp = toNoiseFunction(warpFn);
   let warpedX = x;
   let warpedY = y;
 
   // Apply multiple levels of warping
   for (let level = 0; level < levels; level++) {
     // Get warping displacement at current position
-    const warpX = warpFn(warpedX, warpedY);
-    const warpY = warpFn(warpedX + 5.2, warpedY + 1.3); // Offset for 2D variation
+    const warpX = warp(warpedX, warpedY);
+    const warpY = warp(warpedX + 5.2, warpedY + 1.3); // Offset for 2D variation
 
     // Apply warping to position
     warpedX = x + strength * warpX;
@@ -73,7 +88,40 @@ export function warp2D(
   }
 
   // Evaluate base function at final warped position
-  return baseFn(warpedX, warpedY);
+  return base(warpedX, warpedY);
+}
+
+/**
+ * Domain-warp a whole ScalarField.
+ * The source is sampled at warped positions, so the result stays on the
+ * source's grid and can be passed straight to marchingSquares.
+ *
+ * @param field - Field to warp
+ * @param warpFn - Function or ScalarField used to distort the domain
+ * @param strength - Warping strength in world units (default: 4.0)
+ * @param levels - Number of warp levels (1-3, default: 1)
+ * @param mode - Interpolation when sampling the source (default: 'bilinear')
+ * @returns New field on the same grid
+ *
+ * @example
+ * ```ts
+ * const noise = new SimplexNoise2D(42);
+ * const field = ScalarField.fromFunction(200, 200, (x, y) => fbm2D(noise, x, y, 0.02));
+ * const warped = warpField(field, (x, y) => fbm2D(noise, x, y, 0.01), 20, 2);
+ * const cells = marchingSquares(warped, 0);
+ * ```
+ */
+export function warpField(
+  field: ScalarField,
+  warpFn: FieldSource2D,
+  strength = 4.0,
+  levels: 1 | 2 | 3 = 1,
+  mode: SampleMode = 'bilinear',
+): ScalarField {
+  const base = field.sampler(mode);
+  return field.map((_, i, j) =>
+    warp2D(base, warpFn, field.worldX(i), field.worldY(j), strength, levels),
+  );
 }
 
 /**
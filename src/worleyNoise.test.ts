@@ -0,0 +1,73 @@
+/**
+ * Tests for Worley noise.
+ * These tests cover: worley and worleyFractal determinism and periodic
+ * (tileable) grids, and WorleyNoiseGenerator periods.
+ */
+import { test, expect, describe } from 'bun:test';
+import './globals'; // This sets up PI and TWO_PI
+
+import { SeededRandom } from './random';
+import { WorleyNoiseGenerator, worley, worleyFractal } from './worleyNoise';
+
+/** Deterministic sample points in [-300, 300) */
+const samples = (count: number): [number, number][] => {
+  const rng = new SeededRandom(17);
+  return Array.from({ length: count }, () => [rng.next() * 600 - 300, rng.next() * 600 - 300]);
+};
+
+describe('worley', () => {
+  test('values are deterministic and normalized', () => {
+    for (const [x, y] of samples(200)) {
+      const v = worley(x, y, { seed: 3 });
+      expect(worley(x, y, { seed: 3 })).toBe(v);
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('unwrapped noise does not repeat with the period', () => {
+    const differs = samples(50).some(([x, y]) => worley(x, y) !== worley(x + 200, y));
+    expect(differs).toBe(true);
+  });
+});
+
+describe('periodic worley', () => {
+  test('wraps in x and y for every value function', () => {
+    for (const valueFunction of ['F1', 'F2', 'F2-F1'] as const) {
+      const config = { scale: 37, periodX: 200, periodY: 150, valueFunction };
+      for (const [x, y] of samples(100)) {
+        const v = worley(x, y, config);
+        expect(worley(x + 200, y, config)).toBeCloseTo(v, 9);
+        expect(worley(x, y - 300, config)).toBeCloseTo(v, 9);
+      }
+    }
+  });
+
+  test('only the configured axis wraps', () => {
+    const config = { scale: 40, periodX: 160 };
+    for (const [x, y] of samples(50)) {
+      expect(worley(x - 160, y, config)).toBeCloseTo(worley(x, y, config), 9);
+    }
+    expect(samples(50).some(([x, y]) => worley(x, y, config) !== worley(x, y + 160, config))).toBe(
+      true,
+    );
+  });
+
+  test('fractal octaves share the period', () => {
+    const config = { scale: 50, periodX: 256, periodY: 256, octaves: 4 };
+    for (const [x, y] of samples(50)) {
+      expect(worleyFractal(x + 256, y + 512, config)).toBeCloseTo(worleyFractal(x, y, config), 9);
+    }
+  });
+
+  test('periods smaller than a cell still tile', () => {
+    const config = { scale: 100, periodX: 30, periodY: 30 };
+    expect(worley(5, 7, config)).toBeCloseTo(worley(35, -23, config), 9);
+  });
+
+  test('generator accepts periods', () => {
+    const generator = new WorleyNoiseGenerator({ seed: new SeededRandom(4), periodX: 120 });
+    expect(generator.getConfig().periodX).toBe(120);
+    expect(generator.get(10, 20)).toBeCloseTo(generator.get(130, 20), 9);
+  });
+});
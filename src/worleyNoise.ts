@@ -16,9 +16,16 @@
  * 3. For any query point, find the nearest feature points
  * 4. Return distance to nearest (F1), second-nearest (F2), or combinations
  *
+ * Setting `periodX` / `periodY` wraps the cell grid so the pattern tiles
+ * seamlessly, e.g. for wallpapers and textures on wrap-around grids.
+ *
  * This implementation uses p5.Vector for vector operations.
  */
 
+import { SeededRandom, toSeed } from './random';
+import { ScalarField, type ScalarFieldConfig } from './scalarField';
+import { createVector } from './vec2';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -53,6 +60,10 @@ export type WorleyConfiguration = {
   readonly invert: boolean;
   /** Normalization range (approximate max distance). Set to null for auto-calculation. */
   readonly normalizationFactor: number | null;
+  /** Distance after which the pattern repeats in x. Set to null for no wrapping. Default: null */
+  readonly periodX: number | null;
+  /** Distance after which the pattern repeats in y. Set to null for no wrapping. Default: null */
+  readonly periodY: number | null;
 };
 
 // ============================================================================
@@ -72,38 +83,16 @@ export const DEFAULT_WORLEY_CONFIG: WorleyConfiguration = {
   gain: 0.5,
   invert: false,
   normalizationFactor: null,
+  periodX: null,
+  periodY: null,
 };
 
 // ============================================================================
 // SEEDED RANDOM NUMBER GENERATOR
 // ============================================================================
 
-/**
- * Simple seeded random number generator for deterministic noise.
- * Uses a linear congruential generator algorithm.
- */
-class WorleyRandom {
-  private state: number;
-
-  constructor(seed: number) {
-    this.state = seed;
-  }
-
-  /** Set the seed value */
-  seed(value: number): void {
-    this.state = value;
-  }
-
-  /** Get next random number in range [0, 1) */
-  next(): number {
-    // Linear congruential generator
-    this.state = (this.state * 1664525 + 1013904223) % 4294967296;
-    return this.state / 4294967296;
-  }
-}
-
-// Module-level random generator
-const worleyRng = new WorleyRandom(12345);
+// Module-level random generator, re-seeded per cell from the cell hash
+const worleyRng = new SeededRandom(DEFAULT_WORLEY_CONFIG.seed);
 
 // ============================================================================
 // CORE WORLEY NOISE FUNCTIONS
@@ -120,11 +109,11 @@ export function worley(x: number, y: number, config: Partial<WorleyConfiguration
   const cfg = { ...DEFAULT_WORLEY_CONFIG, ...config };
 
   // Seed the random number generator for reproducibility
-  worleyRng.seed(cfg.seed);
+  worleyRng.setState(cfg.seed);
 
-  // Scale the input coordinates
-  const scaledX = x / cfg.scale;
-  const scaledY = y / cfg.scale;
+  // Scale the input coordinates (cells stretch to fit a whole number per period)
+  const scaledX = x / periodCellSize(cfg.periodX, cfg.scale);
+  const scaledY = y / periodCellSize(cfg.periodY, cfg.scale);
 
   // Create query point
   const point = createVector(scaledX, scaledY);
@@ -264,9 +253,14 @@ export function getCellFeaturePoints(
 ): readonly p5.Vector[] {
   const points: p5.Vector[] = [];
 
-  // Use cell coordinates to seed randomness (deterministic based on cell position)
-  const cellSeed = hashCellCoordinates(cellX, cellY, config.seed);
-  worleyRng.seed(cellSeed);
+  // Use cell coordinates to seed randomness (deterministic based on cell position);
+  // periodic axes hash the wrapped cell so the last cell's neighbours match the first
+  const cellsX = periodCells(config.periodX, config.scale);
+  const cellsY = periodCells(config.periodY, config.scale);
+  const hashX = cellsX === null ? cellX : ((cellX % cellsX) + cellsX) % cellsX;
+  const hashY = cellsY === null ? cellY : ((cellY % cellsY) + cellsY) % cellsY;
+  const cellSeed = hashCellCoordinates(hashX, hashY, config.seed);
+  worleyRng.setState(cellSeed);
 
   // Generate feature points within this cell
   for (let i = 0; i < config.pointsPerCell; i++) {
@@ -333,6 +327,27 @@ export function hashCellCoordinates(x: number, y: number, baseSeed: number): num
   return Math.abs(h) % 2147483647;
 }
 
+/**
+ * Number of whole cells that tile a period.
+ * @param period - Period in input units, or null for no wrapping
+ * @param scale - Requested cell size in input units
+ * @returns Cell count, or null when the axis does not wrap
+ */
+function periodCells(period: number | null, scale: number): number | null {
+  return period !== null && period > 0 ? Math.max(1, Math.round(period / scale)) : null;
+}
+
+/**
+ * Cell size along one axis, adjusted so a whole number of cells fits the period.
+ * @param period - Period in input units, or null for no wrapping
+ * @param scale - Requested cell size in input units
+ * @returns Cell size in input units
+ */
+function periodCellSize(period: number | null, scale: number): number {
+  const cells = periodCells(period, scale);
+  return cells === null ? scale : period! / cells;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -381,20 +396,53 @@ export function worleyField(
   return field;
 }
 
+/**
+ * Generate a ScalarField of Worley noise sampled at each cell's world position.
+ * With the default placement the values match worleyField.
+ * @param width - Number of columns
+ * @param height - Number of rows
+ * @param config - Configuration object
+ * @param fieldConfig - World placement of the field
+ * @returns Field of noise values
+ *
+ * @example
+ * ```ts
+ * const field = worleyScalarField(200, 200, { cellSize: 40 }, { cellSize: 2 });
+ * const cells = marchingSquares(field, 0.3);
+ * ```
+ */
+export function worleyScalarField(
+  width: number,
+  height: number,
+  config: Partial<WorleyConfiguration> = {},
+  fieldConfig: ScalarFieldConfig = {},
+): ScalarField {
+  const cfg = { ...DEFAULT_WORLEY_CONFIG, ...config };
+  return ScalarField.fromFunction(
+    width,
+    height,
+    (x, y) => (cfg.octaves > 1 ? worleyFractal(x, y, cfg) : worley(x, y, cfg)),
+    fieldConfig,
+  );
+}
+
 /**
  * Worley noise generator class for stateful operations and caching.
  */
 export class WorleyNoiseGenerator {
   private readonly config: WorleyConfiguration;
-  private readonly rng: WorleyRandom;
 
   /**
    * Create a new Worley noise generator.
-   * @param config - Configuration options
+   * @param config - Configuration options; `seed` may also be a SeededRandom
    */
-  constructor(config: Partial<WorleyConfiguration> = {}) {
-    this.config = { ...DEFAULT_WORLEY_CONFIG, ...config };
-    this.rng = new WorleyRandom(this.config.seed);
+  constructor(
+    config: Partial<Omit<WorleyConfiguration, 'seed'>> & {
+      readonly seed?: number | SeededRandom;
+    } = {},
+  ) {
+    const { seed = DEFAULT_WORLEY_CONFIG.seed, ...rest } = config;
+    this.config = { ...DEFAULT_WORLEY_CONFIG, ...rest, seed: toSeed(seed) };
   }
 
   /**
@@ -427,6 +475,17 @@ export class WorleyNoiseGenerator {
     return worleyField(width, height, this.config);
   }
 
+  /**
+   * Generate a ScalarField of noise values.
+   * @param width - Number of columns
+   * @param height - Number of rows
+   * @param fieldConfig - World placement of the field
+   * @returns Field of noise values
+   */
+  toField(width: number, height: number, fieldConfig: ScalarFieldConfig = {}): ScalarField {
+    return worleyScalarField(width, height, this.config, fieldConfig);
+  }
+
   /**
    * Get the current configuration.
    */